@@ -1,3 +1,26 @@
+import {
+  CANCELLATION_REASONS,
+  CancellationQuote,
+  cancelService,
+  createServiceSeries,
+  describeCancellationQuote,
+  describeRecurrence,
+  fetchPendingChangeRequests,
+  fetchServiceSeries,
+  FILL_REQUEST_STATUS,
+  formatRecurrenceRule,
+  ProposedServiceChanges,
+  RECURRENCE_PRESET_LABELS,
+  RECURRENCE_PRESETS,
+  RECURRENCE_WEEKDAY_LABELS,
+  RecurrenceFrequency,
+  RecurrencePreset,
+  RecurrenceRule,
+  SERVICE_STATUS,
+  ServiceRow,
+  ServiceSeriesRow,
+  setServiceSeriesStatus,
+} from '@helpr/core';
 import { useFocusEffect, useIsFocused } from '@react-navigation/native';
 import { router, useLocalSearchParams } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
@@ -6,29 +29,10 @@ import { ActivityIndicator, Image, Modal, Pressable, ScrollView, StyleSheet, Tex
 import { SvgXml } from 'react-native-svg';
 import { useAuth } from '../../context/AuthContext';
 import { useModal } from '../../context/ModalContext';
-import { hasShownSelectProModal, markSelectProModalShown, resetSelectProModalTracker } from '../../lib/selectProModalTracker';
+import { useRealtime, useRealtimeEvents } from '../../context/RealtimeContext';
+import { submitChangeRequest } from '../../lib/changeRequests';
+import { describeQuoteError } from '../../lib/quotes';
 import { supabase } from '../../lib/supabase';
-import { clearViewedCompletedServices, hasViewedCompletedService } from '../../lib/viewedCompletedServices';
-
-type ServiceRow = {
-  service_id: string;
-  customer_id?: string;
-  service_type?: string | null;
-  status?: string | null;
-  scheduling_type?: string | null;
-  scheduled_date_time?: string | null;
-  date_of_creation?: string | null;
-  start_location?: string | null;
-  end_location?: string | null;
-  location?: string | null;
-  price?: number | null;
-  start_datetime?: string | null;
-  end_datetime?: string | null;
-  payment_method_type?: string | null;
-  autofill_type?: string | null;
-  description?: string | null;
-  service_provider_id?: string | null;
-};
 
 type ServiceProviderProfile = {
   service_provider_id: string;
@@ -37,6 +41,14 @@ type ServiceProviderProfile = {
   profile_picture_url: string | null;
 };
 
+const CUSTOM_REPEAT_FREQUENCIES: { freq: RecurrenceFrequency; label: string }[] = [
+  { freq: 'DAILY', label: 'Daily' },
+  { freq: 'WEEKLY', label: 'Weekly' },
+  { freq: 'MONTHLY', label: 'Monthly' },
+];
+
+const MAX_CUSTOM_REPEAT_INTERVAL = 12;
+
 const EDIT_REQUEST_ICON_XML = `
 <svg width="16" height="16" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
   <path d="M3 17.25V21H6.75L17.81 9.94L14.06 6.19L3 17.25Z" fill="#0c4309"/>
@@ -57,6 +69,7 @@ export default function BookedServices() {
   }, [helprFirstNameParam]);
   const serviceIdParam = params.serviceId;
   const temporaryServiceParam = params.temporaryService;
+  const changeRequestParam = params.changeRequest;
   const serviceId = useMemo(() => {
     if (!serviceIdParam) {
       return null;
@@ -96,6 +109,29 @@ export default function BookedServices() {
     }
   }, [initialTemporaryService]);
 
+  // Edits of a job a helpr has accepted; the picker adds the new time before they are sent
+  const initialChangeRequest = useMemo<ProposedServiceChanges | null>(() => {
+    if (!changeRequestParam) {
+      return null;
+    }
+    const param = Array.isArray(changeRequestParam) ? changeRequestParam[0] : changeRequestParam;
+    try {
+      return JSON.parse(decodeURIComponent(param));
+    } catch (error) {
+      console.error('Failed to parse change request:', error);
+      return null;
+    }
+  }, [changeRequestParam]);
+
+  const [pendingChanges, setPendingChanges] = useState<ProposedServiceChanges | null>(initialChangeRequest);
+
+  useEffect(() => {
+    if (initialChangeRequest) {
+      setPendingChanges(initialChangeRequest);
+      overlayInitializedRef.current = false;
+    }
+  }, [initialChangeRequest]);
+
   // Custom date picker state
   const [isPickerVisible, setPickerVisible] = useState(false);
   const [selectedDate, setSelectedDate] = useState(new Date());
@@ -105,22 +141,32 @@ export default function BookedServices() {
   const [selectedService, setSelectedService] = useState<ServiceRow | null>(null);
   const selectedServiceId = selectedService?.service_id ?? null;
   const [fillRequestCounts, setFillRequestCounts] = useState<Record<string, number>>({});
+  const [pendingChangeServiceIds, setPendingChangeServiceIds] = useState<Set<string>>(new Set());
+  const [seriesById, setSeriesById] = useState<Record<string, ServiceSeriesRow>>({});
+  // 'custom' repeats on the rule built in customRecurrence
+  const [repeatPreset, setRepeatPreset] = useState<RecurrencePreset | 'custom' | null>(null);
+  const [customRecurrence, setCustomRecurrence] = useState<RecurrenceRule>({
+    freq: 'WEEKLY',
+    interval: 1,
+    byDay: null,
+    count: null,
+    until: null,
+  });
+  const [preferSameHelpr, setPreferSameHelpr] = useState(true);
   const [providerProfiles, setProviderProfiles] = useState<Record<string, ServiceProviderProfile>>({});
-  const [viewedCompletedServices, setViewedCompletedServices] = useState<Set<string>>(new Set());
+  const { seenFlagsLoaded, hasSeen, markSeen } = useRealtime();
   const initialLoadRef = useRef(true);
-  const pollingRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const previousServiceStatusesRef = useRef<Record<string, string>>({});
 
   useEffect(() => {
     if (overlayInitializedRef.current) {
       return;
     }
 
-    if (showOverlay || draftService) {
+    if (showOverlay || draftService || pendingChanges) {
       setPickerVisible(true);
       overlayInitializedRef.current = true;
     }
-  }, [showOverlay, draftService]);
+  }, [showOverlay, draftService, pendingChanges]);
 
   useEffect(() => {
     if (showConfirmedModal) {
@@ -138,15 +184,18 @@ export default function BookedServices() {
   const days = Array.from({ length: daysInMonth }, (_, i) => i + 1);
   
   // Flexible time slots (30-minute intervals from 8 AM to 8 PM)
-  const timeSlots: string[] = [];
-  for (let hour = 8; hour <= 20; hour++) {
-    for (let minute = 0; minute < 60; minute += 30) {
-      const period = hour < 12 ? 'AM' : 'PM';
-      const displayHour = hour > 12 ? hour - 12 : hour === 0 ? 12 : hour;
-      const timeString = `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
-      timeSlots.push(timeString);
+  const timeSlots = useMemo(() => {
+    const slots: string[] = [];
+    for (let hour = 8; hour <= 20; hour++) {
+      for (let minute = 0; minute < 60; minute += 30) {
+        const period = hour < 12 ? 'AM' : 'PM';
+        const displayHour = hour > 12 ? hour - 12 : hour === 0 ? 12 : hour;
+        const timeString = `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+        slots.push(timeString);
+      }
     }
-  }
+    return slots;
+  }, []);
   
   const [selectedTimeSlot, setSelectedTimeSlot] = useState('9:00 AM');
 
@@ -181,6 +230,30 @@ export default function BookedServices() {
     });
   }, [selectedDate, timeSlots]);
 
+  // A change request starts from the job's current time
+  const changeTimeInitializedRef = useRef(false);
+  useEffect(() => {
+    if (!pendingChanges || changeTimeInitializedRef.current) {
+      return;
+    }
+    const current = services.find(item => item.service_id === serviceId)?.scheduled_date_time;
+    if (!current) {
+      return;
+    }
+    changeTimeInitializedRef.current = true;
+    const currentDate = new Date(current);
+    if (currentDate.getTime() <= Date.now()) {
+      return;
+    }
+    const hour = currentDate.getHours();
+    const minute = currentDate.getMinutes();
+    setSelectedDate(currentDate);
+    if (minute % 30 === 0) {
+      const displayHour = hour > 12 ? hour - 12 : hour === 0 ? 12 : hour;
+      setSelectedTimeSlot(`${displayHour}:${minute.toString().padStart(2, '0')} ${hour < 12 ? 'AM' : 'PM'}`);
+    }
+  }, [pendingChanges, serviceId, services]);
+
   // Update selected time slot when available slots change
   useEffect(() => {
     if (availableTimeSlots.length > 0 && !availableTimeSlots.includes(selectedTimeSlot)) {
@@ -230,6 +303,7 @@ export default function BookedServices() {
         .from('service')
         .select('*')
         .eq('customer_id', customer.customer_id)
+        .neq('status', SERVICE_STATUS.Cancelled)
         .order('date_of_creation', { ascending: false });
 
       if (serviceError) {
@@ -288,7 +362,8 @@ export default function BookedServices() {
           const { data: fillRequests, error: fillRequestError } = await supabase
             .from('service_fill_request')
             .select('service_id')
-            .in('service_id', serviceIds);
+            .in('service_id', serviceIds)
+            .eq('status', FILL_REQUEST_STATUS.Pending);
 
           if (fillRequestError) {
             console.error('Failed to load fill request counts:', fillRequestError);
@@ -304,6 +379,29 @@ export default function BookedServices() {
             });
             setFillRequestCounts(counts);
           }
+
+          try {
+            const pendingChanges = await fetchPendingChangeRequests(supabase, serviceIds);
+            setPendingChangeServiceIds(new Set(pendingChanges.map(change => change.service_id)));
+          } catch (changeError) {
+            console.error('Failed to load change requests:', changeError);
+            setPendingChangeServiceIds(new Set());
+          }
+
+          try {
+            const seriesIds = Array.from(
+              new Set(
+                serviceData
+                  .map(item => (item as ServiceRow)?.series_id)
+                  .filter((id): id is string => Boolean(id)),
+              ),
+            );
+            const seriesRows = await fetchServiceSeries(supabase, seriesIds);
+            setSeriesById(Object.fromEntries(seriesRows.map(row => [row.series_id, row])));
+          } catch (seriesError) {
+            console.error('Failed to load recurring bookings:', seriesError);
+            setSeriesById({});
+          }
         }
       }
     } catch (error) {
@@ -332,93 +430,26 @@ export default function BookedServices() {
     }
   }, [authLoading, fetchServices]);
 
-  useEffect(() => {
-    if (authLoading) {
-      return;
-    }
-
-    if (pollingRef.current) {
-      clearInterval(pollingRef.current);
-      pollingRef.current = null;
-    }
-
-    pollingRef.current = setInterval(() => {
-      fetchServices();
-    }, 5000);
-
-    return () => {
-      if (pollingRef.current) {
-        clearInterval(pollingRef.current);
-        pollingRef.current = null;
-      }
-    };
-  }, [authLoading, fetchServices]);
-
-  useEffect(() => {
-    if (!user) {
-      resetSelectProModalTracker();
-      clearViewedCompletedServices();
-      previousServiceStatusesRef.current = {};
-      setViewedCompletedServices(new Set());
-    }
-  }, [user]);
-
-  // Update viewed completed services state periodically
-  useEffect(() => {
-    const updateViewedServices = () => {
-      const updatedViewed = new Set<string>();
-      services.forEach(service => {
-        if (service.status?.toLowerCase() === 'completed' && hasViewedCompletedService(service.service_id)) {
-          updatedViewed.add(service.service_id);
-        }
-      });
-      setViewedCompletedServices(updatedViewed);
-    };
-
-    updateViewedServices();
-  }, [services]);
-
-  useEffect(() => {
-    if (!isFocused) {
-      return;
-    }
-
-    const previous = previousServiceStatusesRef.current;
-    const next: Record<string, string> = {};
-
-    services.forEach(service => {
-      if (!service?.service_id) {
-        return;
-      }
-
-      const normalizedStatus = (service.status ?? '').toLowerCase();
-      next[service.service_id] = normalizedStatus;
-
-      const priorStatus = previous[service.service_id];
-      const alreadyShown = hasShownSelectProModal(service.service_id);
-
-      if (
-        priorStatus === 'finding_pros' &&
-        normalizedStatus === 'select_service_provider' &&
-        !alreadyShown
-      ) {
-        markSelectProModalShown(service.service_id);
-        showModal({
-          title: 'Select a Pro',
-          message: 'Workers are available to fill your request! Select a pro when you\'re ready.',
-          buttons: [
-            {
-              text: 'Close',
-            },
-          ],
-        });
-      }
+  // Refetch when one of the customer's services or its bids change
+  useRealtimeEvents(event => {
+    if (authLoading) return;
+    fetchServices();
+
+    if (!isFocused || event.type !== 'service') return;
+    if (event.previousStatus !== SERVICE_STATUS.FindingPros || event.status !== SERVICE_STATUS.SelectServiceProvider) return;
+    if (!seenFlagsLoaded || hasSeen('select_pro_modal', event.service.service_id)) return;
+
+    markSeen('select_pro_modal', event.service.service_id);
+    showModal({
+      title: 'Select a Pro',
+      message: 'Workers are available to fill your request! Select a pro when you\'re ready.',
+      buttons: [
+        {
+          text: 'Close',
+        },
+      ],
     });
-
-    previousServiceStatusesRef.current = next;
-  }, [isFocused, services, showModal]);
-
-
+  });
 
   const formatServiceType = useCallback((serviceType?: string | null) => {
     if (!serviceType) {
@@ -503,7 +534,7 @@ export default function BookedServices() {
 
       // Include completed services only if they haven't been viewed yet
       if (status === 'completed') {
-        return !viewedCompletedServices.has(service.service_id);
+        return seenFlagsLoaded && !hasSeen('completed_service', service.service_id);
       }
 
       if (!type) {
@@ -553,7 +584,7 @@ export default function BookedServices() {
 
       return aTime - bTime;
     });
-  }, [services, viewedCompletedServices]);
+  }, [services, seenFlagsLoaded, hasSeen]);
 
   const asapServices = useMemo(
     () => confirmedServices.filter(service => (service.scheduling_type ?? '').toLowerCase() === 'asap'),
@@ -619,8 +650,18 @@ export default function BookedServices() {
     const fillRequestCount = fillRequestCounts[service.service_id] || 0;
     const showFindingProsPill = isFindingPros || (fillRequestCount > 0 && !isAssigned);
     const hasAssignedProvider = Boolean(service.service_provider_id);
-    const assignedSubtitle = isCompleted ? 'Completed' : isHelprOtw ? 'On the Way' : isInProgress ? 'In Progress' : 'Job Confirmed';
-
+    const hasPendingChange = pendingChangeServiceIds.has(service.service_id);
+    const assignedSubtitle = isCompleted
+      ? 'Completed'
+      : hasPendingChange
+        ? 'Changes Awaiting Helpr'
+        : isHelprOtw ? 'On the Way' : isInProgress ? 'In Progress' : 'Job Confirmed';
+    const series = service.series_id ? seriesById[service.series_id] : undefined;
+    const seriesLabel = series
+      ? series.status === 'paused'
+        ? 'Repeats paused · Tap to resume'
+        : series.status === 'ended' ? 'Last visit in series' : describeRecurrence(series.rrule)
+      : null;
 
 
     return (
@@ -641,6 +682,19 @@ export default function BookedServices() {
                 </Text>
               </View>
             </View>
+            {series && seriesLabel ? (
+              <Pressable
+                onPress={(event) => {
+                  event.stopPropagation();
+                  if (series.status === 'paused') {
+                    handleSeriesStatusChange(series, 'active');
+                  }
+                }}
+                disabled={series.status !== 'paused'}
+              >
+                <Text style={styles.seriesLabel} numberOfLines={1}>{seriesLabel}</Text>
+              </Pressable>
+            ) : null}
             {fillRequestCount > 0 && !isAssigned ? (
               <Pressable
                 style={[styles.serviceStatusPill, styles.selectProStatusPill]}
@@ -719,6 +773,11 @@ export default function BookedServices() {
               >
                 <Text style={styles.showDetailsButtonText}>Details</Text>
               </Pressable>
+              {(isConfirmed || isHelprOtw) && (
+                <Pressable style={styles.serviceCancelButton} onPress={() => handleCancelService(service)}>
+                  <Text style={styles.serviceCancelButtonText}>Cancel</Text>
+                </Pressable>
+              )}
             </View>
           ) : (
             <View style={styles.priceColumn}>
@@ -736,33 +795,72 @@ export default function BookedServices() {
     );
   };
 
-  const cancelService = useCallback(
-    async (serviceIdToCancel: string) => {
-      try {
-        const { error: requestError } = await supabase
-          .from('service_fill_request')
-          .delete()
-          .eq('service_id', serviceIdToCancel);
+  const promptCancellation = useCallback(
+    (service: ServiceRow, quote: CancellationQuote, title: string) => {
+      const submitCancellation = async (reason: string) => {
+        const result = await cancelService(supabase, {
+          serviceId: service.service_id,
+          reason,
+          expectedFee: quote.fee,
+        });
 
-        if (requestError) {
-          throw requestError;
+        if (result.status === 'fee_changed') {
+          promptCancellation(service, result.quote, 'Cancellation Fee Updated');
+          return;
         }
 
-        const { error } = await supabase
-          .from('service')
-          .delete()
-          .eq('service_id', serviceIdToCancel);
-
-        if (error) {
-          throw error;
+        if (result.status !== 'cancelled') {
+          showModal({
+            title: 'Unable to cancel',
+            message: result.status === 'failed' ? result.message : 'Please try again in a moment.',
+          });
+          return;
         }
 
         await fetchServices();
+        showModal({
+          title: 'Service Cancelled',
+          message: result.quote.fee > 0
+            ? `A $${result.quote.fee.toFixed(2)} cancellation fee was charged. The remaining $${result.quote.refund.toFixed(2)} has been returned to your card.`
+            : 'Your service has been cancelled.',
+        });
+      };
+
+      // Each reason doubles as the confirm button
+      showModal({
+        title,
+        message: `${describeCancellationQuote(quote)}\n\nWhy are you cancelling?`,
+        allowBackdropDismiss: false,
+        buttons: [
+          ...CANCELLATION_REASONS.customer.map(reason => ({
+            text: reason,
+            style: 'destructive' as const,
+            fullWidth: true,
+            onPress: () => submitCancellation(reason),
+          })),
+          { text: 'Keep My Service', style: 'cancel', fullWidth: true },
+        ],
+      });
+    },
+    [fetchServices, showModal],
+  );
+
+  const handleSeriesStatusChange = useCallback(
+    async (series: ServiceSeriesRow, status: 'active' | 'paused') => {
+      try {
+        await setServiceSeriesStatus(supabase, series.series_id, status);
+        await fetchServices();
+        showModal({
+          title: status === 'paused' ? 'Repeats Paused' : 'Repeats Resumed',
+          message: status === 'paused'
+            ? 'No new visits will be booked until you resume. Visits already booked are unchanged.'
+            : `Visits will be booked again ${describeRecurrence(series.rrule).toLowerCase()}.`,
+        });
       } catch (error) {
-        console.error('Failed to delete service:', error);
+        console.error('Failed to update recurring booking:', error);
         showModal({
-          title: 'Delete failed',
-          message: 'Unable to delete this service right now.',
+          title: 'Unable to update',
+          message: 'We could not update your recurring booking. Please try again.',
         });
       }
     },
@@ -770,21 +868,51 @@ export default function BookedServices() {
   );
 
   const handleCancelService = useCallback(
-    (service: ServiceRow) => {
-      showModal({
-        title: 'Cancel Request?',
-        message: 'This will permanently remove the service from your account.',
-        buttons: [
-          { text: 'Keep My Service', style: 'cancel' },
-          {
-            text: 'Cancel service',
-            style: 'destructive',
-            onPress: () => cancelService(service.service_id),
-          },
-        ],
-      });
+    async (service: ServiceRow, skipSeriesPrompt = false) => {
+      const series = service.series_id ? seriesById[service.series_id] : undefined;
+
+      // A visit in an active series can be skipped on its own or the whole series paused
+      if (series?.status === 'active' && !skipSeriesPrompt) {
+        showModal({
+          title: 'Cancel Recurring Visit?',
+          message: `This visit is part of a series that repeats ${describeRecurrence(series.rrule).toLowerCase()}.`,
+          buttons: [
+            {
+              text: 'Skip This Visit',
+              style: 'destructive',
+              fullWidth: true,
+              onPress: () => handleCancelService(service, true),
+            },
+            {
+              text: 'Pause All Visits',
+              style: 'destructive',
+              fullWidth: true,
+              onPress: () => handleSeriesStatusChange(series, 'paused'),
+            },
+            { text: 'Keep My Service', style: 'cancel', fullWidth: true },
+          ],
+        });
+        return;
+      }
+
+      // The quote comes from the server so the fee shown is the fee charged
+      const result = await cancelService(supabase, { serviceId: service.service_id, preview: true });
+
+      if (result.status !== 'quote') {
+        showModal({
+          title: 'Unable to cancel',
+          message: result.status === 'failed' ? result.message : 'Please try again in a moment.',
+        });
+        return;
+      }
+
+      promptCancellation(
+        service,
+        result.quote,
+        result.quote.fee > 0 ? `Cancel for $${result.quote.fee.toFixed(2)}?` : 'Cancel Request?',
+      );
     },
-    [cancelService, showModal],
+    [handleSeriesStatusChange, promptCancellation, seriesById, showModal],
   );
 
   const handleEditRequest = useCallback((service: ServiceRow) => {
@@ -820,6 +948,7 @@ export default function BookedServices() {
         scheduling_type: service.scheduling_type,
         scheduled_date_time: service.scheduled_date_time,
         description: service.description,
+        service_provider_id: service.service_provider_id,
       };
 
       router.push({
@@ -914,7 +1043,7 @@ export default function BookedServices() {
         console.error('Failed to create service:', error);
         showModal({
           title: 'Scheduling failed',
-          message: 'Unable to save your service. Please try again.',
+          message: describeQuoteError(error) ?? 'Unable to save your service. Please try again.',
         });
         return;
       }
@@ -939,6 +1068,44 @@ export default function BookedServices() {
     }
   }, [draftService, fetchServices, selectedService, showModal, updateServiceRow]);
 
+  // `scheduledDateTime` is null when the customer keeps the current time
+  const sendChangeRequest = useCallback(async (scheduledDateTime: string | null) => {
+    if (!pendingChanges || !serviceId) {
+      return;
+    }
+
+    const current = services.find(item => item.service_id === serviceId)?.scheduled_date_time;
+    const timeChanged = Boolean(scheduledDateTime)
+      && (!current || new Date(current).getTime() !== new Date(scheduledDateTime as string).getTime());
+    const changeError = await submitChangeRequest(serviceId, {
+      ...pendingChanges,
+      scheduledDateTime: timeChanged ? scheduledDateTime : null,
+    });
+
+    if (changeError) {
+      showModal({ title: 'Changes not sent', message: changeError });
+      return;
+    }
+
+    setPendingChanges(null);
+    overlayInitializedRef.current = true;
+    setPickerVisible(false);
+    await fetchServices();
+    showModal({ title: 'Changes sent', message: 'Your Helpr will review your changes. Your booking stays as it is until they approve.' });
+    router.replace({
+      pathname: '/(booking-flow)/booked-services' as any,
+      params: { serviceId },
+    });
+  }, [fetchServices, pendingChanges, serviceId, services, showModal]);
+
+  const toggleCustomWeekday = useCallback((day: number) => {
+    setCustomRecurrence(prev => {
+      const days = prev.byDay ?? [];
+      const next = days.includes(day) ? days.filter(item => item !== day) : [...days, day].sort((a, b) => a - b);
+      return { ...prev, byDay: next.length > 0 ? next : null };
+    });
+  }, []);
+
   const handleConfirm = useCallback(async () => {
   const targetService = selectedService || draftService;
     
@@ -978,6 +1145,11 @@ export default function BookedServices() {
       return;
     }
 
+    if (pendingChanges) {
+      await sendChangeRequest(finalDateTime.toISOString());
+      return;
+    }
+
     // If this is a temporary service, create it in the database first
     if (draftService && targetService.service_id === draftService.service_id) {
       const { error } = await supabase.from('service').insert(draftService);
@@ -985,7 +1157,7 @@ export default function BookedServices() {
         console.error('Failed to create service:', error);
         showModal({
           title: 'Scheduling failed',
-          message: 'Unable to save your service. Please try again.',
+          message: describeQuoteError(error) ?? 'Unable to save your service. Please try again.',
         });
         return;
       }
@@ -996,7 +1168,26 @@ export default function BookedServices() {
       scheduled_date_time: finalDateTime.toISOString(),
     }, targetService.service_id);
 
+    if (success && repeatPreset) {
+      try {
+        await createServiceSeries(supabase, {
+          serviceId: targetService.service_id,
+          rrule: repeatPreset === 'custom' ? formatRecurrenceRule(customRecurrence) : RECURRENCE_PRESETS[repeatPreset],
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          preferSameProvider: preferSameHelpr,
+        });
+      } catch (error) {
+        // The first visit is booked either way; only the repeats are missing
+        console.error('Failed to create recurring booking:', error);
+        showModal({
+          title: 'Repeats not set up',
+          message: 'Your first visit is booked, but we could not set it to repeat. Please try again later.',
+        });
+      }
+    }
+
     if (success) {
+      setRepeatPreset(null);
       await fetchServices();
       setDraftService(null);
       overlayInitializedRef.current = true;
@@ -1008,7 +1199,7 @@ export default function BookedServices() {
         params: { serviceId: serviceIdForRouting },
       });
     }
-  }, [draftService, fetchServices, selectedDate, selectedTimeSlot, selectedService, showModal, updateServiceRow]);
+  }, [customRecurrence, draftService, fetchServices, pendingChanges, preferSameHelpr, repeatPreset, selectedDate, selectedTimeSlot, selectedService, sendChangeRequest, showModal, updateServiceRow]);
 
   return (
     <View style={styles.container}>
@@ -1271,6 +1462,107 @@ export default function BookedServices() {
               </View>
             )}
 
+            {/* Repeat Selection */}
+            {availableTimeSlots.length > 0 && !pendingChanges && (
+              <View style={styles.repeatSection}>
+                <Text style={styles.repeatTitle}>Repeat</Text>
+                <View style={styles.repeatOptionsRow}>
+                  {([null, ...(Object.keys(RECURRENCE_PRESETS) as RecurrencePreset[]), 'custom'] as const).map(preset => {
+                    const isSelected = repeatPreset === preset;
+                    return (
+                      <Pressable
+                        key={preset ?? 'once'}
+                        style={[styles.repeatOption, isSelected ? styles.repeatOptionSelected : null]}
+                        onPress={() => setRepeatPreset(preset)}
+                      >
+                        <Text style={[styles.repeatOptionText, isSelected ? styles.repeatOptionTextSelected : null]}>
+                          {preset === 'custom' ? 'Custom' : preset ? RECURRENCE_PRESET_LABELS[preset] : 'Once'}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+                {repeatPreset === 'custom' ? (
+                  <View style={styles.customRepeat}>
+                    <View style={styles.repeatOptionsRow}>
+                      {CUSTOM_REPEAT_FREQUENCIES.map(({ freq, label }) => {
+                        const isSelected = customRecurrence.freq === freq;
+                        return (
+                          <Pressable
+                            key={freq}
+                            style={[styles.repeatOption, isSelected ? styles.repeatOptionSelected : null]}
+                            onPress={() => setCustomRecurrence(prev => ({
+                              ...prev,
+                              freq,
+                              byDay: freq === 'WEEKLY' ? prev.byDay : null,
+                            }))}
+                          >
+                            <Text style={[styles.repeatOptionText, isSelected ? styles.repeatOptionTextSelected : null]}>
+                              {label}
+                            </Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                    <View style={styles.customIntervalRow}>
+                      <Pressable
+                        style={styles.repeatOption}
+                        disabled={customRecurrence.interval <= 1}
+                        onPress={() => setCustomRecurrence(prev => ({ ...prev, interval: Math.max(1, prev.interval - 1) }))}
+                      >
+                        <Text style={styles.repeatOptionText}>−</Text>
+                      </Pressable>
+                      <Text style={styles.customRepeatSummary}>
+                        {describeRecurrence(formatRecurrenceRule(customRecurrence))}
+                      </Text>
+                      <Pressable
+                        style={styles.repeatOption}
+                        disabled={customRecurrence.interval >= MAX_CUSTOM_REPEAT_INTERVAL}
+                        onPress={() => setCustomRecurrence(prev => ({
+                          ...prev,
+                          interval: Math.min(MAX_CUSTOM_REPEAT_INTERVAL, prev.interval + 1),
+                        }))}
+                      >
+                        <Text style={styles.repeatOptionText}>+</Text>
+                      </Pressable>
+                    </View>
+                    {customRecurrence.freq === 'WEEKLY' ? (
+                      <View style={styles.repeatOptionsRow}>
+                        {RECURRENCE_WEEKDAY_LABELS.map((label, day) => {
+                          const isSelected = customRecurrence.byDay?.includes(day) ?? false;
+                          return (
+                            <Pressable
+                              key={label}
+                              style={[styles.repeatOption, isSelected ? styles.repeatOptionSelected : null]}
+                              onPress={() => toggleCustomWeekday(day)}
+                            >
+                              <Text style={[styles.repeatOptionText, isSelected ? styles.repeatOptionTextSelected : null]}>
+                                {label}
+                              </Text>
+                            </Pressable>
+                          );
+                        })}
+                      </View>
+                    ) : null}
+                  </View>
+                ) : null}
+                {repeatPreset ? (
+                  <Pressable style={styles.sameHelprRow} onPress={() => setPreferSameHelpr(prev => !prev)}>
+                    <View style={[styles.sameHelprCheckbox, preferSameHelpr ? styles.sameHelprCheckboxChecked : null]}>
+                      {preferSameHelpr ? <Text style={styles.sameHelprCheckmark}>✓</Text> : null}
+                    </View>
+                    <Text style={styles.sameHelprText}>Offer each visit to my last Helpr first</Text>
+                  </Pressable>
+                ) : null}
+              </View>
+            )}
+
+            {pendingChanges ? (
+              <Pressable style={styles.keepTimeButton} onPress={() => sendChangeRequest(null)}>
+                <Text style={styles.keepTimeText}>Keep the current time</Text>
+              </Pressable>
+            ) : null}
+
             {/* Cancel and Confirm Buttons */}
             <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
               <Pressable 
@@ -1704,6 +1996,95 @@ const styles = StyleSheet.create({
     color: '#0c4309',
     textAlign: 'center',
   },
+  keepTimeButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginBottom: 10,
+  },
+  keepTimeText: {
+    color: '#0c4309',
+    fontSize: 15,
+    fontWeight: '600',
+    textDecorationLine: 'underline',
+  },
+  repeatSection: {
+    marginBottom: 20,
+  },
+  repeatTitle: {
+    fontSize: 16,
+    marginBottom: 10,
+    fontWeight: 'bold',
+    color: '#0c4309',
+    textAlign: 'center',
+  },
+  repeatOptionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  repeatOption: {
+    backgroundColor: '#E5DCC9',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  repeatOptionSelected: {
+    backgroundColor: '#0c4309',
+  },
+  repeatOptionText: {
+    color: '#0c4309',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  repeatOptionTextSelected: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  customRepeat: {
+    marginTop: 10,
+    gap: 8,
+  },
+  customIntervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  customRepeatSummary: {
+    flex: 1,
+    color: '#0c4309',
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  sameHelprRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 10,
+  },
+  sameHelprCheckbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: '#0c4309',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  sameHelprCheckboxChecked: {
+    backgroundColor: '#0c4309',
+  },
+  sameHelprCheckmark: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  sameHelprText: {
+    color: '#0c4309',
+    fontSize: 14,
+  },
   popupMessage: {
     fontSize: 16,
     color: '#49454F',
@@ -2032,6 +2413,12 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginTop: 2,
   },
+  seriesLabel: {
+    color: '#0c4309',
+    fontSize: 11,
+    fontWeight: '600',
+    marginTop: 4,
+  },
   confirmedPriceLabel: {
     color: '#0c4309',
     fontSize: 16,
@@ -1,3 +1,4 @@
+import { fetchCompletedServices, fetchCustomerIdByEmail, ServiceRow } from '@helpr/core';
 import { useFocusEffect } from '@react-navigation/native';
 import { useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
@@ -6,22 +7,6 @@ import { ActivityIndicator, Image, Pressable, ScrollView, StyleSheet, Text, View
 import { useAuth } from '../../context/AuthContext';
 import { supabase } from '../../lib/supabase';
 
-type ServiceRow = {
-  service_id: string;
-  customer_id?: string;
-  service_type?: string | null;
-  status?: string | null;
-  scheduling_type?: string | null;
-  scheduled_date_time?: string | null;
-  date_of_creation?: string | null;
-  start_location?: string | null;
-  end_location?: string | null;
-  location?: string | null;
-  price?: number | null;
-  description?: string | null;
-  autofill_type?: string | null;
-};
-
 export default function PastServices() {
   const router = useRouter();
   const { user, loading: authLoading } = useAuth();
@@ -43,25 +28,14 @@ export default function PastServices() {
     setServicesError(null);
 
     try {
-      const { data: customer } = await supabase
-        .from('customer')
-        .select('customer_id')
-        .eq('email', user.email)
-        .maybeSingle();
+      const customerId = await fetchCustomerIdByEmail(supabase, user.email);
 
-      if (!customer) {
+      if (!customerId) {
         setServices([]);
         return;
       }
 
-      const { data: serviceData } = await supabase
-        .from('service')
-        .select('*')
-        .eq('customer_id', customer.customer_id)
-        .eq('status', 'completed')
-        .order('date_of_creation', { ascending: false });
-
-      setServices(serviceData ?? []);
+      setServices(await fetchCompletedServices(supabase, { customerId }));
     } catch (error) {
       setServicesError('Unable to load your past services.');
     } finally {
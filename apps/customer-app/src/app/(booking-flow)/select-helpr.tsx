@@ -1,8 +1,23 @@
+import {
+  BidNegotiation,
+  buildPriceBreakdown,
+  confirmBooking,
+  counterBidOffer,
+  DEFAULT_FEE_SCHEDULE,
+  describeBidHistory,
+  describeBidOfferError,
+  FeeSchedule,
+  fetchBidOffers,
+  fetchFeeSchedule,
+  FILL_REQUEST_STATUS,
+  resolveFeeRates,
+  summarizeBidNegotiation,
+} from '@helpr/core';
 import { useStripe } from '@stripe/stripe-react-native';
 import { router, useLocalSearchParams } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { ActivityIndicator, Image, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { ActivityIndicator, Image, Modal, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
 import { PaymentMethodModal } from '../../components/common/PaymentMethodModal';
 import { PaymentSummaryModal } from '../../components/services/PaymentSummaryModal';
 import type { ProviderSummary } from '../../components/services/PaymentSummaryModal/types';
@@ -32,8 +47,10 @@ type ProviderRequestDisplay = {
   fullName: string;
   firstName: string;
   initials: string;
+  // The price this helpr can be booked at; while a counter is pending, the counter
   bid: number;
   bidLabel: string;
+  negotiation: BidNegotiation;
   email: string | null;
   profileImageUrl: string | null;
   rating: number | null;
@@ -144,9 +161,9 @@ const SelectHelpr = () => {
   const [loading, setLoading] = useState(true);
   const [requests, setRequests] = useState<ProviderRequestDisplay[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const [selectingProviderId, setSelectingProviderId] = useState<string | null>(null);
   const [serviceSchedulingType, setServiceSchedulingType] = useState<string | null>(null);
   const [serviceName, setServiceName] = useState<string | null>(null);
+  const [feeSchedule, setFeeSchedule] = useState<FeeSchedule>(DEFAULT_FEE_SCHEDULE);
   const { showModal } = useModal();
   const { user } = useAuth();
   const { confirmPayment } = useStripe();
@@ -159,6 +176,11 @@ const SelectHelpr = () => {
   const [loadingPaymentMethods, setLoadingPaymentMethods] = useState(false);
   const [confirming, setConfirming] = useState(false);
 
+  // Counter-offer modal state
+  const [counterRequest, setCounterRequest] = useState<ProviderRequestDisplay | null>(null);
+  const [counterInput, setCounterInput] = useState('');
+  const [submittingCounter, setSubmittingCounter] = useState(false);
+
   // Payment Method Modal state (for adding new cards)
   const [showAddPaymentModal, setShowAddPaymentModal] = useState(false);
   const [cardComplete, setCardComplete] = useState(false);
@@ -169,32 +191,30 @@ const SelectHelpr = () => {
     expiryYear: number | null;
   } | null>(null);
   const [savingPaymentMethod, setSavingPaymentMethod] = useState(false);
-  const [customerId, setCustomerId] = useState<string | null>(null);
   const { createPaymentMethod } = useStripe();
 
   const isAsapService = useMemo(() => (serviceSchedulingType ?? '').toLowerCase() === 'asap', [serviceSchedulingType]);
 
-  // Fetch customer_id from customer table
+  // The fee schedule in force; confirm-booking charges with the same one
   useEffect(() => {
-    if (!user?.email) return;
-    
     let cancelled = false;
-    (async () => {
-      try {
-        const { data } = await supabase
-          .from('customer')
-          .select('customer_id')
-          .eq('email', user.email)
-          .maybeSingle();
-        if (!cancelled && data?.customer_id) {
-          setCustomerId(data.customer_id);
-        }
-      } catch (err) {
-        console.error('Failed to fetch customer_id:', err);
-      }
-    })();
+    fetchFeeSchedule(supabase)
+      .then(schedule => {
+        if (!cancelled) setFeeSchedule(schedule);
+      })
+      .catch(err => console.error('Failed to load fee schedule:', err));
     return () => { cancelled = true; };
-  }, [user?.email]);
+  }, []);
+
+  // Shown in the payment summary and charged on confirm, so both always agree
+  const selectedBreakdown = useMemo(
+    () => buildPriceBreakdown({
+      subtotal: selectedRequest?.bid ?? 0,
+      items: [{ kind: 'base', label: "Helpr's Bid", amount: selectedRequest?.bid ?? 0 }],
+      fees: resolveFeeRates(feeSchedule, { serviceType: serviceName }),
+    }),
+    [selectedRequest?.bid, feeSchedule, serviceName],
+  );
 
   const fetchRequests = useCallback(async () => {
     if (!serviceId) {
@@ -210,7 +230,10 @@ const SelectHelpr = () => {
       const fillPromise = supabase
         .from('service_fill_request')
         .select('service_provider_id, bid, proposed_date_time')
-        .eq('service_id', serviceId);
+        .eq('service_id', serviceId)
+        .eq('status', FILL_REQUEST_STATUS.Pending);
+
+      const offersPromise = fetchBidOffers(supabase, [serviceId]);
 
       const servicePromise = supabase
         .from('service')
@@ -218,9 +241,10 @@ const SelectHelpr = () => {
         .eq('service_id', serviceId)
         .maybeSingle();
 
-      const [{ data: fillRows, error: fillError }, { data: serviceRow, error: serviceError }] = await Promise.all([
+      const [{ data: fillRows, error: fillError }, { data: serviceRow, error: serviceError }, offers] = await Promise.all([
         fillPromise,
         servicePromise,
+        offersPromise,
       ]);
 
       if (serviceError) {
@@ -275,7 +299,12 @@ const SelectHelpr = () => {
           const lastName = provider?.last_name?.trim() ?? '';
           const fullName = [firstName, lastName].filter(Boolean).join(' ').trim() || 'Unnamed Helpr';
           const initials = `${firstName.charAt(0) ?? ''}${lastName.charAt(0) ?? ''}`.toUpperCase() || 'H';
-          const bid = parseBid(row.bid);
+          const negotiation = summarizeBidNegotiation(
+            offers.filter(offer => offer.service_provider_id === row.service_provider_id),
+            parseBid(row.bid),
+          );
+          const bid = negotiation.bookablePrice
+            ?? Number(negotiation.pendingCounter?.amount ?? negotiation.latest?.amount ?? parseBid(row.bid));
           const proposedDateTimeLabel = formatProposedDateTime(row.proposed_date_time ?? null);
           const proposedDateTimeBanner = formatProposedDateTimeForBanner(row.proposed_date_time ?? null);
           const profileImageUrl = provider?.profile_picture_url ?? null;
@@ -295,6 +324,7 @@ const SelectHelpr = () => {
             initials,
             bid,
             bidLabel: formatPrice(bid),
+            negotiation,
             email: provider?.email ?? null,
             profileImageUrl,
             rating,
@@ -347,6 +377,51 @@ const SelectHelpr = () => {
     await loadUserPaymentMethods();
   }, [loadUserPaymentMethods]);
 
+  const openCounterModal = useCallback((request: ProviderRequestDisplay) => {
+    setCounterInput(Math.round(request.bid).toString());
+    setCounterRequest(request);
+  }, []);
+
+  // Counters go to the helpr, who can accept or counter back until the offer expires
+  const handleSubmitCounter = useCallback(async () => {
+    if (!counterRequest || !serviceId || submittingCounter) return;
+
+    const amount = Number(counterInput.replace(/[^0-9.]/g, ''));
+    if (!Number.isFinite(amount) || amount <= 0) {
+      showModal({
+        title: 'Invalid offer',
+        message: 'Enter a valid dollar amount.',
+      });
+      return;
+    }
+
+    setSubmittingCounter(true);
+    try {
+      const offer = await counterBidOffer(supabase, {
+        serviceId,
+        serviceProviderId: counterRequest.service_provider_id,
+        amount,
+      });
+      setCounterRequest(null);
+      await fetchRequests();
+      const expiresLabel = formatProposedDateTimeForBanner(offer.expires_at ?? null);
+      showModal({
+        title: 'Offer Sent',
+        message: expiresLabel
+          ? `${counterRequest.firstName} can accept or counter until ${expiresLabel}.`
+          : `${counterRequest.firstName} can accept or counter your offer.`,
+      });
+    } catch (err) {
+      console.error('Failed to send counter-offer:', err);
+      showModal({
+        title: 'Unable to send offer',
+        message: describeBidOfferError(err as { message?: string }) ?? 'Please try again in a moment.',
+      });
+    } finally {
+      setSubmittingCounter(false);
+    }
+  }, [counterInput, counterRequest, fetchRequests, serviceId, showModal, submittingCounter]);
+
   // Handle selecting a payment method
   const handleSelectPaymentMethod = useCallback((methodId: string) => {
     setActivePaymentMethodId(methodId);
@@ -407,7 +482,8 @@ const SelectHelpr = () => {
     }
   }, [cardComplete, user?.id, savingPaymentMethod, createPaymentMethod, cardDetailsSnapshot, showModal]);
 
-  // Handle confirming the booking with payment
+  // Handle confirming the booking with payment. The confirm-booking function charges the
+  // card and assigns the helpr together; the app only handles 3-D Secure and shows the result.
   const handleConfirmBooking = useCallback(async () => {
     if (!selectedRequest || !serviceId || !activePaymentMethodId || !user?.id) return;
 
@@ -421,84 +497,19 @@ const SelectHelpr = () => {
           title: 'Payment Error',
           message: 'Selected payment method not found.',
         });
-        setConfirming(false);
-        return;
-      }
-
-      // Ensure we have customer_id
-      let resolvedCustomerId = customerId;
-      if (!resolvedCustomerId) {
-        const { data } = await supabase
-          .from('customer')
-          .select('customer_id')
-          .eq('email', user.email)
-          .maybeSingle();
-        resolvedCustomerId = data?.customer_id ?? null;
-      }
-
-      if (!resolvedCustomerId) {
-        showModal({
-          title: 'Account Error',
-          message: 'Unable to find your customer account. Please try again.',
-        });
-        setConfirming(false);
         return;
       }
 
-      // Calculate total (base price + 3% processing fee + 1% platform fee)
-      const basePrice = selectedRequest.bid;
-      const processingFee = Math.round(basePrice * 0.03 * 100) / 100; // 3%
-      const platformFee = Math.round(basePrice * 0.01 * 100) / 100; // 1%
-      const totalAmount = Math.round((basePrice + processingFee + platformFee) * 100) / 100;
-
-      // Create payment intent on server
-      console.log('Creating payment intent with:', {
-        amount: Math.round(totalAmount * 100),
-        currency: 'usd',
-        payment_method_id: paymentMethod.stripePaymentMethodId,
-        service_id: serviceId,
-        customer_id: resolvedCustomerId,
-      });
-
-      const { data: paymentIntentData, error: piError } = await supabase.functions.invoke('create-payment-intent', {
-        body: {
-          amount: Math.round(totalAmount * 100), // Convert to cents
-          currency: 'usd',
-          payment_method_id: paymentMethod.stripePaymentMethodId,
-          service_id: serviceId,
-          customer_id: resolvedCustomerId,
-        },
-      });
-
-      console.log('Payment intent response:', JSON.stringify(paymentIntentData, null, 2));
-      console.log('Payment intent error:', piError);
+      const request = {
+        serviceId,
+        serviceProviderId: selectedRequest.service_provider_id,
+        paymentMethodId: paymentMethod.stripePaymentMethodId,
+      };
 
-      if (piError) {
-        console.error('Payment intent error:', piError);
-        showModal({
-          title: 'Payment Failed',
-          message: piError.message || 'Unable to process payment. Please try again.',
-        });
-        return;
-      }
+      let result = await confirmBooking(supabase, request);
 
-      // Handle different response formats from edge function
-      const clientSecret = paymentIntentData?.clientSecret 
-        || paymentIntentData?.client_secret 
-        || paymentIntentData?.data?.clientSecret
-        || paymentIntentData?.data?.client_secret;
-      
-      const paymentStatus = paymentIntentData?.status 
-        || paymentIntentData?.data?.status;
-
-      // Check if payment was already completed server-side (off_session)
-      if (paymentStatus === 'succeeded') {
-        console.log('Payment already succeeded server-side');
-        // Payment already completed, continue to update service
-      } else if (clientSecret) {
-        // Need to confirm payment client-side
-        console.log('Confirming payment with client secret');
-        const { error: confirmError } = await confirmPayment(clientSecret, {
+      if (result.status === 'requires_action') {
+        const { error: confirmError } = await confirmPayment(result.clientSecret, {
           paymentMethodType: 'Card',
           paymentMethodData: {
             paymentMethodId: paymentMethod.stripePaymentMethodId,
@@ -513,70 +524,21 @@ const SelectHelpr = () => {
           });
           return;
         }
-      } else if (paymentIntentData?.error) {
-        // Edge function returned an error
-        console.error('Edge function error:', paymentIntentData.error);
-        showModal({
-          title: 'Payment Failed',
-          message: paymentIntentData.error.message || paymentIntentData.message || 'Payment could not be processed.',
-        });
-        return;
-      } else {
-        // Unknown response format
-        console.error('Unknown payment intent response format:', paymentIntentData);
-        showModal({
-          title: 'Payment Failed',
-          message: 'Unexpected response from payment server.',
-        });
-        return;
-      }
-
-      // Payment successful - now update the service
-      const { data: fillRequestData, error: fetchError } = await supabase
-        .from('service_fill_request')
-        .select('proposed_date_time')
-        .eq('service_id', serviceId)
-        .eq('service_provider_id', selectedRequest.service_provider_id)
-        .single();
-
-      if (fetchError) {
-        console.error('Failed to fetch fill request:', fetchError);
-      }
-
-      const updateData: {
-        service_provider_id: string;
-        status: string;
-        price: number;
-        scheduled_date_time?: string;
-        payment_status: string;
-      } = {
-        service_provider_id: selectedRequest.service_provider_id,
-        status: 'confirmed',
-        price: selectedRequest.bid,
-        payment_status: 'paid',
-      };
-
-      if (fillRequestData?.proposed_date_time) {
-        updateData.scheduled_date_time = fillRequestData.proposed_date_time;
-      }
 
-      const { error: updateError } = await supabase
-        .from('service')
-        .update(updateData)
-        .eq('service_id', serviceId);
-
-      if (updateError) {
-        throw updateError;
+        result = await confirmBooking(supabase, request);
       }
 
-      // Delete all service fill requests for this service
-      const { error: deleteError } = await supabase
-        .from('service_fill_request')
-        .delete()
-        .eq('service_id', serviceId);
-
-      if (deleteError) {
-        console.error('Failed to delete service fill requests:', deleteError);
+      if (result.status !== 'confirmed') {
+        if (result.status === 'failed' && result.code === 'offer_changed') {
+          setShowPaymentSummary(false);
+          setSelectedRequest(null);
+          await fetchRequests();
+        }
+        showModal({
+          title: result.status === 'failed' && result.code === 'payment_failed' ? 'Payment Failed' : 'Booking Failed',
+          message: result.status === 'failed' ? result.message : 'Payment could not be completed.',
+        });
+        return;
       }
 
       setShowPaymentSummary(false);
@@ -599,87 +561,50 @@ const SelectHelpr = () => {
     } finally {
       setConfirming(false);
     }
-  }, [selectedRequest, serviceId, activePaymentMethodId, user?.id, savedPaymentMethods, confirmPayment, showModal]);
-
-  const handleSelectProvider = useCallback(
-    async (request: ProviderRequestDisplay) => {
-      if (!serviceId) {
-        return;
-      }
-
-      try {
-        setSelectingProviderId(request.service_provider_id);
-
-        // Get the proposed_date_time from the service_fill_request
-        const { data: fillRequestData, error: fetchError } = await supabase
-          .from('service_fill_request')
-          .select('proposed_date_time')
-          .eq('service_id', serviceId)
-          .eq('service_provider_id', request.service_provider_id)
-          .single();
-
-        if (fetchError) {
-          console.error('Failed to fetch fill request:', fetchError);
-        }
-
-        // Prepare update object
-        const updateData: {
-          service_provider_id: string;
-          status: string;
-          price: number;
-          scheduled_date_time?: string;
-        } = {
-          service_provider_id: request.service_provider_id,
-          status: 'confirmed',
-          price: request.bid,
-        };
-
-        // If there's a proposed_date_time, update the scheduled_date_time
-        if (fillRequestData?.proposed_date_time) {
-          updateData.scheduled_date_time = fillRequestData.proposed_date_time;
-        }
-
-        const { error: updateError } = await supabase
-          .from('service')
-          .update(updateData)
-          .eq('service_id', serviceId);
+  }, [selectedRequest, serviceId, activePaymentMethodId, user?.id, savedPaymentMethods, confirmPayment, fetchRequests, showModal]);
 
-        if (updateError) {
-          throw updateError;
-        }
-
-        // Delete all service fill requests for this service
-        const { error: deleteError } = await supabase
-          .from('service_fill_request')
-          .delete()
-          .eq('service_id', serviceId);
-
-        if (deleteError) {
-          console.error('Failed to delete service fill requests:', deleteError);
-          // Don't throw - the job is already confirmed, just log the error
-        }
-
-        setSelectingProviderId(null);
+  // Select books the helpr's current price; Counter proposes a new one
+  const renderOfferActions = (request: ProviderRequestDisplay) => {
+    const { negotiation } = request;
+    const canBook = negotiation.bookablePrice !== null;
 
-        router.replace({
-          pathname: '/(booking-flow)/booked-services' as any,
-          params: { 
-            serviceId,
-            showConfirmedModal: 'true',
-            helprFirstName: request.firstName,
-          },
-        });
-      } catch (selectError) {
-        console.error('Failed to select helpr:', selectError);
-        showModal({
-          title: 'Unable to select Helpr',
-          message: 'Please try again.',
-        });
-        setSelectingProviderId(null);
-      }
-    },
-    [serviceId, showModal],
-  );
+    return (
+      <>
+        {negotiation.history.length > 1 ? (
+          <Text style={styles.offerHistoryText} numberOfLines={2}>
+            {describeBidHistory(negotiation.history, 'customer')}
+          </Text>
+        ) : null}
+        {negotiation.pendingCounter ? (
+          <Text style={styles.offerStatusText}>Waiting on {request.firstName}</Text>
+        ) : !canBook ? (
+          <Text style={styles.offerStatusText}>Offer expired</Text>
+        ) : null}
+        <Pressable
+          style={[styles.selectButton, !canBook ? styles.selectButtonDisabled : null]}
+          onPress={() => handleOpenPaymentSummary(request)}
+          disabled={!canBook}
+          accessibilityRole="button"
+          accessibilityLabel={`Select ${request.firstName}`}
+          accessibilityHint="Opens payment confirmation for this Helpr"
+        >
+          <Text style={styles.selectButtonText}>Select</Text>
+        </Pressable>
+        {negotiation.customerCanCounter ? (
+          <Pressable
+            style={styles.counterButton}
+            onPress={() => openCounterModal(request)}
+            accessibilityRole="button"
+            accessibilityLabel={`Counter ${request.firstName}'s price`}
+          >
+            <Text style={styles.counterButtonText}>
+              Counter{negotiation.roundsLeft < 3 ? ` (${negotiation.roundsLeft} left)` : ''}
+            </Text>
+          </Pressable>
+        ) : null}
+      </>
+    );
+  };
 
   const renderContent = () => {
     if (!serviceId) {
@@ -741,7 +666,6 @@ const SelectHelpr = () => {
               )}
               
               {availableAtRequestedTime.map(request => {
-                const isSelecting = selectingProviderId === request.service_provider_id;
                 return (
                   <View key={request.service_provider_id} style={styles.requestCard}>
                     <View style={styles.requestCardLeft}>
@@ -778,15 +702,7 @@ const SelectHelpr = () => {
                           <Text style={styles.requestedTimeValue}>{request.proposedDateTimeLabel}</Text>
                         </View>
                       ) : null}
-                      <Pressable
-                        style={styles.selectButton}
-                        onPress={() => handleOpenPaymentSummary(request)}
-                        accessibilityRole="button"
-                        accessibilityLabel={`Select ${request.firstName}`}
-                        accessibilityHint="Opens payment confirmation for this Helpr"
-                      >
-                        <Text style={styles.selectButtonText}>Select</Text>
-                      </Pressable>
+                      {renderOfferActions(request)}
                     </View>
                   </View>
                 );
@@ -834,15 +750,7 @@ const SelectHelpr = () => {
                           </View>
                           <View style={styles.requestCardRight}>
                             <Text style={styles.bidValue}>{request.bidLabel}</Text>
-                            <Pressable
-                              style={styles.selectButton}
-                              onPress={() => handleOpenPaymentSummary(request)}
-                              accessibilityRole="button"
-                              accessibilityLabel={`Select ${request.firstName}`}
-                              accessibilityHint="Opens payment confirmation for this Helpr"
-                            >
-                              <Text style={styles.selectButtonText}>Select</Text>
-                            </Pressable>
+                            {renderOfferActions(request)}
                           </View>
                         </View>
                       </View>
@@ -876,6 +784,43 @@ const SelectHelpr = () => {
 
       <View style={styles.contentContainer}>{renderContent()}</View>
 
+      {/* Counter-offer Modal */}
+      <Modal
+        visible={Boolean(counterRequest)}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setCounterRequest(null)}
+      >
+        <View style={styles.counterModalOverlay}>
+          <View style={styles.counterModalContent}>
+            <Text style={styles.counterModalTitle}>{`Counter ${counterRequest?.firstName ?? 'Helpr'}'s Price`}</Text>
+            <Text style={styles.counterModalSubtitle}>
+              Current price: {counterRequest?.bidLabel}
+            </Text>
+            <TextInput
+              style={styles.counterModalInput}
+              keyboardType="decimal-pad"
+              value={counterInput}
+              onChangeText={setCounterInput}
+              placeholder="Your offer"
+              placeholderTextColor="#7a735f"
+            />
+            <View style={styles.counterModalButtonRow}>
+              <Pressable style={styles.counterModalCancelButton} onPress={() => setCounterRequest(null)}>
+                <Text style={styles.counterModalCancelText}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.counterModalSendButton, submittingCounter ? styles.selectButtonDisabled : null]}
+                onPress={handleSubmitCounter}
+                disabled={submittingCounter}
+              >
+                <Text style={styles.counterModalSendText}>Send Offer</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Payment Summary Modal */}
       <PaymentSummaryModal
         visible={showPaymentSummary}
@@ -891,7 +836,7 @@ const SelectHelpr = () => {
           initials: selectedRequest.initials,
           rating: selectedRequest.rating,
         } as ProviderSummary : null}
-        price={selectedRequest?.bid ?? 0}
+        breakdown={selectedBreakdown}
         serviceName={serviceName ?? undefined}
         scheduledDateTime={selectedRequest?.proposedDateTimeLabel ?? undefined}
         savedPaymentMethods={savedPaymentMethods}
@@ -1200,6 +1145,98 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '700',
   },
+  counterButton: {
+    borderWidth: 1.5,
+    borderColor: '#0c4309',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    minWidth: 100,
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  counterButtonText: {
+    color: '#0c4309',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  offerHistoryText: {
+    fontSize: 11,
+    color: '#4d4d4d',
+    textAlign: 'right',
+    maxWidth: 160,
+    marginBottom: 4,
+  },
+  offerStatusText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#0c4309',
+    marginBottom: 2,
+  },
+  counterModalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  counterModalContent: {
+    backgroundColor: '#FFF8E8',
+    borderRadius: 20,
+    padding: 20,
+    width: '85%',
+  },
+  counterModalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#0c4309',
+    textAlign: 'center',
+  },
+  counterModalSubtitle: {
+    fontSize: 14,
+    color: '#0c4309',
+    textAlign: 'center',
+    marginTop: 6,
+    marginBottom: 12,
+  },
+  counterModalInput: {
+    backgroundColor: '#E5DCC9',
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    fontSize: 18,
+    color: '#0c4309',
+    textAlign: 'center',
+  },
+  counterModalButtonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  counterModalCancelButton: {
+    backgroundColor: '#E5DCC9',
+    borderRadius: 8,
+    padding: 14,
+    flex: 1,
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  counterModalCancelText: {
+    color: '#0c4309',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  counterModalSendButton: {
+    backgroundColor: '#0c4309',
+    borderRadius: 8,
+    padding: 14,
+    flex: 1,
+    alignItems: 'center',
+  },
+  counterModalSendText: {
+    color: '#FFF8E8',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
   backButton: {
     position: 'absolute',
     top: 58,
@@ -1,4 +1,28 @@
 import { FontAwesome } from '@expo/vector-icons';
+import {
+  buildJobTimeline,
+  estimateDrivingMinutes,
+  fetchDrivingRoute,
+  fetchProviderLocation,
+  fetchService,
+  fetchServiceStatusTimes,
+  fetchServiceTip,
+  formatDurationRange,
+  formatTimeWindow,
+  isStaleLocation,
+  LocationData,
+  ProviderLocationRow,
+  providerCoordinate,
+  resolveServiceDuration,
+  SERVICE_STATUS,
+  ServiceRow,
+  ServiceStatusTimes,
+  ServiceTipRow,
+  sendTip,
+  shouldRefreshEta,
+  straightRoute,
+} from '@helpr/core';
+import { useStripe } from '@stripe/stripe-react-native';
 import Constants from 'expo-constants';
 import * as Location from 'expo-location';
 import { useLocalSearchParams, useRouter } from 'expo-router';
@@ -7,8 +31,12 @@ import LottieView from 'lottie-react-native';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ActivityIndicator, Image, Modal, Platform, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
 import MapView, { LatLng, Marker, Polyline, PROVIDER_DEFAULT } from 'react-native-maps';
+import { TipCard } from '../../components/services/TipCard';
+import { useAuth } from '../../context/AuthContext';
+import { useModal } from '../../context/ModalContext';
+import { useRealtime, useRealtimeEvents } from '../../context/RealtimeContext';
+import { loadPaymentMethods, SavedPaymentMethodSummary } from '../../lib/paymentMethods';
 import { supabase } from '../../lib/supabase';
-import { markCompletedServiceAsViewed } from '../../lib/viewedCompletedServices';
 
 const resolveGooglePlacesKey = () => {
   const extras = (Constants?.expoConfig?.extra ?? {}) as Record<string, unknown>;
@@ -22,29 +50,6 @@ const resolveGooglePlacesKey = () => {
   );
 };
 
-type ServiceData = {
-  service_id: string;
-  service_type?: string | null;
-  location?: string | null;
-  start_location?: string | null;
-  end_location?: string | null;
-  scheduled_date_time?: string | null;
-  price?: number | null;
-  status?: string | null;
-  description?: string | null;
-  service_provider_id?: string | null;
-  customer_id?: string | null;
-  provider_rating?: number | null;
-  provider_review?: string | null;
-  customer_rating?: number | null;
-  customer_review?: string | null;
-};
-
-type LocationData = {
-  coordinate: { latitude: number; longitude: number };
-  description: string;
-};
-
 type ServiceProviderRatingRow = {
   id: string;
   service_id: string;
@@ -54,78 +59,44 @@ type ServiceProviderRatingRow = {
   comment: string | null;
 };
 
-// Decode polyline from Google Directions API
-const decodePolyline = (encoded: string): LatLng[] => {
-  const poly: LatLng[] = [];
-  let index = 0;
-  const len = encoded.length;
-  let lat = 0;
-  let lng = 0;
-
-  while (index < len) {
-    let b;
-    let shift = 0;
-    let result = 0;
-    do {
-      b = encoded.charCodeAt(index++) - 63;
-      result |= (b & 0x1f) << shift;
-      shift += 5;
-    } while (b >= 0x20);
-    const dlat = (result & 1) !== 0 ? ~(result >> 1) : result >> 1;
-    lat += dlat;
-
-    shift = 0;
-    result = 0;
-    do {
-      b = encoded.charCodeAt(index++) - 63;
-      result |= (b & 0x1f) << shift;
-      shift += 5;
-    } while (b >= 0x20);
-    const dlng = (result & 1) !== 0 ? ~(result >> 1) : result >> 1;
-    lng += dlng;
-
-    poly.push({
-      latitude: lat / 1e5,
-      longitude: lng / 1e5,
-    });
-  }
-
-  return poly;
-};
-
-const ensureRouteEndpoints = (
-  path: LatLng[],
-  start: { latitude: number; longitude: number },
-  end: { latitude: number; longitude: number },
-): LatLng[] => {
-  if (path.length < 2) {
-    return [start, end];
-  }
-  const newPath = [...path];
-  newPath[0] = start;
-  newPath[newPath.length - 1] = end;
-  return newPath;
-};
-
 const LOTTIE_FRAME_RATE = 29.97;
 const STATUS_FRAME_MAP: Record<string, number> = {
-  confirmed: 0,
-  helpr_otw: 20,
-  in_progress: 50,
-  completed: 70,
+  [SERVICE_STATUS.Confirmed]: 0,
+  [SERVICE_STATUS.HelprOtw]: 20,
+  [SERVICE_STATUS.InProgress]: 50,
+  [SERVICE_STATUS.Completed]: 70,
 };
 
+// How often "last seen" is re-checked while a live location is shown
+const STALE_CHECK_MS = 30_000;
+
+const formatClockTime = (isoDate: string) =>
+  new Date(isoDate).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
 export default function ServiceDetails() {
   const router = useRouter();
   const params = useLocalSearchParams();
   const serviceId = params.serviceId as string;
   const googlePlacesApiKey = useMemo(resolveGooglePlacesKey, []);
-
-  const [service, setService] = useState<ServiceData | null>(null);
+  const { user } = useAuth();
+  const { showModal } = useModal();
+  const { markSeen } = useRealtime();
+  const { confirmPayment } = useStripe();
+
+  const [service, setService] = useState<ServiceRow | null>(null);
+  const [statusTimes, setStatusTimes] = useState<ServiceStatusTimes>({});
+  const [tip, setTip] = useState<ServiceTipRow | null>(null);
+  const [tipPaymentMethod, setTipPaymentMethod] = useState<SavedPaymentMethodSummary | null>(null);
+  const [sendingTip, setSendingTip] = useState(false);
   const [loading, setLoading] = useState(true);
   const [startLocation, setStartLocation] = useState<LocationData | null>(null);
   const [endLocation, setEndLocation] = useState<LocationData | null>(null);
   const [routeCoordinates, setRouteCoordinates] = useState<LatLng[]>([]);
+  // Where the helpr is while on the way, and the drive time from there to the start
+  const [providerLocation, setProviderLocation] = useState<ProviderLocationRow | null>(null);
+  const [liveEtaMinutes, setLiveEtaMinutes] = useState<number | null>(null);
+  const [staleCheckAt, setStaleCheckAt] = useState(() => Date.now());
+  const etaBasisRef = useRef<{ coordinate: LatLng; at: number } | null>(null);
   const [helprFirstName, setHelprFirstName] = useState<string | null>(null);
   const [helprLastName, setHelprLastName] = useState<string | null>(null);
   const [helprProfileImageUrl, setHelprProfileImageUrl] = useState<string | null>(null);
@@ -164,6 +135,25 @@ export default function ServiceDetails() {
   const helprSentenceStartName = helprDisplayName ?? 'Your Helpr';
   const helprTitleName = helprDisplayName ?? 'Your Helpr';
 
+  const jobDuration = useMemo(() => (service ? resolveServiceDuration(service) : null), [service]);
+
+  const isOnTheWay = service?.status?.toLowerCase() === SERVICE_STATUS.HelprOtw;
+  const providerLocationStale = providerLocation ? isStaleLocation(providerLocation, new Date(staleCheckAt)) : false;
+  const currentEtaMinutes = providerLocation && !providerLocationStale ? liveEtaMinutes : null;
+
+  // Rebuilt on every fetch, so the windows follow the status as it changes
+  const jobTimeline = useMemo(() => {
+    if (!service || !jobDuration) return null;
+    return buildJobTimeline({
+      status: service.status,
+      scheduledDateTime: service.scheduled_date_time,
+      serviceType: service.service_type,
+      duration: jobDuration,
+      statusTimes,
+      liveEtaMinutes: currentEtaMinutes,
+    });
+  }, [service, jobDuration, statusTimes, currentEtaMinutes]);
+
   const fetchServiceData = useCallback(async () => {
     if (!serviceId) {
       return;
@@ -172,23 +162,19 @@ export default function ServiceDetails() {
     console.log('🔄 Fetching service data for:', serviceId);
 
     try {
-      const { data, error } = await supabase
-        .from('service')
-        .select('*')
-        .eq('service_id', serviceId)
-        .single();
-
-      if (error) throw error;
+      const data = await fetchService(supabase, serviceId);
 
       console.log('✅ Service data fetched. Status:', data.status);
       setService(data);
+      setStatusTimes(await fetchServiceStatusTimes(supabase, data.service_id).catch(() => ({})));
       setRating(0);
       setRatingRecordId(null);
       setRatingComment(null);
 
       // Mark completed services as viewed
       if (data.status?.toLowerCase() === 'completed') {
-        markCompletedServiceAsViewed(data.service_id);
+        markSeen('completed_service', data.service_id);
+        setTip(await fetchServiceTip(supabase, data.service_id).catch(() => null));
       }
 
       if (data.service_provider_id && data.customer_id) {
@@ -211,14 +197,14 @@ export default function ServiceDetails() {
       if (data.service_provider_id) {
         const { data: providerData, error: providerError } = await supabase
           .from('service_provider')
-          .select('first_name, last_name, profile_image_url')
+          .select('first_name, last_name, profile_picture_url')
           .eq('service_provider_id', data.service_provider_id)
           .single();
 
         if (!providerError && providerData) {
           setHelprFirstName(providerData.first_name);
           setHelprLastName(providerData.last_name ?? null);
-          setHelprProfileImageUrl(providerData.profile_image_url ?? null);
+          setHelprProfileImageUrl(providerData.profile_picture_url ?? null);
         }
       }
 
@@ -244,137 +230,139 @@ export default function ServiceDetails() {
     } finally {
       setLoading(false);
     }
-  }, [serviceId]);
+  }, [serviceId, markSeen]);
 
   useEffect(() => {
     fetchServiceData();
   }, [fetchServiceData]);
 
+  const isCompleted = service?.status?.toLowerCase() === SERVICE_STATUS.Completed;
+
+  // Tips go on the default card (loadPaymentMethods lists it first)
   useEffect(() => {
-    if (!serviceId) {
+    if (!isCompleted || !user?.id) {
       return;
     }
+    loadPaymentMethods(user.id)
+      .then(methods => setTipPaymentMethod(methods[0] ?? null))
+      .catch(() => setTipPaymentMethod(null));
+  }, [isCompleted, user?.id]);
+
+  useRealtimeEvents(event => {
+    if (event.type === 'arrived') {
+      if (event.serviceId === serviceId) {
+        showModal({
+          title: `${helprSentenceStartName} has arrived`,
+          message: `${helprSentenceStartName} is at the service location and will start shortly.`,
+        });
+      }
+      return;
+    }
+    if (event.type === 'provider_location') {
+      if (event.serviceId === serviceId) {
+        setProviderLocation(event.location);
+      }
+      return;
+    }
+    if (event.type === 'resync' || (event.type === 'service' && event.service.service_id === serviceId)) {
+      fetchServiceData();
+    }
+  });
 
-    const channel = supabase
-      .channel(`service-status-${serviceId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'service',
-        },
-        (payload) => {
-          if (payload.new && payload.new.service_id === serviceId) {
-            fetchServiceData();
-          }
-        }
-      )
-      .subscribe();
+  // The helpr only shares their location while on the way; the server removes it on arrival
+  useEffect(() => {
+    if (!serviceId || !isOnTheWay) {
+      setProviderLocation(null);
+      return;
+    }
 
-    // Poll every 5 seconds as a fallback
-    const pollInterval = setInterval(() => {
-      fetchServiceData();
-    }, 5000);
+    let cancelled = false;
+    fetchProviderLocation(supabase, serviceId)
+      .then(location => {
+        if (!cancelled) setProviderLocation(location);
+      })
+      .catch(error => console.warn('Failed to load helpr location:', error));
 
     return () => {
-      clearInterval(pollInterval);
-      supabase.removeChannel(channel);
+      cancelled = true;
     };
-  }, [serviceId, fetchServiceData]);
+  }, [serviceId, isOnTheWay]);
 
   useEffect(() => {
-    if (!startLocation || !endLocation) {
-      setRouteCoordinates([]);
+    if (!providerLocation) {
       return;
     }
+    const interval = setInterval(() => setStaleCheckAt(Date.now()), STALE_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [providerLocation]);
 
-    if (!googlePlacesApiKey) {
-      console.warn('Google Places API key is not configured. Falling back to straight line.');
-      setRouteCoordinates(
-        ensureRouteEndpoints(
-          [startLocation.coordinate, endLocation.coordinate],
-          startLocation.coordinate,
-          endLocation.coordinate,
-        ),
-      );
+  // Directions are refetched only after the helpr has moved a fair way or some time has passed
+  useEffect(() => {
+    if (!providerLocation || !startLocation) {
+      etaBasisRef.current = null;
+      setLiveEtaMinutes(null);
       return;
     }
 
-    let cancelled = false;
+    const from = providerCoordinate(providerLocation);
+    if (!shouldRefreshEta(etaBasisRef.current, from)) {
+      return;
+    }
+    etaBasisRef.current = { coordinate: from, at: Date.now() };
 
-    const fetchDirections = async () => {
-      try {
-        const params = new URLSearchParams({
-          origin: `${startLocation.coordinate.latitude},${startLocation.coordinate.longitude}`,
-          destination: `${endLocation.coordinate.latitude},${endLocation.coordinate.longitude}`,
-          key: googlePlacesApiKey,
-          mode: 'driving',
-        });
+    let cancelled = false;
+    fetchDrivingRoute(from, startLocation.coordinate, googlePlacesApiKey).then((route) => {
+      if (!cancelled) {
+        setLiveEtaMinutes(route
+          ? Math.max(1, Math.round(route.durationMinutes))
+          : estimateDrivingMinutes(from, startLocation.coordinate));
+      }
+    });
 
-        const response = await fetch(
-          `https://maps.googleapis.com/maps/api/directions/json?${params.toString()}`,
-        );
-        const data = await response.json();
+    return () => {
+      cancelled = true;
+    };
+  }, [providerLocation, startLocation, googlePlacesApiKey]);
 
-        if (cancelled) {
-          return;
-        }
+  useEffect(() => {
+    if (!startLocation || !endLocation) {
+      setRouteCoordinates([]);
+      return;
+    }
 
-        if (data.status === 'OK') {
-          const polyline = data.routes?.[0]?.overview_polyline?.points;
-          if (typeof polyline === 'string' && polyline.length > 0) {
-            const decoded = decodePolyline(polyline);
-            const resolvedPath = ensureRouteEndpoints(
-              decoded.length >= 2 ? decoded : [startLocation.coordinate, endLocation.coordinate],
-              startLocation.coordinate,
-              endLocation.coordinate,
-            );
-            setRouteCoordinates(resolvedPath);
-            return;
-          }
-        }
+    let cancelled = false;
 
-        console.warn('Google Directions error:', data.status, data.error_message);
-        setRouteCoordinates(
-          ensureRouteEndpoints(
-            [startLocation.coordinate, endLocation.coordinate],
-            startLocation.coordinate,
-            endLocation.coordinate,
-          ),
-        );
-      } catch (error) {
-        if (!cancelled) {
-          console.warn('Failed to fetch directions', error);
-          setRouteCoordinates(
-            ensureRouteEndpoints(
-              [startLocation.coordinate, endLocation.coordinate],
-              startLocation.coordinate,
-              endLocation.coordinate,
-            ),
-          );
-        }
+    fetchDrivingRoute(startLocation.coordinate, endLocation.coordinate, googlePlacesApiKey).then((route) => {
+      if (!cancelled) {
+        setRouteCoordinates(route?.path ?? straightRoute(startLocation.coordinate, endLocation.coordinate));
       }
-    };
-
-    fetchDirections();
+    });
 
     return () => {
       cancelled = true;
     };
   }, [startLocation, endLocation, googlePlacesApiKey]);
 
-  // Fit map to markers once loaded
+  // Fit map to markers once loaded, and again when the helpr starts sharing their location.
+  // Later location updates just move the marker rather than refitting the map.
+  const providerLocationRef = useRef(providerLocation);
+  providerLocationRef.current = providerLocation;
+  const hasProviderLocation = providerLocation !== null;
+
   useEffect(() => {
     if (!mapRef.current) {
       return;
     }
 
+    const helprCoordinate = providerLocationRef.current ? [providerCoordinate(providerLocationRef.current)] : [];
+
     if (startLocation && endLocation) {
-      const coordinatesToFit =
-        routeCoordinates.length > 1
+      const coordinatesToFit = [
+        ...(routeCoordinates.length > 1
           ? routeCoordinates
-          : [startLocation.coordinate, endLocation.coordinate];
+          : [startLocation.coordinate, endLocation.coordinate]),
+        ...helprCoordinate,
+      ];
 
       setTimeout(() => {
         mapRef.current?.fitToCoordinates(coordinatesToFit, {
@@ -394,7 +382,7 @@ export default function ServiceDetails() {
         );
       }, 350);
     }
-  }, [startLocation, endLocation, routeCoordinates]);
+  }, [startLocation, endLocation, routeCoordinates, hasProviderLocation]);
 
   const geocodeAddress = async (address: string): Promise<LocationData | null> => {
     const trimmed = address?.trim();
@@ -428,6 +416,9 @@ export default function ServiceDetails() {
       case 'confirmed':
         return 'Service Details';
       case 'helpr_otw':
+        if (service?.arrived_at) {
+          return helprFirstName ? `${helprFirstName} has arrived!` : 'Arrived';
+        }
         return helprFirstName ? `${helprFirstName} is on the way!` : 'On the Way';
       case 'in_progress':
         return 'In Progress';
@@ -444,6 +435,15 @@ export default function ServiceDetails() {
   return `${helprSentenceStartName} will let you know when they are on the way`;
     }
     if (normalized === 'helpr_otw') {
+      if (service?.arrived_at) {
+        return `${helprSentenceStartName} arrived at ${formatClockTime(service.arrived_at)}`;
+      }
+      if (providerLocation && providerLocationStale) {
+        return `${helprSentenceStartName} was last seen at ${formatClockTime(providerLocation.recorded_at)}`;
+      }
+      if (currentEtaMinutes !== null) {
+        return `${helprSentenceStartName} is about ${currentEtaMinutes} min away`;
+      }
   return `${helprSentenceStartName} will let you know when they are at your location`;
     }
     return null;
@@ -617,6 +617,67 @@ export default function ServiceDetails() {
     };
   }, []);
 
+  const handleSendTip = useCallback(
+    async (amount: number, percent: number | null) => {
+      if (!service?.service_id || !tipPaymentMethod) return;
+
+      setSendingTip(true);
+
+      try {
+        const request = {
+          serviceId: service.service_id,
+          amount,
+          percent,
+          paymentMethodId: tipPaymentMethod.stripePaymentMethodId,
+        };
+
+        let result = await sendTip(supabase, request);
+
+        if (result.status === 'requires_action') {
+          const { error: confirmError } = await confirmPayment(result.clientSecret, {
+            paymentMethodType: 'Card',
+            paymentMethodData: {
+              paymentMethodId: tipPaymentMethod.stripePaymentMethodId,
+            },
+          });
+
+          if (confirmError) {
+            showModal({
+              title: 'Payment Failed',
+              message: confirmError.message || 'Your tip could not be sent.',
+            });
+            return;
+          }
+
+          result = await sendTip(supabase, request);
+        }
+
+        if (result.status !== 'tipped') {
+          showModal({
+            title: result.status === 'failed' && result.code === 'payment_failed' ? 'Payment Failed' : 'Tip Not Sent',
+            message: result.status === 'failed' ? result.message : 'Your tip could not be sent.',
+          });
+          return;
+        }
+
+        setTip(await fetchServiceTip(supabase, service.service_id).catch(() => null));
+        showModal({
+          title: 'Tip Sent',
+          message: `${helprSentenceStartName} received your $${result.amount.toFixed(2)} tip.`,
+        });
+      } catch (error) {
+        console.error('Failed to send tip:', error);
+        showModal({
+          title: 'Tip Not Sent',
+          message: 'Unable to send your tip. Please try again.',
+        });
+      } finally {
+        setSendingTip(false);
+      }
+    },
+    [service?.service_id, tipPaymentMethod, confirmPayment, showModal, helprSentenceStartName],
+  );
+
   const handleRateService = useCallback(
     async (value: number) => {
       if (!service?.service_id || submittingRating) {
@@ -830,6 +891,23 @@ export default function ServiceDetails() {
                 />
               </Marker>
             )}
+            {providerLocation && (
+              <Marker
+                // Remounted when it goes stale so the dimmed style is drawn
+                key={providerLocationStale ? 'helpr-stale' : 'helpr-live'}
+                coordinate={providerCoordinate(providerLocation)}
+                title={helprTitleName}
+                description={providerLocationStale
+                  ? `Last seen at ${formatClockTime(providerLocation.recorded_at)}`
+                  : 'On the way'}
+                anchor={{ x: 0.5, y: 0.5 }}
+                tracksViewChanges={false}
+              >
+                <View style={[styles.mapMarkerHelpr, providerLocationStale && styles.mapMarkerHelprStale]}>
+                  <FontAwesome name="car" size={14} color="#FFF8E8" />
+                </View>
+              </Marker>
+            )}
             {routeCoordinates.length > 1 && (
               <Polyline
                 coordinates={routeCoordinates}
@@ -882,6 +960,35 @@ export default function ServiceDetails() {
           </View>
         </View>
 
+        {jobTimeline && jobDuration ? (
+          <View style={styles.timelineCard}>
+            {service?.arrived_at ? (
+              <View style={styles.timelineRow}>
+                <Text style={styles.timelineLabel}>{`${helprSentenceStartName} arrived`}</Text>
+                <Text style={styles.timelineValue}>{formatClockTime(service.arrived_at)}</Text>
+              </View>
+            ) : jobTimeline.arrival ? (
+              <View style={styles.timelineRow}>
+                <Text style={styles.timelineLabel}>
+                  {service?.service_provider_id ? `${helprSentenceStartName} arrives` : 'Arrival window'}
+                </Text>
+                <Text style={styles.timelineValue}>{formatTimeWindow(jobTimeline.arrival)}</Text>
+              </View>
+            ) : null}
+            {service?.started_at ? (
+              <View style={styles.timelineRow}>
+                <Text style={styles.timelineLabel}>Started</Text>
+                <Text style={styles.timelineValue}>{formatClockTime(service.started_at)}</Text>
+              </View>
+            ) : null}
+            <View style={styles.timelineRow}>
+              <Text style={styles.timelineLabel}>Estimated finish</Text>
+              <Text style={styles.timelineValue}>{formatTimeWindow(jobTimeline.finish)}</Text>
+            </View>
+            <Text style={styles.timelineNote}>{`About ${formatDurationRange(jobDuration)} of work once your Helpr arrives`}</Text>
+          </View>
+        ) : null}
+
         {service?.status?.toLowerCase() === 'completed' ? (
           <>
             <View style={styles.reviewSection}>
@@ -941,6 +1048,14 @@ export default function ServiceDetails() {
               </Text>
             </Pressable>
           </View>
+          <TipCard
+            helprFirstName={helprFirstName}
+            jobPrice={service?.price ?? null}
+            tip={tip}
+            paymentMethodLabel={tipPaymentMethod ? `${tipPaymentMethod.brand} •••• ${tipPaymentMethod.last4}` : null}
+            sending={sendingTip}
+            onSendTip={handleSendTip}
+          />
           </>
         ) : null}
       </ScrollView>
@@ -1153,6 +1268,19 @@ const styles = StyleSheet.create({
     height: 26,
     resizeMode: 'contain',
   },
+  mapMarkerHelpr: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: '#0c4309',
+    borderWidth: 2,
+    borderColor: '#FFF8E8',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  mapMarkerHelprStale: {
+    opacity: 0.5,
+  },
   animationContainer: {
     backgroundColor: '#fff8e8',
     marginTop: 0,
@@ -1241,6 +1369,34 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingTop: 40,
   },
+  timelineCard: {
+    marginTop: 24,
+    marginHorizontal: 20,
+    padding: 16,
+    borderRadius: 18,
+    backgroundColor: '#fff8e8',
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  timelineLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#0c4309',
+  },
+  timelineValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0c4309',
+  },
+  timelineNote: {
+    fontSize: 12,
+    color: '#8A8575',
+    marginTop: 4,
+  },
   reviewSection: {
     marginTop: 0,
     marginHorizontal: 20,
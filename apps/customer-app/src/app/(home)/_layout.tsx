@@ -11,6 +11,7 @@ export default function HomeLayout() {
     >
       <Stack.Screen name="landing" options={{ animation: 'none' }} />
       <Stack.Screen name="account" />
+      <Stack.Screen name="notifications" />
       <Stack.Screen name="customer-service-chat" />
     </Stack>
   );
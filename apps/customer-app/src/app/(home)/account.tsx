@@ -5,6 +5,7 @@ import { ActivityIndicator, Image, Modal, Pressable, ScrollView, StyleSheet, Tex
 import { SvgXml } from 'react-native-svg';
 import { PaymentMethodModal } from '../../components/common/PaymentMethodModal';
 import { ModalButtonConfig, useModal } from '../../context/ModalContext';
+import { useNotifications } from '../../context/NotificationsContext';
 import { loadPaymentMethods, SavedPaymentMethodSummary, savePaymentMethod, setDefaultPaymentMethod } from '../../lib/paymentMethods';
 import { supabase } from '../../lib/supabase';
 
@@ -58,6 +59,7 @@ export default function Account() {
     expiryYear: number | null;
   } | null>(null);
   const { showModal } = useModal();
+  const { unregisterDevice } = useNotifications();
   const { createPaymentMethod } = useStripe();
 
   const presentModal = useCallback(
@@ -297,6 +299,7 @@ export default function Account() {
         style: 'destructive',
         onPress: async () => {
           try {
+            await unregisterDevice();
             await supabase.auth.signOut();
             router.replace('/(auth)/login' as any);
           } catch (error) {
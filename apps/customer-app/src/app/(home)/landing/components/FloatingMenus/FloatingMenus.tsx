@@ -27,7 +27,10 @@ export function FloatingMenus({
   onCloseHelpMenu,
   onNavigate,
   onAccountPress,
+  unreadCount,
 }: FloatingMenusProps) {
+  const badgeLabel = unreadCount > 99 ? '99+' : String(unreadCount);
+
   return (
     <View pointerEvents="box-none" style={styles.overlay}>
       {/* Menu animation view (visual only, no touches) */}
@@ -48,6 +51,12 @@ export function FloatingMenus({
       {/* Toggle hit area */}
       <Pressable onPress={onMenuPress} style={styles.menuTogglePressable} />
 
+      {unreadCount > 0 && (
+        <View style={styles.menuBadge} pointerEvents="none">
+          <Text style={styles.badgeText}>{badgeLabel}</Text>
+        </View>
+      )}
+
       {/* Help animation view (visual only, no touches) */}
       <View style={[styles.helpButton, { pointerEvents: 'none', backgroundColor: 'transparent' }]}>
         {Platform.OS === 'web' || !canRenderLottie ? (
@@ -71,6 +80,24 @@ export function FloatingMenus({
           <Pressable style={styles.dismissOverlay} onPress={onCloseMenu} />
           <View style={styles.menuOverlay}>
             <View style={styles.menuContainer}>
+              {/* Not part of the menu animation, so its label is drawn here */}
+              <Pressable
+                style={[styles.menuItem, styles.notificationsItem]}
+                onPress={() => {
+                  onCloseMenu();
+                  onNavigate('notifications');
+                }}
+              >
+                <View style={styles.menuItemRow}>
+                  <Text style={styles.notificationsItemText}>Notifications</Text>
+                  {unreadCount > 0 && (
+                    <View style={styles.itemBadge}>
+                      <Text style={styles.badgeText}>{badgeLabel}</Text>
+                    </View>
+                  )}
+                </View>
+              </Pressable>
+
               <Pressable
                 style={styles.menuItem}
                 onPress={() => {
@@ -122,6 +122,46 @@ export const styles = StyleSheet.create({
     fontWeight: '500',
     flex: 1,
   },
+  notificationsItem: {
+    backgroundColor: '#FFF8E8',
+    borderWidth: 1,
+    borderColor: '#0c4309',
+  },
+  notificationsItemText: {
+    color: '#0c4309',
+    fontSize: 16,
+    fontWeight: '600',
+    flex: 1,
+  },
+  // Sits on the top right of the menu button
+  menuBadge: {
+    position: 'absolute',
+    left: 85,
+    bottom: 85,
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    backgroundColor: '#C0392B',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 999,
+  },
+  itemBadge: {
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    marginLeft: 8,
+    backgroundColor: '#C0392B',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  badgeText: {
+    color: '#FFF8E8',
+    fontSize: 12,
+    fontWeight: '700',
+  },
 });
 
 
@@ -13,4 +13,6 @@ export type FloatingMenusProps = {
   onCloseHelpMenu: () => void;
   onNavigate: NavigateFn;
   onAccountPress: () => void;
+  // Shown as a badge on the menu button and next to Notifications
+  unreadCount: number;
 };
@@ -1,3 +1,4 @@
+import { SERVICE_STATUS } from '@helpr/core';
 import { useIsFocused } from '@react-navigation/native';
 import { useRouter } from 'expo-router';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
@@ -6,16 +7,21 @@ import { Animated, Easing, InteractionManager, Platform } from 'react-native';
 import { RouteParams } from '../../../constants/routes';
 import { useAuth } from '../../../context/AuthContext';
 import { useModal } from '../../../context/ModalContext';
-import { hasShownSelectProModal, markSelectProModalShown, resetSelectProModalTracker } from '../../../lib/selectProModalTracker';
-import { supabase } from '../../../lib/supabase';
+import { useNotifications } from '../../../context/NotificationsContext';
+import { useRealtime, useRealtimeEvents } from '../../../context/RealtimeContext';
 import { LandingServiceItem, NavigateFn } from './landing.types';
 
 export function useLandingScreen() {
   const router = useRouter();
-  const { user, loading: authLoading } = useAuth();
+  const { user } = useAuth();
   const { showModal } = useModal();
+  const { seenFlagsLoaded, hasSeen, markSeen } = useRealtime();
+  const { unreadCount } = useNotifications();
   const isScreenFocused = useIsFocused();
 
+  // Requests pros bid on while landing was in the background or the seen flags were loading
+  const pendingSelectProRef = useRef<string[]>([]);
+
   const lottieRef = useRef<any>(null);
   const helpLottieRef = useRef<any>(null);
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -24,11 +30,6 @@ export function useLandingScreen() {
   const [isHelpMenuOpen, setIsHelpMenuOpen] = useState(false);
   const [canRenderLottie, setCanRenderLottie] = useState(Platform.OS !== 'web');
 
-  const statusPollRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const previousServiceStatusesRef = useRef<Record<string, string>>({});
-
-  const userEmail = user?.email ?? null;
-
   // Lottie render guard for native
   useEffect(() => {
     if (Platform.OS === 'ios' || Platform.OS === 'android') {
@@ -53,19 +54,11 @@ export function useLandingScreen() {
     }).start();
   }, [fadeAnim]);
 
-  // Reset tracking when user logs out
-  useEffect(() => {
-    if (!user) {
-      previousServiceStatusesRef.current = {};
-      resetSelectProModalTracker();
-    }
-  }, [user]);
-
   const navigate: NavigateFn = useCallback(
     (route: keyof RouteParams) => {
       const serviceRoutes = ['moving', 'cleaning', 'furniture-assembly', 'home-improvement', 'wall-mounting', 'custom-service'];
       const bookingFlowRoutes = ['booked-services', 'past-services', 'select-helpr', 'service-details'];
-      const homeRoutes = ['account', 'customer-service-chat'];
+      const homeRoutes = ['account', 'notifications', 'customer-service-chat'];
 
       if (serviceRoutes.includes(route as any)) {
         router.push(`/(services)/${route}` as any);
@@ -85,90 +78,42 @@ export function useLandingScreen() {
     navigate(user ? 'account' : 'signup');
   }, [navigate, user]);
 
-  const evaluateServiceStatuses = useCallback(async () => {
-    if (!isScreenFocused || authLoading) return;
-    if (!userEmail) return;
-
-    try {
-      const { data: customer, error: customerError } = await supabase
-        .from('customer')
-        .select('customer_id')
-        .eq('email', userEmail)
-        .maybeSingle();
-
-      if (customerError) {
-        console.error('Landing status watch failed to load customer record:', customerError);
-        return;
-      }
-
-      if (!customer?.customer_id) {
-        previousServiceStatusesRef.current = {};
-        return;
-      }
-
-      const { data: services, error: servicesError } = await supabase
-        .from('service')
-        .select('service_id, status')
-        .eq('customer_id', customer.customer_id);
-
-      if (servicesError) {
-        console.error('Landing status watch failed to load services:', servicesError);
-        return;
-      }
-
-      const nextStatuses: Record<string, string> = {};
-      services?.forEach((row: { service_id?: string | null; status?: string | null }) => {
-        if (!row?.service_id) return;
-
-        const normalizedStatus = (row.status ?? '').toLowerCase();
-        nextStatuses[row.service_id] = normalizedStatus;
-
-        const previousStatus = previousServiceStatusesRef.current[row.service_id];
-        const hasShownModal = hasShownSelectProModal(row.service_id);
-
-        if (previousStatus === 'finding_pros' && normalizedStatus === 'select_service_provider' && !hasShownModal) {
-          markSelectProModalShown(row.service_id);
-          showModal({
-            title: 'Select a Pro',
-            message: "Workers are available to fill your request! Select a pro when you're ready.",
-            buttons: [
-              {
-                text: 'Go',
-                onPress: () => router.push('/(booking-flow)/booked-services' as never),
-              },
-            ],
-          });
-        }
-      });
-
-      previousServiceStatusesRef.current = nextStatuses;
-    } catch (error) {
-      console.error('Landing status watch encountered an unexpected error:', error);
-    }
-  }, [authLoading, isScreenFocused, router, showModal, userEmail]);
-
+  // One modal covers every queued request, since they all lead to booked-services
+  const showPendingSelectPro = useCallback(() => {
+    if (!isScreenFocused || !seenFlagsLoaded) return;
+
+    const unseen = pendingSelectProRef.current.filter(serviceId => !hasSeen('select_pro_modal', serviceId));
+    pendingSelectProRef.current = [];
+    if (unseen.length === 0) return;
+
+    unseen.forEach(serviceId => markSeen('select_pro_modal', serviceId));
+    showModal({
+      title: 'Select a Pro',
+      message: "Workers are available to fill your request! Select a pro when you're ready.",
+      buttons: [
+        {
+          text: 'Go',
+          onPress: () => router.push('/(booking-flow)/booked-services' as never),
+        },
+      ],
+    });
+  }, [isScreenFocused, seenFlagsLoaded, hasSeen, markSeen, showModal, router]);
+
+  // Replays what was queued once landing is back in focus
   useEffect(() => {
-    if (!isScreenFocused) {
-      if (statusPollRef.current) {
-        clearInterval(statusPollRef.current);
-        statusPollRef.current = null;
-      }
-      return;
-    }
-
-    evaluateServiceStatuses();
+    showPendingSelectPro();
+  }, [showPendingSelectPro]);
 
-    statusPollRef.current = setInterval(() => {
-      evaluateServiceStatuses();
-    }, 5000);
+  // A pro bid on one of the customer's requests
+  useRealtimeEvents(event => {
+    if (event.type !== 'service') return;
+    if (event.previousStatus !== SERVICE_STATUS.FindingPros || event.status !== SERVICE_STATUS.SelectServiceProvider) return;
 
-    return () => {
-      if (statusPollRef.current) {
-        clearInterval(statusPollRef.current);
-        statusPollRef.current = null;
-      }
-    };
-  }, [evaluateServiceStatuses, isScreenFocused]);
+    if (!pendingSelectProRef.current.includes(event.service.service_id)) {
+      pendingSelectProRef.current.push(event.service.service_id);
+    }
+    showPendingSelectPro();
+  });
 
   const handleMenuPress = useCallback(() => {
     if (Platform.OS === 'web') {
@@ -235,6 +180,7 @@ export function useLandingScreen() {
     closeMenu,
     closeHelpMenu,
     services,
+    unreadCount,
   };
 }
 
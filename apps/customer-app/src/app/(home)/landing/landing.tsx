@@ -31,6 +31,7 @@ export default function LandingScreen() {
     closeMenu,
     closeHelpMenu,
     services,
+    unreadCount,
   } = useLandingScreen();
 
   return (
@@ -68,6 +69,7 @@ export default function LandingScreen() {
                 onCloseHelpMenu={closeHelpMenu}
                 onNavigate={navigate}
                 onAccountPress={handleAccountPress}
+                unreadCount={unreadCount}
               />
             </View>
           </KeyboardAvoidingView>
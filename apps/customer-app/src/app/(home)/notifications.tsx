@@ -0,0 +1,211 @@
+import { NotificationRow } from '@helpr/core';
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import React, { useCallback } from 'react';
+import { ActivityIndicator, Image, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { useAuth } from '../../context/AuthContext';
+import { useNotifications } from '../../context/NotificationsContext';
+
+const formatReceivedAt = (isoDate: string) => {
+  const date = new Date(isoDate);
+  if (Number.isNaN(date.getTime())) return '';
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+export default function NotificationsScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { notifications, unreadCount, loading, refresh, markAllRead, openNotification } = useNotifications();
+
+  useFocusEffect(useCallback(() => { refresh(); }, [refresh]));
+
+  const renderNotification = (notification: NotificationRow) => {
+    const unread = !notification.read_at;
+    return (
+      <Pressable
+        key={notification.notification_id}
+        style={[styles.notificationCard, unread && styles.notificationCardUnread]}
+        onPress={() => openNotification(notification)}
+      >
+        <View style={styles.cardHeaderRow}>
+          {unread && <View style={styles.unreadDot} />}
+          <Text style={styles.notificationTitle} numberOfLines={1}>{notification.title}</Text>
+          <Text style={styles.dateText}>{formatReceivedAt(notification.created_at)}</Text>
+        </View>
+        <Text style={styles.notificationBody}>{notification.body}</Text>
+        {notification.service_id && <Text style={styles.viewJobText}>View job</Text>}
+      </Pressable>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="dark" />
+      <Pressable style={styles.backButton} onPress={() => router.push('/(home)/landing' as any)}>
+        <Image source={require('../../assets/icons/backButton.png')} style={styles.backButtonIcon} />
+      </Pressable>
+      <View style={styles.header}>
+        <Text style={styles.title}>Notifications</Text>
+      </View>
+      <View style={styles.GreenHeaderBar} />
+      <View style={styles.contentContainer}>
+        {unreadCount > 0 && (
+          <Pressable style={styles.markAllButton} onPress={markAllRead}>
+            <Text style={styles.markAllButtonText}>Mark all as read</Text>
+          </Pressable>
+        )}
+        {loading && notifications.length === 0 ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#0c4309" />
+          </View>
+        ) : notifications.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>
+              {user ? 'No notifications yet' : 'Sign in to see updates about your jobs'}
+            </Text>
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.notificationList}
+            contentContainerStyle={styles.notificationListContent}
+            showsVerticalScrollIndicator={false}
+          >
+            {notifications.map(renderNotification)}
+          </ScrollView>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#E5DCC9',
+  },
+  header: {
+    backgroundColor: '#FFF8E8',
+    padding: 15,
+    paddingTop: 70,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#0c4309',
+  },
+  GreenHeaderBar: {
+    backgroundColor: '#0c4309',
+    height: 30,
+  },
+  contentContainer: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  markAllButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+    backgroundColor: '#FFF8E8',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#C0B9A6',
+  },
+  markAllButtonText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#0c4309',
+  },
+  notificationList: {
+    flex: 1,
+  },
+  notificationListContent: {
+    paddingTop: 4,
+    paddingBottom: 120,
+    flexGrow: 1,
+  },
+  notificationCard: {
+    backgroundColor: '#F5E7D0',
+    borderRadius: 14,
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 3,
+  },
+  notificationCardUnread: {
+    backgroundColor: '#FFF8E8',
+    borderWidth: 1,
+    borderColor: '#0c4309',
+  },
+  cardHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#0c4309',
+    marginRight: 8,
+  },
+  notificationTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#0c4309',
+  },
+  dateText: {
+    color: '#666',
+    fontSize: 11,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  notificationBody: {
+    fontSize: 13,
+    color: '#333',
+    lineHeight: 18,
+  },
+  viewJobText: {
+    marginTop: 8,
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#0c4309',
+  },
+  backButton: {
+    position: 'absolute',
+    top: 58,
+    left: 30,
+    zIndex: 10,
+  },
+  backButtonIcon: {
+    width: 40,
+    height: 40,
+  },
+});
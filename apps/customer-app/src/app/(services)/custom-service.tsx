@@ -1,3 +1,4 @@
+import { containsStreetNumber, decodePolyline, ensureRouteEndpoints, isWithinServiceArea, ProposedServiceChanges } from '@helpr/core';
 import { Audio } from 'expo-av';
 import Constants from 'expo-constants';
 import * as FileSystem from 'expo-file-system';
@@ -9,8 +10,10 @@ import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { ActivityIndicator, Animated, Easing, Image, Keyboard, Modal, Platform, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
 import MapView, { LatLng, Marker, Polyline, PROVIDER_DEFAULT } from 'react-native-maps';
 import { SvgXml } from 'react-native-svg';
+import { createWaitlistModal } from '../../components/services/WaitlistForm';
 import { useAuth } from '../../context/AuthContext';
 import { useModal } from '../../context/ModalContext';
+import { describeQuoteError, IssuedQuote, isQuoteExpired, requestQuote, toQuoteLocation } from '../../lib/quotes';
 import { supabase } from '../../lib/supabase';
 
 type PlaceSuggestion = {
@@ -46,6 +49,8 @@ type EditServicePayload = {
   scheduling_type?: string | null;
   scheduled_date_time?: string | null;
   description?: string | null;
+  // Set once a helpr has accepted the job; edits are then sent to them as a change request
+  service_provider_id?: string | null;
 };
 
 type LocationAutocompleteInputProps = {
@@ -81,9 +86,12 @@ type customServiceFormState = {
   furnitureScope: string;
 };
 
+// Guests are asked to sign in before quoting or scheduling; the action resumes afterwards
+type customServiceResumeAction = 'schedule-customService' | 'quote-customService';
+
 type customServiceReturnData = {
   formState: customServiceFormState;
-  action?: 'schedule-customService';
+  action?: customServiceResumeAction;
   timestamp?: number;
   params?: Record<string, string>;
 };
@@ -140,218 +148,11 @@ const resolveOpenAIApiKey = () => {
   );
 };
 
-type ServiceZoneBoundingBox = {
-  name: string;
-  minLat: number;
-  maxLat: number;
-  minLng: number;
-  maxLng: number;
-};
-
-const ALLOWED_SERVICE_ZONES: ServiceZoneBoundingBox[] = [
-  { name: 'Manhattan', minLat: 40.6808, maxLat: 40.8820, minLng: -74.0477, maxLng: -73.9070 },
-  { name: 'Brooklyn', minLat: 40.5512, maxLat: 40.7395, minLng: -74.0530, maxLng: -73.8334 },
-  { name: 'Queens', minLat: 40.5380, maxLat: 40.8007, minLng: -73.9620, maxLng: -73.7004 },
-  { name: 'Bronx', minLat: 40.7850, maxLat: 40.9176, minLng: -73.9330, maxLng: -73.7650 },
-  { name: 'Staten Island', minLat: 40.4810, maxLat: 40.6510, minLng: -74.2557, maxLng: -74.0520 },
-  { name: 'Westchester County', minLat: 40.8940, maxLat: 41.3570, minLng: -74.0770, maxLng: -73.4810 },
-  { name: 'Hudson County', minLat: 40.6500, maxLat: 40.8770, minLng: -74.1200, maxLng: -74.0100 },
-  { name: 'Bergen County', minLat: 40.7900, maxLat: 41.1200, minLng: -74.2050, maxLng: -73.8640 },
-];
-
-const isWithinServiceZone = (coordinate: LatLng, zone: ServiceZoneBoundingBox): boolean => {
-  const { latitude, longitude } = coordinate;
-  return latitude >= zone.minLat && latitude <= zone.maxLat && longitude >= zone.minLng && longitude <= zone.maxLng;
-};
-
-const isWithinServiceArea = (coordinate: LatLng | undefined | null): boolean => {
-  if (!coordinate) {
-    return false;
-  }
-
-  return ALLOWED_SERVICE_ZONES.some(zone => isWithinServiceZone(coordinate, zone));
-};
-
 const formatCurrency = (value: number) => {
   const safeValue = Math.max(0, Math.round(value));
   return `$${safeValue.toLocaleString('en-US')}`;
 };
 
-const STREET_SUFFIX_KEYWORDS = new Set([
-  'street',
-  'st',
-  'avenue',
-  'ave',
-  'road',
-  'rd',
-  'drive',
-  'dr',
-  'lane',
-  'ln',
-  'way',
-  'wy',
-  'place',
-  'pl',
-  'court',
-  'ct',
-  'boulevard',
-  'blvd',
-  'circle',
-  'cir',
-  'parkway',
-  'pkwy',
-  'terrace',
-  'ter',
-  'trail',
-  'trl',
-  'highway',
-  'hwy',
-  'expressway',
-  'expy',
-  'freeway',
-  'fwy',
-  'loop',
-  'row',
-  'plaza',
-  'square',
-  'sq',
-  'causeway',
-  'cswy',
-  'crescent',
-  'cres',
-  'bridge',
-  'brg',
-  'pass',
-  'path',
-  'passage',
-  'view',
-  'vista',
-  'walk',
-  'run',
-  'landing',
-  'ldg',
-  'ridge',
-  'rdg',
-  'heights',
-  'hts',
-  'park',
-  'pk',
-  'manor',
-  'mnr',
-  'station',
-  'sta',
-]);
-
-const NON_ADDRESS_FOLLOWING_WORDS = new Set([
-  'bedroom',
-  'bedrooms',
-  'bathroom',
-  'bathrooms',
-  'box',
-  'boxes',
-  'item',
-  'items',
-  'piece',
-  'pieces',
-  'room',
-  'rooms',
-  'floor',
-  'floors',
-  'apt',
-  'apartment',
-  'apartments',
-  'unit',
-  'units',
-  'suite',
-  'ste',
-  'level',
-  'levels',
-  'story',
-  'stories',
-  'garage',
-  'garages',
-]);
-
-const containsStreetNumber = (value?: string | null): boolean => {
-  if (!value) {
-    return false;
-  }
-
-  const normalized = value.replace(/\s+/g, ' ').trim();
-  if (normalized.length === 0) {
-    return false;
-  }
-
-  const candidatePattern = /\b\d{1,6}[A-Za-z]?(?:[-\s]\d{1,6}[A-Za-z]?)?\s+(?:[A-Za-z0-9.'-]+\s*){1,4}/gi;
-  let match: RegExpExecArray | null;
-
-  while ((match = candidatePattern.exec(normalized)) !== null) {
-    const snippet = match[0].toLowerCase();
-    const words = snippet.split(/\s+/).filter(Boolean);
-
-    if (words.length < 2) {
-      continue;
-    }
-
-    const secondWord = words[1].replace(/[^a-z0-9]/g, '');
-    if (NON_ADDRESS_FOLLOWING_WORDS.has(secondWord)) {
-      continue;
-    }
-
-    const hasSuffix = words.some(word => STREET_SUFFIX_KEYWORDS.has(word.replace(/[^a-z]/g, '')));
-    if (hasSuffix) {
-      return true;
-    }
-
-    if (words.length >= 3) {
-      return true;
-    }
-  }
-
-  return false;
-};
-
-const decodePolyline = (encoded: string): LatLng[] => {
-  const points: LatLng[] = [];
-  let index = 0;
-  let latitude = 0;
-  let longitude = 0;
-
-  while (index < encoded.length) {
-    let result = 0;
-    let shift = 0;
-    let byte: number;
-
-    do {
-      byte = encoded.charCodeAt(index++) - 63;
-      result |= (byte & 0x1f) << shift;
-      shift += 5;
-    } while (byte >= 0x20);
-
-    const deltaLat = (result & 1) ? ~(result >> 1) : result >> 1;
-    latitude += deltaLat;
-
-    result = 0;
-    shift = 0;
-
-    do {
-      byte = encoded.charCodeAt(index++) - 63;
-      result |= (byte & 0x1f) << shift;
-      shift += 5;
-    } while (byte >= 0x20);
-
-    const deltaLng = (result & 1) ? ~(result >> 1) : result >> 1;
-    longitude += deltaLng;
-
-    points.push({
-      latitude: latitude / 1e5,
-      longitude: longitude / 1e5,
-    });
-  }
-
-  return points;
-};
-
 const computeArcPath = (start: LatLng, end: LatLng): LatLng[] => {
   const toRadians = Math.PI / 180;
   const midLat = (start.latitude + end.latitude) / 2;
@@ -398,45 +199,6 @@ const computeArcPath = (start: LatLng, end: LatLng): LatLng[] => {
   return points;
 };
 
-const ensureRouteEndpoints = (path: LatLng[], start: LatLng, end: LatLng): LatLng[] => {
-  const threshold = 0.00005;
-  const adjusted = path.length > 0 ? [...path] : [];
-
-  const alignPoint = (points: LatLng[], target: LatLng, position: 'start' | 'end') => {
-    if (points.length === 0) {
-      points.push(target);
-      return;
-    }
-
-    const index = position === 'start' ? 0 : points.length - 1;
-    const candidate = points[index];
-    const distance = Math.hypot(candidate.latitude - target.latitude, candidate.longitude - target.longitude);
-
-    if (distance > threshold) {
-      if (position === 'start') {
-        points.unshift(target);
-      } else {
-        points.push(target);
-      }
-    } else {
-      points[index] = target;
-    }
-  };
-
-  if (adjusted.length === 0) {
-    return [start, end];
-  }
-
-  alignPoint(adjusted, start, 'start');
-  alignPoint(adjusted, end, 'end');
-
-  if (adjusted.length === 1) {
-    adjusted.push(end);
-  }
-
-  return adjusted;
-};
-
 const cloneSelectedLocation = (location: SelectedLocation | null): SelectedLocation | null => {
   if (!location) {
     return null;
@@ -684,8 +446,10 @@ export default function customService() {
   const [priceNote, setPriceNote] = useState<string | null>(null);
   const [priceError, setPriceError] = useState<string | null>(null);
   const [isPriceLoading, setIsPriceLoading] = useState(false);
+  const [issuedQuote, setIssuedQuote] = useState<IssuedQuote | null>(null);
 
   const resetPriceState = useCallback(() => {
+    setIssuedQuote(null);
     setPriceQuote(null);
     setPriceNote(null);
     setPriceError(null);
@@ -698,7 +462,8 @@ export default function customService() {
   const [customerLookupError, setCustomerLookupError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSignInModal, setShowSignInModal] = useState(false);
-  const [pendingResumeAction, setPendingResumeAction] = useState<null | 'schedule-customService'>(null);
+  const [signInAction, setSignInAction] = useState<customServiceResumeAction>('schedule-customService');
+  const [pendingResumeAction, setPendingResumeAction] = useState<null | customServiceResumeAction>(null);
   const [showcustomServiceAnalysisModal, setShowcustomServiceAnalysisModal] = useState(false);
   const [apartmentSize, setApartmentSize] = useState('');
   const [packingStatus, setPackingStatus] = useState<'packed' | 'not-packed' | ''>('');
@@ -777,7 +542,7 @@ export default function customService() {
     [slideAnimation, slideAnimation2],
   );
 
-  const preserveFormForAuth = useCallback(() => {
+  const preserveFormForAuth = useCallback((action: customServiceResumeAction = signInAction) => {
     const formState = collectFormState();
     const sanitizedEntries: Array<[string, string]> = [];
 
@@ -800,7 +565,7 @@ export default function customService() {
 
     const payload: customServiceReturnData = {
       formState,
-      action: 'schedule-customService',
+      action,
       timestamp: Date.now(),
     };
 
@@ -809,7 +574,7 @@ export default function customService() {
     }
 
     setReturnTo(CUSTOM_SERVICE_RETURN_PATH, payload);
-  }, [collectFormState, params, setReturnTo]);
+  }, [collectFormState, params, setReturnTo, signInAction]);
 
   const mapEdgePadding = useMemo(
     () => ({ top: 60, right: 36, bottom: 220, left: 36 }),
@@ -994,8 +759,8 @@ export default function customService() {
     restoreFormState(payload.formState);
     clearReturnTo();
 
-    if (payload.action === 'schedule-customService') {
-      setPendingResumeAction('schedule-customService');
+    if (payload.action) {
+      setPendingResumeAction(payload.action);
     }
   }, [user, getReturnTo, clearReturnTo, restoreFormState]);
 
@@ -1013,10 +778,7 @@ export default function customService() {
       options: { showStreetNumberWarning?: boolean } = {},
     ) => {
       if (!isWithinServiceArea(location.coordinate)) {
-        showModal({
-          title: 'Outside of Service Area',
-          message: "Helpr currently serves NYC's five boroughs, Westchester County, and Hudson & Bergen counties in NJ. Please pick an address in these areas if you wish to continue.",
-        });
+        showModal(createWaitlistModal({ serviceType: 'customService', ...(target === 'start' ? { start: location } : { end: location }) }, 'Outside of Service Area'));
         return;
       }
 
@@ -1295,13 +1057,37 @@ export default function customService() {
       const { start, end } = options;
 
       setIsPriceLoading(true);
+      setIssuedQuote(null);
       setPriceQuote(null);
       setPriceNote(null);
       setPriceError(null);
 
+      // The LLM only classifies complexity; the server prices and stores the quote
+      const issueQuote = async (complexity: string | null) => {
+        if (!start || !end) {
+          setPriceError('Please enter start and end location.');
+          return;
+        }
+
+        try {
+          const issued = await requestQuote({
+            serviceType: 'customService',
+            inputs: { tier: complexity },
+            start: toQuoteLocation(start),
+            end: toQuoteLocation(end),
+          });
+          setIssuedQuote(issued);
+          setPriceQuote(formatCurrency(issued.amount));
+        } catch (error) {
+          console.warn('Failed to issue price quote', error);
+          setPriceError('Unable to estimate price right now.');
+        }
+      };
+
+      // Without an OpenAI key the job is quoted at the default complexity
       if (!openAiApiKey) {
+        await issueQuote(null);
         setIsPriceLoading(false);
-        setPriceError('Price estimate unavailable (missing OpenAI key).');
         return;
       }
 
@@ -1326,7 +1112,7 @@ export default function customService() {
               {
                 role: 'system',
                 content:
-                  'You are a pricing assistant for custom service requests. Respond with a JSON object containing: price (number), needs_clarification (boolean), clarification_prompt (string, only if needs_clarification is true), safety_concern (boolean), safety_message (string, only if safety_concern is true). Carefully analyze the task description for the exact scope of work. Use your best judgment to determine if essential details are missing - dynamically adjust what you ask for based on the type of task described. If the description is too vague or missing critical details for that specific type of work, set needs_clarification to true with a clarification_prompt asking for the specific missing information. If the request involves: dangerous activities, illegal activities, licensed professional work (electrical/plumbing/HVAC), hazardous materials, extreme physical risk, or appears priced well above $800, set safety_concern to true. For complete, suitable descriptions, provide price in USD (50-800 range): simple tasks $50-150, medium complexity $150-300, complex tasks $300-800. Provide optimistic, budget-friendly estimates.',
+                  `You are a pricing assistant for custom service requests. Respond with a JSON object containing: complexity ("simple", "medium" or "complex"), needs_clarification (boolean), clarification_prompt (string, only if needs_clarification is true), safety_concern (boolean), safety_message (string, only if safety_concern is true). Carefully analyze the task description for the exact scope of work. Use your best judgment to determine if essential details are missing - dynamically adjust what you ask for based on the type of task described. If the description is too vague or missing critical details for that specific type of work, set needs_clarification to true with a clarification_prompt asking for the specific missing information. If the request involves: dangerous activities, illegal activities, licensed professional work (electrical/plumbing/HVAC), hazardous materials, extreme physical risk, or appears priced well above $800, set safety_concern to true. For complete, suitable descriptions, classify the complexity of the work; the price is calculated from a rate card for that complexity.`,
               },
               {
                 role: 'user',
@@ -1379,23 +1165,16 @@ export default function customService() {
           return;
         }
 
-        const price = Number(parsed.price);
-
-        if (!Number.isFinite(price)) {
-          throw new Error('Invalid price value');
-        }
-
-        const sanitizedPrice = Math.max(0, Math.round(price));
-
-        setPriceQuote(formatCurrency(sanitizedPrice));
+        const complexity = typeof parsed.complexity === 'string' ? parsed.complexity.toLowerCase() : null;
+        await issueQuote(complexity);
       } catch (error) {
-        console.warn('Failed to fetch price estimate', error);
-        setPriceError('Unable to estimate price right now.');
+        console.warn('Failed to classify the request, using the default complexity', error);
+        await issueQuote(null);
       } finally {
         setIsPriceLoading(false);
       }
     },
-    [openAiApiKey],
+    [openAiApiKey, showModal],
   );
 
   const handleDescriptionSubmit = useCallback(() => {
@@ -1421,8 +1200,16 @@ export default function customService() {
     }
 
     Keyboard.dismiss();
+
+    // Quotes are issued to signed-in customers only; the estimate is requested after sign-in
+    if (!user) {
+      setSignInAction('quote-customService');
+      setShowSignInModal(true);
+      return;
+    }
+
     fetchPriceEstimate(trimmed, { start: startLocation, end: endLocation });
-  }, [description, endLocation, fetchPriceEstimate, isPriceLoading, isTranscribing, showModal, startLocation]);
+  }, [description, endLocation, fetchPriceEstimate, isPriceLoading, isTranscribing, showModal, startLocation, user]);
 
   const analyzecustomServiceDescription = useCallback((text: string) => {
     const lowerText = text.toLowerCase();
@@ -1646,16 +1433,21 @@ export default function customService() {
     }
 
     if (!isWithinServiceArea(startLocation.coordinate) || !isWithinServiceArea(endLocation.coordinate)) {
-      showModal({
-        title: 'We\'re not in your area yet.',
-        message: "Helpr currently operates in NYC's five boroughs, Westchester County, and Hudson & Bergen counties in NJ. Please pick addresses within this area to continue.",
-      });
+      showModal(createWaitlistModal({
+        serviceType: 'customService',
+        description: trimmedDescription,
+        start: startLocation,
+        end: endLocation,
+      }));
       return;
     }
 
+    // New bookings use the server-issued quote; edits without a new estimate keep the booked price
     const priceDigitsRaw = priceQuote?.replace(/[^0-9.]/g, '') ?? '';
     const priceValue = priceDigitsRaw.length > 0 ? Number(priceDigitsRaw) : null;
-    const sanitizedPrice = Number.isFinite(priceValue ?? NaN) ? priceValue : null;
+    const sanitizedPrice = issuedQuote
+      ? issuedQuote.amount
+      : isEditing && Number.isFinite(priceValue ?? NaN) ? priceValue : null;
 
     if (sanitizedPrice === null) {
       showModal({
@@ -1665,6 +1457,15 @@ export default function customService() {
       return;
     }
 
+    if (issuedQuote && isQuoteExpired(issuedQuote)) {
+      resetPriceState();
+      showModal({
+        title: 'Estimate expired',
+        message: describeQuoteError({ message: 'quote_expired' }) ?? 'Please request a new estimate.',
+      });
+      return;
+    }
+
     const missingStreetTargets: Array<'start' | 'end'> = [];
     if (!containsStreetNumber(startLocation.description)) {
       missingStreetTargets.push('start');
@@ -1690,7 +1491,8 @@ export default function customService() {
     }
 
     if (!user) {
-      preserveFormForAuth();
+      setSignInAction('schedule-customService');
+      preserveFormForAuth('schedule-customService');
       setShowSignInModal(true);
       return;
     }
@@ -1731,11 +1533,30 @@ export default function customService() {
     try {
       setIsSubmitting(true);
 
+      // booked-services asks for the new time, then sends everything to the helpr
+      if (isEditing && editServiceId && editingPayload?.service_provider_id) {
+        const changes: ProposedServiceChanges = {
+          description: normalizedDescription,
+          startLocation: startLocation.description,
+          endLocation: endLocation.description,
+          quoteId: issuedQuote?.quoteId ?? null,
+        };
+        router.push({
+          pathname: '/(booking-flow)/booked-services' as any,
+          params: {
+            serviceId: editServiceId,
+            changeRequest: encodeURIComponent(JSON.stringify(changes)),
+          },
+        });
+        return;
+      }
+
       if (isEditing && editServiceId) {
         const updatePayload: Record<string, unknown> = {
           start_location: startLocation.description,
           end_location: endLocation.description,
           price: sanitizedPrice,
+          ...(issuedQuote ? { quote_id: issuedQuote.quoteId } : {}),
           payment_method_type: paymentMethodType,
           autofill_type: autofillType,
           description: normalizedDescription,
@@ -1781,6 +1602,7 @@ export default function customService() {
         start_location: startLocation.description,
         end_location: endLocation.description,
         price: sanitizedPrice,
+        quote_id: issuedQuote?.quoteId ?? null,
         start_datetime: null,
         end_datetime: null,
         payment_method_type: paymentMethodType,
@@ -1814,12 +1636,15 @@ export default function customService() {
     customerLookupError,
     description,
     editServiceId,
+    editingPayload?.service_provider_id,
     endLocation,
     isAuto,
     isEditing,
     isPersonal,
     isSubmitting,
     priceQuote,
+    issuedQuote,
+    resetPriceState,
     preserveFormForAuth,
     resolveCustomerId,
     router,
@@ -1844,6 +1669,21 @@ export default function customService() {
     };
   }, [handleScheduleHelpr, isSubmitting, pendingResumeAction, user]);
 
+  useEffect(() => {
+    if (!user || pendingResumeAction !== 'quote-customService' || isPriceLoading) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setPendingResumeAction(null);
+      handleDescriptionSubmit();
+    }, 0);
+
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [handleDescriptionSubmit, isPriceLoading, pendingResumeAction, user]);
+
   const transcribeAudioAsync = useCallback(
     async (uri: string) => {
       if (!openAiApiKey) {
@@ -2630,7 +2470,9 @@ export default function customService() {
             <Text style={styles.signInTitle}>Sign In Required</Text>
             <View style={styles.signInDivider} />
             <Text style={styles.signInMessage}>
-              Please sign in or sign up to schedule a customService service.
+              {signInAction === 'quote-customService'
+                ? 'Please sign in or sign up to get a price estimate.'
+                : 'Please sign in or sign up to schedule a customService service.'}
             </Text>
             <View style={styles.signInButtonsRow}>
               <Pressable 
@@ -14,6 +14,7 @@ type EndLocationSectionProps = {
   currentLocationOption?: CurrentLocationOption;
   forceHideSuggestions?: boolean;
   onFocusInput?: () => void;
+  placeholder?: string;
 };
 
 export const EndLocationSection: React.FC<EndLocationSectionProps> = ({
@@ -26,6 +27,7 @@ export const EndLocationSection: React.FC<EndLocationSectionProps> = ({
   currentLocationOption,
   forceHideSuggestions,
   onFocusInput,
+  placeholder = 'End Location',
 }) => {
   const [isSuggestionsVisible, setIsSuggestionsVisible] = useState(false);
 
@@ -42,7 +44,7 @@ export const EndLocationSection: React.FC<EndLocationSectionProps> = ({
         />
         <LocationAutocompleteInput
           value={value}
-          placeholder="End Location"
+          placeholder={placeholder}
           onChangeText={onChangeText}
           onSelectSuggestion={onSelectSuggestion}
           onClear={onClear}
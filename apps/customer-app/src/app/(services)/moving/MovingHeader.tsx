@@ -3,9 +3,13 @@ import { Text, View } from 'react-native';
 
 import { styles } from './moving.styles';
 
-export const MovingHeader: React.FC = () => (
+type MovingHeaderProps = {
+  title?: string;
+};
+
+export const MovingHeader: React.FC<MovingHeaderProps> = ({ title = 'Moving Details' }) => (
   <View>
-    <Text style={styles.title}>Moving Details</Text>
+    <Text style={styles.title}>{title}</Text>
     <View style={styles.DividerContainer1}>
       <View style={styles.DividerLine1} />
     </View>
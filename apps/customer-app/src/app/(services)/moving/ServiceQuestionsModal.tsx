@@ -0,0 +1,272 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  Animated,
+  Easing,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import { AttachmentThumbnails } from '../../../components/services';
+import { AttachmentAsset } from '../../../components/services/AttachmentThumbnails/types';
+import { ServiceAnswers, ServiceQuestion } from '../../../lib/serviceDefinitions';
+
+export interface ServiceQuestionsModalProps {
+  question: ServiceQuestion | null;
+  answers: ServiceAnswers;
+  onAnswer: (questionId: string, value: string) => void;
+  isLastQuestion: boolean;
+  attachments: AttachmentAsset[];
+  onAddAttachments: () => void;
+  onRemoveAttachment: (index: number) => void;
+  onBack: () => void;
+  onNext: () => void;
+}
+
+export const ServiceQuestionsModal: React.FC<ServiceQuestionsModalProps> = ({
+  question,
+  answers,
+  onAnswer,
+  isLastQuestion,
+  attachments,
+  onAddAttachments,
+  onRemoveAttachment,
+  onBack,
+  onNext,
+}) => {
+  const animation = useRef(new Animated.Value(0)).current;
+  const visible = question !== null;
+
+  useEffect(() => {
+    Animated.timing(animation, {
+      toValue: visible ? 1 : 0,
+      duration: visible ? 250 : 200,
+      easing: visible ? Easing.out(Easing.cubic) : Easing.in(Easing.cubic),
+      useNativeDriver: true,
+    }).start();
+  }, [visible, animation]);
+
+  const answer = question ? answers[question.id] ?? '' : '';
+  const isNextDisabled = question
+    ? (question.kind === 'choice' || question.required) && !answer.trim()
+    : true;
+
+  return (
+    <Modal visible={visible} transparent animationType="none" onRequestClose={onBack}>
+      <View style={styles.overlayBackground}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardView}
+        >
+          <Animated.View
+            style={[
+              styles.modal,
+              {
+                opacity: animation,
+                transform: [
+                  {
+                    translateY: animation.interpolate({
+                      inputRange: [0, 1],
+                      outputRange: [12, 0],
+                    }),
+                  },
+                ],
+              },
+            ]}
+          >
+            {question && (
+              <>
+                <Text style={styles.title}>{question.title}</Text>
+                <Text style={styles.message}>{question.message}</Text>
+
+                {question.kind === 'choice' ? (
+                  <View style={styles.optionsContainer}>
+                    {question.options.map(option => {
+                      const selected = answer === option.value;
+                      return (
+                        <Pressable
+                          key={option.value}
+                          style={[styles.option, selected && styles.optionSelected]}
+                          onPress={() => onAnswer(question.id, option.value)}
+                        >
+                          <Text style={[styles.optionText, selected && styles.optionTextSelected]}>
+                            {option.label}
+                          </Text>
+                          {option.description ? (
+                            <Text style={[styles.optionDescription, selected && styles.optionTextSelected]}>
+                              {option.description}
+                            </Text>
+                          ) : null}
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                ) : (
+                  <>
+                    <TextInput
+                      style={[styles.input, !question.multiline && styles.inputSingleLine]}
+                      value={answer}
+                      onChangeText={text => onAnswer(question.id, text)}
+                      placeholder={question.placeholder}
+                      multiline={question.multiline}
+                      numberOfLines={question.multiline ? 3 : 1}
+                      placeholderTextColor="#777"
+                    />
+                    {question.allowPhotos && (
+                      <View style={styles.attachments}>
+                        <AttachmentThumbnails
+                          attachments={attachments}
+                          onRemove={onRemoveAttachment}
+                          onAdd={onAddAttachments}
+                        />
+                      </View>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+
+            <View style={styles.buttonsRow}>
+              <Pressable style={styles.cancelButton} onPress={onBack}>
+                <Text style={styles.cancelButtonText}>Back</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.nextButton, isNextDisabled && styles.nextButtonDisabled]}
+                onPress={onNext}
+                disabled={isNextDisabled}
+              >
+                <Text style={styles.nextButtonText}>{isLastQuestion ? 'Done' : 'Next'}</Text>
+              </Pressable>
+            </View>
+          </Animated.View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlayBackground: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardView: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: '100%',
+  },
+  modal: {
+    backgroundColor: '#FFF8E8',
+    borderRadius: 20,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#0c4309',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 15,
+    color: '#49454F',
+    textAlign: 'center',
+    marginBottom: 20,
+    lineHeight: 21,
+  },
+  optionsContainer: {
+    gap: 12,
+    marginBottom: 20,
+  },
+  option: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: '#E5DCC9',
+  },
+  optionSelected: {
+    backgroundColor: '#0c4309',
+    borderColor: '#0c4309',
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#333333',
+    textAlign: 'center',
+    fontWeight: '500',
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: '#49454F',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#E5DCC9',
+    marginBottom: 20,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  inputSingleLine: {
+    minHeight: 0,
+  },
+  attachments: {
+    marginBottom: 20,
+  },
+  buttonsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#E5DCC9',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#0c4309',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  nextButton: {
+    flex: 1,
+    backgroundColor: '#0c4309',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  nextButtonDisabled: {
+    opacity: 0.5,
+  },
+  nextButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
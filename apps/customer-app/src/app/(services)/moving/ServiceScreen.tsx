@@ -0,0 +1,488 @@
+import { useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Animated, Keyboard, KeyboardAvoidingView, Platform, TextInput, TouchableWithoutFeedback, View } from 'react-native';
+import MapView from 'react-native-maps';
+
+import { PaymentMethodModal } from '../../../components/common/PaymentMethodModal';
+import {
+  AttachmentThumbnails,
+  BackButton,
+  JobDescriptionSection,
+  PriceDisplay,
+  ScheduleButton,
+  SignInModal,
+  TogglesSection,
+} from '../../../components/services';
+import { AttachmentAsset } from '../../../components/services/AttachmentThumbnails/types';
+import { useAuth } from '../../../context/AuthContext';
+import { useModal } from '../../../context/ModalContext';
+import {
+  buildServiceDescription,
+  resolveServicePricingInputs,
+  ServiceAnswers,
+  ServiceDefinition,
+} from '../../../lib/serviceDefinitions';
+
+import { EndLocationSection } from './EndLocationSection';
+import { LocationDivider } from './LocationDivider';
+import { MapWithRoute } from './MapWithRoute';
+import {
+  useAttachmentPicker,
+  useEditService,
+  useLocationManagement,
+  usePaymentManagement,
+  usePriceEstimate,
+  useServiceQuestions,
+  useServiceSubmission,
+  useVoiceInput,
+} from './moving.hooks';
+import { styles } from './moving.styles';
+import { ServiceFormState, ServiceResumeAction, ServiceReturnData } from './moving.types';
+import { MovingHeader } from './MovingHeader';
+import { ServiceQuestionsModal } from './ServiceQuestionsModal';
+import { StartLocationSection } from './StartLocationSection';
+
+export interface ServiceScreenProps {
+  service: ServiceDefinition;
+}
+
+/**
+ * Booking screen driven entirely by a ServiceDefinition: the questions it asks,
+ * how it prices and which locations it needs all come from the definition.
+ */
+export const ServiceScreen: React.FC<ServiceScreenProps> = ({ service }) => {
+  const { user, setReturnTo, getReturnTo, clearReturnTo } = useAuth();
+  const { showModal } = useModal();
+  const params = useLocalSearchParams<{ editServiceId?: string; editService?: string }>();
+  const mapRef = useRef<MapView | null>(null);
+  const descriptionInputRef = useRef<TextInput | null>(null);
+  const returnPath = `/(services)/${service.key}`;
+
+  // Core form state
+  const [description, setDescription] = useState('');
+  const [attachments, setAttachments] = useState<AttachmentAsset[]>([]);
+  const [showSignInModal, setShowSignInModal] = useState(false);
+  const [signInAction, setSignInAction] = useState<ServiceResumeAction>('schedule');
+  const [pendingResume, setPendingResume] = useState(false);
+  const [pendingQuote, setPendingQuote] = useState(false);
+  const [forceHideSuggestions, setForceHideSuggestions] = useState(false);
+
+  // Toggle states
+  const [isAuto, setIsAuto] = useState(false);
+  const [isPersonal, setIsPersonal] = useState(true);
+  const slideAnimation = useRef(new Animated.Value(0)).current;
+  const slideAnimation2 = useRef(new Animated.Value(0)).current;
+  const slideAnimationRef = useRef<Animated.CompositeAnimation | null>(null);
+  const slideAnimation2Ref = useRef<Animated.CompositeAnimation | null>(null);
+
+  // Re-opens the questions when the price estimate asks for clarification
+  const askQuestionsAgainRef = useRef<() => void>(() => undefined);
+
+  // Custom hooks
+  const { editServiceId, editingPayload, isEditing } = useEditService(params);
+  const priceEstimate = usePriceEstimate({ service, showModal });
+  const locationManagement = useLocationManagement({
+    service,
+    showModal,
+    mapRef,
+    onLocationChange: priceEstimate.resetPriceState,
+  });
+  const paymentManagement = usePaymentManagement({ user, showModal });
+  const attachmentPicker = useAttachmentPicker({ setAttachments, showModal });
+  const voiceInput = useVoiceInput({
+    setDescription,
+    resetPriceState: priceEstimate.resetPriceState,
+    showModal,
+  });
+
+  const { startLocation, endLocation } = locationManagement;
+  const { fetchPrice } = priceEstimate;
+
+  const handleQuestionsComplete = useCallback((answers: ServiceAnswers) => {
+    const finalDescription = buildServiceDescription(service, description, answers);
+    setDescription(finalDescription);
+
+    // Quotes are issued to signed-in customers only; the estimate is requested after sign-in
+    if (!user) {
+      setSignInAction('quote');
+      setShowSignInModal(true);
+      return;
+    }
+
+    fetchPrice(finalDescription, {
+      start: startLocation,
+      end: service.needsEndLocation ? endLocation : null,
+      inputs: resolveServicePricingInputs(service, answers, finalDescription),
+      onClarificationNeeded: () => askQuestionsAgainRef.current(),
+    });
+  }, [description, endLocation, fetchPrice, service, startLocation, user]);
+
+  const serviceQuestions = useServiceQuestions({
+    service,
+    description,
+    startLocation,
+    endLocation,
+    showModal,
+    onComplete: handleQuestionsComplete,
+  });
+
+  const { startQuestions, setAnswers } = serviceQuestions;
+
+  useEffect(() => {
+    askQuestionsAgainRef.current = () => startQuestions({ askAll: true });
+  }, [startQuestions]);
+
+  const collectFormState = useCallback((): ServiceFormState => ({
+    description,
+    answers: serviceQuestions.answers,
+    startLocation,
+    endLocation,
+    isAuto,
+    isPersonal,
+    attachments,
+    issuedQuote: priceEstimate.issuedQuote,
+  }), [attachments, description, endLocation, isAuto, isPersonal, priceEstimate.issuedQuote, serviceQuestions.answers, startLocation]);
+
+  const preserveFormForAuth = useCallback(() => {
+    const routeParams = Object.entries(params).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim().length > 0,
+    );
+
+    const payload: ServiceReturnData = {
+      formState: collectFormState(),
+      action: signInAction,
+      timestamp: Date.now(),
+      ...(routeParams.length > 0 ? { params: Object.fromEntries(routeParams) } : {}),
+    };
+
+    setReturnTo(returnPath, payload);
+  }, [collectFormState, params, returnPath, setReturnTo, signInAction]);
+
+  const promptScheduleSignIn = useCallback((visible: boolean) => {
+    setSignInAction('schedule');
+    setShowSignInModal(visible);
+  }, []);
+
+  const serviceSubmission = useServiceSubmission({
+    service,
+    user,
+    description,
+    startLocation,
+    endLocation,
+    priceQuote: priceEstimate.priceQuote,
+    issuedQuote: priceEstimate.issuedQuote,
+    isAuto,
+    isPersonal,
+    activePaymentMethod: paymentManagement.activePaymentMethod,
+    showModal,
+    setShowSignInModal: promptScheduleSignIn,
+    params,
+    editServiceId: isEditing ? editServiceId : null,
+    editRequiresApproval: isEditing && Boolean(editingPayload?.service_provider_id),
+    onPreserveForm: preserveFormForAuth,
+    onQuoteExpired: priceEstimate.resetPriceState,
+  });
+
+  const setToggles = useCallback((nextIsAuto: boolean, nextIsPersonal: boolean) => {
+    setIsAuto(nextIsAuto);
+    slideAnimation.setValue(nextIsAuto ? 1 : 0);
+    setIsPersonal(nextIsPersonal);
+    slideAnimation2.setValue(nextIsPersonal ? 0 : 1);
+  }, [slideAnimation, slideAnimation2]);
+
+  // Latest form helpers for the one-off prefill and restore below, which must not re-run
+  // whenever the hooks hand back new objects. Updated in a layout effect so it is current
+  // before those effects run.
+  const formHelpersRef = useRef({ locationManagement, priceEstimate, service, setAnswers, setToggles });
+  useLayoutEffect(() => {
+    formHelpersRef.current = { locationManagement, priceEstimate, service, setAnswers, setToggles };
+  });
+
+  // Toggle handlers with animation
+  const handleAutoToggle = useCallback(() => {
+    setIsAuto(prev => {
+      const next = !prev;
+      slideAnimationRef.current?.stop();
+      slideAnimationRef.current = Animated.spring(slideAnimation, {
+        toValue: next ? 1 : 0,
+        useNativeDriver: false,
+        friction: 8,
+        tension: 50,
+      });
+      slideAnimationRef.current.start();
+      return next;
+    });
+  }, [slideAnimation]);
+
+  const handlePersonalToggle = useCallback(() => {
+    setIsPersonal(prev => {
+      const next = !prev;
+      slideAnimation2Ref.current?.stop();
+      slideAnimation2Ref.current = Animated.spring(slideAnimation2, {
+        toValue: next ? 0 : 1,
+        useNativeDriver: false,
+        friction: 8,
+        tension: 50,
+      });
+      slideAnimation2Ref.current.start();
+      return next;
+    });
+  }, [slideAnimation2]);
+
+  const handleDescriptionChange = useCallback((text: string) => {
+    setDescription(text);
+    priceEstimate.resetPriceState();
+  }, [priceEstimate]);
+
+  const handleDescriptionSubmit = useCallback(() => {
+    if (priceEstimate.isPriceLoading || voiceInput.isTranscribing) return;
+    Keyboard.dismiss();
+    startQuestions();
+  }, [priceEstimate.isPriceLoading, startQuestions, voiceInput.isTranscribing]);
+
+  // Prefill the form from the booking being edited
+  useEffect(() => {
+    if (!isEditing || !editingPayload) return;
+
+    const { locationManagement, priceEstimate, service, setToggles } = formHelpersRef.current;
+    setToggles(
+      (editingPayload.autofill_type ?? 'AutoFill').toLowerCase() !== 'custom',
+      (editingPayload.payment_method_type ?? 'Personal').toLowerCase() !== 'business',
+    );
+    setDescription(editingPayload.description?.trim() ?? '');
+
+    let cancelled = false;
+    (async () => {
+      const { hydrateLocation } = locationManagement;
+      await hydrateLocation('start', service.needsEndLocation ? editingPayload.start_location : editingPayload.location ?? editingPayload.start_location);
+      if (service.needsEndLocation) await hydrateLocation('end', editingPayload.end_location);
+      // Placing the locations clears the price, so the booked price is shown last
+      if (!cancelled) priceEstimate.showBookedPrice(editingPayload.price);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [editingPayload, isEditing]);
+
+  // Restore the form after sign-in
+  useEffect(() => {
+    if (!user) return;
+
+    const returnTo = getReturnTo();
+    if (!returnTo || returnTo.path !== returnPath || !returnTo.data) return;
+
+    const payload = returnTo.data as ServiceReturnData;
+    clearReturnTo();
+    if (!payload?.formState) return;
+
+    const { formState } = payload;
+    const { locationManagement, priceEstimate, setAnswers, setToggles } = formHelpersRef.current;
+    setDescription(formState.description);
+    setAnswers(formState.answers ?? {});
+    setAttachments(formState.attachments ?? []);
+    setToggles(formState.isAuto, formState.isPersonal);
+    if (formState.startLocation) locationManagement.applyLocation('start', formState.startLocation, { showStreetNumberWarning: false });
+    if (formState.endLocation) locationManagement.applyLocation('end', formState.endLocation, { showStreetNumberWarning: false });
+    priceEstimate.restoreQuote(formState.issuedQuote);
+
+    if (payload.action === 'schedule') setPendingResume(true);
+    if (payload.action === 'quote') setPendingQuote(true);
+  }, [user, getReturnTo, clearReturnTo, returnPath]);
+
+  // Finish scheduling once the restored form has rendered
+  useEffect(() => {
+    if (!user || !pendingResume || serviceSubmission.isSubmitting) return;
+
+    const timeout = setTimeout(() => {
+      setPendingResume(false);
+      serviceSubmission.handleSchedule();
+    }, 0);
+
+    return () => clearTimeout(timeout);
+  }, [pendingResume, serviceSubmission, user]);
+
+  // Request the estimate the guest asked for once the restored form has rendered
+  useEffect(() => {
+    if (!user || !pendingQuote || priceEstimate.isPriceLoading) return;
+
+    const timeout = setTimeout(() => {
+      setPendingQuote(false);
+      handleQuestionsComplete(serviceQuestions.answers);
+    }, 0);
+
+    return () => clearTimeout(timeout);
+  }, [handleQuestionsComplete, pendingQuote, priceEstimate.isPriceLoading, serviceQuestions.answers, user]);
+
+  // Clean up animations on unmount
+  useEffect(() => {
+    return () => {
+      slideAnimationRef.current?.stop();
+      slideAnimation2Ref.current?.stop();
+    };
+  }, []);
+
+  // Close sign-in modal when user logs in
+  useEffect(() => {
+    if (user) setShowSignInModal(false);
+  }, [user]);
+
+  const hasLocations = Boolean(startLocation && (!service.needsEndLocation || endLocation));
+
+  return (
+    <TouchableWithoutFeedback
+      accessible={false}
+      onPress={() => {
+        setForceHideSuggestions(true);
+        locationManagement.dismissSuggestions();
+        Keyboard.dismiss();
+      }}
+    >
+      <View style={styles.root}>
+      <View style={styles.container}>
+        <MapWithRoute
+          ref={mapRef}
+          startLocation={startLocation}
+          endLocation={service.needsEndLocation ? endLocation : null}
+          routeCoordinates={service.needsEndLocation ? locationManagement.routeCoordinates : []}
+        />
+        <BackButton />
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.contentArea}
+        >
+          <View style={styles.panel}>
+            <View style={styles.panelContent}>
+              <View>
+                <MovingHeader title={service.copy.title} />
+
+                <StartLocationSection
+                  value={locationManagement.startQuery}
+                  onChangeText={locationManagement.handleStartChange}
+                  onSelectSuggestion={locationManagement.handleStartSelect}
+                  onClear={locationManagement.handleStartClear}
+                  suggestions={locationManagement.startSuggestions}
+                  loading={locationManagement.startLoading}
+                  currentLocationOption={locationManagement.startCurrentLocationOption}
+                  forceHideSuggestions={forceHideSuggestions}
+                  onFocusInput={() => setForceHideSuggestions(false)}
+                  placeholder={service.copy.startLocationPlaceholder}
+                />
+
+                {service.needsEndLocation && (
+                  <>
+                    <LocationDivider />
+
+                    <EndLocationSection
+                      value={locationManagement.endQuery}
+                      onChangeText={locationManagement.handleEndChange}
+                      onSelectSuggestion={locationManagement.handleEndSelect}
+                      onClear={locationManagement.handleEndClear}
+                      suggestions={locationManagement.endSuggestions}
+                      loading={locationManagement.endLoading}
+                      currentLocationOption={locationManagement.endCurrentLocationOption}
+                      forceHideSuggestions={forceHideSuggestions}
+                      onFocusInput={() => setForceHideSuggestions(false)}
+                      placeholder={service.copy.endLocationPlaceholder}
+                    />
+                  </>
+                )}
+
+                <PriceDisplay
+                  priceQuote={hasLocations ? priceEstimate.priceQuote : null}
+                  priceBreakdown={priceEstimate.issuedQuote?.breakdown ?? null}
+                  priceNote={priceEstimate.priceNote}
+                  priceError={priceEstimate.priceError}
+                  isLoading={priceEstimate.isPriceLoading}
+                />
+
+                <JobDescriptionSection
+                  ref={descriptionInputRef}
+                  value={description}
+                  onChangeText={handleDescriptionChange}
+                  onSubmitEditing={handleDescriptionSubmit}
+                  placeholder={service.copy.descriptionPlaceholder}
+                  editable={!voiceInput.isTranscribing}
+                >
+                  {attachments.length > 0 && (
+                    <AttachmentThumbnails
+                      attachments={attachments}
+                      onRemove={(idx) => setAttachments(prev => prev.filter((_, i) => i !== idx))}
+                      onAdd={attachmentPicker.handleAddAttachments}
+                    />
+                  )}
+                </JobDescriptionSection>
+
+                <TogglesSection
+                  isAuto={isAuto}
+                  onToggleAuto={handleAutoToggle}
+                  autoAnimation={slideAnimation}
+                  isPersonal={isPersonal}
+                  onTogglePersonal={handlePersonalToggle}
+                  personalAnimation={slideAnimation2}
+                  activePaymentMethod={
+                    paymentManagement.activePaymentMethod
+                      ? {
+                          brand: paymentManagement.activePaymentMethod.brand,
+                          last4: paymentManagement.activePaymentMethod.last4,
+                        }
+                      : null
+                  }
+                  onPaymentMethodPress={paymentManagement.openPaymentModal}
+                />
+              </View>
+
+              <ScheduleButton
+                onPress={serviceSubmission.handleSchedule}
+                loading={serviceSubmission.isSubmitting}
+              />
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+
+      <SignInModal
+        visible={showSignInModal}
+        onClose={() => setShowSignInModal(false)}
+        onSignIn={serviceSubmission.preserveFormForAuth}
+        onSignUp={serviceSubmission.preserveFormForAuth}
+        title="Sign In Required"
+        message={
+          signInAction === 'quote'
+            ? `Please sign in or sign up to get a price for your ${service.copy.serviceName}.`
+            : `Please sign in or sign up to schedule a ${service.copy.serviceName}.`
+        }
+      />
+
+      <ServiceQuestionsModal
+        question={serviceQuestions.currentQuestion}
+        answers={serviceQuestions.answers}
+        onAnswer={serviceQuestions.setAnswer}
+        isLastQuestion={serviceQuestions.isLastQuestion}
+        attachments={attachments}
+        onAddAttachments={attachmentPicker.handleAddAttachments}
+        onRemoveAttachment={(idx) => setAttachments(prev => prev.filter((_, i) => i !== idx))}
+        onBack={serviceQuestions.handleBack}
+        onNext={serviceQuestions.handleNext}
+      />
+
+      <PaymentMethodModal
+        visible={paymentManagement.paymentModalVisible}
+        onClose={paymentManagement.closePaymentModal}
+        savedPaymentMethods={paymentManagement.savedPaymentMethods}
+        activePaymentMethodId={paymentManagement.activePaymentMethodId}
+        onSelectPaymentMethod={paymentManagement.handleSelectPaymentMethod}
+        showAddForm={paymentManagement.showAddPaymentForm}
+        setShowAddForm={paymentManagement.setShowAddPaymentForm}
+        cardComplete={paymentManagement.cardComplete}
+        setCardComplete={paymentManagement.setCardComplete}
+        setCardDetailsSnapshot={paymentManagement.setCardDetailsSnapshot}
+        onSavePaymentMethod={paymentManagement.handleSavePaymentMethod}
+        loading={paymentManagement.loadingPaymentMethods}
+        saving={paymentManagement.savingPaymentMethod}
+        showModal={showModal}
+      />
+    </View>
+    </TouchableWithoutFeedback>
+  );
+};
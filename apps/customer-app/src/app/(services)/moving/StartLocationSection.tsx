@@ -14,6 +14,7 @@ type StartLocationSectionProps = {
   currentLocationOption?: CurrentLocationOption;
   forceHideSuggestions?: boolean;
   onFocusInput?: () => void;
+  placeholder?: string;
 };
 
 export const StartLocationSection: React.FC<StartLocationSectionProps> = ({
@@ -26,6 +27,7 @@ export const StartLocationSection: React.FC<StartLocationSectionProps> = ({
   currentLocationOption,
   forceHideSuggestions,
   onFocusInput,
+  placeholder = 'Start Location',
 }) => (
   <View style={[styles.locationSection, styles.locationSectionStart]}>
     <View style={styles.locationLabelRow}>
@@ -35,7 +37,7 @@ export const StartLocationSection: React.FC<StartLocationSectionProps> = ({
       />
       <LocationAutocompleteInput
         value={value}
-        placeholder="Start Location"
+        placeholder={placeholder}
         onChangeText={onChangeText}
         onSelectSuggestion={onSelectSuggestion}
         onClear={onClear}
@@ -1,3 +1,11 @@
+import {
+  DrivingRoute,
+  fetchCustomerIdByEmail,
+  fetchDrivingRoute,
+  isWithinServiceArea,
+  ProposedServiceChanges,
+  straightRoute,
+} from '@helpr/core';
 import { useStripe } from '@stripe/stripe-react-native';
 import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
@@ -10,19 +18,27 @@ import { ActionSheetIOS, Alert, Platform, TextInput } from 'react-native';
 import MapView, { LatLng } from 'react-native-maps';
 
 import { AttachmentAsset } from '../../../components/services/AttachmentThumbnails/types';
+import { createWaitlistModal } from '../../../components/services/WaitlistForm';
+import { ModalConfig } from '../../../context/ModalContext';
 import { loadPaymentMethods, SavedPaymentMethodSummary, savePaymentMethod, setDefaultPaymentMethod } from '../../../lib/paymentMethods';
+import { describeQuoteError, IssuedQuote, isQuoteExpired, QuoteRequest, requestQuote, toQuoteLocation } from '../../../lib/quotes';
+import {
+  detectServiceAnswers,
+  isQuestionAnswered,
+  parseServiceAnswers,
+  ServiceAnswers,
+  ServiceDefinition,
+  ServiceQuestion,
+} from '../../../lib/serviceDefinitions';
 import { supabase } from '../../../lib/supabase';
 
 import { CurrentLocationOption, PlaceSuggestion } from './LocationAutocompleteInput';
-import { MovingAnalysisResult, MovingModalQuestion, SelectedLocation } from './moving.types';
+import { EditServicePayload, MovingAnalysisResult, MovingModalQuestion, SelectedLocation } from './moving.types';
 import {
   containsStreetNumber,
   createSessionToken,
   createUuid,
-  decodePolyline,
-  ensureRouteEndpoints,
   formatCurrency,
-  isWithinServiceArea,
   resolveGooglePlacesKey,
   resolveOpenAIApiKey
 } from './moving.utils';
@@ -31,11 +47,14 @@ import {
 // useLocationManagement - Handles all location-related logic
 // =============================================================================
 interface LocationManagementProps {
-  showModal: (config: { title: string; message: string }) => void;
+  service: ServiceDefinition;
+  showModal: (config: ModalConfig) => void;
   mapRef: React.RefObject<MapView | null>;
+  // Called whenever either location changes, e.g. to drop a price quoted for the old address
+  onLocationChange?: () => void;
 }
 
-export function useLocationManagement({ showModal, mapRef }: LocationManagementProps) {
+export function useLocationManagement({ service, showModal, mapRef, onLocationChange }: LocationManagementProps) {
   const googlePlacesApiKey = useMemo(resolveGooglePlacesKey, []);
   const startInputRef = useRef<TextInput>(null);
   const endInputRef = useRef<TextInput>(null);
@@ -117,13 +136,12 @@ export function useLocationManagement({ showModal, mapRef }: LocationManagementP
 
   const applyLocation = useCallback((target: 'start' | 'end', location: SelectedLocation, options: { showStreetNumberWarning?: boolean } = {}) => {
     if (!isWithinServiceArea(location.coordinate)) {
-      showModal({
-        title: 'Outside of Service Area',
-        message: "Helpr currently serves NYC's five boroughs, Westchester County, and Hudson & Bergen counties in NJ.",
-      });
+      showModal(createWaitlistModal({ serviceType: service.serviceType, ...(target === 'start' ? { start: location } : { end: location }) }, 'Outside of Service Area'));
       return;
     }
 
+    onLocationChange?.();
+
     const shouldWarn = options.showStreetNumberWarning ?? true;
     const hasStreetNumber = containsStreetNumber(location.description);
 
@@ -142,12 +160,35 @@ export function useLocationManagement({ showModal, mapRef }: LocationManagementP
     }
 
     if (shouldWarn && !hasStreetNumber) {
+      if (!service.needsEndLocation) {
+        showModal({ title: 'Add street number to location', message: 'Update your location to include the street number.' });
+        return;
+      }
       showModal({
         title: target === 'start' ? 'Add street number to start location' : 'Add street number to end location',
         message: target === 'start' ? 'Update your start location to include the street number.' : 'Update your end location to include the street number.',
       });
     }
-  }, [showModal]);
+  }, [onLocationChange, service, showModal]);
+
+  // Prefills a location from a stored address (edit mode); unresolved addresses stay editable text
+  const hydrateLocation = useCallback(async (target: 'start' | 'end', address?: string | null) => {
+    const trimmed = address?.trim();
+    if (!trimmed) return;
+
+    try {
+      const [first] = await Location.geocodeAsync(trimmed);
+      if (first) {
+        applyLocation(target, { description: trimmed, coordinate: { latitude: first.latitude, longitude: first.longitude } }, { showStreetNumberWarning: false });
+        return;
+      }
+    } catch (error) {
+      console.warn('Failed to geocode address for edit prefill:', error);
+    }
+
+    if (target === 'start') setStartQuery(trimmed);
+    else setEndQuery(trimmed);
+  }, [applyLocation]);
 
   const fetchPredictions = useCallback(async (
     input: string,
@@ -208,6 +249,7 @@ export function useLocationManagement({ showModal, mapRef }: LocationManagementP
   const handleStartChange = useCallback((text: string) => {
     setStartQuery(text);
     setStartLocation(null);
+    onLocationChange?.();
     if (startDebounceRef.current) clearTimeout(startDebounceRef.current);
     const trimmed = text.trim();
     if (trimmed.length < 3) {
@@ -217,11 +259,12 @@ export function useLocationManagement({ showModal, mapRef }: LocationManagementP
     startDebounceRef.current = setTimeout(() => {
       fetchPredictions(trimmed, startSessionToken, setStartSuggestions, setStartLoading);
     }, 350);
-  }, [fetchPredictions, startSessionToken]);
+  }, [fetchPredictions, onLocationChange, startSessionToken]);
 
   const handleEndChange = useCallback((text: string) => {
     setEndQuery(text);
     setEndLocation(null);
+    onLocationChange?.();
     if (endDebounceRef.current) clearTimeout(endDebounceRef.current);
     const trimmed = text.trim();
     if (trimmed.length < 3) {
@@ -231,7 +274,7 @@ export function useLocationManagement({ showModal, mapRef }: LocationManagementP
     endDebounceRef.current = setTimeout(() => {
       fetchPredictions(trimmed, endSessionToken, setEndSuggestions, setEndLoading);
     }, 350);
-  }, [endSessionToken, fetchPredictions]);
+  }, [endSessionToken, fetchPredictions, onLocationChange]);
 
   const handleStartSelect = useCallback(async (suggestion: PlaceSuggestion) => {
     if (!suggestion.placeId) return;
@@ -254,14 +297,16 @@ export function useLocationManagement({ showModal, mapRef }: LocationManagementP
     setStartSuggestions([]);
     setStartLocation(null);
     setStartSessionToken(createSessionToken());
-  }, []);
+    onLocationChange?.();
+  }, [onLocationChange]);
 
   const handleEndClear = useCallback(() => {
     setEndQuery('');
     setEndSuggestions([]);
     setEndLocation(null);
     setEndSessionToken(createSessionToken());
-  }, []);
+    onLocationChange?.();
+  }, [onLocationChange]);
 
   const dismissSuggestions = useCallback(() => {
     setStartSuggestions([]);
@@ -322,38 +367,11 @@ export function useLocationManagement({ showModal, mapRef }: LocationManagementP
       setRouteCoordinates([]);
       return;
     }
-    if (!googlePlacesApiKey) {
-      setRouteCoordinates(ensureRouteEndpoints([startLocation.coordinate, endLocation.coordinate], startLocation.coordinate, endLocation.coordinate));
-      return;
-    }
 
     let cancelled = false;
-    const fetchDirections = async () => {
-      try {
-        const params = new URLSearchParams({
-          origin: `${startLocation.coordinate.latitude},${startLocation.coordinate.longitude}`,
-          destination: `${endLocation.coordinate.latitude},${endLocation.coordinate.longitude}`,
-          key: googlePlacesApiKey,
-          mode: 'driving',
-        });
-        const response = await fetch(`https://maps.googleapis.com/maps/api/directions/json?${params.toString()}`);
-        const data = await response.json();
-        if (cancelled) return;
-        if (data.status === 'OK') {
-          const polyline = data.routes?.[0]?.overview_polyline?.points;
-          if (typeof polyline === 'string' && polyline.length > 0) {
-            const decoded = decodePolyline(polyline);
-            const resolvedPath = ensureRouteEndpoints(decoded.length >= 2 ? decoded : [startLocation.coordinate, endLocation.coordinate], startLocation.coordinate, endLocation.coordinate);
-            setRouteCoordinates(resolvedPath);
-            return;
-          }
-        }
-        setRouteCoordinates(ensureRouteEndpoints([startLocation.coordinate, endLocation.coordinate], startLocation.coordinate, endLocation.coordinate));
-      } catch {
-        if (!cancelled) setRouteCoordinates(ensureRouteEndpoints([startLocation.coordinate, endLocation.coordinate], startLocation.coordinate, endLocation.coordinate));
-      }
-    };
-    fetchDirections();
+    fetchDrivingRoute(startLocation.coordinate, endLocation.coordinate, googlePlacesApiKey).then(route => {
+      if (!cancelled) setRouteCoordinates(route?.path ?? straightRoute(startLocation.coordinate, endLocation.coordinate));
+    });
     return () => { cancelled = true; };
   }, [endLocation, googlePlacesApiKey, startLocation]);
 
@@ -367,6 +385,8 @@ export function useLocationManagement({ showModal, mapRef }: LocationManagementP
     startLoading,
     endLoading,
     routeCoordinates,
+    applyLocation,
+    hydrateLocation,
     handleStartChange,
     handleEndChange,
     handleStartSelect,
@@ -383,25 +403,29 @@ export function useLocationManagement({ showModal, mapRef }: LocationManagementP
 // usePriceEstimate - Handles price estimation
 // =============================================================================
 interface PriceEstimateProps {
+  service: ServiceDefinition;
   showModal: (config: { title: string; message: string }) => void;
 }
 
-interface DrivingInfo {
-  distanceMeters: number;
-  durationSeconds: number;
-  distanceMiles: number;
-  durationMinutes: number;
+interface FetchPriceOptions {
+  start?: SelectedLocation | null;
+  end?: SelectedLocation | null;
+  inputs?: QuoteRequest['inputs'];
+  // Called instead of quoting when the LLM finds the description too vague to price
+  onClarificationNeeded?: () => void;
 }
 
-export function usePriceEstimate({ showModal }: PriceEstimateProps) {
+export function usePriceEstimate({ service, showModal }: PriceEstimateProps) {
   const openAiApiKey = useMemo(resolveOpenAIApiKey, []);
   const googlePlacesApiKey = useMemo(resolveGooglePlacesKey, []);
   const [priceQuote, setPriceQuote] = useState<string | null>(null);
   const [priceNote, setPriceNote] = useState<string | null>(null);
   const [priceError, setPriceError] = useState<string | null>(null);
   const [isPriceLoading, setIsPriceLoading] = useState(false);
+  const [issuedQuote, setIssuedQuote] = useState<IssuedQuote | null>(null);
 
   const resetPriceState = useCallback(() => {
+    setIssuedQuote(null);
     setPriceQuote(null);
     setPriceNote(null);
     setPriceError(null);
@@ -409,111 +433,115 @@ export function usePriceEstimate({ showModal }: PriceEstimateProps) {
   }, []);
 
   // Fetch driving distance and duration from Google Maps Directions API
-  const fetchDrivingInfo = useCallback(async (start: SelectedLocation, end: SelectedLocation): Promise<DrivingInfo | null> => {
-    if (!googlePlacesApiKey) return null;
-
-    try {
-      const params = new URLSearchParams({
-        origin: `${start.coordinate.latitude},${start.coordinate.longitude}`,
-        destination: `${end.coordinate.latitude},${end.coordinate.longitude}`,
-        key: googlePlacesApiKey,
-        mode: 'driving',
-      });
-      const response = await fetch(`https://maps.googleapis.com/maps/api/directions/json?${params.toString()}`);
-      const data = await response.json();
+  const fetchDrivingInfo = useCallback(
+    (start: SelectedLocation, end: SelectedLocation) => fetchDrivingRoute(start.coordinate, end.coordinate, googlePlacesApiKey),
+    [googlePlacesApiKey],
+  );
 
-      if (data.status === 'OK' && data.routes?.[0]?.legs?.[0]) {
-        const leg = data.routes[0].legs[0];
-        const distanceMeters = leg.distance?.value ?? 0;
-        const durationSeconds = leg.duration?.value ?? 0;
-        return {
-          distanceMeters,
-          durationSeconds,
-          distanceMiles: distanceMeters / 1609.344,
-          durationMinutes: durationSeconds / 60,
-        };
-      }
-      return null;
-    } catch (error) {
-      console.warn('Failed to fetch driving info:', error);
-      return null;
-    }
-  }, [googlePlacesApiKey]);
-
-  const fetchPrice = useCallback(async (taskDescription: string, options: { start?: SelectedLocation | null; end?: SelectedLocation | null; needsTruck?: boolean } = {}) => {
-    const { start, end, needsTruck } = options;
+  const fetchPrice = useCallback(async (taskDescription: string, options: FetchPriceOptions = {}) => {
+    const { start, end, inputs = {}, onClarificationNeeded } = options;
     setIsPriceLoading(true);
+    setIssuedQuote(null);
     setPriceQuote(null);
     setPriceNote(null);
     setPriceError(null);
 
-    if (!openAiApiKey) {
-      setIsPriceLoading(false);
-      setPriceError('Price estimate unavailable (missing OpenAI key).');
-      return;
-    }
-
     try {
+      if (!start) {
+        setPriceError('Add a location to see a price.');
+        return;
+      }
+
       // Fetch driving info from Google Maps if both locations are provided
-      let drivingInfo: DrivingInfo | null = null;
+      let drivingInfo: DrivingRoute | null = null;
       if (start && end) {
         drivingInfo = await fetchDrivingInfo(start, end);
       }
 
-      const startDetails = start ? `${start.description} (lat ${start.coordinate.latitude.toFixed(4)}, lng ${start.coordinate.longitude.toFixed(4)})` : 'not provided';
-      const endDetails = end ? `${end.description} (lat ${end.coordinate.latitude.toFixed(4)}, lng ${end.coordinate.longitude.toFixed(4)})` : 'not provided';
-      
-      // Include driving info in the prompt if available
-      const drivingDetails = drivingInfo 
-        ? `Driving distance: ${drivingInfo.distanceMiles.toFixed(2)} miles, Estimated driving time: ${Math.round(drivingInfo.durationMinutes)} minutes`
-        : 'Driving distance: not available';
+      // Optional LLM check for unsafe or incomplete requests; it never changes the price
+      if (openAiApiKey) {
+        try {
+          const locationDetails = service.needsEndLocation
+            ? drivingInfo
+              ? `Driving distance: ${drivingInfo.distanceMiles.toFixed(2)} miles, Estimated driving time: ${Math.round(drivingInfo.durationMinutes)} minutes`
+              : 'Driving distance: not available'
+            : `Location: ${start?.description ?? 'not provided'}`;
+
+          const response = await fetch('https://api.openai.com/v1/chat/completions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${openAiApiKey}` },
+            body: JSON.stringify({
+              model: 'gpt-4o-mini',
+              response_format: { type: 'json_object' },
+              messages: [
+                {
+                  role: 'system',
+                  content: service.pricingPrompt,
+                },
+                {
+                  role: 'user',
+                  content: [`Task description: ${taskDescription}`, locationDetails].join('\n'),
+                },
+              ],
+            }),
+          });
+
+          if (response.ok) {
+            const data = await response.json();
+            const content = data?.choices?.[0]?.message?.content;
+            if (typeof content === 'string' && content.trim().length > 0) {
+              const parsed = JSON.parse(content);
+              if (parsed.safety_concern === true && parsed.safety_message) {
+                showModal({ title: 'Safety Concern', message: parsed.safety_message });
+                setPriceError('This request may not be suitable for our platform.');
+                return;
+              }
+              if (parsed.needs_clarification === true && onClarificationNeeded) {
+                setPriceError(service.copy.clarificationError);
+                onClarificationNeeded();
+                return;
+              }
+            }
+          }
+        } catch (error) {
+          console.warn('Failed to review the request, quoting from the rate card', error);
+        }
+      }
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${openAiApiKey}` },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          response_format: { type: 'json_object' },
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a pricing assistant for moving services. Respond with a JSON object containing a price field. Keep prices in USD, realistic, and constrain price between 200 and 1800 for jobs requiring transportation between locations. Ensure that any moving services going from one place to another are at least $200 without truck and at least $350 if truck is needed. Start around these two prices for studio/1BR jobs in close proximity to each other and increase accordingly for larger places. use the following constraints to determine the cost of something. 1 bedroom is 15% more expensive than studio, 2 bedroom is 15% expensive than 1 bed, and so on for all bedroom sizes. Make sure this holds true for every single transaction, such that it is guaranteed that the prices are subject to apartment size. Provide optimistic, budget-friendly estimates and, when in doubt, lean toward the lower end of the acceptable price range. Take the driving distance and time into account when estimating prices - longer distances should cost more. Make sure that there is a significant difference between jobs requiring a moving truck and those not requiring it. Take the size of the apartment and whether the customer requires help packing into consideration. Make extra sure all of these criteria are met.',
-            },
-            {
-              role: 'user',
-              content: [`Task description: ${taskDescription}`, `Start location: ${startDetails}`, `End location: ${endDetails}`, drivingDetails].join('\n'),
-            },
-          ],
-        }),
+      // The server computes the quote from the rate card, then stores and locks it
+      const quote = await requestQuote({
+        serviceType: service.serviceType,
+        inputs,
+        start: toQuoteLocation(start),
+        end: end ? toQuoteLocation(end) : null,
       });
 
-      if (!response.ok) throw new Error('Failed to fetch price estimate');
-      const data = await response.json();
-      const content = data?.choices?.[0]?.message?.content;
-      if (typeof content !== 'string' || content.trim().length === 0) throw new Error('Missing completion content');
-      const parsed = JSON.parse(content);
-      let price = Number(parsed.price);
-      if (!Number.isFinite(price)) throw new Error('Invalid price value');
-
-      // For short drives (<0.5 mile), apply special pricing: base rate + $1 per minute of driving time
-      if (drivingInfo && drivingInfo.distanceMiles < 0.5) {
-        const baseRate = needsTruck ? 350 : 200;
-        const drivingTimeSurcharge = Math.round(drivingInfo.durationMinutes) * 1; // $1 per minute
-        price = baseRate + drivingTimeSurcharge;
-        setPriceNote(`Short distance rate: base + $${drivingTimeSurcharge} (${Math.round(drivingInfo.durationMinutes)} min drive)`);
-      }
-
-      const adjusted = needsTruck ? price * 1.6 : price;
-      setPriceQuote(formatCurrency(Math.max(0, Math.round(adjusted))));
+      setIssuedQuote(quote);
+      setPriceNote(quote.note);
+      setPriceQuote(formatCurrency(quote.amount));
     } catch (error) {
       console.warn('Failed to fetch price estimate', error);
       setPriceError('Unable to estimate price right now.');
     } finally {
       setIsPriceLoading(false);
     }
-  }, [openAiApiKey, fetchDrivingInfo]);
+  }, [openAiApiKey, fetchDrivingInfo, service, showModal]);
+
+  // Restores a quote kept across sign-in; expired quotes are dropped so a new one is requested
+  const restoreQuote = useCallback((quote: IssuedQuote | null) => {
+    if (!quote || isQuoteExpired(quote)) return;
+    setIssuedQuote(quote);
+    setPriceNote(quote.note);
+    setPriceQuote(formatCurrency(quote.amount));
+  }, []);
 
-  return { priceQuote, priceNote, priceError, isPriceLoading, resetPriceState, fetchPrice };
+  // Edit mode shows the booked price until the customer asks for a new estimate
+  const showBookedPrice = useCallback((amount: number | null | undefined) => {
+    setIssuedQuote(null);
+    setPriceQuote(typeof amount === 'number' && Number.isFinite(amount) ? formatCurrency(amount) : null);
+  }, []);
+
+  return { priceQuote, priceNote, priceError, isPriceLoading, issuedQuote, resetPriceState, fetchPrice, restoreQuote, showBookedPrice };
 }
 
 // =============================================================================
@@ -934,6 +962,189 @@ export function useMovingAnalysis({
   };
 }
 
+// =============================================================================
+// useAttachmentPicker - Adds photos and videos from the camera or library
+// =============================================================================
+interface AttachmentPickerProps {
+  setAttachments: React.Dispatch<React.SetStateAction<AttachmentAsset[]>>;
+  showModal: (config: { title: string; message: string }) => void;
+}
+
+export function useAttachmentPicker({ setAttachments, showModal }: AttachmentPickerProps) {
+  const pickMedia = useCallback(async (source: 'camera' | 'library') => {
+    try {
+      const permission = source === 'camera'
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        showModal({
+          title: 'Permission needed',
+          message: source === 'camera' ? 'Enable camera access to take photos.' : 'Enable photo library access to attach images or videos.',
+        });
+        return;
+      }
+
+      const result = source === 'camera'
+        ? await ImagePicker.launchCameraAsync({ mediaTypes: ImagePicker.MediaTypeOptions.Images, quality: 0.8 })
+        : await ImagePicker.launchImageLibraryAsync({ mediaTypes: ImagePicker.MediaTypeOptions.All, allowsMultipleSelection: true, quality: 0.8 });
+      if (result.canceled || !result.assets?.length) return;
+
+      const newAssets = result.assets.map(asset => ({
+        uri: asset.uri,
+        type: asset.type === 'video' ? 'video' : 'photo',
+        name: asset.fileName ?? (asset.type === 'video' ? 'video-upload.mp4' : 'photo-upload.jpg'),
+      } as AttachmentAsset));
+      setAttachments(prev => [...prev, ...newAssets]);
+    } catch (error) {
+      console.warn('Media picker error', error);
+      showModal({ title: 'Upload failed', message: 'Unable to select media right now.' });
+    }
+  }, [setAttachments, showModal]);
+
+  const handleAddAttachments = useCallback(() => {
+    if (Platform.OS === 'ios') {
+      ActionSheetIOS.showActionSheetWithOptions(
+        { options: ['Take Photo', 'Upload from Camera Roll', 'Cancel'], cancelButtonIndex: 2 },
+        (buttonIndex) => {
+          if (buttonIndex === 0) pickMedia('camera');
+          else if (buttonIndex === 1) pickMedia('library');
+        }
+      );
+      return;
+    }
+    Alert.alert('Upload Photos', 'Choose an option', [
+      { text: 'Take Photo', onPress: () => pickMedia('camera') },
+      { text: 'Upload from Camera Roll', onPress: () => pickMedia('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [pickMedia]);
+
+  return { handleAddAttachments };
+}
+
+// =============================================================================
+// useServiceQuestions - Asks the questions a ServiceDefinition declares
+// =============================================================================
+interface ServiceQuestionsProps {
+  service: ServiceDefinition;
+  description: string;
+  startLocation: SelectedLocation | null;
+  endLocation: SelectedLocation | null;
+  showModal: (config: { title: string; message: string }) => void;
+  onComplete: (answers: ServiceAnswers) => void;
+}
+
+export function useServiceQuestions({
+  service,
+  description,
+  startLocation,
+  endLocation,
+  showModal,
+  onComplete,
+}: ServiceQuestionsProps) {
+  const [answers, setAnswers] = useState<ServiceAnswers>({});
+  const [pendingQuestionIds, setPendingQuestionIds] = useState<string[]>([]);
+  const [questionHistory, setQuestionHistory] = useState<string[]>([]);
+
+  const currentQuestion = useMemo<ServiceQuestion | null>(() => {
+    const currentId = questionHistory[questionHistory.length - 1];
+    return service.questions.find(question => question.id === currentId) ?? null;
+  }, [questionHistory, service.questions]);
+
+  const closeQuestions = useCallback(() => {
+    setPendingQuestionIds([]);
+    setQuestionHistory([]);
+  }, []);
+
+  // `askAll` re-asks every question, e.g. when the price estimate needs clarification
+  const startQuestions = useCallback((options: { askAll?: boolean } = {}) => {
+    if (!description.trim()) {
+      showModal({ title: 'Add a description', message: 'Add a brief task description to see a price.' });
+      return;
+    }
+
+    if (!startLocation || (service.needsEndLocation && !endLocation)) {
+      showModal(
+        service.needsEndLocation
+          ? { title: 'Missing locations', message: 'Please enter both start and end locations.' }
+          : { title: 'Missing location', message: 'Please enter a location.' },
+      );
+      return;
+    }
+
+    const locations = service.needsEndLocation && endLocation ? [startLocation, endLocation] : [startLocation];
+    if (locations.some(location => !containsStreetNumber(location.description))) {
+      showModal({
+        title: service.needsEndLocation ? 'Add street numbers' : 'Add street number',
+        message: service.needsEndLocation
+          ? 'Update both start and end locations to include street numbers.'
+          : 'Update your location to include the street number so your helpr can find you.',
+      });
+      return;
+    }
+
+    // Answers written into the description win over earlier modal answers
+    const nextAnswers = {
+      ...answers,
+      ...detectServiceAnswers(service, description),
+      ...parseServiceAnswers(service, description),
+    };
+    setAnswers(nextAnswers);
+
+    const pending = service.questions
+      .filter(question => options.askAll || !isQuestionAnswered(question, nextAnswers, description))
+      .map(question => question.id);
+
+    if (pending.length === 0) {
+      onComplete(nextAnswers);
+      return;
+    }
+
+    setPendingQuestionIds(pending);
+    setQuestionHistory([pending[0]]);
+  }, [answers, description, endLocation, onComplete, service, showModal, startLocation]);
+
+  const setAnswer = useCallback((questionId: string, value: string) => {
+    setAnswers(prev => ({ ...prev, [questionId]: value }));
+  }, []);
+
+  const handleBack = useCallback(() => {
+    if (questionHistory.length <= 1) {
+      closeQuestions();
+      return;
+    }
+    setQuestionHistory(prev => prev.slice(0, -1));
+  }, [closeQuestions, questionHistory.length]);
+
+  const handleNext = useCallback(() => {
+    if (!currentQuestion) return;
+
+    const nextId = pendingQuestionIds[pendingQuestionIds.indexOf(currentQuestion.id) + 1];
+    if (nextId) {
+      setQuestionHistory(prev => [...prev, nextId]);
+      return;
+    }
+
+    closeQuestions();
+    onComplete(answers);
+  }, [answers, closeQuestions, currentQuestion, onComplete, pendingQuestionIds]);
+
+  const isLastQuestion = currentQuestion
+    ? pendingQuestionIds[pendingQuestionIds.length - 1] === currentQuestion.id
+    : false;
+
+  return {
+    answers,
+    setAnswers,
+    currentQuestion,
+    isLastQuestion,
+    startQuestions,
+    setAnswer,
+    handleBack,
+    handleNext,
+  };
+}
+
 // =============================================================================
 // useVoiceInput - Handles voice recording and transcription
 // =============================================================================
@@ -1042,35 +1253,75 @@ export function useVoiceInput({ setDescription, resetPriceState, showModal }: Vo
   return { isRecording, isTranscribing, handleVoicePress };
 }
 
+// =============================================================================
+// useEditService - Reads the booking being edited from the route params
+// =============================================================================
+export function useEditService(params: { editServiceId?: string | string[]; editService?: string | string[] }) {
+  const editServiceId = useMemo(() => {
+    const raw = params.editServiceId;
+    return (Array.isArray(raw) ? raw[0] : raw) ?? null;
+  }, [params.editServiceId]);
+
+  const editingPayload = useMemo<EditServicePayload | null>(() => {
+    const raw = Array.isArray(params.editService) ? params.editService[0] : params.editService;
+    if (!raw) return null;
+
+    try {
+      const parsed = JSON.parse(decodeURIComponent(raw));
+      return parsed && typeof parsed === 'object' && parsed.service_id ? (parsed as EditServicePayload) : null;
+    } catch (error) {
+      console.warn('Failed to parse edit payload:', error);
+      return null;
+    }
+  }, [params.editService]);
+
+  return { editServiceId, editingPayload, isEditing: Boolean(editServiceId && editingPayload) };
+}
+
 // =============================================================================
 // useServiceSubmission - Handles form submission
 // =============================================================================
 interface ServiceSubmissionProps {
+  service: ServiceDefinition;
   user: any;
   description: string;
   startLocation: SelectedLocation | null;
   endLocation: SelectedLocation | null;
   priceQuote: string | null;
+  issuedQuote: IssuedQuote | null;
   isAuto: boolean;
   isPersonal: boolean;
   activePaymentMethod: SavedPaymentMethodSummary | null;
-  showModal: (config: { title: string; message: string; onDismiss?: () => void }) => void;
+  showModal: (config: ModalConfig) => void;
   setShowSignInModal: (v: boolean) => void;
   params: any;
+  // Set when editing a booked service; the row is updated in place instead of re-booked
+  editServiceId?: string | null;
+  // Set when the edited booking already has a helpr; the edit becomes a change request for them
+  editRequiresApproval?: boolean;
+  // Saves the form before the sign-in redirect so it can be restored afterwards
+  onPreserveForm?: () => void;
+  onQuoteExpired?: () => void;
 }
 
 export function useServiceSubmission({
+  service,
   user,
   description,
   startLocation,
   endLocation,
   priceQuote,
+  issuedQuote,
   isAuto,
   isPersonal,
   activePaymentMethod,
   showModal,
   setShowSignInModal,
   params,
+  editServiceId = null,
+  editRequiresApproval = false,
+  onPreserveForm,
+  onQuoteExpired,
 }: ServiceSubmissionProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [customerId, setCustomerId] = useState<string | null>(null);
@@ -1085,65 +1336,127 @@ export function useServiceSubmission({
     let cancelled = false;
     (async () => {
       try {
-        const { data } = await supabase.from('customer').select('customer_id').eq('email', user.email).maybeSingle();
-        if (!cancelled && data?.customer_id) setCustomerId(data.customer_id);
+        const id = await fetchCustomerIdByEmail(supabase, user.email);
+        if (!cancelled && id) setCustomerId(id);
       } catch {}
     })();
     return () => { cancelled = true; };
   }, [user?.email]);
 
   const preserveFormForAuth = useCallback(() => {
-    // Would save form state to returnTo - simplified here
-  }, []);
+    onPreserveForm?.();
+  }, [onPreserveForm]);
 
   const handleSchedule = useCallback(async () => {
     if (isSubmitting) return;
 
+    const { needsEndLocation } = service;
     const trimmedDescription = description.trim();
     if (!trimmedDescription) {
-      showModal({ title: 'Add a description', message: 'Please describe what you need help with.' });
+      showModal({ title: 'Add a description', message: `Please describe what you need help with before scheduling your ${service.copy.serviceName}.` });
       return;
     }
 
-    if (!startLocation || !endLocation) {
-      showModal({ title: 'Add locations', message: 'Please provide both start and end locations.' });
+    if (!startLocation || (needsEndLocation && !endLocation)) {
+      showModal(
+        needsEndLocation
+          ? { title: 'Add locations', message: 'Please provide both start and end locations.' }
+          : { title: 'Add location', message: 'Please provide a location before scheduling.' },
+      );
       return;
     }
 
-    if (!isWithinServiceArea(startLocation.coordinate) || !isWithinServiceArea(endLocation.coordinate)) {
-      showModal({ title: "We're not in your area yet.", message: "Helpr currently operates in NYC's five boroughs, Westchester County, and Hudson & Bergen counties in NJ." });
+    const bookedEndLocation = needsEndLocation ? endLocation : null;
+    const locations = bookedEndLocation ? [startLocation, bookedEndLocation] : [startLocation];
+
+    if (locations.some(location => !isWithinServiceArea(location.coordinate))) {
+      showModal(createWaitlistModal({ serviceType: service.serviceType, description: trimmedDescription, start: startLocation, end: bookedEndLocation }));
       return;
     }
 
-    const priceDigitsRaw = priceQuote?.replace(/[^0-9.]/g, '') ?? '';
-    const priceValue = priceDigitsRaw.length > 0 ? Number(priceDigitsRaw) : null;
-    if (!Number.isFinite(priceValue ?? NaN)) {
-      showModal({ title: 'Estimate needed', message: 'Request a quick price estimate before scheduling.' });
+    // Quotes are only issued to signed-in customers, so guests sign in before anything else
+    if (!user) {
+      preserveFormForAuth();
+      setShowSignInModal(true);
       return;
     }
 
-    if (!containsStreetNumber(startLocation.description) || !containsStreetNumber(endLocation.description)) {
-      showModal({ title: 'Add street numbers', message: 'Update locations to include street numbers before scheduling.' });
+    // New bookings use the server-issued quote; edits without a new estimate keep the booked price
+    const bookedPrice = Number(priceQuote?.replace(/[^0-9.]/g, '') || NaN);
+    const price = issuedQuote ? issuedQuote.amount : editServiceId && Number.isFinite(bookedPrice) ? bookedPrice : null;
+    if (price === null) {
+      showModal({ title: 'Estimate needed', message: `Request a quick price estimate before scheduling your ${service.copy.serviceName}.` });
       return;
     }
 
-    if (!user) {
-      preserveFormForAuth();
-      setShowSignInModal(true);
+    if (issuedQuote && isQuoteExpired(issuedQuote)) {
+      onQuoteExpired?.();
+      showModal({ title: 'Estimate expired', message: describeQuoteError({ message: 'quote_expired' }) ?? 'Please request a new estimate.' });
+      return;
+    }
+
+    if (locations.some(location => !containsStreetNumber(location.description))) {
+      showModal(
+        needsEndLocation
+          ? { title: 'Add street numbers', message: 'Update locations to include street numbers before scheduling.' }
+          : { title: 'Add street number', message: 'Update your location to include the street number before scheduling.' },
+      );
       return;
     }
 
-    if (!activePaymentMethod) {
+    if (!editServiceId && !activePaymentMethod) {
       showModal({ title: 'Payment Method Required', message: 'Please add a payment method before scheduling.' });
       return;
     }
 
+    const locationFields = bookedEndLocation
+      ? { start_location: startLocation.description, end_location: bookedEndLocation.description }
+      : { location: startLocation.description };
+    const paymentMethodType = isPersonal ? 'Personal' : 'Business';
+    const autofillType = isAuto ? 'AutoFill' : 'Custom';
+
     setIsSubmitting(true);
     try {
-      const resolvedCustomerId = customerId || (await (async () => {
-        const { data } = await supabase.from('customer').select('customer_id').eq('email', user.email).maybeSingle();
-        return data?.customer_id ?? null;
-      })());
+      // booked-services asks for the new time, then sends everything to the helpr
+      if (editServiceId && editRequiresApproval) {
+        const changes: ProposedServiceChanges = {
+          description: trimmedDescription,
+          ...(bookedEndLocation
+            ? { startLocation: startLocation.description, endLocation: bookedEndLocation.description }
+            : { location: startLocation.description }),
+          quoteId: issuedQuote?.quoteId ?? null,
+        };
+        router.push({
+          pathname: '/(booking-flow)/booked-services' as any,
+          params: { serviceId: editServiceId, changeRequest: encodeURIComponent(JSON.stringify(changes)) },
+        });
+        return;
+      }
+
+      if (editServiceId) {
+        const { error } = await supabase
+          .from('service')
+          .update({
+            ...locationFields,
+            price,
+            ...(issuedQuote ? { quote_id: issuedQuote.quoteId } : {}),
+            payment_method_type: paymentMethodType,
+            autofill_type: autofillType,
+            description: trimmedDescription,
+          })
+          .eq('service_id', editServiceId);
+
+        if (error) {
+          console.error(`Failed to update ${service.copy.serviceName}:`, error);
+          showModal({ title: 'Update failed', message: `Unable to save changes to your ${service.copy.serviceName} request. Please try again.` });
+          return;
+        }
+
+        router.push({ pathname: '/(booking-flow)/booked-services' as any, params: { serviceId: editServiceId } });
+        return;
+      }
+
+      const resolvedCustomerId = customerId || (await fetchCustomerIdByEmail(supabase, user.email));
 
       if (!resolvedCustomerId) {
         showModal({ title: 'Account issue', message: 'We could not find your customer profile.' });
@@ -1154,18 +1467,19 @@ export function useServiceSubmission({
         service_id: createUuid(),
         customer_id: resolvedCustomerId,
         date_of_creation: new Date().toISOString(),
-        service_type: 'Moving',
+        service_type: service.serviceType,
         status: 'finding_pros',
-        start_location: startLocation.description,
-        end_location: endLocation.description,
-        price: priceValue,
-        payment_method_type: isPersonal ? 'Personal' : 'Business',
-        autofill_type: isAuto ? 'AutoFill' : 'Custom',
+        ...locationFields,
+        price,
+        quote_id: issuedQuote?.quoteId ?? null,
+        payment_method_type: paymentMethodType,
+        autofill_type: autofillType,
         description: trimmedDescription,
       };
 
+      // booked-services inserts the row once scheduling is confirmed
       router.push({
-        pathname: 'booked-services' as any,
+        pathname: '/(booking-flow)/booked-services' as any,
         params: {
           showOverlay: 'true',
           temporaryService: encodeURIComponent(JSON.stringify(payload)),
@@ -1179,10 +1493,14 @@ export function useServiceSubmission({
     }
   }, [
     isSubmitting,
+    service,
     description,
     startLocation,
     endLocation,
     priceQuote,
+    issuedQuote,
+    editServiceId,
+    editRequiresApproval,
     user,
     activePaymentMethod,
     customerId,
@@ -1191,13 +1509,8 @@ export function useServiceSubmission({
     showModal,
     setShowSignInModal,
     preserveFormForAuth,
+    onQuoteExpired,
   ]);
 
   return { isSubmitting, handleSchedule, preserveFormForAuth };
 }
-
-
-
-
-
-
@@ -15,6 +15,7 @@ import {
 import { AttachmentAsset } from '../../../components/services/AttachmentThumbnails/types';
 import { useAuth } from '../../../context/AuthContext';
 import { useModal } from '../../../context/ModalContext';
+import { MOVING_SERVICE } from '../../../lib/serviceDefinitions';
 
 import { PaymentMethodModal } from '../../../components/common/PaymentMethodModal';
 import { EndLocationSection } from './EndLocationSection';
@@ -45,6 +46,7 @@ export default function Moving() {
   const [description, setDescription] = useState('');
   const [attachments, setAttachments] = useState<AttachmentAsset[]>([]);
   const [showSignInModal, setShowSignInModal] = useState(false);
+  const [pendingQuote, setPendingQuote] = useState(false);
 
   // Toggle states
   const [isAuto, setIsAuto] = useState(false);
@@ -66,8 +68,13 @@ export default function Moving() {
   const [forceHideSuggestions, setForceHideSuggestions] = useState(false);
 
   // Custom hooks
-  const locationManagement = useLocationManagement({ showModal, mapRef });
-  const priceEstimate = usePriceEstimate({ showModal });
+  const priceEstimate = usePriceEstimate({ service: MOVING_SERVICE, showModal });
+  const locationManagement = useLocationManagement({
+    service: MOVING_SERVICE,
+    showModal,
+    mapRef,
+    onLocationChange: priceEstimate.resetPriceState,
+  });
   const paymentManagement = usePaymentManagement({ user, showModal });
   const movingAnalysis = useMovingAnalysis({
     description,
@@ -91,11 +98,13 @@ export default function Moving() {
     showModal,
   });
   const serviceSubmission = useServiceSubmission({
+    service: MOVING_SERVICE,
     user,
     description,
     startLocation: locationManagement.startLocation,
     endLocation: locationManagement.endLocation,
     priceQuote: priceEstimate.priceQuote,
+    issuedQuote: priceEstimate.issuedQuote,
     isAuto,
     isPersonal,
     activePaymentMethod: paymentManagement.activePaymentMethod,
@@ -154,6 +163,18 @@ export default function Moving() {
     movingAnalysis,
   ]);
 
+  const requestPrice = useCallback((finalDescription: string) => {
+    priceEstimate.fetchPrice(finalDescription, {
+      start: locationManagement.startLocation,
+      end: locationManagement.endLocation,
+      inputs: {
+        apartmentSize,
+        needsTruck: needsTruck === 'yes',
+        needsPacking: packingStatus === 'not-packed',
+      },
+    });
+  }, [apartmentSize, locationManagement.endLocation, locationManagement.startLocation, needsTruck, packingStatus, priceEstimate]);
+
   // Modal navigation handlers
   const handleModalBack = useCallback(() => {
     if (!currentModalQuestion) return;
@@ -179,14 +200,15 @@ export default function Moving() {
         attachments,
       });
       setDescription(finalDescription);
-      
-      setTimeout(() => {
-        priceEstimate.fetchPrice(finalDescription, {
-          start: locationManagement.startLocation,
-          end: locationManagement.endLocation,
-          needsTruck: needsTruck === 'yes',
-        });
-      }, 0);
+
+      // Quotes are issued to signed-in customers only; the estimate is requested after sign-in
+      if (!user) {
+        setPendingQuote(true);
+        setShowSignInModal(true);
+        return;
+      }
+
+      setTimeout(() => requestPrice(finalDescription), 0);
     }
   }, [
     currentModalQuestion,
@@ -198,11 +220,22 @@ export default function Moving() {
     boxesNeeded,
     optionalDetails,
     attachments,
-    priceEstimate,
-    locationManagement.startLocation,
-    locationManagement.endLocation,
+    requestPrice,
+    user,
   ]);
 
+  // Request the estimate the guest asked for once they are signed in
+  useEffect(() => {
+    if (!user || !pendingQuote || priceEstimate.isPriceLoading) return;
+
+    const timeout = setTimeout(() => {
+      setPendingQuote(false);
+      requestPrice(description);
+    }, 0);
+
+    return () => clearTimeout(timeout);
+  }, [description, pendingQuote, priceEstimate.isPriceLoading, requestPrice, user]);
+
   // Clean up animations on unmount
   useEffect(() => {
     return () => {
@@ -271,6 +304,7 @@ export default function Moving() {
 
                 <PriceDisplay
                   priceQuote={locationManagement.startLocation && locationManagement.endLocation ? priceEstimate.priceQuote : null}
+                  priceBreakdown={priceEstimate.issuedQuote?.breakdown ?? null}
                   priceNote={priceEstimate.priceNote}
                   priceError={priceEstimate.priceError}
                   isLoading={priceEstimate.isPriceLoading}
@@ -326,7 +360,11 @@ export default function Moving() {
         onSignIn={serviceSubmission.preserveFormForAuth}
         onSignUp={serviceSubmission.preserveFormForAuth}
         title="Sign In Required"
-        message="Please sign in or sign up to schedule a moving service."
+        message={
+          pendingQuote
+            ? 'Please sign in or sign up to get a price for your move.'
+            : 'Please sign in or sign up to schedule a moving service.'
+        }
       />
 
       <MovingAnalysisModal
@@ -1,5 +1,7 @@
 import { LatLng } from 'react-native-maps';
 import { AttachmentAsset } from '../../../components/services/AttachmentThumbnails/types';
+import { IssuedQuote } from '../../../lib/quotes';
+import { ServiceAnswers } from '../../../lib/serviceDefinitions';
 
 export type SelectedLocation = {
   description: string;
@@ -11,12 +13,15 @@ export type EditServicePayload = {
   service_type?: string | null;
   start_location?: string | null;
   end_location?: string | null;
+  location?: string | null;
   price?: number | null;
   payment_method_type?: string | null;
   autofill_type?: string | null;
   scheduling_type?: string | null;
   scheduled_date_time?: string | null;
   description?: string | null;
+  // Set once a helpr has accepted the job; edits are then sent to them as a change request
+  service_provider_id?: string | null;
 };
 
 export type MovingFormState = {
@@ -45,6 +50,28 @@ export type MovingReturnData = {
   params?: Record<string, string>;
 };
 
+// Form state a ServiceScreen keeps across the sign-in redirect
+export type ServiceFormState = {
+  description: string;
+  answers: ServiceAnswers;
+  startLocation: SelectedLocation | null;
+  endLocation: SelectedLocation | null;
+  isAuto: boolean;
+  isPersonal: boolean;
+  attachments: AttachmentAsset[];
+  issuedQuote: IssuedQuote | null;
+};
+
+// What a guest was doing when asked to sign in; it resumes once they are back
+export type ServiceResumeAction = 'schedule' | 'quote';
+
+export type ServiceReturnData = {
+  formState: ServiceFormState;
+  action?: ServiceResumeAction;
+  timestamp?: number;
+  params?: Record<string, string>;
+};
+
 export type MovingModalQuestion =
   | 'apartmentSize'
   | 'packingStatus'
@@ -66,14 +93,6 @@ export type MovingAnalysisResult = {
   missingStreetNumberTargets: Array<'start' | 'end'>;
 };
 
-export type ServiceZoneBoundingBox = {
-  name: string;
-  minLat: number;
-  maxLat: number;
-  minLng: number;
-  maxLng: number;
-};
-
 export type MovingQuestionsState = {
   apartmentSize: string;
   packingStatus: '' | 'packed' | 'not-packed';
@@ -4,6 +4,8 @@ import { router, Stack, useRootNavigationState, useSegments } from 'expo-router'
 import { useEffect } from 'react';
 import { AuthProvider } from '../context/AuthContext';
 import { ModalProvider } from '../context/ModalContext';
+import { NotificationsProvider } from '../context/NotificationsContext';
+import { RealtimeProvider } from '../context/RealtimeContext';
 import { supabase } from '../lib/supabase';
 
 // TODO: Move to environment variable
@@ -53,21 +55,25 @@ export default function Layout() {
   return (
     <StripeProvider publishableKey={STRIPE_PUBLISHABLE_KEY}>
       <AuthProvider>
-        <ModalProvider>
-          <Stack
-            screenOptions={{
-              headerShown: false,
-              animation: 'none',
-              contentStyle: { backgroundColor: '#0C4309' },
-            }}
-          >
-            <Stack.Screen name="index" options={{ animation: 'none' }} />
-            <Stack.Screen name="(auth)" options={{ animation: 'none' }} />
-            <Stack.Screen name="(home)" options={{ animation: 'none' }} />
-            <Stack.Screen name="(services)" options={{ animation: 'none' }} />
-            <Stack.Screen name="(booking-flow)" options={{ animation: 'none' }} />
-          </Stack>
-        </ModalProvider>
+        <RealtimeProvider>
+          <NotificationsProvider>
+            <ModalProvider>
+              <Stack
+                screenOptions={{
+                  headerShown: false,
+                  animation: 'none',
+                  contentStyle: { backgroundColor: '#0C4309' },
+                }}
+              >
+                <Stack.Screen name="index" options={{ animation: 'none' }} />
+                <Stack.Screen name="(auth)" options={{ animation: 'none' }} />
+                <Stack.Screen name="(home)" options={{ animation: 'none' }} />
+                <Stack.Screen name="(services)" options={{ animation: 'none' }} />
+                <Stack.Screen name="(booking-flow)" options={{ animation: 'none' }} />
+              </Stack>
+            </ModalProvider>
+          </NotificationsProvider>
+        </RealtimeProvider>
       </AuthProvider>
     </StripeProvider>
   );
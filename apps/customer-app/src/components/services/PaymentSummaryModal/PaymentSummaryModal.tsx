@@ -13,6 +13,7 @@ import {
   View,
 } from 'react-native';
 
+import { PriceBreakdownList } from '../PriceBreakdownList';
 import { styles } from './styles';
 import { PaymentSummaryModalProps } from './types';
 
@@ -35,7 +36,7 @@ export const PaymentSummaryModal: React.FC<PaymentSummaryModalProps> = ({
   onClose,
   onConfirm,
   provider,
-  price,
+  breakdown,
   serviceName,
   scheduledDateTime,
   savedPaymentMethods,
@@ -102,12 +103,6 @@ export const PaymentSummaryModal: React.FC<PaymentSummaryModalProps> = ({
     }
   };
 
-  // Fee calculations
-  const basePrice = price;
-  const processingFee = Math.round(price * 0.03 * 100) / 100; // 3% payment processing
-  const platformFee = Math.round(price * 0.01 * 100) / 100; // 1% platform fee
-  const total = Math.round((basePrice + processingFee + platformFee) * 100) / 100;
-
   return (
     <Modal visible={visible} animationType="none" transparent onRequestClose={handleClose}>
       <Animated.View style={[styles.overlay, { opacity: animation }]}>
@@ -185,34 +180,14 @@ export const PaymentSummaryModal: React.FC<PaymentSummaryModalProps> = ({
                     <Text style={styles.receiptTitle}>Summary</Text>
                   </View>
                   
-                  {serviceName && (
-                    <View style={styles.summaryRow}>
-                      <Text style={styles.summaryLabel}>Service</Text>
-                      <Text style={styles.summaryValue}>{serviceName}</Text>
-                    </View>
-                  )}
-                  
-                  <View style={styles.summaryRow}>
-                    <Text style={styles.summaryLabel}>Helpr&apos;s Bid</Text>
-                    <Text style={styles.summaryValue}>{formatPrice(basePrice)}</Text>
-                  </View>
-                  
-                  <View style={styles.dividerLine} />
-                  
-                  <View style={styles.summaryRow}>
-                    <Text style={styles.feeLabel}>Payment Processing (3%)</Text>
-                    <Text style={styles.feeValue}>{formatPrice(processingFee)}</Text>
-                  </View>
-                  
-                  <View style={styles.summaryRow}>
-                    <Text style={styles.feeLabel}>Platform Fee (1%)</Text>
-                    <Text style={styles.feeValue}>{formatPrice(platformFee)}</Text>
-                  </View>
-                  
-                  <View style={[styles.summaryRow, styles.totalRow]}>
-                    <Text style={styles.totalLabel}>Total</Text>
-                    <Text style={styles.totalValue}>{formatPrice(total)}</Text>
-                  </View>
+                  <PriceBreakdownList breakdown={breakdown}>
+                    {serviceName && (
+                      <View style={styles.summaryRow}>
+                        <Text style={styles.summaryLabel}>Service</Text>
+                        <Text style={styles.summaryValue}>{serviceName}</Text>
+                      </View>
+                    )}
+                  </PriceBreakdownList>
                 </View>
 
                 {/* Payment Method Selection */}
@@ -281,7 +256,7 @@ export const PaymentSummaryModal: React.FC<PaymentSummaryModalProps> = ({
                     <ActivityIndicator size="small" color="#FFFFFF" />
                   ) : (
                     <Text style={styles.confirmButtonText}>
-                      Confirm & Pay {formatPrice(total)}
+                      Confirm & Pay {formatPrice(breakdown.total)}
                     </Text>
                   )}
                 </Pressable>
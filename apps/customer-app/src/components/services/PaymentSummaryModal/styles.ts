@@ -143,35 +143,6 @@ export const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#333333',
   },
-  dividerLine: {
-    height: 1,
-    backgroundColor: '#E5DCC9',
-    marginVertical: 8,
-  },
-  feeLabel: {
-    fontSize: 14,
-    color: '#6B6B6B',
-  },
-  feeValue: {
-    fontSize: 14,
-    color: '#6B6B6B',
-  },
-  totalRow: {
-    borderTopWidth: 2,
-    borderTopColor: '#0c4309',
-    marginTop: 10,
-    paddingTop: 12,
-  },
-  totalLabel: {
-    fontSize: 16,
-    fontWeight: '700',
-    color: '#0c4309',
-  },
-  totalValue: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: '#0c4309',
-  },
   paymentSection: {
     marginBottom: 16,
   },
@@ -1,3 +1,5 @@
+import { PriceBreakdown } from '@helpr/core';
+
 import { SavedPaymentMethodSummary } from '../../../lib/paymentMethods';
 
 export interface ProviderSummary {
@@ -13,7 +15,8 @@ export interface PaymentSummaryModalProps {
   onClose: () => void;
   onConfirm: () => void;
   provider: ProviderSummary | null;
-  price: number;
+  // Itemized charge; its total is the amount the booking flow charges
+  breakdown: PriceBreakdown;
   serviceName?: string;
   scheduledDateTime?: string;
   savedPaymentMethods: SavedPaymentMethodSummary[];
@@ -0,0 +1,61 @@
+import { PriceLineItem } from '@helpr/core';
+import React from 'react';
+import { Text, View } from 'react-native';
+
+import { styles } from './styles';
+import { PriceBreakdownListProps } from './types';
+
+const formatPrice = (value: number): string => {
+  const safeValue = Number.isFinite(value) ? value : 0;
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(safeValue);
+  } catch {
+    return `$${safeValue.toFixed(2)}`;
+  }
+};
+
+const isWorkItem = (item: PriceLineItem) =>
+  item.kind === 'base' || item.kind === 'distance' || item.kind === 'time' || item.kind === 'truck' || item.kind === 'add_on';
+
+export const PriceBreakdownList: React.FC<PriceBreakdownListProps> = ({
+  breakdown,
+  totalLabel = 'Total',
+  children,
+}) => {
+  const workItems = breakdown.items.filter(isWorkItem);
+  const chargeItems = breakdown.items.filter(item => !isWorkItem(item));
+
+  return (
+    <View>
+      {children}
+
+      {workItems.map((item, index) => (
+        <View key={`${item.kind}-${index}`} style={styles.row}>
+          <Text style={styles.itemLabel}>{item.label}</Text>
+          <Text style={styles.itemValue}>{formatPrice(item.amount)}</Text>
+        </View>
+      ))}
+
+      <View style={styles.dividerLine} />
+
+      {chargeItems.map((item, index) => (
+        <View key={`${item.kind}-${index}`} style={styles.row}>
+          <Text style={styles.feeLabel}>{item.label}</Text>
+          <Text style={item.kind === 'discount' ? styles.discountValue : styles.feeValue}>
+            {formatPrice(item.amount)}
+          </Text>
+        </View>
+      ))}
+
+      <View style={[styles.row, styles.totalRow]}>
+        <Text style={styles.totalLabel}>{totalLabel}</Text>
+        <Text style={styles.totalValue}>{formatPrice(breakdown.total)}</Text>
+      </View>
+    </View>
+  );
+};
@@ -0,0 +1,2 @@
+export { PriceBreakdownList } from './PriceBreakdownList';
+export type { PriceBreakdownListProps } from './types';
@@ -0,0 +1,58 @@
+import { StyleSheet } from 'react-native';
+
+export const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  itemLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333333',
+    fontWeight: '500',
+    marginRight: 12,
+  },
+  itemValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  dividerLine: {
+    height: 1,
+    backgroundColor: '#E5DCC9',
+    marginVertical: 8,
+  },
+  feeLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#6B6B6B',
+    marginRight: 12,
+  },
+  feeValue: {
+    fontSize: 14,
+    color: '#6B6B6B',
+  },
+  discountValue: {
+    fontSize: 14,
+    color: '#0c4309',
+    fontWeight: '600',
+  },
+  totalRow: {
+    borderTopWidth: 2,
+    borderTopColor: '#0c4309',
+    marginTop: 10,
+    paddingTop: 12,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#0c4309',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#0c4309',
+  },
+});
@@ -0,0 +1,9 @@
+import { PriceBreakdown } from '@helpr/core';
+import { ReactNode } from 'react';
+
+export interface PriceBreakdownListProps {
+  breakdown: PriceBreakdown;
+  totalLabel?: string;
+  // Extra leading rows such as the service name
+  children?: ReactNode;
+}
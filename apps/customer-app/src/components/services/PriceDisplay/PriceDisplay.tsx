@@ -1,11 +1,13 @@
-import React from 'react';
-import { ActivityIndicator, Text, View } from 'react-native';
+import React, { useState } from 'react';
+import { ActivityIndicator, Pressable, Text, View } from 'react-native';
 
+import { PriceBreakdownList } from '../PriceBreakdownList';
 import { usePriceDisplayStyles } from './styles';
 import { PriceDisplayProps } from './types';
 
 export const PriceDisplay: React.FC<PriceDisplayProps> = ({
   priceQuote,
+  priceBreakdown,
   priceNote,
   priceError,
   isLoading,
@@ -14,49 +16,64 @@ export const PriceDisplay: React.FC<PriceDisplayProps> = ({
   confirmedMessage = 'Price confirmed on next page',
 }) => {
   const styles = usePriceDisplayStyles();
+  const [showBreakdown, setShowBreakdown] = useState(false);
+  const canShowBreakdown = Boolean(priceQuote && priceBreakdown && !isLoading);
+  const headline = priceQuote && priceBreakdown ? `$${priceBreakdown.total.toFixed(2)}` : priceQuote;
 
   return (
-    <View style={styles.container}>
-      <View style={styles.textContainer}>
-        <View style={styles.titleContainer}>
-          <Text style={styles.titleText}>{title}</Text>
+    <>
+      <View style={styles.container}>
+        <View style={styles.textContainer}>
+          <View style={styles.titleContainer}>
+            <Text style={styles.titleText}>{title}</Text>
+          </View>
+          <View style={styles.subtitleContainer}>
+            <Text style={styles.subtitleText}>
+              {priceQuote ? confirmedMessage : emptyMessage}
+            </Text>
+          </View>
         </View>
-        <View style={styles.subtitleContainer}>
-          <Text style={styles.subtitleText}>
-            {priceQuote ? confirmedMessage : emptyMessage}
-          </Text>
-        </View>
-      </View>
-      <View style={styles.quoteContainer}>
-        {isLoading ? (
-          <ActivityIndicator size="small" color="#0c4309" />
-        ) : (
-          <>
-            {priceQuote ? (
-              <View style={styles.quoteRow}>
-                <Text style={[styles.quoteText, styles.quotePrice]} numberOfLines={1}>
-                  {priceQuote}
-                </Text>
-                <Text style={styles.estimateText}>est.</Text>
-              </View>
-            ) : (
-              <>
-                {priceError && (
-                  <Text style={[styles.quoteText, styles.quoteTextError]} numberOfLines={3}>
-                    {priceError}
-                  </Text>
-                )}
-                {priceNote && (
-                  <Text style={styles.noteText} numberOfLines={2}>
-                    {priceNote}
+        <View style={styles.quoteContainer}>
+          {isLoading ? (
+            <ActivityIndicator size="small" color="#0c4309" />
+          ) : (
+            <>
+              {priceQuote ? (
+                <View style={styles.quoteRow}>
+                  <Text style={[styles.quoteText, styles.quotePrice]} numberOfLines={1}>
+                    {headline}
                   </Text>
-                )}
-              </>
-            )}
-          </>
-        )}
+                  <Text style={styles.estimateText}>est.</Text>
+                </View>
+              ) : (
+                <>
+                  {priceError && (
+                    <Text style={[styles.quoteText, styles.quoteTextError]} numberOfLines={3}>
+                      {priceError}
+                    </Text>
+                  )}
+                  {priceNote && (
+                    <Text style={styles.noteText} numberOfLines={2}>
+                      {priceNote}
+                    </Text>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </View>
       </View>
-    </View>
+      {canShowBreakdown && priceBreakdown && (
+        <View style={styles.breakdownContainer}>
+          <Pressable onPress={() => setShowBreakdown(prev => !prev)} hitSlop={8}>
+            <Text style={styles.breakdownToggleText}>
+              {showBreakdown ? 'Hide price breakdown' : 'See price breakdown'}
+            </Text>
+          </Pressable>
+          {showBreakdown && <PriceBreakdownList breakdown={priceBreakdown} totalLabel="Estimated total" />}
+        </View>
+      )}
+    </>
   );
 };
 
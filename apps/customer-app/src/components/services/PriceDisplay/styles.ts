@@ -83,6 +83,21 @@ export const usePriceDisplayStyles = () => {
       color: theme.colors.textSecondary,
       marginTop: 2,
     },
+    breakdownContainer: {
+      backgroundColor: '#FFFFFF',
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: '#E5DCC9',
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      marginBottom: 5,
+    },
+    breakdownToggleText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: theme.colors.primary,
+      textDecorationLine: 'underline',
+    },
   });
 };
 
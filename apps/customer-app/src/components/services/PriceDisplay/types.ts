@@ -1,5 +1,9 @@
+import { PriceBreakdown } from '@helpr/core';
+
 export interface PriceDisplayProps {
   priceQuote: string | null;
+  // When provided, the headline shows the breakdown total and the line items can be expanded
+  priceBreakdown?: PriceBreakdown | null;
   priceNote?: string | null;
   priceError?: string | null;
   isLoading?: boolean;
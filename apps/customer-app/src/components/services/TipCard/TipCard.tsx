@@ -0,0 +1,101 @@
+import { calculateTipAmount, TIP_PRESET_PERCENTS, validateTipAmount } from '@helpr/core';
+import React, { useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, Text, TextInput, View } from 'react-native';
+
+import { styles } from './styles';
+import { TipCardProps } from './types';
+
+const formatTip = (value: number): string => `$${value.toFixed(2)}`;
+
+export const TipCard: React.FC<TipCardProps> = ({
+  helprFirstName,
+  jobPrice,
+  tip,
+  paymentMethodLabel,
+  sending = false,
+  onSendTip,
+}) => {
+  const [selectedPercent, setSelectedPercent] = useState<number | null>(TIP_PRESET_PERCENTS[1]);
+  const [customAmount, setCustomAmount] = useState('');
+  const helprName = helprFirstName || 'your Helpr';
+
+  // Presets are hidden when the job has no price to take a share of
+  const presets = useMemo(
+    () => TIP_PRESET_PERCENTS
+      .map(percent => ({ percent, amount: calculateTipAmount(jobPrice, percent) }))
+      .filter(preset => preset.amount > 0),
+    [jobPrice],
+  );
+  const isCustom = selectedPercent === null || presets.length === 0;
+
+  const amount = isCustom
+    ? Number(customAmount.replace(/[^0-9.]/g, ''))
+    : presets.find(preset => preset.percent === selectedPercent)?.amount ?? 0;
+  const amountError = isCustom && !customAmount ? null : validateTipAmount(amount);
+
+  if (tip) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.sentText}>{`You tipped ${helprName} ${formatTip(Number(tip.amount))}. Thank you!`}</Text>
+      </View>
+    );
+  }
+
+  const canSend = !sending && Boolean(paymentMethodLabel) && amount > 0 && !amountError;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{`Tip ${helprName}`}</Text>
+      <Text style={styles.subtitle}>{`100% of your tip goes to ${helprName}.`}</Text>
+      <View style={styles.optionRow}>
+        {presets.map(preset => {
+          const selected = !isCustom && selectedPercent === preset.percent;
+          return (
+            <Pressable
+              key={preset.percent}
+              style={[styles.option, selected ? styles.optionSelected : null]}
+              onPress={() => setSelectedPercent(preset.percent)}
+              disabled={sending}
+            >
+              <Text style={[styles.optionLabel, selected ? styles.optionTextSelected : null]}>{`${preset.percent}%`}</Text>
+              <Text style={[styles.optionAmount, selected ? styles.optionTextSelected : null]}>{formatTip(preset.amount)}</Text>
+            </Pressable>
+          );
+        })}
+        <Pressable
+          style={[styles.option, isCustom ? styles.optionSelected : null]}
+          onPress={() => setSelectedPercent(null)}
+          disabled={sending}
+        >
+          <Text style={[styles.optionLabel, isCustom ? styles.optionTextSelected : null]}>Custom</Text>
+        </Pressable>
+      </View>
+      {isCustom ? (
+        <TextInput
+          style={styles.customInput}
+          placeholder="Enter an amount"
+          placeholderTextColor="#9B9B9B"
+          keyboardType="decimal-pad"
+          value={customAmount}
+          onChangeText={setCustomAmount}
+          editable={!sending}
+        />
+      ) : null}
+      {amountError ? <Text style={styles.errorText}>{amountError}</Text> : null}
+      <Text style={styles.paymentMethodText}>
+        {paymentMethodLabel ? `Charged to ${paymentMethodLabel}` : 'Add a card in your account to send a tip.'}
+      </Text>
+      <Pressable
+        style={[styles.sendButton, canSend ? null : styles.sendButtonDisabled]}
+        onPress={() => onSendTip(amount, isCustom ? null : selectedPercent)}
+        disabled={!canSend}
+      >
+        {sending ? (
+          <ActivityIndicator color="#fff8e8" />
+        ) : (
+          <Text style={styles.sendButtonText}>{amount > 0 && !amountError ? `Send ${formatTip(amount)} Tip` : 'Send Tip'}</Text>
+        )}
+      </Pressable>
+    </View>
+  );
+};
@@ -0,0 +1,2 @@
+export { TipCard } from './TipCard';
+export type { TipCardProps } from './types';
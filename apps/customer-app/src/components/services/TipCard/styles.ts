@@ -0,0 +1,98 @@
+import { StyleSheet } from 'react-native';
+
+export const styles = StyleSheet.create({
+  container: {
+    marginTop: 24,
+    marginHorizontal: 20,
+    padding: 16,
+    borderRadius: 18,
+    backgroundColor: '#fff8e8',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#0c4309',
+    alignSelf: 'center',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#0c4309',
+    marginTop: 4,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  option: {
+    flex: 1,
+    marginHorizontal: 4,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#C0B9A6',
+    alignItems: 'center',
+  },
+  optionSelected: {
+    backgroundColor: '#0c4309',
+    borderColor: '#0c4309',
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#0c4309',
+  },
+  optionAmount: {
+    fontSize: 12,
+    color: '#8A8575',
+    marginTop: 2,
+  },
+  optionTextSelected: {
+    color: '#fff8e8',
+  },
+  customInput: {
+    marginTop: 12,
+    marginHorizontal: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#C0B9A6',
+    fontSize: 14,
+    color: '#0c4309',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#B3261E',
+    marginTop: 8,
+    marginHorizontal: 4,
+  },
+  paymentMethodText: {
+    fontSize: 12,
+    color: '#8A8575',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  sendButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#0c4309',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.6,
+  },
+  sendButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#fff8e8',
+  },
+  sentText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0c4309',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,13 @@
+import type { ServiceTipRow } from '@helpr/core';
+
+export interface TipCardProps {
+  helprFirstName: string | null;
+  // The job price the preset percentages apply to
+  jobPrice: number | null;
+  // The tip already sent for this job, if any
+  tip: ServiceTipRow | null;
+  // e.g. "Visa •••• 4242"; null when the customer has no saved card
+  paymentMethodLabel: string | null;
+  sending?: boolean;
+  onSendTip: (amount: number, percent: number | null) => void;
+}
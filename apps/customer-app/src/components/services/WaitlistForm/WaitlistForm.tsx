@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Pressable, Text, TextInput, View } from 'react-native';
+
+import { useAuth } from '../../../context/AuthContext';
+import { ModalConfig, useModal } from '../../../context/ModalContext';
+import { isValidWaitlistEmail, joinWaitlist } from '../../../lib/waitlist';
+import { styles } from './styles';
+import { WaitlistFormProps } from './types';
+
+export const WaitlistForm: React.FC<WaitlistFormProps> = ({ message, entry }) => {
+  const { user } = useAuth();
+  const { showModal } = useModal();
+  const [email, setEmail] = useState(user?.email ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleJoin = async () => {
+    if (!isValidWaitlistEmail(email)) {
+      setError('Enter a valid email address.');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await joinWaitlist({ ...entry, email, userId: user?.id ?? null });
+      showModal({
+        title: "You're on the list",
+        message: "We'll email you as soon as Helpr is available in your area.",
+      });
+    } catch (joinError) {
+      console.warn('Failed to join waitlist', joinError);
+      setError('Unable to join the waitlist right now. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <View>
+      <Text style={styles.message}>{message}</Text>
+      <TextInput
+        style={styles.input}
+        value={email}
+        onChangeText={text => {
+          setEmail(text);
+          setError(null);
+        }}
+        placeholder="Email for updates"
+        placeholderTextColor="#8E8E8E"
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!submitting}
+      />
+      {error && <Text style={styles.errorText}>{error}</Text>}
+      <Pressable
+        style={[styles.joinButton, submitting && styles.joinButtonDisabled]}
+        onPress={handleJoin}
+        disabled={submitting}
+      >
+        {submitting ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <Text style={styles.joinButtonText}>Join the waitlist</Text>
+        )}
+      </Pressable>
+    </View>
+  );
+};
+
+// Out-of-area modal offering the waitlist instead of discarding the request
+export const createWaitlistModal = (entry: WaitlistFormProps['entry'], title = "We're not in your area yet."): ModalConfig => {
+  const message =
+    "Helpr currently operates in NYC's five boroughs, Westchester County, and Hudson & Bergen counties in NJ. Join the waitlist and we'll let you know when we get to you.";
+  return {
+    title,
+    message,
+    content: <WaitlistForm message={message} entry={entry} />,
+    buttons: [{ text: 'Not now', style: 'cancel' }],
+  };
+};
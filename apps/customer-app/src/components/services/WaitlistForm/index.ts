@@ -0,0 +1,2 @@
+export { createWaitlistModal, WaitlistForm } from './WaitlistForm';
+export type { WaitlistFormProps } from './types';
@@ -0,0 +1,41 @@
+import { StyleSheet } from 'react-native';
+
+export const styles = StyleSheet.create({
+  message: {
+    fontSize: 16,
+    color: '#49454F',
+    textAlign: 'center',
+    marginBottom: 12,
+    lineHeight: 22,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5DCC9',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#333333',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#b02a2a',
+    marginTop: 6,
+  },
+  joinButton: {
+    backgroundColor: '#0c4309',
+    borderRadius: 25,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  joinButtonDisabled: {
+    opacity: 0.5,
+  },
+  joinButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
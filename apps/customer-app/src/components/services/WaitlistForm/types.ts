@@ -0,0 +1,7 @@
+import { WaitlistEntry } from '../../../lib/waitlist';
+
+export interface WaitlistFormProps {
+  message: string;
+  // Everything except the email, which the customer enters (prefilled when signed in)
+  entry: Omit<WaitlistEntry, 'email' | 'userId'>;
+}
@@ -8,10 +8,13 @@ export { JobDescriptionSection, type JobDescriptionSectionProps } from './JobDes
 export { JobDescriptionInput, type JobDescriptionInputProps } from './JobDescriptionInput';
 export { PersonalBusinessToggle, type PaymentMethodInfo, type PersonalBusinessToggleProps } from './PersonalBusinessToggle';
 export { PaymentSummaryModal, type PaymentSummaryModalProps } from './PaymentSummaryModal';
+export { PriceBreakdownList, type PriceBreakdownListProps } from './PriceBreakdownList';
 export { PriceDisplay, type PriceDisplayProps } from './PriceDisplay';
 export { ScheduleButton, type ScheduleButtonProps } from './ScheduleButton';
 export { SignInModal, type SignInModalProps } from './SignInModal';
+export { TipCard, type TipCardProps } from './TipCard';
 export { TogglesSection, type TogglesSectionProps } from './TogglesSection';
+export { createWaitlistModal, WaitlistForm, type WaitlistFormProps } from './WaitlistForm';
 
 // Re-export PaymentMethodModal from common for backward compatibility
 export { PaymentMethodModal, type PaymentMethodModalProps } from '../common/PaymentMethodModal';
@@ -16,6 +16,7 @@ export type RouteParams = {
   // Home routes (in (home) group)
   landing: undefined;
   account: undefined;
+  notifications: undefined;
   'customer-service-chat': undefined;
   // Auth routes (in (auth) group)
   signup: undefined;
@@ -40,6 +41,7 @@ export const ROUTES = [
   'service-details',
   'landing',
   'account',
+  'notifications',
   'customer-service-chat',
   'signup',
   'login',
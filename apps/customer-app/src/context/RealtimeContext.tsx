@@ -0,0 +1,257 @@
+import {
+  normalizeServiceStatus,
+  ProviderLocationRow,
+  ServiceFillRequestRow,
+  ServiceRow,
+  ServiceStatus,
+} from '@helpr/core';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import * as SecureStore from 'expo-secure-store';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+// One Supabase channel per signed-in customer for changes to their services, the bids on
+// them and the live location of a helpr who is on the way. Screens listen with
+// useRealtimeEvents instead of polling, and "already shown" flags are kept in SecureStore
+// so they survive restarts.
+
+export type RealtimeEvent =
+  | {
+      type: 'service';
+      change: 'INSERT' | 'UPDATE';
+      service: ServiceRow;
+      // The status before this change, as last seen by the app; null for new services
+      previousStatus: ServiceStatus | null;
+      status: ServiceStatus | null;
+    }
+  | {
+      type: 'bid';
+      change: 'INSERT' | 'UPDATE';
+      serviceId: string;
+      fillRequest: ServiceFillRequestRow;
+    }
+  // The helpr's latest position while on the way; null once they stop sharing
+  | { type: 'provider_location'; serviceId: string; location: ProviderLocationRow | null }
+  // The helpr reached the job's start location; follows the matching 'service' event
+  | { type: 'arrived'; serviceId: string; arrivedAt: string }
+  // The channel (re)connected; events may have been missed, so refetch
+  | { type: 'resync' };
+
+export type SeenFlag = 'select_pro_modal' | 'completed_service';
+
+type SeenFlags = Record<SeenFlag, string[]>;
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+type RealtimeContextValue = {
+  subscribe: (listener: RealtimeListener) => () => void;
+  // False until the stored flags are read; hasSeen answers false for everything before then
+  seenFlagsLoaded: boolean;
+  hasSeen: (flag: SeenFlag, serviceId: string) => boolean;
+  markSeen: (flag: SeenFlag, serviceId: string) => void;
+};
+
+// SecureStore values should stay under 2 KB; older ids are dropped first
+const MAX_SEEN_IDS = 40;
+
+const EMPTY_SEEN_FLAGS: SeenFlags = { select_pro_modal: [], completed_service: [] };
+
+const seenFlagsKey = (userId: string) => `helpr.seen.${userId}`;
+
+const mergeSeenFlags = (stored: SeenFlags, current: SeenFlags): SeenFlags => ({
+  select_pro_modal: Array.from(new Set([...stored.select_pro_modal, ...current.select_pro_modal])).slice(-MAX_SEEN_IDS),
+  completed_service: Array.from(new Set([...stored.completed_service, ...current.completed_service])).slice(-MAX_SEEN_IDS),
+});
+
+const RealtimeContext = createContext<RealtimeContextValue | undefined>(undefined);
+
+export const useRealtime = () => {
+  const context = useContext(RealtimeContext);
+  if (!context) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+};
+
+// The listener may change every render; only the latest one is called
+export const useRealtimeEvents = (listener: RealtimeListener) => {
+  const { subscribe } = useRealtime();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => subscribe(event => listenerRef.current(event)), [subscribe]);
+};
+
+export const RealtimeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const listenersRef = useRef(new Set<RealtimeListener>());
+  const statusesRef = useRef<Record<string, ServiceStatus | null>>({});
+  const arrivalsRef = useRef<Record<string, string | null>>({});
+  const [seenFlags, setSeenFlags] = useState<SeenFlags>(EMPTY_SEEN_FLAGS);
+  // The user whose stored flags are in seenFlags; guests have nothing to load
+  const [seenFlagsUserId, setSeenFlagsUserId] = useState<string | null>(null);
+  const seenFlagsLoaded = !userId || seenFlagsUserId === userId;
+
+  const emit = useCallback((event: RealtimeEvent) => {
+    listenersRef.current.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Realtime listener failed:', error);
+      }
+    });
+  }, []);
+
+  const subscribe = useCallback((listener: RealtimeListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  useEffect(() => {
+    setSeenFlags(EMPTY_SEEN_FLAGS);
+    setSeenFlagsUserId(null);
+    if (!userId) {
+      return;
+    }
+
+    let cancelled = false;
+    SecureStore.getItemAsync(seenFlagsKey(userId))
+      .then(stored => {
+        if (cancelled) return;
+        // Keep anything marked while the stored flags were loading
+        const loaded = { ...EMPTY_SEEN_FLAGS, ...(stored ? (JSON.parse(stored) as Partial<SeenFlags>) : {}) };
+        setSeenFlags(current => mergeSeenFlags(loaded, current));
+      })
+      .catch(error => console.error('Failed to load seen flags:', error))
+      .finally(() => {
+        if (!cancelled) setSeenFlagsUserId(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Saving before the stored flags are loaded would overwrite them
+  useEffect(() => {
+    if (!userId || seenFlagsUserId !== userId) {
+      return;
+    }
+    SecureStore.setItemAsync(seenFlagsKey(userId), JSON.stringify(seenFlags))
+      .catch(error => console.error('Failed to save seen flags:', error));
+  }, [userId, seenFlagsUserId, seenFlags]);
+
+  const markSeen = useCallback((flag: SeenFlag, serviceId: string) => {
+    setSeenFlags(current =>
+      current[flag].includes(serviceId)
+        ? current
+        : { ...current, [flag]: [...current[flag], serviceId].slice(-MAX_SEEN_IDS) },
+    );
+  }, []);
+
+  const hasSeen = useCallback(
+    (flag: SeenFlag, serviceId: string) => seenFlags[flag].includes(serviceId),
+    [seenFlags],
+  );
+
+  useEffect(() => {
+    statusesRef.current = {};
+    arrivalsRef.current = {};
+    if (!userId) {
+      return;
+    }
+
+    // Baseline for previousStatus and arrivals; change payloads only carry the new row
+    const loadStatuses = async () => {
+      const { data, error } = await supabase
+        .from('service')
+        .select('service_id, status, arrived_at')
+        .eq('customer_id', userId);
+
+      if (error) {
+        console.error('Realtime failed to load service statuses:', error);
+        return;
+      }
+      statusesRef.current = Object.fromEntries(
+        (data ?? []).map(row => [row.service_id as string, normalizeServiceStatus(row.status)]),
+      );
+      arrivalsRef.current = Object.fromEntries(
+        (data ?? []).map(row => [row.service_id as string, (row.arrived_at as string | null) ?? null]),
+      );
+    };
+
+    const handleServiceChange = (payload: RealtimePostgresChangesPayload<ServiceRow>) => {
+      if (payload.eventType === 'DELETE' || !payload.new?.service_id) return;
+
+      const service = payload.new;
+      const status = normalizeServiceStatus(service.status);
+      const previousStatus = statusesRef.current[service.service_id] ?? null;
+      statusesRef.current[service.service_id] = status;
+
+      emit({ type: 'service', change: payload.eventType, service, previousStatus, status });
+
+      const arrivedAt = service.arrived_at ?? null;
+      const previousArrivedAt = arrivalsRef.current[service.service_id] ?? null;
+      arrivalsRef.current[service.service_id] = arrivedAt;
+      if (arrivedAt && !previousArrivedAt) {
+        emit({ type: 'arrived', serviceId: service.service_id, arrivedAt });
+      }
+    };
+
+    // RLS limits bid changes to the customer's own services
+    const handleBidChange = (payload: RealtimePostgresChangesPayload<ServiceFillRequestRow>) => {
+      if (payload.eventType === 'DELETE' || !payload.new?.service_id) return;
+      emit({ type: 'bid', change: payload.eventType, serviceId: payload.new.service_id, fillRequest: payload.new });
+    };
+
+    // Deletes only carry the primary key, which is all that is needed to stop showing it
+    const handleLocationChange = (payload: RealtimePostgresChangesPayload<ProviderLocationRow>) => {
+      if (payload.eventType === 'DELETE') {
+        const serviceId = payload.old?.service_id;
+        if (serviceId) emit({ type: 'provider_location', serviceId, location: null });
+        return;
+      }
+      if (!payload.new?.service_id) return;
+      emit({ type: 'provider_location', serviceId: payload.new.service_id, location: payload.new });
+    };
+
+    const channel = supabase
+      .channel(`customer-${userId}`)
+      .on<ServiceRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'service', filter: `customer_id=eq.${userId}` },
+        handleServiceChange,
+      )
+      .on<ServiceFillRequestRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'service_fill_request' },
+        handleBidChange,
+      )
+      .on<ProviderLocationRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'service_provider_location', filter: `customer_id=eq.${userId}` },
+        handleLocationChange,
+      )
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          loadStatuses().finally(() => emit({ type: 'resync' }));
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, emit]);
+
+  const value = useMemo(
+    () => ({ subscribe, seenFlagsLoaded, hasSeen, markSeen }),
+    [subscribe, seenFlagsLoaded, hasSeen, markSeen],
+  );
+
+  return <RealtimeContext.Provider value={value}>{children}</RealtimeContext.Provider>;
+};
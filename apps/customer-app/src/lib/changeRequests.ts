@@ -0,0 +1,17 @@
+import { describeChangeRequestError, ProposedServiceChanges, requestServiceChange } from '@helpr/core';
+
+import { describeQuoteError } from './quotes';
+import { supabase } from './supabase';
+
+// Sends edits of a job a helpr has already accepted to that helpr for approval.
+// Resolves to customer-facing copy when the request could not be sent, otherwise null.
+export const submitChangeRequest = async (serviceId: string, changes: ProposedServiceChanges): Promise<string | null> => {
+  try {
+    await requestServiceChange(supabase, serviceId, changes);
+    return null;
+  } catch (error) {
+    console.error('Failed to send change request:', error);
+    const described = error as { message?: string };
+    return describeChangeRequestError(described) ?? describeQuoteError(described) ?? 'We could not send your changes. Please try again.';
+  }
+};
@@ -0,0 +1,82 @@
+import type { JobDurationEstimate, LocationData, PriceBreakdown, PriceComponent, PricingInputs, ServiceZone } from '@helpr/core';
+
+import { supabase } from './supabase';
+
+export type IssuedQuote = {
+  quoteId: string;
+  serviceType: string;
+  amount: number;
+  components: PriceComponent[];
+  // Customer-facing line items including fees; `breakdown.total` is what the customer pays
+  breakdown: PriceBreakdown;
+  note: string | null;
+  rateCardVersion: string;
+  // Service zone of the start location, worked out by the server
+  zone?: ServiceZone | null;
+  // Fee schedule the breakdown's fees were taken from
+  feeScheduleVersion?: string;
+  // Hands-on time for the job, shown as the estimated finish once booked
+  estimatedDuration?: JobDurationEstimate;
+  expiresAt: string;
+};
+
+// An address as it will be booked and where it was geocoded; the booking must use the same address
+export type QuoteLocation = { address: string; latitude: number; longitude: number };
+
+export type QuoteRequest = {
+  // The `service_type` value the service row will be booked with
+  serviceType: string;
+  inputs: Pick<PricingInputs, 'tier' | 'apartmentSize' | 'needsTruck' | 'needsPacking'>;
+  start: QuoteLocation;
+  // Required for services priced by distance
+  end?: QuoteLocation | null;
+};
+
+const QUOTE_ERROR_MESSAGES: Record<string, string> = {
+  quote_required: 'Request a price estimate before scheduling.',
+  quote_not_found: 'We could not find your price estimate. Please request a new one.',
+  quote_invalid_signature: 'We could not verify your price estimate. Please request a new one.',
+  quote_not_owned: 'This price estimate belongs to another account. Please request a new one.',
+  quote_expired: 'Your price was locked for 30 minutes and has expired. Please request a new estimate.',
+  quote_already_used: 'This price estimate was already used for another booking. Please request a new one.',
+  quote_service_mismatch: 'Your price estimate does not match this service. Please request a new one.',
+  quote_price_mismatch: 'The price changed since your estimate. Please request a new one.',
+  quote_location_mismatch: 'Your price estimate was for different addresses. Please request a new one.',
+};
+
+export const requestQuote = async (request: QuoteRequest): Promise<IssuedQuote> => {
+  const { data, error } = await supabase.functions.invoke('create-quote', {
+    body: {
+      serviceType: request.serviceType,
+      inputs: request.inputs,
+      start: request.start,
+      end: request.end ?? null,
+    },
+  });
+
+  if (error || !data?.success || !data?.quote) {
+    throw new Error(data?.error || error?.message || 'Failed to create quote');
+  }
+
+  return data.quote as IssuedQuote;
+};
+
+export const toQuoteLocation = (location: LocationData): QuoteLocation => ({
+  address: location.description.trim(),
+  latitude: location.coordinate.latitude,
+  longitude: location.coordinate.longitude,
+});
+
+export const isQuoteExpired = (quote: Pick<IssuedQuote, 'expiresAt'> | null | undefined): boolean => {
+  if (!quote) {
+    return true;
+  }
+  return new Date(quote.expiresAt).getTime() <= Date.now();
+};
+
+// Maps errors raised by the `verify_service_quote` trigger to customer-facing copy
+export const describeQuoteError = (error: { message?: string } | null | undefined): string | null => {
+  const message = error?.message ?? '';
+  const code = Object.keys(QUOTE_ERROR_MESSAGES).find(key => message.includes(key));
+  return code ? QUOTE_ERROR_MESSAGES[code] : null;
+};
@@ -0,0 +1,479 @@
+// Declarative configuration for each bookable service. The generic service screen
+// (app/(services)/moving/ServiceScreen.tsx) renders entirely from a definition, so adding
+// a service is a new entry here plus a one-line route file.
+import { PricingInputs, PricingServiceKey } from '@helpr/core';
+
+export type ServiceQuestionOption = {
+  value: string;
+  label: string;
+  description?: string;
+  // Text recorded in the job description when this option is chosen, e.g. "Deep cleaning"
+  summary: string;
+  // Phrases in the customer's own description that already pick this option
+  detectors?: RegExp[];
+};
+
+type ServiceQuestionBase = {
+  id: string;
+  title: string;
+  message: string;
+  // Label of the sentence appended to the job description, e.g. "Property size"
+  summaryLabel: string;
+  // Pricing input the answer feeds into the rate card
+  pricingInput?: 'tier' | 'apartmentSize';
+};
+
+export type ServiceChoiceQuestion = ServiceQuestionBase & {
+  kind: 'choice';
+  options: ServiceQuestionOption[];
+};
+
+export type ServiceTextQuestion = ServiceQuestionBase & {
+  kind: 'text';
+  placeholder: string;
+  required: boolean;
+  multiline?: boolean;
+  // Shows an "Add Photos" button under the input
+  allowPhotos?: boolean;
+  // Phrases in the customer's own description that already answer this question
+  detectors?: RegExp[];
+};
+
+export type ServiceQuestion = ServiceChoiceQuestion | ServiceTextQuestion;
+
+export type ServiceAnswers = Record<string, string>;
+
+export type ServiceDefinition = {
+  // Route name under (services)/ and the key used in return-to payloads
+  key: string;
+  // The `service_type` value stored on the service row and sent with quotes
+  serviceType: string;
+  pricingService: PricingServiceKey;
+  needsStartLocation: boolean;
+  needsEndLocation: boolean;
+  // Asked in order; questions already answered by the description are skipped
+  questions: ServiceQuestion[];
+  // System prompt for the optional LLM safety and clarification check
+  pricingPrompt: string;
+  copy: {
+    title: string;
+    // Lower-case noun used in sentences, e.g. "cleaning service"
+    serviceName: string;
+    startLocationPlaceholder: string;
+    endLocationPlaceholder?: string;
+    descriptionPlaceholder: string;
+    // Shown in the price area when the LLM asks for more detail
+    clarificationError: string;
+  };
+};
+
+const SIZE_DETECTORS: RegExp[] = [
+  /\b\d+\s*(sq\s*ft|square\s*feet|sqft|sf)\b/i,
+  /\b\d+[\s-]*(bedroom|bed|br|bathroom|bath|ba|room)\b/i,
+  /\b(one|two|three|four|five|six|seven|eight|nine|ten|single|double|triple)\s*(?:-|\s)?\s*(bedroom|bed|br|room|apt|apartment)s?\b/i,
+  /\b(studio)\b/i,
+];
+
+const SPECIAL_REQUESTS_QUESTION: ServiceTextQuestion = {
+  id: 'specialRequests',
+  kind: 'text',
+  title: 'Any Special Requests?',
+  message: 'Share any specific details or add photos to help your Helpr understand the job (optional):',
+  summaryLabel: 'Special requests',
+  placeholder: 'e.g., Please call when you arrive, there is a dog at home...',
+  required: false,
+  multiline: true,
+  allowPhotos: true,
+};
+
+const buildPricingPrompt = (subject: string, missingDetails: string[], baseQuoteFrom: string) =>
+  `You are a pricing assistant for ${subject} services. Respond with a JSON object containing: needs_clarification (boolean), clarification_prompt (string, only if needs_clarification is true), safety_concern (boolean), safety_message (string, only if safety_concern is true). Analyze the task description and determine if critical details are missing: ${missingDetails.map((detail, index) => `${index + 1}) ${detail}`).join(', ')}. If any are unclear, set needs_clarification to true and provide a friendly clarification_prompt asking for the missing details. If the request involves hazardous materials, biohazards, or dangerous conditions, set safety_concern to true with an appropriate safety_message. The price is calculated separately from the ${baseQuoteFrom}, so do not estimate one.`;
+
+export const MOVING_SERVICE: ServiceDefinition = {
+  key: 'moving',
+  serviceType: 'Moving',
+  pricingService: 'moving',
+  needsStartLocation: true,
+  needsEndLocation: true,
+  // Moving keeps its own branching flow (packing, truck, boxes) in MovingAnalysisModal
+  questions: [],
+  pricingPrompt: `You are a pricing assistant for moving services. The price is calculated separately from apartment size, truck, packing and driving distance, so do not estimate one. Respond with a JSON object containing: needs_clarification (boolean), clarification_prompt (string, only if needs_clarification is true), safety_concern (boolean), safety_message (string, only if safety_concern is true). If the request involves hazardous materials, illegal items or dangerous conditions, set safety_concern to true with an appropriate safety_message.`,
+  copy: {
+    title: 'Moving Details',
+    serviceName: 'moving service',
+    startLocationPlaceholder: 'Start Location',
+    endLocationPlaceholder: 'End Location',
+    descriptionPlaceholder: 'Describe your task...',
+    clarificationError: 'Please add a few more details about your move.',
+  },
+};
+
+export const CLEANING_SERVICE: ServiceDefinition = {
+  key: 'cleaning',
+  serviceType: 'cleaning',
+  pricingService: 'cleaning',
+  needsStartLocation: true,
+  needsEndLocation: false,
+  questions: [
+    {
+      id: 'cleaningType',
+      kind: 'choice',
+      title: 'Select Cleaning Type',
+      message: 'Please select the type of cleaning you need:',
+      summaryLabel: 'Type',
+      pricingInput: 'tier',
+      options: [
+        {
+          value: 'basic',
+          label: 'Basic Cleaning',
+          description: 'General tidying, dusting, vacuuming, and surface cleaning',
+          summary: 'Basic cleaning',
+          detectors: [/\b(basic|standard)\s*clean(ing|ed)?\b/i],
+        },
+        {
+          value: 'deep',
+          label: 'Deep Cleaning',
+          description: 'Comprehensive cleaning including baseboards, inside appliances, and hard-to-reach areas',
+          summary: 'Deep cleaning',
+          detectors: [/\bdeep\s*clean(ing|ed)?\b/i],
+        },
+      ],
+    },
+    {
+      id: 'propertySize',
+      kind: 'text',
+      title: 'Space Size',
+      message: 'Please specify the size of your home or office:',
+      summaryLabel: 'Property size',
+      pricingInput: 'apartmentSize',
+      placeholder: 'e.g., 2-bedroom apartment, 1500 sq ft house, 3-room office...',
+      required: true,
+      detectors: SIZE_DETECTORS,
+    },
+    {
+      id: 'supplies',
+      kind: 'text',
+      title: 'Cleaning Supplies',
+      message: 'What cleaning supplies or equipment should your Helpr bring?',
+      summaryLabel: 'Supplies to bring',
+      placeholder: 'e.g., All cleaning supplies, vacuum, mop, eco-friendly products...',
+      required: true,
+      multiline: true,
+    },
+    SPECIAL_REQUESTS_QUESTION,
+  ],
+  pricingPrompt: buildPricingPrompt(
+    'cleaning',
+    ['degree of cleaning needed (light/medium/deep)', 'which rooms or entire home', 'property size'],
+    'property size and cleaning type',
+  ),
+  copy: {
+    title: 'Cleaning Details',
+    serviceName: 'cleaning service',
+    startLocationPlaceholder: 'Cleaning Location',
+    descriptionPlaceholder: "Describe your task... (e.g. 'I need my one bedroom apartment deep cleaned.')",
+    clarificationError: 'Please select a cleaning type.',
+  },
+};
+
+export const WALL_MOUNTING_SERVICE: ServiceDefinition = {
+  key: 'wall-mounting',
+  serviceType: 'wall-mounting',
+  pricingService: 'wall-mounting',
+  needsStartLocation: true,
+  needsEndLocation: false,
+  questions: [
+    {
+      id: 'mountingType',
+      kind: 'choice',
+      title: 'Select Mounting Type',
+      message: 'Please select the type of mounting you need:',
+      summaryLabel: 'Type',
+      pricingInput: 'tier',
+      options: [
+        {
+          value: 'basic',
+          label: 'Standard Mounting',
+          description: 'Pictures, mirrors, shelves, or a TV on drywall with the hardware provided',
+          summary: 'Standard mounting',
+        },
+        {
+          value: 'deep',
+          label: 'Heavy-Duty Mounting',
+          description: 'Large TVs, brick or concrete walls, hidden cables, or several items',
+          summary: 'Heavy-duty mounting',
+          detectors: [/\b(brick|concrete|plaster|hide\s+(the\s+)?(cables|wires)|in-wall)\b/i],
+        },
+      ],
+    },
+    {
+      id: 'itemCount',
+      kind: 'text',
+      title: 'Items to Mount',
+      message: 'How many items need mounting, and how large are they?',
+      summaryLabel: 'Items to mount',
+      placeholder: "e.g., One 65\" TV, three framed pictures, two floating shelves...",
+      required: true,
+    },
+    {
+      id: 'hardware',
+      kind: 'text',
+      title: 'Mounting Hardware',
+      message: 'What tools or hardware should your Helpr bring?',
+      summaryLabel: 'Hardware to bring',
+      placeholder: 'e.g., TV bracket, wall anchors, stud finder, or none...',
+      required: true,
+      multiline: true,
+    },
+    SPECIAL_REQUESTS_QUESTION,
+  ],
+  pricingPrompt: buildPricingPrompt(
+    'wall mounting',
+    ['what items need mounting', 'number and size of the items', 'wall type (drywall, brick, concrete)'],
+    'job size and mounting type',
+  ),
+  copy: {
+    title: 'Wall Mounting Details',
+    serviceName: 'wall mounting service',
+    startLocationPlaceholder: 'Service Location',
+    descriptionPlaceholder: "Describe your task... (e.g. 'I need a 65 inch TV mounted on drywall.')",
+    clarificationError: 'Please select a mounting type.',
+  },
+};
+
+export const FURNITURE_ASSEMBLY_SERVICE: ServiceDefinition = {
+  key: 'furniture-assembly',
+  serviceType: 'furniture-assembly',
+  pricingService: 'furniture-assembly',
+  needsStartLocation: true,
+  needsEndLocation: false,
+  questions: [
+    {
+      id: 'assemblyComplexity',
+      kind: 'choice',
+      title: 'Select Assembly Complexity',
+      message: 'Please select the complexity of your furniture assembly:',
+      summaryLabel: 'Type',
+      pricingInput: 'tier',
+      options: [
+        {
+          value: 'simple',
+          label: 'Simple Assembly',
+          description: 'Basic furniture items like chairs, small tables, or simple shelves',
+          summary: 'Simple assembly',
+        },
+        {
+          value: 'complex',
+          label: 'Complex Assembly',
+          description: 'Large or intricate items like bed frames, wardrobes, entertainment centers, or multiple pieces',
+          summary: 'Complex assembly',
+          detectors: [/\b(wardrobe|armoire|bed\s*frame|bunk\s*bed|entertainment\s*center|sectional)\b/i],
+        },
+      ],
+    },
+    {
+      id: 'pieces',
+      kind: 'text',
+      title: 'Furniture Pieces',
+      message: 'How many pieces need assembling, and how large are they?',
+      summaryLabel: 'Number and size of furniture pieces',
+      pricingInput: 'apartmentSize',
+      placeholder: 'e.g., One queen bed frame and two nightstands...',
+      required: true,
+    },
+    {
+      id: 'tools',
+      kind: 'text',
+      title: 'Assembly Tools',
+      message: 'What tools or equipment should your Helpr bring?',
+      summaryLabel: 'Tools to bring',
+      placeholder: 'e.g., Power drill, hex keys, or none...',
+      required: true,
+      multiline: true,
+    },
+    SPECIAL_REQUESTS_QUESTION,
+  ],
+  pricingPrompt: buildPricingPrompt(
+    'furniture assembly',
+    ['complexity of assembly (simple/moderate/complex)', 'types of furniture items to assemble', 'number and size of furniture pieces'],
+    'job size and assembly complexity',
+  ),
+  copy: {
+    title: 'Furniture Assembly Details',
+    serviceName: 'furniture assembly service',
+    startLocationPlaceholder: 'Assembly Location',
+    descriptionPlaceholder: "Describe your task... (e.g. 'I need an IKEA wardrobe and two nightstands assembled.')",
+    clarificationError: 'Please select an assembly complexity.',
+  },
+};
+
+export const HOME_IMPROVEMENT_SERVICE: ServiceDefinition = {
+  key: 'home-improvement',
+  serviceType: 'home-improvement',
+  pricingService: 'home-improvement',
+  needsStartLocation: true,
+  needsEndLocation: false,
+  questions: [
+    {
+      id: 'projectType',
+      kind: 'choice',
+      title: 'Select Project Type',
+      message: 'Please select the type of project you need help with:',
+      summaryLabel: 'Type',
+      pricingInput: 'tier',
+      options: [
+        {
+          value: 'repair',
+          label: 'Basic Repair',
+          description: 'Small fixes like patching drywall, fixing doors, or replacing fixtures',
+          summary: 'Basic repair',
+        },
+        {
+          value: 'renovation',
+          label: 'Major Renovation',
+          description: 'Larger projects like painting rooms, installing flooring, or remodeling',
+          summary: 'Major renovation',
+          detectors: [/\b(renovat(e|ion|ing)|remodel(ing)?)\b/i],
+        },
+      ],
+    },
+    {
+      id: 'projectScope',
+      kind: 'text',
+      title: 'Project Scope',
+      message: 'Which rooms or areas are involved, and how large is the project?',
+      summaryLabel: 'Scope and complexity of the project',
+      pricingInput: 'apartmentSize',
+      placeholder: 'e.g., Paint two bedrooms, replace a bathroom faucet...',
+      required: true,
+      detectors: SIZE_DETECTORS,
+    },
+    {
+      id: 'materials',
+      kind: 'text',
+      title: 'Project Materials',
+      message: 'What materials or equipment should your Helpr bring?',
+      summaryLabel: 'Materials to bring',
+      placeholder: 'e.g., Paint and rollers, drop cloths, or I have everything...',
+      required: true,
+      multiline: true,
+    },
+    SPECIAL_REQUESTS_QUESTION,
+  ],
+  pricingPrompt: buildPricingPrompt(
+    'home improvement',
+    ['type of home improvement work (repair/installation/renovation)', 'specific areas or rooms requiring work', 'scope and complexity of the project'],
+    'property size and project type',
+  ),
+  copy: {
+    title: 'Home Improvement Details',
+    serviceName: 'home improvement service',
+    startLocationPlaceholder: 'Project Location',
+    descriptionPlaceholder: "Describe your task... (e.g. 'I need my living room walls patched and painted.')",
+    clarificationError: 'Please select a project type.',
+  },
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const summaryPattern = (question: ServiceQuestion, flags = 'i') =>
+  new RegExp(`\\.\\s*${escapeRegExp(question.summaryLabel)}:\\s*([^.]+)`, flags);
+
+// Only the summary sentences; the customer's own wording is left untouched
+export const stripServiceAnswers = (definition: ServiceDefinition, description: string): string =>
+  definition.questions
+    .reduce((text, question) => text.replace(summaryPattern(question, 'gi'), ''), description)
+    .trim();
+
+/**
+ * Reads answers back out of a description previously built by `buildServiceDescription`,
+ * so edits to the description (or an edited booking) keep the answers in sync.
+ */
+export const parseServiceAnswers = (definition: ServiceDefinition, description: string): ServiceAnswers => {
+  const answers: ServiceAnswers = {};
+
+  definition.questions.forEach(question => {
+    const match = description.match(summaryPattern(question));
+    if (!match) return;
+
+    const text = match[1].trim();
+    if (question.kind === 'choice') {
+      const option = question.options.find(candidate => candidate.summary.toLowerCase() === text.toLowerCase());
+      if (option) answers[question.id] = option.value;
+      return;
+    }
+    answers[question.id] = text;
+  });
+
+  return answers;
+};
+
+// Answers the customer already gave in their own words, e.g. "deep clean" picks the deep tier
+export const detectServiceAnswers = (definition: ServiceDefinition, description: string): ServiceAnswers => {
+  const answers: ServiceAnswers = {};
+
+  definition.questions.forEach(question => {
+    if (question.kind !== 'choice') return;
+    const option = question.options.find(candidate => candidate.detectors?.some(pattern => pattern.test(description)));
+    if (option) answers[question.id] = option.value;
+  });
+
+  return answers;
+};
+
+export const isQuestionAnswered = (question: ServiceQuestion, answers: ServiceAnswers, description: string): boolean => {
+  if ((answers[question.id] ?? '').trim().length > 0) return true;
+  if (question.kind === 'text') {
+    // Optional questions are still asked so the customer can attach photos
+    return question.required && Boolean(question.detectors?.some(pattern => pattern.test(description)));
+  }
+  return false;
+};
+
+// Appends one ". Label: value" sentence per answered question, replacing any earlier ones
+export const buildServiceDescription = (
+  definition: ServiceDefinition,
+  description: string,
+  answers: ServiceAnswers,
+): string => {
+  const base = stripServiceAnswers(definition, description);
+
+  const sentences = definition.questions
+    .map(question => {
+      const answer = (answers[question.id] ?? '').trim();
+      if (!answer) return null;
+      const value =
+        question.kind === 'choice'
+          ? question.options.find(option => option.value === answer)?.summary
+          : answer;
+      return value ? `. ${question.summaryLabel}: ${value}` : null;
+    })
+    .filter((sentence): sentence is string => Boolean(sentence));
+
+  return `${base}${sentences.join('')}`;
+};
+
+export const resolveServicePricingInputs = (
+  definition: ServiceDefinition,
+  answers: ServiceAnswers,
+  description: string,
+): Pick<PricingInputs, 'tier' | 'apartmentSize'> => {
+  const answerFor = (input: ServiceQuestion['pricingInput']) => {
+    const question = definition.questions.find(candidate => candidate.pricingInput === input);
+    return question ? (answers[question.id] ?? '').trim() : '';
+  };
+
+  return {
+    tier: answerFor('tier') || null,
+    // Size detected in the customer's own words is parsed from the full description
+    apartmentSize: answerFor('apartmentSize') || description,
+  };
+};
+
+export const SERVICE_DEFINITIONS: ServiceDefinition[] = [
+  MOVING_SERVICE,
+  CLEANING_SERVICE,
+  WALL_MOUNTING_SERVICE,
+  FURNITURE_ASSEMBLY_SERVICE,
+  HOME_IMPROVEMENT_SERVICE,
+];
@@ -0,0 +1,37 @@
+import { supabase } from './supabase';
+
+type WaitlistLocation = {
+  description: string;
+  coordinate: { latitude: number; longitude: number };
+};
+
+export type WaitlistEntry = {
+  email: string;
+  userId?: string | null;
+  serviceType: string;
+  description?: string | null;
+  start?: WaitlistLocation | null;
+  end?: WaitlistLocation | null;
+};
+
+export const isValidWaitlistEmail = (email: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+// Stores an out-of-area request so ops can see where demand is (see `waitlist_demand_clusters`)
+export const joinWaitlist = async (entry: WaitlistEntry): Promise<void> => {
+  const { error } = await supabase.from('waitlist').insert({
+    email: entry.email.trim().toLowerCase(),
+    user_id: entry.userId ?? null,
+    service_type: entry.serviceType,
+    description: entry.description?.trim() || null,
+    start_location: entry.start?.description ?? null,
+    start_latitude: entry.start?.coordinate.latitude ?? null,
+    start_longitude: entry.start?.coordinate.longitude ?? null,
+    end_location: entry.end?.description ?? null,
+    end_latitude: entry.end?.coordinate.latitude ?? null,
+    end_longitude: entry.end?.coordinate.longitude ?? null,
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to join waitlist');
+  }
+};
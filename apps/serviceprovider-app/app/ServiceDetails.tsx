@@ -7,8 +7,31 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import MapView, { Marker, Polyline, PROVIDER_DEFAULT, LatLng } from 'react-native-maps';
 import * as Location from 'expo-location';
 import LottieView from 'lottie-react-native';
+import {
+  buildJobTimeline,
+  diffServiceChangeRequest,
+  fetchDrivingRoute,
+  fetchPendingChangeRequests,
+  fetchService,
+  fetchServiceStatusTimes,
+  formatDurationRange,
+  formatTimeWindow,
+  getNextProgressStatus,
+  LocationData,
+  normalizeServiceStatus,
+  resolveServiceDuration,
+  respondToChangeRequest,
+  SERVICE_STATUS,
+  ServiceChangeDiff,
+  ServiceChangeRequestRow,
+  ServiceRow,
+  ServiceStatusTimes,
+  straightRoute,
+  transitionServiceStatus,
+} from '@helpr/core';
 import { supabase } from '../src/lib/supabase';
 import { useAuth } from '../src/contexts/AuthContext';
+import { useLocationSharing } from '../src/contexts/LocationSharingContext';
 
 const resolveGooglePlacesKey = () => {
   const extras = (Constants?.expoConfig?.extra ?? {}) as Record<string, unknown>;
@@ -22,29 +45,6 @@ const resolveGooglePlacesKey = () => {
   );
 };
 
-type ServiceData = {
-  service_id: string;
-  service_type?: string | null;
-  location?: string | null;
-  start_location?: string | null;
-  end_location?: string | null;
-  scheduled_date_time?: string | null;
-  price?: number | null;
-  status?: string | null;
-  description?: string | null;
-  service_provider_id?: string | null;
-  customer_id?: string | null;
-  provider_rating?: number | null;
-  provider_review?: string | null;
-  customer_rating?: number | null;
-  customer_review?: string | null;
-};
-
-type LocationData = {
-  coordinate: { latitude: number; longitude: number };
-  description: string;
-};
-
 type CustomerRatingRow = {
   id: string;
   service_id: string;
@@ -54,74 +54,27 @@ type CustomerRatingRow = {
   comment: string | null;
 };
 
-const decodePolyline = (encoded: string): LatLng[] => {
-  const poly: LatLng[] = [];
-  let index = 0;
-  const len = encoded.length;
-  let lat = 0;
-  let lng = 0;
-
-  while (index < len) {
-    let b;
-    let shift = 0;
-    let result = 0;
-    do {
-      b = encoded.charCodeAt(index++) - 63;
-      result |= (b & 0x1f) << shift;
-      shift += 5;
-    } while (b >= 0x20);
-    const dlat = (result & 1) !== 0 ? ~(result >> 1) : result >> 1;
-    lat += dlat;
-
-    shift = 0;
-    result = 0;
-    do {
-      b = encoded.charCodeAt(index++) - 63;
-      result |= (b & 0x1f) << shift;
-      shift += 5;
-    } while (b >= 0x20);
-    const dlng = (result & 1) !== 0 ? ~(result >> 1) : result >> 1;
-    lng += dlng;
-
-    poly.push({
-      latitude: lat / 1e5,
-      longitude: lng / 1e5,
-    });
-  }
-
-  return poly;
-};
-
-const ensureRouteEndpoints = (
-  path: LatLng[],
-  start: { latitude: number; longitude: number },
-  end: { latitude: number; longitude: number },
-): LatLng[] => {
-  if (path.length < 2) {
-    return [start, end];
-  }
-  const newPath = [...path];
-  newPath[0] = start;
-  newPath[newPath.length - 1] = end;
-  return newPath;
-};
-
 const LOTTIE_FRAME_RATE = 29.97;
 const STATUS_FRAME_MAP: Record<string, number> = {
-  confirmed: 0,
-  helpr_otw: 20,
-  in_progress: 50,
-  completed: 70,
+  [SERVICE_STATUS.Confirmed]: 0,
+  [SERVICE_STATUS.HelprOtw]: 20,
+  [SERVICE_STATUS.InProgress]: 50,
+  [SERVICE_STATUS.Completed]: 70,
 };
 
+const formatClockTime = (isoDate: string) =>
+  new Date(isoDate).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
 export default function ServiceDetails() {
   const router = useRouter();
   const params = useLocalSearchParams();
   const serviceId = params.serviceId as string;
   const googlePlacesApiKey = useMemo(resolveGooglePlacesKey, []);
   const { user, loading: authLoading } = useAuth();
+  const { startSharing, stopSharing } = useLocationSharing();
 
-  const [service, setService] = useState<ServiceData | null>(null);
+  const [service, setService] = useState<ServiceRow | null>(null);
+  const [statusTimes, setStatusTimes] = useState<ServiceStatusTimes>({});
   const [loading, setLoading] = useState(true);
   const [startLocation, setStartLocation] = useState<LocationData | null>(null);
   const [endLocation, setEndLocation] = useState<LocationData | null>(null);
@@ -139,23 +92,34 @@ export default function ServiceDetails() {
   const [commentError, setCommentError] = useState<string | null>(null);
   const [ratingRecordId, setRatingRecordId] = useState<string | null>(null);
   const [ratingComment, setRatingComment] = useState<string | null>(null);
+  const [changeRequest, setChangeRequest] = useState<ServiceChangeRequestRow | null>(null);
+  const [respondingToChange, setRespondingToChange] = useState(false);
   const mapRef = useRef<MapView | null>(null);
   const animationRef = useRef<LottieView | null>(null);
   const [animationLoaded, setAnimationLoaded] = useState(false);
   const latestRequestRef = useRef(0);
 
+  const jobDuration = useMemo(() => (service ? resolveServiceDuration(service) : null), [service]);
+
+  // Rebuilt on every fetch, so the windows follow the status as it changes
+  const jobTimeline = useMemo(() => {
+    if (!service || !jobDuration) return null;
+    return buildJobTimeline({
+      status: service.status,
+      scheduledDateTime: service.scheduled_date_time,
+      serviceType: service.service_type,
+      duration: jobDuration,
+      statusTimes,
+    });
+  }, [service, jobDuration, statusTimes]);
+
   const fetchServiceData = useCallback(async () => {
     const requestId = Date.now();
     latestRequestRef.current = requestId;
     console.log('🔄 Fetching service data for:', serviceId);
     try {
-      const { data, error } = await supabase
-        .from('service')
-        .select('*')
-        .eq('service_id', serviceId)
-        .single();
-
-      if (error) throw error;
+      const data = await fetchService(supabase, serviceId);
+      const times = await fetchServiceStatusTimes(supabase, serviceId).catch((): ServiceStatusTimes => ({}));
 
       if (latestRequestRef.current !== requestId) {
         return;
@@ -163,6 +127,7 @@ export default function ServiceDetails() {
 
       console.log('✅ Service data fetched. Status:', data.status);
       setService(data);
+      setStatusTimes(times);
       setRating(0);
       setRatingRecordId(null);
       setRatingComment(null);
@@ -204,6 +169,17 @@ export default function ServiceDetails() {
         }
       }
 
+      // The job keeps its current terms until a pending change request is approved
+      const [pendingChange] = await fetchPendingChangeRequests(supabase, [data.service_id]).catch(error => {
+        console.error('Failed to load change requests:', error);
+        return [];
+      });
+
+      if (latestRequestRef.current !== requestId) {
+        return;
+      }
+      setChangeRequest(pendingChange ?? null);
+
       if (data.customer_id) {
         const { data: customerData, error: customerError } = await supabase
           .from('customer')
@@ -275,75 +251,13 @@ export default function ServiceDetails() {
       return;
     }
 
-    if (!googlePlacesApiKey) {
-      console.warn('Google Places API key is not configured. Falling back to straight line.');
-      setRouteCoordinates(
-        ensureRouteEndpoints(
-          [startLocation.coordinate, endLocation.coordinate],
-          startLocation.coordinate,
-          endLocation.coordinate,
-        ),
-      );
-      return;
-    }
-
     let cancelled = false;
 
-    const fetchDirections = async () => {
-      try {
-        const params = new URLSearchParams({
-          origin: `${startLocation.coordinate.latitude},${startLocation.coordinate.longitude}`,
-          destination: `${endLocation.coordinate.latitude},${endLocation.coordinate.longitude}`,
-          key: googlePlacesApiKey,
-          mode: 'driving',
-        });
-
-        const response = await fetch(
-          `https://maps.googleapis.com/maps/api/directions/json?${params.toString()}`,
-        );
-        const data = await response.json();
-
-        if (cancelled) {
-          return;
-        }
-
-        if (data.status === 'OK') {
-          const polyline = data.routes?.[0]?.overview_polyline?.points;
-          if (typeof polyline === 'string' && polyline.length > 0) {
-            const decoded = decodePolyline(polyline);
-            const resolvedPath = ensureRouteEndpoints(
-              decoded.length >= 2 ? decoded : [startLocation.coordinate, endLocation.coordinate],
-              startLocation.coordinate,
-              endLocation.coordinate,
-            );
-            setRouteCoordinates(resolvedPath);
-            return;
-          }
-        }
-
-        console.warn('Google Directions error:', data.status, data.error_message);
-        setRouteCoordinates(
-          ensureRouteEndpoints(
-            [startLocation.coordinate, endLocation.coordinate],
-            startLocation.coordinate,
-            endLocation.coordinate,
-          ),
-        );
-      } catch (error) {
-        if (!cancelled) {
-          console.warn('Failed to fetch directions', error);
-          setRouteCoordinates(
-            ensureRouteEndpoints(
-              [startLocation.coordinate, endLocation.coordinate],
-              startLocation.coordinate,
-              endLocation.coordinate,
-            ),
-          );
-        }
+    fetchDrivingRoute(startLocation.coordinate, endLocation.coordinate, googlePlacesApiKey).then((route) => {
+      if (!cancelled) {
+        setRouteCoordinates(route?.path ?? straightRoute(startLocation.coordinate, endLocation.coordinate));
       }
-    };
-
-    fetchDirections();
+    });
 
     return () => {
       cancelled = true;
@@ -457,20 +371,6 @@ export default function ServiceDetails() {
     }
   };
 
-  const getNextStatus = (currentStatus: string | null | undefined) => {
-    const normalized = (currentStatus ?? '').toLowerCase();
-    switch (normalized) {
-      case 'confirmed':
-        return 'helpr_otw';
-      case 'helpr_otw':
-        return 'in_progress';
-      case 'in_progress':
-        return 'completed';
-      default:
-        return null;
-    }
-  };
-
   const getButtonText = (status: string | null | undefined) => {
     const normalized = (status ?? '').toLowerCase();
     switch (normalized) {
@@ -492,8 +392,11 @@ export default function ServiceDetails() {
     if (normalized === 'confirmed') {
       return 'Let the customer know when you are on the way';
     }
+    if (normalized === 'helpr_otw' && service?.arrived_at) {
+      return `You arrived at ${formatClockTime(service.arrived_at)}. Press the Start Service button when you begin your work.`;
+    }
     if (normalized === 'helpr_otw') {
-      return 'Let the customer know when you are at the service location. Press the Start Service button when you begin your work.';
+      return 'Your location is shared with the customer until you start the service. Press the Start Service button when you begin your work.';
     }
     return null;
   };
@@ -501,47 +404,50 @@ export default function ServiceDetails() {
   const handleUpdateStatus = async () => {
     if (!service) return;
 
-    const nextStatus = getNextStatus(service.status);
-    if (!nextStatus) {
+    const currentStatus = normalizeServiceStatus(service.status);
+    const nextStatus = getNextProgressStatus(currentStatus);
+    if (!currentStatus || !nextStatus) {
       return;
     }
 
     try {
-      // If completing the service, process payment and transfer to provider
-      if (nextStatus === 'completed') {
-        console.log('🔄 Completing service and processing payment...');
-        
+      // Completing captures the customer's card hold and credits the provider's balance
+      if (nextStatus === SERVICE_STATUS.Completed) {
+        console.log('🔄 Completing service and capturing payment...');
+
         const { data: paymentData, error: paymentError } = await supabase.functions.invoke('complete-service', {
-          body: {
-            serviceId: service.service_id,
-            platformFeePercent: 0.15, // 15% platform fee
-            skipCustomerCharge: true, // Skip charging customer for now (pay from platform balance)
-          },
+          body: { serviceId: service.service_id },
         });
 
         if (paymentError || !paymentData?.success) {
           const errorMessage = paymentData?.error || paymentError?.message || 'Failed to process payment';
           console.error('Payment processing error:', errorMessage);
-          
-          // Show error to user but still update status locally
+
           Alert.alert(
             'Payment Processing Error',
-            `The service status was updated, but payment processing failed: ${errorMessage}. Please contact support.`,
+            `We couldn't complete this job: ${errorMessage}. Please try again or contact support.`,
             [{ text: 'OK' }]
           );
         } else {
-          console.log('✅ Payment processed successfully:', paymentData);
+          console.log('✅ Payment captured successfully:', paymentData);
           console.log(`💰 Provider earned: $${paymentData.provider_amount}`);
           console.log(`🏦 New balance: $${paymentData.new_balance}`);
         }
       } else {
         // For other status updates, just update the status
-        const { error } = await supabase
-          .from('service')
-          .update({ status: nextStatus })
-          .eq('service_id', serviceId);
+        await transitionServiceStatus(supabase, {
+          serviceId: service.service_id,
+          from: currentStatus,
+          to: nextStatus,
+          actor: 'provider',
+        });
 
-        if (error) throw error;
+        // The customer sees the helpr approach on their map; the server clears it on arrival
+        if (nextStatus === SERVICE_STATUS.HelprOtw) {
+          startSharing(service.service_id);
+        } else {
+          stopSharing(service.service_id);
+        }
       }
 
       // Refresh service data
@@ -556,6 +462,39 @@ export default function ServiceDetails() {
     }
   };
 
+  const formatChangeValue = (diff: ServiceChangeDiff, value: string | number | null) => {
+    if (value === null || value === '') {
+      return 'Not set';
+    }
+    if (diff.field === 'price') {
+      return `$${Number(value).toFixed(2)}`;
+    }
+    if (diff.field === 'scheduled_date_time') {
+      return new Date(String(value)).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+    }
+    return String(value);
+  };
+
+  const handleRespondToChange = async (approve: boolean) => {
+    if (!changeRequest || respondingToChange) return;
+
+    setRespondingToChange(true);
+    try {
+      const result = await respondToChangeRequest(supabase, {
+        changeRequestId: changeRequest.change_request_id,
+        approve,
+      });
+
+      if (result.status === 'failed') {
+        Alert.alert('Unable to respond', result.message, [{ text: 'OK' }]);
+      }
+
+      await fetchServiceData();
+    } finally {
+      setRespondingToChange(false);
+    }
+  };
+
   const isCheckpointComplete = (checkpoint: string) => {
     const normalized = (service?.status ?? '').toLowerCase();
     switch (checkpoint) {
@@ -1022,6 +961,66 @@ export default function ServiceDetails() {
           </View>
         </View>
 
+        {jobTimeline && jobDuration ? (
+          <View style={styles.timelineCard}>
+            {service?.arrived_at ? (
+              <View style={styles.timelineRow}>
+                <Text style={styles.timelineLabel}>Arrived</Text>
+                <Text style={styles.timelineValue}>{formatClockTime(service.arrived_at)}</Text>
+              </View>
+            ) : jobTimeline.arrival ? (
+              <View style={styles.timelineRow}>
+                <Text style={styles.timelineLabel}>Arrival window</Text>
+                <Text style={styles.timelineValue}>{formatTimeWindow(jobTimeline.arrival)}</Text>
+              </View>
+            ) : null}
+            {service?.started_at ? (
+              <View style={styles.timelineRow}>
+                <Text style={styles.timelineLabel}>Started</Text>
+                <Text style={styles.timelineValue}>{formatClockTime(service.started_at)}</Text>
+              </View>
+            ) : null}
+            <View style={styles.timelineRow}>
+              <Text style={styles.timelineLabel}>Estimated finish</Text>
+              <Text style={styles.timelineValue}>{formatTimeWindow(jobTimeline.finish)}</Text>
+            </View>
+            <Text style={styles.timelineNote}>{`Plan for about ${formatDurationRange(jobDuration)} on site`}</Text>
+          </View>
+        ) : null}
+
+        {/* Pending change request from the customer */}
+        {changeRequest ? (
+          <View style={styles.changeRequestCard}>
+            <Text style={styles.changeRequestTitle}>
+              {`${customerFirstName || 'Your customer'} requested changes`}
+            </Text>
+            <Text style={styles.changeRequestSubtitle}>The current terms stay in place until you approve.</Text>
+            {diffServiceChangeRequest(changeRequest).map(diff => (
+              <View key={diff.field} style={styles.changeRequestRow}>
+                <Text style={styles.changeRequestLabel}>{diff.label}</Text>
+                <Text style={styles.changeRequestPrevious}>{formatChangeValue(diff, diff.from)}</Text>
+                <Text style={styles.changeRequestProposed}>{formatChangeValue(diff, diff.to)}</Text>
+              </View>
+            ))}
+            <View style={styles.changeRequestActions}>
+              <Pressable
+                style={[styles.commentModalButton, styles.commentModalCancel, respondingToChange && styles.commentModalButtonDisabled]}
+                onPress={() => handleRespondToChange(false)}
+                disabled={respondingToChange}
+              >
+                <Text style={styles.commentModalButtonText}>Decline</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.commentModalButton, respondingToChange && styles.commentModalButtonDisabled]}
+                onPress={() => handleRespondToChange(true)}
+                disabled={respondingToChange}
+              >
+                <Text style={styles.commentModalButtonText}>Approve</Text>
+              </Pressable>
+            </View>
+          </View>
+        ) : null}
+
         {/* Update Status Button */}
         <View style={styles.actionButtonContainer}>
           {service?.status?.toLowerCase() === 'completed' ? (
@@ -1405,6 +1404,77 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#0c4309',
   },
+  timelineCard: {
+    marginTop: 24,
+    marginHorizontal: 20,
+    padding: 16,
+    borderRadius: 18,
+    backgroundColor: '#fff8e8',
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  timelineLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#0c4309',
+  },
+  timelineValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0c4309',
+  },
+  timelineNote: {
+    fontSize: 12,
+    color: '#8A8575',
+    marginTop: 4,
+  },
+  changeRequestCard: {
+    marginTop: 24,
+    marginHorizontal: 20,
+    padding: 16,
+    borderRadius: 18,
+    backgroundColor: '#fff8e8',
+    borderWidth: 1,
+    borderColor: '#C0B9A6',
+  },
+  changeRequestTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#0c4309',
+  },
+  changeRequestSubtitle: {
+    fontSize: 12,
+    color: '#0c4309',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  changeRequestRow: {
+    marginBottom: 10,
+  },
+  changeRequestLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#0c4309',
+  },
+  changeRequestPrevious: {
+    fontSize: 13,
+    color: '#8A8575',
+    textDecorationLine: 'line-through',
+  },
+  changeRequestProposed: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0c4309',
+  },
+  changeRequestActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 4,
+  },
   actionButtonContainer: {
     paddingHorizontal: 20,
     paddingTop: 40,
@@ -3,7 +3,9 @@ import * as SecureStore from 'expo-secure-store';
 import { router, Stack, useRootNavigationState, useSegments } from 'expo-router';
 import { useEffect } from 'react';
 import { AuthProvider } from '../src/contexts/AuthContext';
+import { LocationSharingProvider } from '../src/contexts/LocationSharingContext';
 import { ModalProvider } from '../src/contexts/ModalContext';
+import { NotificationsProvider } from '../src/contexts/NotificationsContext';
 import { supabase } from '../src/lib/supabase';
 
 // Key for storing pending signup data during Stripe onboarding
@@ -130,20 +132,25 @@ export default function Layout() {
 
   return (
     <AuthProvider>
-      <ModalProvider>
-        <Stack
-          screenOptions={{
-            headerShown: false,
-          }}
-        >
-        <Stack.Screen name="index" options={{ animation: 'none' }} />
-        <Stack.Screen name="login" options={{ animation: 'fade', animationDuration: 100 }} />
-        <Stack.Screen name="signup" options={{ animation: 'fade', animationDuration: 100 }} />
-        <Stack.Screen name="account" options={{ animation: 'fade', animationDuration: 100 }} />
-        <Stack.Screen name="landing" options={{ animation: 'none' }} />
-        <Stack.Screen name="customer-service-chat" options={{ animation: 'fade', animationDuration: 100 }} />
-        </Stack>
-      </ModalProvider>
+      <NotificationsProvider>
+        <LocationSharingProvider>
+          <ModalProvider>
+            <Stack
+              screenOptions={{
+                headerShown: false,
+              }}
+            >
+            <Stack.Screen name="index" options={{ animation: 'none' }} />
+            <Stack.Screen name="login" options={{ animation: 'fade', animationDuration: 100 }} />
+            <Stack.Screen name="signup" options={{ animation: 'fade', animationDuration: 100 }} />
+            <Stack.Screen name="account" options={{ animation: 'fade', animationDuration: 100 }} />
+            <Stack.Screen name="notifications" options={{ animation: 'fade', animationDuration: 100 }} />
+            <Stack.Screen name="landing" options={{ animation: 'none' }} />
+            <Stack.Screen name="customer-service-chat" options={{ animation: 'fade', animationDuration: 100 }} />
+            </Stack>
+          </ModalProvider>
+        </LocationSharingProvider>
+      </NotificationsProvider>
     </AuthProvider>
   );
 }
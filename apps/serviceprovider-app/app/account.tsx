@@ -6,6 +6,7 @@ import { SvgXml } from 'react-native-svg';
 import { useFocusEffect } from '@react-navigation/native';
 import { supabase } from '../src/lib/supabase';
 import { useModal } from '../src/contexts/ModalContext';
+import { useNotifications } from '../src/contexts/NotificationsContext';
 
 interface ProviderData {
   service_provider_id: string;
@@ -15,6 +16,8 @@ interface ProviderData {
   phone: string | null;
   profile_picture_url: string | null;
   balance?: number | null;
+  // Lifetime tips; already included in balance
+  tips_total?: number | null;
 }
 
 export default function Account() {
@@ -54,6 +57,7 @@ export default function Account() {
   ]);
   const [showAddPayment, setShowAddPayment] = useState(false);
   const { showModal } = useModal();
+  const { unregisterDevice } = useNotifications();
 
   useEffect(() => {
     fetchProviderData();
@@ -425,6 +429,7 @@ export default function Account() {
           style: 'destructive',
           onPress: async () => {
             try {
+              await unregisterDevice();
               await supabase.auth.signOut();
               router.replace('/login');
             } catch (error) {
@@ -816,6 +821,11 @@ export default function Account() {
           ${(providerData?.balance ?? 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
         </Text>
         <Text style={styles.balanceLabel}>Available Balance</Text>
+        {providerData?.tips_total ? (
+          <Text style={styles.tipsLabel}>
+            {`Includes $${Number(providerData.tips_total).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} in tips`}
+          </Text>
+        ) : null}
       </View>
 
       <View style={styles.menuContainer}>
@@ -1574,6 +1584,11 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginTop: 8,
   },
+  tipsLabel: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 12,
+    marginTop: 4,
+  },
   balanceAmount: {
     color: 'white',
     fontSize: 42,
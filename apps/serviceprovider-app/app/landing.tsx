@@ -5,10 +5,40 @@ import { StatusBar } from 'expo-status-bar';
 import { useRouter, useSegments } from 'expo-router';
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import DateTimePicker from '@react-native-community/datetimepicker';
+import * as Location from 'expo-location';
+import {
+  acceptBidOffer,
+  ASSIGNED_SERVICE_STATUSES,
+  AUTOFILL_WINDOW_MINUTES,
+  BidNegotiation,
+  BidOfferRow,
+  calculateProviderPayout,
+  CANCELLATION_REASONS,
+  cancelService,
+  counterBidOffer,
+  DEFAULT_FEE_SCHEDULE,
+  describeBidOfferError,
+  describeCancellationQuote,
+  FeeSchedule,
+  fetchBidOffers,
+  fetchFeeSchedule,
+  FILL_REQUEST_STATUS,
+  isAutoFillService,
+  normalizeServiceStatus,
+  OPEN_SERVICE_STATUSES,
+  requestAutoFillMatch,
+  SERVICE_STATUS,
+  resolveFeeRates,
+  ServiceRow,
+  summarizeBidNegotiation,
+  transitionServiceStatus,
+  withdrawFillRequest,
+} from '@helpr/core';
 import { supabase } from '../src/lib/supabase';
 import { ensureServiceProviderProfile } from '../src/lib/providerProfile';
 import { useAuth } from '../src/contexts/AuthContext';
 import { useModal } from '../src/contexts/ModalContext';
+import { useNotifications } from '../src/contexts/NotificationsContext';
 // @ts-ignore - Only for native platforms
 import LottieView from 'lottie-react-native';
 
@@ -31,24 +61,21 @@ const sanitizeCurrencyValue = (value: string | number | null | undefined): strin
   return numeric.toFixed(2);
 };
 
-type ServiceRow = {
-  service_id: string;
-  customer_id?: string;
-  service_type?: string | null;
-  status?: string | null;
-  scheduling_type?: string | null;
-  scheduled_date_time?: string | null;
-  date_of_creation?: string | null;
-  start_location?: string | null;
-  end_location?: string | null;
-  location?: string | null;
-  price?: number | null;
-  start_datetime?: string | null;
-  end_datetime?: string | null;
-  payment_method_type?: string | null;
-  autofill_type?: string | null;
-  description?: string | null;
-  service_provider_id?: string | null;
+// Where the helpr is bidding from, for AutoFill distance scoring; skipped without permission
+const getBidLocation = async (): Promise<{ bid_latitude: number; bid_longitude: number } | null> => {
+  try {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      return null;
+    }
+
+    const position = (await Location.getLastKnownPositionAsync())
+      ?? (await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }));
+    return { bid_latitude: position.coords.latitude, bid_longitude: position.coords.longitude };
+  } catch (error) {
+    console.warn('Failed to read location for bid:', error);
+    return null;
+  }
 };
 
 type ServiceRequestRow = {
@@ -84,6 +111,7 @@ export default function Landing() {
   const [canRenderLottie, setCanRenderLottie] = useState(Platform.OS !== 'web');
   const { user, loading: authLoading } = useAuth();
   const { showModal } = useModal();
+  const { unreadCount } = useNotifications();
   const [servicesLoading, setServicesLoading] = useState(true);
   const [services, setServices] = useState<ServiceRow[]>([]);
   const [servicesError, setServicesError] = useState<string | null>(null);
@@ -91,9 +119,11 @@ export default function Landing() {
   const [providerId, setProviderId] = useState<string | null>(null);
   const [serviceRequests, setServiceRequests] = useState<Record<string, ServiceRequestRow>>({});
   const [customBids, setCustomBids] = useState<Record<string, string>>({});
+  const [bidNegotiations, setBidNegotiations] = useState<Record<string, BidNegotiation>>({});
   const [adjustModalVisible, setAdjustModalVisible] = useState(false);
   const [modalService, setModalService] = useState<ServiceRow | null>(null);
   const [bidInput, setBidInput] = useState('');
+  const [feeSchedule, setFeeSchedule] = useState<FeeSchedule>(DEFAULT_FEE_SCHEDULE);
   const [descriptionModalVisible, setDescriptionModalVisible] = useState(false);
   const [descriptionModalService, setDescriptionModalService] = useState<ServiceRow | null>(null);
   const [suggestTimeModalVisible, setSuggestTimeModalVisible] = useState(false);
@@ -137,6 +167,7 @@ export default function Landing() {
     setServices([]);
     setServiceRequests({});
     setCustomBids({});
+    setBidNegotiations({});
     setSelectedService(null);
     setCustomerData({});
   }, []);
@@ -197,17 +228,10 @@ export default function Landing() {
       const providerIdentifier = authUser.id;
       setProviderId(providerIdentifier);
 
-      const statusesToQuery = [
-        'finding_pros', 'pending', 'scheduled', 'confirmed', 
-        'helpr_otw', 'in_progress', 'select_service_provider',
-        'Finding_Pros', 'Pending', 'Scheduled', 'Confirmed',
-        'Helpr_Otw', 'In_Progress', 'Select_Service_Provider'
-      ];
-
       const { data: serviceData, error: serviceError } = await supabase
         .from('service')
         .select('*')
-        .in('status', statusesToQuery)
+        .in('status', OPEN_SERVICE_STATUSES)
         .order('date_of_creation', { ascending: true });
 
       if (serviceError) {
@@ -217,8 +241,8 @@ export default function Landing() {
       const visibleServices = (serviceData ?? [])
         .filter((service): service is ServiceRow => Boolean(service?.service_id))
         .filter(service => {
-          const status = (service.status ?? '').toString().toLowerCase();
-          return status === 'finding_pros' || status === 'pending' || status === 'scheduled' || status === 'confirmed' || status === 'helpr_otw' || status === 'in_progress' || status === 'select_service_provider';
+          const status = normalizeServiceStatus(service.status);
+          return status !== null && OPEN_SERVICE_STATUSES.includes(status);
         });
 
       if (visibleServices.length === 0) {
@@ -230,8 +254,8 @@ export default function Landing() {
 
       // Fetch customer data for confirmed services
       const confirmedServices = visibleServices.filter(service => {
-        const status = (service.status ?? '').toLowerCase();
-        return (status === 'confirmed' || status === 'helpr_otw' || status === 'in_progress') && service.customer_id;
+        const status = normalizeServiceStatus(service.status);
+        return status !== null && ASSIGNED_SERVICE_STATUSES.includes(status) && service.customer_id;
       });
 
       if (confirmedServices.length > 0) {
@@ -273,6 +297,7 @@ export default function Landing() {
         .from('service_fill_request')
         .select('*')
         .eq('service_provider_id', providerIdentifier)
+        .eq('status', FILL_REQUEST_STATUS.Pending)
         .in('service_id', serviceIds);
 
       if (requestError) {
@@ -282,6 +307,16 @@ export default function Landing() {
       const nextRequests: Record<string, ServiceRequestRow> = {};
       const nextBids: Record<string, string> = {};
 
+      const nextNegotiations: Record<string, BidNegotiation> = {};
+
+      const requestedServiceIds = (requestData ?? [])
+        .map(row => (row as ServiceRequestRow)?.service_id)
+        .filter((id): id is string => Boolean(id));
+      const offers = await fetchBidOffers(supabase, requestedServiceIds, providerIdentifier).catch(offerError => {
+        console.error('Failed to load bid offers:', offerError);
+        return [] as BidOfferRow[];
+      });
+
       requestData?.forEach(row => {
         if (!row?.service_id) {
           return;
@@ -290,13 +325,22 @@ export default function Landing() {
         const typedRow = row as ServiceRequestRow;
         nextRequests[typedRow.service_id] = typedRow;
 
-        const sanitizedBid = sanitizeCurrencyValue(typedRow.bid);
+        const negotiation = summarizeBidNegotiation(
+          offers.filter(offer => offer.service_id === typedRow.service_id),
+          Number(typedRow.bid),
+        );
+        nextNegotiations[typedRow.service_id] = negotiation;
+
+        // Show the helpr's latest price, not the opening bid
+        const latestOwnOffer = negotiation.history.filter(offer => offer.offered_by === 'provider').pop();
+        const sanitizedBid = sanitizeCurrencyValue(negotiation.bookablePrice ?? latestOwnOffer?.amount ?? typedRow.bid);
         if (sanitizedBid) {
           nextBids[typedRow.service_id] = sanitizedBid;
         }
       });
 
       setServiceRequests(nextRequests);
+      setBidNegotiations(nextNegotiations);
 
       setCustomBids(prev => {
         const updated: Record<string, string> = {};
@@ -404,6 +448,27 @@ export default function Landing() {
     return '$0';
   }, []);
 
+  useEffect(() => {
+    let cancelled = false;
+    fetchFeeSchedule(supabase)
+      .then(schedule => {
+        if (!cancelled) setFeeSchedule(schedule);
+      })
+      .catch(error => console.error('Failed to load fee schedule:', error));
+    return () => { cancelled = true; };
+  }, []);
+
+  // What the helpr keeps from the bid being typed, under the fee schedule in force
+  const bidPayoutText = useMemo(() => {
+    const amount = Number(sanitizeCurrencyValue(bidInput));
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return null;
+    }
+    const rates = resolveFeeRates(feeSchedule, { serviceType: modalService?.service_type });
+    const { payout } = calculateProviderPayout(amount, rates);
+    return `You'll receive ${formatPrice(payout)} after the ${Math.round(rates.providerCommissionRate * 100)}% Helpr fee`;
+  }, [bidInput, feeSchedule, modalService?.service_type, formatPrice]);
+
   const formatScheduledDateTime = useCallback((isoDate?: string | null) => {
     if (!isoDate) {
       return 'Scheduled';
@@ -551,6 +616,7 @@ export default function Landing() {
           service_id: service.service_id,
           bid: numericBid,
           proposed_date_time: proposedDateTime,
+          ...(isAutoFillService(service) ? await getBidLocation() : null),
         })
         .select()
         .single();
@@ -570,106 +636,6 @@ export default function Landing() {
         proposed_date_time: proposedDateTime ?? newRow.proposed_date_time ?? null,
       };
 
-      const isAutoFill = (service.autofill_type ?? '').toString().toLowerCase() === 'autofill';
-
-      if (isAutoFill) {
-        try {
-          const { data: assignmentRows, error: assignError } = await supabase
-            .from('service')
-            .update({
-              service_provider_id: providerId,
-              status: 'confirmed',
-              price: numericBid,
-              scheduling_type: 'scheduled',
-              scheduled_date_time: proposedDateTime ?? service.scheduled_date_time ?? null,
-            })
-            .eq('service_id', service.service_id)
-            .in('status', ['finding_pros', 'select_service_provider'])
-            .is('service_provider_id', null)
-            .select('service_id');
-
-          if (assignError) {
-            throw assignError;
-          }
-
-          if (assignmentRows && assignmentRows.length > 0) {
-            await supabase
-              .from('service_fill_request')
-              .delete()
-              .eq('service_id', service.service_id);
-
-            setServiceRequests(prev => {
-              const next = { ...prev };
-              delete next[service.service_id];
-              return next;
-            });
-
-            setCustomBids(prev => {
-              const next = { ...prev };
-              delete next[service.service_id];
-              return next;
-            });
-
-            setServices(prev => prev.map(existing =>
-              existing.service_id === service.service_id
-                ? {
-                    ...existing,
-                    status: 'confirmed',
-                    service_provider_id: providerId,
-                    price: numericBid,
-                    scheduling_type: 'scheduled',
-                    scheduled_date_time: proposedDateTime ?? existing.scheduled_date_time ?? null,
-                  }
-                : existing,
-            ));
-
-            setSelectedService(prev => (prev && prev.service_id === service.service_id
-              ? {
-                  ...prev,
-                  status: 'confirmed',
-                  service_provider_id: providerId,
-                  price: numericBid,
-                  scheduling_type: 'scheduled',
-                  scheduled_date_time: proposedDateTime ?? prev.scheduled_date_time ?? null,
-                }
-              : prev));
-
-            await fetchServices();
-
-            showModal({
-              title: 'Job confirmed',
-              message: 'Head to Service Details for next steps.',
-            });
-            return true;
-          }
-
-          await supabase
-            .from('service_fill_request')
-            .delete()
-            .eq('service_id', service.service_id)
-            .eq('service_provider_id', providerId);
-
-          showModal({
-            title: 'Job filled',
-            message: 'Another Helpr was just assigned to this AutoFill job.',
-          });
-          return false;
-        } catch (assignError) {
-          console.error('AutoFill assignment failed:', assignError);
-          await supabase
-            .from('service_fill_request')
-            .delete()
-            .eq('service_id', service.service_id)
-            .eq('service_provider_id', providerId);
-
-          showModal({
-            title: 'AutoFill unavailable',
-            message: 'We were unable to claim this job automatically. Please try again.',
-          });
-          return false;
-        }
-      }
-
       setServiceRequests(prev => ({
         ...prev,
         [service.service_id]: combinedRow,
@@ -680,21 +646,18 @@ export default function Landing() {
         [service.service_id]: bidValue ?? numericBid.toFixed(2),
       }));
 
-      const currentStatus = (service.status ?? '').toLowerCase();
-      if (currentStatus === 'finding_pros') {
+      if (normalizeServiceStatus(service.status) === SERVICE_STATUS.FindingPros) {
         try {
-          const { data: updatedRows, error: statusUpdateError } = await supabase
-            .from('service')
-            .update({ status: 'select_service_provider' })
-            .eq('service_id', service.service_id)
-            .eq('status', 'finding_pros')
-            .select('service_id');
-
-          if (statusUpdateError) {
-            console.error('Failed to update service status to select_service_provider:', statusUpdateError);
-          } else if (updatedRows && updatedRows.length > 0) {
+          const updated = await transitionServiceStatus(supabase, {
+            serviceId: service.service_id,
+            from: SERVICE_STATUS.FindingPros,
+            to: SERVICE_STATUS.SelectServiceProvider,
+            actor: 'provider',
+          });
+
+          if (updated) {
             setServices(prev => prev.map(existing => existing.service_id === service.service_id
-              ? { ...existing, status: 'select_service_provider' }
+              ? { ...existing, status: SERVICE_STATUS.SelectServiceProvider }
               : existing,
             ));
           }
@@ -703,6 +666,32 @@ export default function Landing() {
         }
       }
 
+      // AutoFill jobs are booked by the server once bidding closes; this bid may have closed it
+      if (isAutoFillService(service)) {
+        const match = await requestAutoFillMatch(supabase, service.service_id);
+
+        if (match.status === 'assigned' || match.status === 'unmatched') {
+          await fetchServices();
+        }
+
+        if (match.status === 'assigned' && match.serviceProviderId === providerId) {
+          showModal({
+            title: 'Job confirmed',
+            message: 'You were the best match for this AutoFill job. Head to Service Details for next steps.',
+          });
+        } else if (match.status === 'assigned') {
+          showModal({
+            title: 'Job filled',
+            message: 'Another Helpr was a better match for this AutoFill job.',
+          });
+        } else if (match.status === 'collecting') {
+          showModal({
+            title: 'Bid placed',
+            message: `AutoFill books the best match within ${AUTOFILL_WINDOW_MINUTES} minutes. Check Bid History in Past Services for the outcome.`,
+          });
+        }
+      }
+
       return true;
     },
     [providerId, showModal, getEffectiveBidForService, supabase, setServiceRequests, setCustomBids, setServices, setSelectedService, fetchServices],
@@ -717,65 +706,62 @@ export default function Landing() {
       return;
     }
 
-    const normalizedStatus = (service.status ?? '').toLowerCase();
-    const isConfirmed = normalizedStatus === 'confirmed';
+    const currentStatus = normalizeServiceStatus(service.status);
+    const isDroppable = currentStatus === SERVICE_STATUS.Confirmed || currentStatus === SERVICE_STATUS.HelprOtw;
     const existingRequest = serviceRequests[service.service_id];
 
-    // Handle canceling a confirmed job
-    if (isConfirmed && service.service_provider_id === providerId) {
+    // Dropping an assigned job releases the customer's hold and costs reliability points
+    if (isDroppable && service.service_provider_id === providerId) {
+      const preview = await cancelService(supabase, { serviceId: service.service_id, preview: true });
+      if (preview.status !== 'quote') {
+        showModal({
+          title: 'Unable to cancel',
+          message: preview.status === 'failed' ? preview.message : 'Please try again in a moment.',
+        });
+        return;
+      }
+
+      const dropJob = async (reason: string) => {
+        const result = await cancelService(supabase, {
+          serviceId: service.service_id,
+          reason,
+          expectedFee: preview.quote.fee,
+        });
+
+        if (result.status !== 'cancelled') {
+          showModal({
+            title: 'Unable to cancel',
+            message: result.status === 'failed' ? result.message : 'Please try again in a moment.',
+          });
+          return;
+        }
+
+        setServiceRequests(prev => {
+          const next = { ...prev };
+          delete next[service.service_id];
+          return next;
+        });
+
+        await fetchServices();
+        showModal({
+          title: 'Job Cancelled',
+          message: 'You have been removed from this job.',
+        });
+      };
+
+      // Each reason doubles as the confirm button
       showModal({
         title: 'Cancel Confirmed Job',
-        message: 'Are you sure you want to cancel this confirmed job? The customer will be notified.',
+        message: `${describeCancellationQuote(preview.quote)}\n\nWhy are you cancelling?`,
         allowBackdropDismiss: false,
         buttons: [
-          { text: 'No', style: 'cancel' },
-          {
-            text: 'Yes, Cancel',
-            style: 'destructive',
-            onPress: async () => {
-              try {
-                const { error: deleteRequestError } = await supabase
-                  .from('service_fill_request')
-                  .delete()
-                  .eq('service_provider_id', providerId)
-                  .eq('service_id', service.service_id);
-
-                if (deleteRequestError) {
-                  console.error('Failed to delete service fill request:', deleteRequestError);
-                }
-
-                const { error: updateError } = await supabase
-                  .from('service')
-                  .update({
-                    service_provider_id: null,
-                    status: 'finding_pros',
-                  })
-                  .eq('service_id', service.service_id);
-
-                if (updateError) {
-                  throw updateError;
-                }
-
-                setServiceRequests(prev => {
-                  const next = { ...prev };
-                  delete next[service.service_id];
-                  return next;
-                });
-
-                await fetchServices();
-                showModal({
-                  title: 'Job Cancelled',
-                  message: 'You have been removed from this job.',
-                });
-              } catch (error) {
-                console.error('Failed to cancel confirmed job:', error);
-                showModal({
-                  title: 'Unable to cancel',
-                  message: 'Please try again in a moment.',
-                });
-              }
-            },
-          },
+          ...CANCELLATION_REASONS.provider.map(reason => ({
+            text: reason,
+            style: 'destructive' as const,
+            fullWidth: true,
+            onPress: () => dropJob(reason),
+          })),
+          { text: 'Keep Job', style: 'cancel', fullWidth: true },
         ],
       });
       return;
@@ -783,14 +769,10 @@ export default function Landing() {
 
     // Handle canceling a service fill request
     if (existingRequest) {
-      const { error: deleteError } = await supabase
-        .from('service_fill_request')
-        .delete()
-        .eq('service_provider_id', providerId)
-        .eq('service_id', service.service_id);
-
-      if (deleteError) {
-        console.error('Failed to cancel service request:', deleteError);
+      try {
+        await withdrawFillRequest(supabase, service.service_id, providerId);
+      } catch (withdrawError) {
+        console.error('Failed to cancel service request:', withdrawError);
         showModal({
           title: 'Unable to cancel request',
           message: 'Please try again in a moment.',
@@ -849,7 +831,7 @@ export default function Landing() {
     setModalService(null);
   }, []);
 
-  const handleAdjustBidSave = useCallback(() => {
+  const handleAdjustBidSave = useCallback(async () => {
     if (!modalService) {
       return;
     }
@@ -863,6 +845,24 @@ export default function Landing() {
       return;
     }
 
+    // Once requested, a new price is a counter-offer the customer sees in the thread
+    if (serviceRequests[modalService.service_id] && providerId) {
+      try {
+        await counterBidOffer(supabase, {
+          serviceId: modalService.service_id,
+          serviceProviderId: providerId,
+          amount: Number(sanitizedBid),
+        });
+      } catch (error) {
+        console.error('Failed to send counter-offer:', error);
+        showModal({
+          title: 'Unable to update bid',
+          message: describeBidOfferError(error as { message?: string }) ?? 'Please try again in a moment.',
+        });
+        return;
+      }
+    }
+
     setCustomBids(prev => ({
       ...prev,
       [modalService.service_id]: sanitizedBid,
@@ -884,7 +884,29 @@ export default function Landing() {
 
     setAdjustModalVisible(false);
     setModalService(null);
-  }, [bidInput, modalService, sanitizeBidValue, showModal]);
+    fetchServices();
+  }, [bidInput, fetchServices, modalService, providerId, sanitizeBidValue, serviceRequests, showModal]);
+
+  const handleAcceptCounterOffer = useCallback(
+    async (offer: BidOfferRow) => {
+      try {
+        await acceptBidOffer(supabase, offer.offer_id);
+        await fetchServices();
+        showModal({
+          title: 'Offer accepted',
+          message: `The customer can now book you at ${formatPrice(Number(offer.amount))}.`,
+        });
+      } catch (error) {
+        console.error('Failed to accept counter-offer:', error);
+        showModal({
+          title: 'Unable to accept offer',
+          message: describeBidOfferError(error as { message?: string }) ?? 'Please try again in a moment.',
+        });
+        fetchServices();
+      }
+    },
+    [fetchServices, formatPrice, showModal],
+  );
 
   const openDescriptionModal = useCallback((service: ServiceRow) => {
     setDescriptionModalService(service);
@@ -976,10 +998,11 @@ export default function Landing() {
     const effectiveBid = getEffectiveBidForService(service);
     const bidDisplay = effectiveBid ? formatPrice(Number(effectiveBid)) : basePriceLabel;
     const isRequested = Boolean(serviceRequests[service.service_id]);
+    const pendingCounter = isRequested ? bidNegotiations[service.service_id]?.pendingCounter ?? null : null;
     const normalizedStatus = (service.status ?? '').toLowerCase();
     const isConfirmed = normalizedStatus === 'confirmed' || normalizedStatus === 'helpr_otw' || normalizedStatus === 'in_progress';
     const statusLabel = normalizedStatus === 'helpr_otw' ? 'On the Way' : normalizedStatus === 'in_progress' ? 'In Progress' : 'Confirmed';
-    const isAutoFill = (service.autofill_type ?? '').toString().toLowerCase() === 'autofill';
+    const isAutoFill = isAutoFillService(service);
     
     // Check if scheduled job is within 24 hours
     const isWithin24Hours = schedulingType !== 'asap' && service.scheduled_date_time && !isConfirmed && (() => {
@@ -1058,6 +1081,14 @@ export default function Landing() {
               >
                 <Text style={styles.showDetailsButtonText}>Details</Text>
               </Pressable>
+              {normalizedStatus !== 'in_progress' ? (
+                <Pressable
+                  style={[styles.requestActionButton, styles.requestActionButtonCancel, styles.confirmedCancelButton]}
+                  onPress={() => handleToggleServiceRequest(service)}
+                >
+                  <Text style={styles.requestActionButtonText}>Cancel Job</Text>
+                </Pressable>
+              ) : null}
             </View>
           ) : (
             <View style={styles.priceColumn}>
@@ -1067,6 +1098,14 @@ export default function Landing() {
                 </Text>
                 {!isAutoFill ? <Text style={styles.priceEstimate}>bid</Text> : null}
               </View>
+              {pendingCounter ? (
+                <View style={styles.counterOfferRow}>
+                  <Text style={styles.counterOfferText}>Offered {formatPrice(Number(pendingCounter.amount))}</Text>
+                  <Pressable style={styles.counterOfferAcceptButton} onPress={() => handleAcceptCounterOffer(pendingCounter)}>
+                    <Text style={styles.counterOfferAcceptText}>Accept</Text>
+                  </Pressable>
+                </View>
+              ) : null}
               <Pressable
                 style={[
                   styles.requestActionButton,
@@ -1084,7 +1123,7 @@ export default function Landing() {
                   style={styles.adjustBidSecondaryButton}
                   onPress={() => openAdjustBidModal(service)}
                 >
-                  <Text style={styles.adjustBidSecondaryButtonText}>Adjust Bid</Text>
+                  <Text style={styles.adjustBidSecondaryButtonText}>{pendingCounter ? 'Counter' : 'Adjust Bid'}</Text>
                 </Pressable>
               ) : null}
             </View>
@@ -1343,7 +1382,9 @@ export default function Landing() {
       >
         <View style={styles.bidModalOverlay}>
           <View style={styles.bidModalContent}>
-            <Text style={styles.bidModalTitle}>Adjust Bid</Text>
+            <Text style={styles.bidModalTitle}>
+              {modalService && bidNegotiations[modalService.service_id]?.pendingCounter ? 'Counter Offer' : 'Adjust Bid'}
+            </Text>
             <Text style={styles.bidModalSubtitle}>
               Original price:{' '}
               {modalService && typeof modalService.price === 'number'
@@ -1360,6 +1401,7 @@ export default function Landing() {
                 placeholderTextColor="#7a735f"
               />
             </View>
+            {bidPayoutText ? <Text style={styles.bidModalSubtitle}>{bidPayoutText}</Text> : null}
             <View style={styles.bidModalButtonRow}>
               <Pressable style={styles.bidModalCancelButton} onPress={handleAdjustBidCancel}>
                 <Text style={styles.bidModalCancelText}>Cancel</Text>
@@ -1420,6 +1462,12 @@ export default function Landing() {
           style={styles.menuTogglePressable}
         />
 
+        {unreadCount > 0 && (
+          <View style={styles.menuBadge} pointerEvents="none">
+            <Text style={styles.badgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+          </View>
+        )}
+
         <View style={[styles.helpButton, { pointerEvents: 'none', backgroundColor: 'transparent' }]}>
           {Platform.OS === 'web' || !canRenderLottie ? (
             <SvgXml xml={helpIconSvg} width="20" height="20" />
@@ -1452,6 +1500,23 @@ export default function Landing() {
           />
           <View style={styles.menuOverlay}>
             <View style={styles.menuContainer}>
+              {/* Not part of the menu animation, so its label is drawn here */}
+              <Pressable
+                style={[styles.menuItem, styles.notificationsItem]}
+                onPress={() => {
+                  setIsMenuOpen(false);
+                  navigate('notifications');
+                }}
+              >
+                <View style={styles.menuItemRow}>
+                  <Text style={styles.notificationsItemText}>Notifications</Text>
+                  {unreadCount > 0 && (
+                    <View style={styles.itemBadge}>
+                      <Text style={styles.badgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+                    </View>
+                  )}
+                </View>
+              </Pressable>
               <Pressable 
                 style={styles.menuItem} 
                 onPress={() => {
@@ -1806,6 +1871,7 @@ const styles = StyleSheet.create({
     marginBottom: 0,
   },
   confirmedCancelButton: {
+    marginTop: 8,
     marginBottom: 0,
   },
   requestActionButtonRequest: {
@@ -1833,6 +1899,27 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#0c4309',
   },
+  counterOfferRow: {
+    alignItems: 'flex-end',
+    marginBottom: 6,
+  },
+  counterOfferText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0c4309',
+    marginBottom: 4,
+  },
+  counterOfferAcceptButton: {
+    backgroundColor: '#0c4309',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  counterOfferAcceptText: {
+    color: '#FFF8E8',
+    fontSize: 13,
+    fontWeight: '700',
+  },
   suggestTimeBottomBanner: {
     backgroundColor: '#0c4309',
     paddingTop: 25,
@@ -2269,6 +2356,46 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     flex: 1,
   },
+  notificationsItem: {
+    backgroundColor: '#FFF8E8',
+    borderWidth: 1,
+    borderColor: '#0c4309',
+  },
+  notificationsItemText: {
+    color: '#0c4309',
+    fontSize: 16,
+    fontWeight: '600',
+    flex: 1,
+  },
+  // Sits on the top right of the menu button
+  menuBadge: {
+    position: 'absolute',
+    left: 85,
+    bottom: 85,
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    backgroundColor: '#C0392B',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 999,
+  },
+  itemBadge: {
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    marginLeft: 8,
+    backgroundColor: '#C0392B',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  badgeText: {
+    color: '#FFF8E8',
+    fontSize: 12,
+    fontWeight: '700',
+  },
   confirmedBidValue: {
     fontSize: 18,
     fontWeight: '700',
@@ -3,24 +3,27 @@ import { StatusBar } from 'expo-status-bar';
 import { useRouter } from 'expo-router';
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useFocusEffect } from '@react-navigation/native';
+import {
+  describeFillRequestOutcome,
+  fetchCompletedServices,
+  fetchProviderBids,
+  fetchProviderTips,
+  FILL_REQUEST_STATUS,
+  FILL_REQUEST_STATUS_LABELS,
+  FillRequestStatus,
+  ServiceFillRequestRow,
+  ServiceRow,
+} from '@helpr/core';
 import { supabase } from '../src/lib/supabase';
 import { useAuth } from '../src/contexts/AuthContext';
 
-type ServiceRow = {
-  service_id: string;
-  customer_id?: string;
-  service_type?: string | null;
-  status?: string | null;
-  scheduling_type?: string | null;
-  scheduled_date_time?: string | null;
-  date_of_creation?: string | null;
-  start_location?: string | null;
-  end_location?: string | null;
-  location?: string | null;
-  price?: number | null;
-  description?: string | null;
-  service_provider_id?: string | null;
-};
+// Bids that have been decided, in filter order
+const BID_HISTORY_STATUSES: FillRequestStatus[] = [
+  FILL_REQUEST_STATUS.Accepted,
+  FILL_REQUEST_STATUS.Declined,
+  FILL_REQUEST_STATUS.Withdrawn,
+  FILL_REQUEST_STATUS.Expired,
+];
 
 export default function PastServices() {
   const router = useRouter();
@@ -29,6 +32,10 @@ export default function PastServices() {
   const [services, setServices] = useState<ServiceRow[]>([]);
   const [servicesError, setServicesError] = useState<string | null>(null);
   const [selectedService, setSelectedService] = useState<ServiceRow | null>(null);
+  const [bids, setBids] = useState<ServiceFillRequestRow[]>([]);
+  const [tips, setTips] = useState<Record<string, number>>({});
+  const [showBidHistory, setShowBidHistory] = useState(false);
+  const [bidFilter, setBidFilter] = useState<FillRequestStatus | null>(null);
   const initialLoadRef = useRef(true);
 
   const fetchServices = useCallback(async () => {
@@ -38,6 +45,8 @@ export default function PastServices() {
 
     if (!user || !user.email) {
       setServices([]);
+      setBids([]);
+      setTips({});
       setSelectedService(null);
       setServicesLoading(false);
       initialLoadRef.current = false;
@@ -63,21 +72,15 @@ export default function PastServices() {
       const providerId = authUser.user.id;
 
       // Query only completed services for this provider
-      const { data: serviceData, error: serviceError } = await supabase
-        .from('service')
-        .select('*')
-        .eq('service_provider_id', providerId)
-        .eq('status', 'completed')
-        .order('date_of_creation', { ascending: false });
-
-      if (serviceError) {
-        throw serviceError;
-      }
-
-      const visibleServices = (serviceData ?? [])
-        .filter((service): service is ServiceRow => Boolean(service?.service_id));
+      const [visibleServices, decidedBids, tipsByService] = await Promise.all([
+        fetchCompletedServices(supabase, { serviceProviderId: providerId }),
+        fetchProviderBids(supabase, providerId, BID_HISTORY_STATUSES),
+        fetchProviderTips(supabase, providerId),
+      ]);
 
       setServices(visibleServices);
+      setBids(decidedBids);
+      setTips(tipsByService);
 
       if (visibleServices.length > 0 && !selectedService) {
         setSelectedService(visibleServices[0]);
@@ -179,6 +182,7 @@ export default function PastServices() {
     const shortLocation = getShortLocation(service);
     const priceLabel = formatPrice(service.price);
     const dateLabel = formatDate(service.date_of_creation);
+    const tipAmount = tips[service.service_id];
 
     return (
       <Pressable
@@ -216,6 +220,9 @@ export default function PastServices() {
             <View style={styles.priceRow}>
               <Text style={styles.priceValue}>{priceLabel}</Text>
             </View>
+            {tipAmount ? (
+              <Text style={styles.tipText}>{`+ $${tipAmount.toFixed(2)} tip`}</Text>
+            ) : null}
             <Pressable
               style={styles.showDetailsButton}
               onPress={() => router.push({
@@ -231,6 +238,69 @@ export default function PastServices() {
     );
   };
 
+  const filteredBids = useMemo(
+    () => (bidFilter ? bids.filter(bid => bid.status === bidFilter) : bids),
+    [bids, bidFilter],
+  );
+
+  const renderBidCard = (bid: ServiceFillRequestRow) => (
+    <View key={bid.fill_request_id} style={styles.serviceCard}>
+      <View style={styles.cardContentRow}>
+        <View style={styles.cardInfoColumn}>
+          <View
+            style={[
+              styles.completedPill,
+              bid.status === FILL_REQUEST_STATUS.Accepted ? null : styles.bidStatusPillMuted,
+            ]}
+          >
+            <Text style={styles.completedPillText}>{FILL_REQUEST_STATUS_LABELS[bid.status]}</Text>
+          </View>
+          <Text style={styles.bidOutcomeText}>{describeFillRequestOutcome(bid)}</Text>
+          <Text style={styles.dateText}>{formatDate(bid.resolved_at ?? bid.created_at)}</Text>
+        </View>
+        <View style={styles.priceColumn}>
+          <Text style={styles.priceValue}>{formatPrice(Number(bid.bid))}</Text>
+        </View>
+      </View>
+    </View>
+  );
+
+  const renderBidHistory = () => (
+    <>
+      <ScrollView
+        horizontal
+        style={styles.filterRow}
+        contentContainerStyle={styles.filterRowContent}
+        showsHorizontalScrollIndicator={false}
+      >
+        {[null, ...BID_HISTORY_STATUSES].map(status => (
+          <Pressable
+            key={status ?? 'all'}
+            style={[styles.filterChip, bidFilter === status ? styles.filterChipActive : null]}
+            onPress={() => setBidFilter(status)}
+          >
+            <Text style={[styles.filterChipText, bidFilter === status ? styles.filterChipTextActive : null]}>
+              {status ? FILL_REQUEST_STATUS_LABELS[status] : 'All'}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+      {filteredBids.length === 0 ? (
+        <View style={styles.noServicesContainer}>
+          <Text style={styles.noServicesText}>No bids here yet</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.serviceList}
+          contentContainerStyle={styles.serviceListContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {filteredBids.map(renderBidCard)}
+        </ScrollView>
+      )}
+    </>
+  );
+
   return (
     <View style={styles.container}>
       <StatusBar style="dark" backgroundColor="#0c4309" />
@@ -246,7 +316,16 @@ export default function PastServices() {
       <View style={styles.header}>
         <Text style={styles.title}>Past Services</Text>
       </View>
-      <View style={styles.GreenHeaderBar} />
+      <View style={styles.GreenHeaderBar}>
+        <View style={styles.tabRow}>
+          <Pressable onPress={() => setShowBidHistory(false)}>
+            <Text style={[styles.tabText, showBidHistory ? null : styles.tabTextActive]}>Completed</Text>
+          </Pressable>
+          <Pressable onPress={() => setShowBidHistory(true)}>
+            <Text style={[styles.tabText, showBidHistory ? styles.tabTextActive : null]}>Bid History</Text>
+          </Pressable>
+        </View>
+      </View>
       
       <View style={styles.contentContainer}>
         {servicesLoading ? (
@@ -261,6 +340,8 @@ export default function PastServices() {
               <Text style={styles.retryButtonText}>Try again</Text>
             </Pressable>
           </View>
+        ) : showBidHistory ? (
+          renderBidHistory()
         ) : services.length === 0 ? (
           <View style={styles.noServicesContainer}>
             <Text style={styles.noServicesText}>No past services yet</Text>
@@ -303,6 +384,53 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  tabRow: {
+    flexDirection: 'row',
+    gap: 28,
+  },
+  tabText: {
+    color: '#C0B9A6',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  tabTextActive: {
+    color: '#FFF8E8',
+  },
+  filterRow: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  filterRowContent: {
+    gap: 8,
+  },
+  filterChip: {
+    backgroundColor: '#FFF8E8',
+    borderColor: '#C0B9A6',
+    borderWidth: 1,
+    borderRadius: 18,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  filterChipActive: {
+    backgroundColor: '#0c4309',
+    borderColor: '#0c4309',
+  },
+  filterChipText: {
+    color: '#0c4309',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  filterChipTextActive: {
+    color: '#FFF8E8',
+  },
+  bidStatusPillMuted: {
+    backgroundColor: '#8A8470',
+  },
+  bidOutcomeText: {
+    color: '#0c4309',
+    fontSize: 12,
+    fontWeight: '500',
+  },
   contentContainer: {
     flex: 1,
     paddingHorizontal: 16,
@@ -463,6 +591,13 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#0c4309',
   },
+  tipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0c4309',
+    textAlign: 'center',
+    marginBottom: 6,
+  },
   showDetailsButton: {
     width: '100%',
     paddingVertical: 10,
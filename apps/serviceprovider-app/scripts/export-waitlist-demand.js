@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+
+/**
+ * Exports out-of-area waitlist demand, clustered on a lat/lng grid, as CSV.
+ * Use it to decide where to expand the service area next.
+ *
+ * Usage: node scripts/export-waitlist-demand.js [--cell 0.05] [--since 2026-01-01] [--out demand.csv]
+ *
+ * Requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (waitlist rows are not readable with the anon key).
+ */
+
+const fs = require('fs');
+
+const parseArgs = (argv) => {
+  const args = { cell: 0.05, since: null, out: null };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    if (argv[i] === '--cell') {
+      args.cell = Number(value);
+      i++;
+    } else if (argv[i] === '--since') {
+      args.since = value;
+      i++;
+    } else if (argv[i] === '--out') {
+      args.out = value;
+      i++;
+    }
+  }
+  return args;
+};
+
+const toCsvValue = (value) => {
+  if (value === null || value === undefined) return '';
+  const text = Array.isArray(value) ? value.join('; ') : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+async function exportWaitlistDemand() {
+  const supabaseUrl = process.env.SUPABASE_URL || 'https://hecikcopbdhhiilhgmrd.supabase.co';
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    console.error('❌ Error: SUPABASE_SERVICE_ROLE_KEY environment variable is required');
+    process.exit(1);
+  }
+
+  const { cell, since, out } = parseArgs(process.argv.slice(2));
+  if (!Number.isFinite(cell) || cell <= 0) {
+    console.error('❌ Error: --cell must be a positive number of degrees');
+    process.exit(1);
+  }
+
+  const response = await fetch(`${supabaseUrl}/rest/v1/rpc/waitlist_demand_clusters`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${serviceRoleKey}`,
+      'apikey': serviceRoleKey,
+    },
+    body: JSON.stringify({ cell_size_degrees: cell, since }),
+  });
+
+  if (!response.ok) {
+    console.error(`❌ Failed to load waitlist demand (${response.status}):`, await response.text());
+    process.exit(1);
+  }
+
+  const clusters = await response.json();
+  const columns = [
+    'cell_latitude',
+    'cell_longitude',
+    'requests',
+    'unique_emails',
+    'service_types',
+    'sample_locations',
+    'first_requested_at',
+    'last_requested_at',
+  ];
+  const csv = [columns.join(','), ...clusters.map((row) => columns.map((column) => toCsvValue(row[column])).join(','))].join('\n');
+
+  if (out) {
+    fs.writeFileSync(out, `${csv}\n`);
+    console.error(`✅ Wrote ${clusters.length} clusters to ${out}`);
+  } else {
+    process.stdout.write(`${csv}\n`);
+  }
+}
+
+exportWaitlistDemand().catch((error) => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,243 @@
+import {
+  Coordinate,
+  fetchOnTheWayServiceIds,
+  isNotOnTheWayError,
+  isWithinArrivalRadius,
+  LOCATION_PUBLISH_DISTANCE_METERS,
+  LOCATION_PUBLISH_INTERVAL_MS,
+  publishProviderLocation,
+  recordProviderArrival,
+  SERVICE_STATUS,
+  transitionServiceStatus,
+} from '@helpr/core';
+import * as Location from 'expo-location';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, AppState } from 'react-native';
+
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+// Shares the helpr's position with the customer while a job is `helpr_otw`, so the customer's
+// map can show them approaching with a live ETA. Positions are only watched while the app is
+// in the foreground; the server refuses updates once the job has moved on, which also ends
+// sharing here if the status changed from another device.
+// The same positions are checked against each job's start coordinates (stored with the job
+// from its quote): once the helpr is within ARRIVAL_RADIUS_METERS their arrival is recorded
+// (the server checks the distance again and the customer is told) and they are asked whether
+// to start the service, since the status is otherwise only advanced by hand.
+
+type LocationSharingContextValue = {
+  // Jobs this device is currently publishing a location for
+  sharingServiceIds: string[];
+  startSharing: (serviceId: string) => void;
+  stopSharing: (serviceId: string) => void;
+};
+
+// Where each job starts, or null for jobs booked without coordinates
+type ArrivalTarget = { coordinate: Coordinate | null; arrived: boolean };
+
+const loadArrivalTarget = async (serviceId: string): Promise<ArrivalTarget> => {
+  const { data, error } = await supabase
+    .from('service')
+    .select('start_latitude, start_longitude, arrived_at')
+    .eq('service_id', serviceId)
+    .single();
+
+  if (error) throw error;
+  if (data.arrived_at) {
+    return { coordinate: null, arrived: true };
+  }
+
+  const hasCoordinate = typeof data.start_latitude === 'number' && typeof data.start_longitude === 'number';
+  return {
+    coordinate: hasCoordinate ? { latitude: data.start_latitude, longitude: data.start_longitude } : null,
+    arrived: false,
+  };
+};
+
+const LocationSharingContext = createContext<LocationSharingContextValue | undefined>(undefined);
+
+export const useLocationSharing = () => {
+  const context = useContext(LocationSharingContext);
+  if (!context) {
+    throw new Error('useLocationSharing must be used within a LocationSharingProvider');
+  }
+  return context;
+};
+
+export const LocationSharingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [sharingServiceIds, setSharingServiceIds] = useState<string[]>([]);
+  const serviceIdsRef = useRef<string[]>([]);
+  serviceIdsRef.current = sharingServiceIds;
+  const lastPositionRef = useRef<Location.LocationObject | null>(null);
+  const arrivalTargetsRef = useRef<Record<string, ArrivalTarget>>({});
+
+  const stopSharing = useCallback((serviceId: string) => {
+    setSharingServiceIds(current => current.filter(id => id !== serviceId));
+  }, []);
+
+  const startService = useCallback(async (serviceId: string) => {
+    try {
+      await transitionServiceStatus(supabase, {
+        serviceId,
+        from: SERVICE_STATUS.HelprOtw,
+        to: SERVICE_STATUS.InProgress,
+        actor: 'provider',
+      });
+      stopSharing(serviceId);
+    } catch (error) {
+      console.error('Error starting service:', error);
+      Alert.alert('Error', 'Failed to start the service. Please try again from the job details.', [{ text: 'OK' }]);
+    }
+  }, [stopSharing]);
+
+  const checkArrival = useCallback((serviceId: string, position: Location.LocationObject) => {
+    const target = arrivalTargetsRef.current[serviceId];
+    const coordinate = { latitude: position.coords.latitude, longitude: position.coords.longitude };
+    const { accuracy } = position.coords;
+    if (!target?.coordinate || target.arrived || accuracy === null
+      || !isWithinArrivalRadius(coordinate, target.coordinate, accuracy)) {
+      return;
+    }
+
+    target.arrived = true;
+    recordProviderArrival(supabase, serviceId, coordinate, accuracy)
+      .then(() => {
+        Alert.alert("You've arrived", 'Start service?', [
+          { text: 'Not yet', style: 'cancel' },
+          { text: 'Start service', onPress: () => startService(serviceId) },
+        ]);
+      })
+      .catch(error => {
+        if (isNotOnTheWayError(error)) {
+          stopSharing(serviceId);
+        } else {
+          // Try again on the next position
+          target.arrived = false;
+          console.warn('Failed to record arrival:', error);
+        }
+      });
+  }, [startService, stopSharing]);
+
+  const publish = useCallback((serviceIds: string[], position: Location.LocationObject) => {
+    for (const serviceId of serviceIds) {
+      publishProviderLocation(supabase, {
+        serviceId,
+        coordinate: { latitude: position.coords.latitude, longitude: position.coords.longitude },
+        heading: position.coords.heading,
+        accuracyMeters: position.coords.accuracy,
+      }).catch(error => {
+        if (isNotOnTheWayError(error)) {
+          stopSharing(serviceId);
+        } else {
+          console.warn('Failed to share location:', error);
+        }
+      });
+      checkArrival(serviceId, position);
+    }
+  }, [stopSharing, checkArrival]);
+
+  const startSharing = useCallback((serviceId: string) => {
+    setSharingServiceIds(current => (current.includes(serviceId) ? current : [...current, serviceId]));
+    // The watcher may not report again until the helpr moves, so send the latest fix now
+    if (lastPositionRef.current) {
+      publish([serviceId], lastPositionRef.current);
+    }
+  }, [publish]);
+
+  useEffect(() => {
+    setSharingServiceIds([]);
+    if (!userId) {
+      return;
+    }
+
+    const resume = () => {
+      fetchOnTheWayServiceIds(supabase, userId)
+        .then(setSharingServiceIds)
+        .catch(error => console.error('Failed to load jobs on the way:', error));
+    };
+
+    resume();
+    // Statuses may have changed while the app was in the background
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        resume();
+      }
+    });
+    return () => subscription.remove();
+  }, [userId]);
+
+  // Targets are looked up once per job; an arrival already on record is not prompted again
+  useEffect(() => {
+    const targets = arrivalTargetsRef.current;
+    for (const serviceId of Object.keys(targets)) {
+      if (!sharingServiceIds.includes(serviceId)) {
+        delete targets[serviceId];
+      }
+    }
+
+    for (const serviceId of sharingServiceIds) {
+      if (targets[serviceId]) continue;
+      targets[serviceId] = { coordinate: null, arrived: false };
+      loadArrivalTarget(serviceId)
+        .then(target => {
+          if (arrivalTargetsRef.current[serviceId]) {
+            arrivalTargetsRef.current[serviceId] = target;
+          }
+        })
+        .catch(error => {
+          delete arrivalTargetsRef.current[serviceId];
+          console.warn('Failed to load job location for arrival:', error);
+        });
+    }
+  }, [sharingServiceIds]);
+
+  const isSharing = sharingServiceIds.length > 0;
+
+  useEffect(() => {
+    if (!isSharing) {
+      return;
+    }
+
+    let cancelled = false;
+    let watcher: Location.LocationSubscription | null = null;
+
+    (async () => {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (cancelled || status !== 'granted') {
+        return;
+      }
+      const subscription = await Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.High,
+          timeInterval: LOCATION_PUBLISH_INTERVAL_MS,
+          distanceInterval: LOCATION_PUBLISH_DISTANCE_METERS,
+        },
+        position => {
+          lastPositionRef.current = position;
+          publish(serviceIdsRef.current, position);
+        },
+      );
+      if (cancelled) {
+        subscription.remove();
+      } else {
+        watcher = subscription;
+      }
+    })().catch(error => console.error('Failed to watch location:', error));
+
+    return () => {
+      cancelled = true;
+      watcher?.remove();
+      lastPositionRef.current = null;
+    };
+  }, [isSharing, publish]);
+
+  const value = useMemo(
+    () => ({ sharingServiceIds, startSharing, stopSharing }),
+    [sharingServiceIds, startSharing, stopSharing],
+  );
+
+  return <LocationSharingContext.Provider value={value}>{children}</LocationSharingContext.Provider>;
+};
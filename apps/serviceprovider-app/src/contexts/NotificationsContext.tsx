@@ -0,0 +1,284 @@
+import {
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  NOTIFICATION_INBOX_LIMIT,
+  notificationData,
+  NotificationRow,
+  parsePushNotificationData,
+  PushNotificationData,
+  registerPushToken,
+  unregisterPushToken,
+} from '@helpr/core';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import * as Location from 'expo-location';
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Platform } from 'react-native';
+
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+
+// Registers this device for push notifications once a helpr signs in and opens the job a
+// notification is about when it is tapped. The device's last known position is stored with
+// the token so send-push-notifications can alert helprs to new jobs nearby. The same
+// notifications are kept in `notifications` for the inbox screen and the landing menu badge.
+
+type NotificationsContextValue = {
+  // The inbox, newest first, kept current over realtime
+  notifications: NotificationRow[];
+  unreadCount: number;
+  loading: boolean;
+  refresh: () => Promise<void>;
+  markRead: (notificationId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  // Marks the notification read and opens the job it is about
+  openNotification: (notification: NotificationRow) => void;
+  // Call before signing out so this device stops receiving the helpr's notifications
+  unregisterDevice: () => Promise<void>;
+};
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+// Null on simulators, without permission or without an EAS project id
+const getExpoPushToken = async (): Promise<string | null> => {
+  if (!Device.isDevice) {
+    return null;
+  }
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync('default', {
+      name: 'Jobs and bids',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+
+  const existing = await Notifications.getPermissionsAsync();
+  const { status } = existing.granted ? existing : await Notifications.requestPermissionsAsync();
+  if (status !== 'granted') {
+    return null;
+  }
+
+  const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+  if (!projectId) {
+    console.warn('Push notifications need an EAS project id');
+    return null;
+  }
+
+  const { data } = await Notifications.getExpoPushTokenAsync({ projectId });
+  return data;
+};
+
+// Only uses a permission the helpr already granted; landing asks for it when bidding
+const getLastKnownLocation = async (): Promise<{ latitude: number; longitude: number } | null> => {
+  try {
+    const { status } = await Location.getForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      return null;
+    }
+    const position = await Location.getLastKnownPositionAsync();
+    return position ? { latitude: position.coords.latitude, longitude: position.coords.longitude } : null;
+  } catch (error) {
+    console.warn('Failed to read location for job alerts:', error);
+    return null;
+  }
+};
+
+const openNotificationTarget = (data: PushNotificationData) => {
+  if (data.target === 'provider-service-details') {
+    router.push({ pathname: '/ServiceDetails' as any, params: { serviceId: data.serviceId } });
+  } else if (data.target === 'provider-landing') {
+    router.push('/landing');
+  }
+};
+
+const NotificationsContext = createContext<NotificationsContextValue | undefined>(undefined);
+
+export const useNotifications = () => {
+  const context = useContext(NotificationsContext);
+  if (!context) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+};
+
+export const NotificationsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, loading } = useAuth();
+  const userId = user?.id ?? null;
+  const tokenRef = useRef<string | null>(null);
+  const handledResponseRef = useRef<string | null>(null);
+  const [notifications, setNotifications] = useState<NotificationRow[]>([]);
+  const [inboxLoading, setInboxLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setNotifications([]);
+      return;
+    }
+    setInboxLoading(true);
+    try {
+      setNotifications(await fetchNotifications(supabase, userId, 'provider'));
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    } finally {
+      setInboxLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setNotifications([]);
+    if (!userId) {
+      return;
+    }
+
+    // The same account can use both apps; rows for the other one are skipped
+    const handleChange = (payload: RealtimePostgresChangesPayload<NotificationRow>) => {
+      if (payload.eventType === 'DELETE' || !payload.new?.notification_id || payload.new.app !== 'provider') return;
+      const notification = payload.new;
+      setNotifications(current => payload.eventType === 'INSERT'
+        ? [notification, ...current.filter(item => item.notification_id !== notification.notification_id)]
+          .slice(0, NOTIFICATION_INBOX_LIMIT)
+        : current.map(item => (item.notification_id === notification.notification_id ? notification : item)));
+    };
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on<NotificationRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        handleChange,
+      )
+      .subscribe(status => {
+        // Also covers reconnects, when changes may have been missed
+        if (status === 'SUBSCRIBED') {
+          refresh();
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refresh]);
+
+  const markRead = useCallback(async (notificationId: string) => {
+    const readAt = new Date().toISOString();
+    setNotifications(current => current.map(item =>
+      item.notification_id === notificationId && !item.read_at ? { ...item, read_at: readAt } : item));
+    try {
+      await markNotificationRead(supabase, notificationId);
+    } catch (error) {
+      console.error('Failed to mark notification read:', error);
+    }
+  }, []);
+
+  const markAllRead = useCallback(async () => {
+    if (!userId) return;
+    const readAt = new Date().toISOString();
+    setNotifications(current => current.map(item => (item.read_at ? item : { ...item, read_at: readAt })));
+    try {
+      await markAllNotificationsRead(supabase, userId, 'provider');
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+      refresh();
+    }
+  }, [userId, refresh]);
+
+  const openNotification = useCallback((notification: NotificationRow) => {
+    markRead(notification.notification_id);
+    const data = notificationData(notification);
+    if (data) {
+      openNotificationTarget(data);
+    }
+  }, [markRead]);
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([getExpoPushToken(), getLastKnownLocation()])
+      .then(async ([token, location]) => {
+        if (cancelled || !token) return;
+        tokenRef.current = token;
+        await registerPushToken(supabase, {
+          token,
+          app: 'provider',
+          platform: Platform.OS,
+          latitude: location?.latitude,
+          longitude: location?.longitude,
+        });
+      })
+      .catch(error => console.error('Failed to register for push notifications:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    // Taps are only routed for a signed-in helpr; the screens need a session
+    if (loading || !userId) {
+      return;
+    }
+
+    const handleResponse = (response: Notifications.NotificationResponse) => {
+      const identifier = response.notification.request.identifier;
+      if (handledResponseRef.current === identifier) return;
+      handledResponseRef.current = identifier;
+
+      const data = parsePushNotificationData(response.notification.request.content.data);
+      if (data) {
+        openNotificationTarget(data);
+      }
+    };
+
+    // The tap that launched the app arrives before this listener exists
+    const lastResponse = Notifications.getLastNotificationResponse();
+    if (lastResponse) {
+      handleResponse(lastResponse);
+    }
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(handleResponse);
+    return () => subscription.remove();
+  }, [loading, userId]);
+
+  const unregisterDevice = useCallback(async () => {
+    const token = tokenRef.current;
+    if (!token) return;
+    tokenRef.current = null;
+    try {
+      await unregisterPushToken(supabase, token);
+    } catch (error) {
+      console.error('Failed to unregister push token:', error);
+    }
+  }, []);
+
+  const unreadCount = useMemo(() => notifications.filter(item => !item.read_at).length, [notifications]);
+
+  const value = useMemo(
+    () => ({
+      notifications,
+      unreadCount,
+      loading: inboxLoading,
+      refresh,
+      markRead,
+      markAllRead,
+      openNotification,
+      unregisterDevice,
+    }),
+    [notifications, unreadCount, inboxLoading, refresh, markRead, markAllRead, openNotification, unregisterDevice],
+  );
+
+  return <NotificationsContext.Provider value={value}>{children}</NotificationsContext.Provider>;
+};
@@ -0,0 +1,4 @@
+// Re-exports the shared core package (domain types, statuses, geo and query helpers)
+// so edge functions use exactly the same helpers as both apps.
+
+export * from '../../../../../packages/core/src/index.ts'
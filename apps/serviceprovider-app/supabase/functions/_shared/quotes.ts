@@ -0,0 +1,39 @@
+// Signs server-issued price quotes. The signature covers every field the booking flow
+// relies on; `verify_service_quote` recomputes it in the database (public.quote_signature)
+// with the same secret from Vault, so the two canonical forms must stay in step.
+
+export interface SignableQuote {
+  quote_id: string
+  user_id: string
+  service_type: string
+  amount: number
+  expires_at: string
+  start_location: string
+  end_location: string | null
+}
+
+const encoder = new TextEncoder()
+
+const canonicalize = (quote: SignableQuote) =>
+  [
+    quote.quote_id,
+    quote.user_id,
+    quote.service_type,
+    quote.amount.toFixed(2),
+    String(Date.parse(quote.expires_at)),
+    quote.start_location,
+    quote.end_location ?? '',
+  ].join('|')
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+
+export const signQuote = async (quote: SignableQuote, secret: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ])
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(canonicalize(quote)))
+  return toHex(signature)
+}
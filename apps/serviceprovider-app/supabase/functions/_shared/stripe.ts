@@ -0,0 +1,90 @@
+// Stripe client and payment helpers shared by the payment edge functions.
+// Set STRIPE_API_BASE_URL to point every call at a local mock
+// (see supabase/stripe-mock/server.ts) instead of api.stripe.com.
+
+import Stripe from 'https://esm.sh/stripe@14.21.0?target=deno'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4'
+
+export { Stripe }
+
+// Card authorizations expire after 7 days; renew them a day early
+export const AUTHORIZATION_HOLD_DAYS = 7
+export const REAUTHORIZE_AFTER_DAYS = AUTHORIZATION_HOLD_DAYS - 1
+
+export const createStripeClient = (): Stripe | null => {
+  const secretKey = Deno.env.get('STRIPE_SECRET_KEY')
+  if (!secretKey) {
+    return null
+  }
+
+  const apiBaseUrl = Deno.env.get('STRIPE_API_BASE_URL')
+  const endpoint = apiBaseUrl ? new URL(apiBaseUrl) : null
+
+  return new Stripe(secretKey, {
+    apiVersion: '2023-10-16',
+    httpClient: Stripe.createFetchHttpClient(),
+    ...(endpoint
+      ? {
+          host: endpoint.hostname,
+          port: Number(endpoint.port || (endpoint.protocol === 'https:' ? 443 : 80)),
+          protocol: endpoint.protocol.replace(':', '') as 'http' | 'https',
+        }
+      : {}),
+  })
+}
+
+// Cards must belong to a Stripe customer to be charged again off-session (re-authorization)
+export const ensureStripeCustomer = async (
+  stripe: Stripe,
+  supabase: SupabaseClient,
+  customerId: string,
+  email?: string | null,
+): Promise<string> => {
+  const { data: customer, error } = await supabase
+    .from('customer')
+    .select('stripe_customer_id, email')
+    .eq('customer_id', customerId)
+    .single()
+
+  if (error) throw error
+  if (customer.stripe_customer_id) {
+    return customer.stripe_customer_id
+  }
+
+  const created = await stripe.customers.create(
+    { email: customer.email ?? email ?? undefined, metadata: { customer_id: customerId } },
+    { idempotencyKey: `customer:${customerId}` },
+  )
+
+  const { error: updateError } = await supabase
+    .from('customer')
+    .update({ stripe_customer_id: created.id })
+    .eq('customer_id', customerId)
+
+  if (updateError) throw updateError
+  return created.id
+}
+
+// Returns false when the card is attached to a different Stripe customer
+export const attachPaymentMethod = async (
+  stripe: Stripe,
+  paymentMethodId: string,
+  stripeCustomerId: string,
+): Promise<boolean> => {
+  const paymentMethod = await stripe.paymentMethods.retrieve(paymentMethodId)
+  if (!paymentMethod.customer) {
+    await stripe.paymentMethods.attach(paymentMethodId, { customer: stripeCustomerId })
+    return true
+  }
+  const owner = typeof paymentMethod.customer === 'string' ? paymentMethod.customer : paymentMethod.customer.id
+  return owner === stripeCustomerId
+}
+
+// Releases a hold; an intent that is already canceled or captured is left as is
+export const releaseAuthorization = async (stripe: Stripe, paymentIntentId: string) => {
+  try {
+    await stripe.paymentIntents.cancel(paymentIntentId)
+  } catch (error) {
+    console.error('Failed to release authorization', paymentIntentId, error)
+  }
+}
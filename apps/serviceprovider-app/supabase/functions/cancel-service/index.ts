@@ -0,0 +1,246 @@
+// Supabase Edge Function that cancels a job under the cancellation policy
+// The fee comes from quoteCancellation in @helpr/core: the customer's hold is released,
+// partially captured or refunded to match it, then `cancel_service` records the
+// cancellation and either closes the request (customer) or reopens it (helpr).
+// Call with `preview: true` to get the quote the apps show before the user confirms.
+// Stripe calls are keyed by payment intent, so retries are safe.
+// Deploy with: supabase functions deploy cancel-service
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4'
+
+import {
+  calculateProviderPayout,
+  type CancellationParty,
+  type CancellationQuote,
+  type CancelServiceErrorCode,
+  type CancelServiceRequest,
+  type CancelServiceResult,
+  fetchFeeSchedule,
+  quoteCancellation,
+  resolveFeeRates,
+  SERVICE_STATUS,
+} from '../_shared/core.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { createStripeClient, type Stripe } from '../_shared/stripe.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://hecikcopbdhhiilhgmrd.supabase.co'
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+const failed = (code: CancelServiceErrorCode, message: string, status: number) =>
+  jsonResponse({ status: 'failed', code, message } satisfies CancelServiceResult, status)
+
+const toCents = (amount: number) => Math.round(amount * 100)
+
+// Moves money to match the quote and returns the service's new payment_status
+const settleCancellation = async (
+  stripe: Stripe,
+  serviceId: string,
+  paymentIntent: Stripe.PaymentIntent,
+  quote: CancellationQuote,
+): Promise<string> => {
+  const feeCents = toCents(quote.fee)
+
+  if (paymentIntent.status === 'requires_capture') {
+    if (feeCents === 0) {
+      await stripe.paymentIntents.cancel(paymentIntent.id, {}, { idempotencyKey: `cancel-release:${paymentIntent.id}` })
+      return 'released'
+    }
+    // Capturing part of a hold releases the rest
+    await stripe.paymentIntents.capture(
+      paymentIntent.id,
+      { amount_to_capture: feeCents },
+      { idempotencyKey: `cancel-capture:${paymentIntent.id}` },
+    )
+    return 'cancellation_fee_captured'
+  }
+
+  // Bookings charged up front by older builds are refunded instead
+  if (paymentIntent.status === 'succeeded') {
+    const refundCents = paymentIntent.amount_received - feeCents
+    if (refundCents > 0) {
+      await stripe.refunds.create(
+        { payment_intent: paymentIntent.id, amount: refundCents },
+        { idempotencyKey: `cancel-refund:${paymentIntent.id}` },
+      )
+    }
+    return feeCents > 0 ? 'partially_refunded' : 'refunded'
+  }
+
+  if (feeCents === 0) {
+    return 'released'
+  }
+
+  // Hold expired or was released: charge the fee to the saved card
+  if (!paymentIntent.customer || !paymentIntent.payment_method) {
+    throw new Error(`Payment ${paymentIntent.id} is ${paymentIntent.status} and has no saved card to charge`)
+  }
+
+  const charge = await stripe.paymentIntents.create(
+    {
+      amount: feeCents,
+      currency: paymentIntent.currency,
+      customer: typeof paymentIntent.customer === 'string' ? paymentIntent.customer : paymentIntent.customer.id,
+      payment_method: typeof paymentIntent.payment_method === 'string' ? paymentIntent.payment_method : paymentIntent.payment_method.id,
+      off_session: true,
+      confirm: true,
+      metadata: { ...paymentIntent.metadata, cancellation_fee_for: paymentIntent.id },
+    },
+    { idempotencyKey: `cancel-fee:${serviceId}` },
+  )
+
+  if (charge.status !== 'succeeded') {
+    throw new Error(`Cancellation fee ${charge.id} is ${charge.status}`)
+  }
+  return 'cancellation_fee_captured'
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (!supabaseServiceKey) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured')
+      return failed('server_error', 'Cancellation is not configured on the server', 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const jwt = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+    const { data: authData, error: authError } = await supabase.auth.getUser(jwt)
+    if (authError || !authData?.user) {
+      return failed('not_authenticated', 'Please sign in again.', 401)
+    }
+    const userId = authData.user.id
+
+    const body: Partial<CancelServiceRequest> = await req.json()
+    if (!body.serviceId) {
+      return failed('invalid_request', 'Missing serviceId', 400)
+    }
+
+    const { data: service, error: serviceError } = await supabase
+      .from('service')
+      .select('service_id, customer_id, service_provider_id, service_type, status, scheduled_date_time, payment_intent_id, fee_schedule_version')
+      .eq('service_id', body.serviceId)
+      .maybeSingle()
+
+    if (serviceError) throw serviceError
+
+    const cancelledBy: CancellationParty | null = service?.customer_id === userId
+      ? 'customer'
+      : service?.service_provider_id === userId ? 'provider' : null
+
+    if (!service || !cancelledBy) {
+      return failed('service_not_found', 'We could not find this job.', 404)
+    }
+
+    // Replay of a cancellation that already went through
+    if (cancelledBy === 'customer' && service.status === SERVICE_STATUS.Cancelled) {
+      const { data: cancellation } = await supabase
+        .from('service_cancellations')
+        .select('hours_notice, fee_rate, fee, refund')
+        .eq('service_id', service.service_id)
+        .eq('cancelled_by', 'customer')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      return jsonResponse({
+        status: 'cancelled',
+        serviceStatus: SERVICE_STATUS.Cancelled,
+        quote: {
+          cancellable: true,
+          cancelledBy,
+          nextStatus: SERVICE_STATUS.Cancelled,
+          hoursNotice: cancellation?.hours_notice ?? null,
+          feeRate: Number(cancellation?.fee_rate ?? 0),
+          fee: Number(cancellation?.fee ?? 0),
+          refund: Number(cancellation?.refund ?? 0),
+          reliabilityPenalty: 0,
+        },
+      } satisfies CancelServiceResult)
+    }
+
+    const stripe = service.payment_intent_id ? createStripeClient() : null
+    if (service.payment_intent_id && !stripe) {
+      console.error('❌ STRIPE_SECRET_KEY not configured')
+      return failed('server_error', 'Cancellation is not configured on the server', 500)
+    }
+
+    // Price the policy off what the card actually holds, not a recomputed total
+    const paymentIntent = stripe && service.payment_intent_id
+      ? await stripe.paymentIntents.retrieve(service.payment_intent_id)
+      : null
+    const chargedCents = paymentIntent
+      ? paymentIntent.status === 'succeeded' ? paymentIntent.amount_received : paymentIntent.amount
+      : 0
+
+    const quote = quoteCancellation({
+      status: service.status,
+      scheduledDateTime: service.scheduled_date_time,
+      chargedAmount: chargedCents / 100,
+      cancelledBy,
+    })
+
+    if (!quote.cancellable) {
+      return failed('not_cancellable', 'This job can no longer be cancelled.', 409)
+    }
+
+    if (body.preview) {
+      return jsonResponse({ status: 'quote', quote } satisfies CancelServiceResult)
+    }
+
+    if (typeof body.expectedFee === 'number' && toCents(body.expectedFee) !== toCents(quote.fee)) {
+      return jsonResponse({ status: 'fee_changed', quote } satisfies CancelServiceResult, 409)
+    }
+
+    let paymentStatus: string | null = null
+    if (stripe && paymentIntent) {
+      try {
+        paymentStatus = await settleCancellation(stripe, service.service_id, paymentIntent, quote)
+      } catch (stripeError) {
+        console.error('Cancellation payment failed:', stripeError)
+        return failed('payment_failed', 'We could not process the cancellation fee. Please update your card and try again.', 402)
+      }
+    }
+
+    let providerPayout = 0
+    if (quote.fee > 0 && service.service_provider_id) {
+      const feeSchedule = await fetchFeeSchedule(supabase, service.fee_schedule_version)
+      const rates = resolveFeeRates(feeSchedule, { serviceType: service.service_type })
+      providerPayout = calculateProviderPayout(quote.fee, rates).payout
+    }
+
+    const { error: cancelError } = await supabase.rpc('cancel_service', {
+      p_service_id: service.service_id,
+      p_cancelled_by: cancelledBy,
+      p_actor_id: userId,
+      p_from_status: service.status,
+      p_reason: body.reason?.trim() || null,
+      p_hours_notice: quote.hoursNotice,
+      p_fee_rate: quote.feeRate,
+      p_fee: quote.fee,
+      p_refund: quote.refund,
+      p_provider_payout: providerPayout,
+      p_reliability_penalty: quote.reliabilityPenalty,
+      p_payment_status: paymentStatus,
+    })
+
+    if (cancelError) {
+      console.error('Payment settled but cancellation failed:', service.service_id, paymentStatus, cancelError)
+      return cancelError.message?.includes('not_cancellable')
+        ? failed('not_cancellable', 'This job just changed. Please refresh and try again.', 409)
+        : failed('server_error', 'We could not cancel this job. Please try again.', 500)
+    }
+
+    return jsonResponse({
+      status: 'cancelled',
+      quote,
+      serviceStatus: quote.nextStatus ?? SERVICE_STATUS.Cancelled,
+    } satisfies CancelServiceResult)
+  } catch (error) {
+    console.error('Error cancelling service:', error)
+    return failed('server_error', 'Unable to cancel this job. Please try again.', 500)
+  }
+})
@@ -0,0 +1,130 @@
+// Supabase Edge Function that completes a job: captures the customer's authorization and
+// credits the helpr's balance with their payout under the service's fee schedule.
+// If the hold has lapsed the customer's saved card is charged off-session instead.
+// Stripe calls are keyed by service and `complete_service` is idempotent, so retries are safe.
+// Deploy with: supabase functions deploy complete-service
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4'
+
+import { calculateProviderPayout, fetchFeeSchedule, resolveFeeRates, SERVICE_STATUS } from '../_shared/core.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { createStripeClient, type Stripe } from '../_shared/stripe.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://hecikcopbdhhiilhgmrd.supabase.co'
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+interface RequestBody {
+  serviceId: string
+}
+
+// Settles the payment for a job and returns the intent that holds the captured funds
+const settlePayment = async (stripe: Stripe, serviceId: string, paymentIntentId: string) => {
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId)
+
+  if (paymentIntent.status === 'succeeded') {
+    return paymentIntent
+  }
+
+  if (paymentIntent.status === 'requires_capture') {
+    return await stripe.paymentIntents.capture(paymentIntent.id, {}, { idempotencyKey: `capture:${paymentIntent.id}` })
+  }
+
+  // Hold expired or was released: charge the saved card for the same amount
+  if (!paymentIntent.customer || !paymentIntent.payment_method) {
+    throw new Error(`Payment ${paymentIntent.id} is ${paymentIntent.status} and has no saved card to charge`)
+  }
+
+  return await stripe.paymentIntents.create(
+    {
+      amount: paymentIntent.amount,
+      currency: paymentIntent.currency,
+      customer: typeof paymentIntent.customer === 'string' ? paymentIntent.customer : paymentIntent.customer.id,
+      payment_method: typeof paymentIntent.payment_method === 'string' ? paymentIntent.payment_method : paymentIntent.payment_method.id,
+      off_session: true,
+      confirm: true,
+      metadata: { ...paymentIntent.metadata, replaces_payment_intent: paymentIntent.id },
+    },
+    { idempotencyKey: `complete-charge:${serviceId}` },
+  )
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const stripe = createStripeClient()
+    if (!supabaseServiceKey || !stripe) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY or STRIPE_SECRET_KEY not configured')
+      return jsonResponse({ success: false, error: 'Payments are not configured on the server' }, 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const jwt = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+    const { data: authData, error: authError } = await supabase.auth.getUser(jwt)
+    if (authError || !authData?.user) {
+      return jsonResponse({ success: false, error: 'Not authenticated' }, 401)
+    }
+
+    const body: RequestBody = await req.json()
+    if (!body.serviceId) {
+      return jsonResponse({ success: false, error: 'Missing required parameter: serviceId' }, 400)
+    }
+
+    const { data: service, error: serviceError } = await supabase
+      .from('service')
+      .select('service_id, service_type, status, service_provider_id, price, payment_intent_id, payment_status, fee_schedule_version')
+      .eq('service_id', body.serviceId)
+      .maybeSingle()
+
+    if (serviceError) throw serviceError
+    if (!service || service.service_provider_id !== authData.user.id) {
+      return jsonResponse({ success: false, error: 'Service not found' }, 404)
+    }
+
+    const alreadyCompleted = service.status === SERVICE_STATUS.Completed && service.payment_status === 'captured'
+    if (!alreadyCompleted && service.status !== SERVICE_STATUS.InProgress) {
+      return jsonResponse({ success: false, error: 'Start the service before completing it' }, 409)
+    }
+    if (!service.payment_intent_id) {
+      return jsonResponse({ success: false, error: 'This booking has no payment on file' }, 409)
+    }
+
+    const paymentIntent = alreadyCompleted
+      ? { id: service.payment_intent_id }
+      : await settlePayment(stripe, service.service_id, service.payment_intent_id)
+
+    if ('status' in paymentIntent && paymentIntent.status !== 'succeeded') {
+      return jsonResponse({ success: false, error: `Payment ${paymentIntent.status}` }, 402)
+    }
+
+    const feeSchedule = await fetchFeeSchedule(supabase, service.fee_schedule_version)
+    const rates = resolveFeeRates(feeSchedule, { serviceType: service.service_type })
+    const { commission, payout } = calculateProviderPayout(Number(service.price ?? 0), rates)
+
+    const { data: newBalance, error: completeError } = await supabase.rpc('complete_service', {
+      p_service_id: service.service_id,
+      p_payment_intent_id: paymentIntent.id,
+      p_provider_payout: payout,
+    })
+
+    if (completeError) {
+      console.error('Payment captured but completion failed:', completeError)
+      return jsonResponse({ success: false, error: 'Payment captured but the job could not be completed. Please try again.' }, 500)
+    }
+
+    return jsonResponse({
+      success: true,
+      provider_amount: payout,
+      platform_fee: commission,
+      new_balance: newBalance,
+      fee_schedule_version: feeSchedule.version,
+    })
+  } catch (error) {
+    console.error('Error completing service:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Failed to complete service'
+    return jsonResponse({ success: false, error: errorMessage }, 500)
+  }
+})
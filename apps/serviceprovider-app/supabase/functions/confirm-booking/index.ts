@@ -0,0 +1,214 @@
+// Supabase Edge Function that books a helpr's bid and places a hold on the customer's card
+// The hold is priced server-side from the price negotiated with the helpr (the opening bid
+// unless someone countered), then `confirm_booking` assigns the helpr,
+// records the authorization and clears the bids in a single transaction. If that fails the
+// hold is released, so the customer is never held without a helpr (or the reverse).
+// The hold is captured by complete-service and renewed by reauthorize-payments.
+// Every Stripe call is keyed by service, helpr, price and card, so retries are safe.
+// Deploy with: supabase functions deploy confirm-booking
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4'
+
+import {
+  buildPriceBreakdown,
+  type ConfirmBookingErrorCode,
+  type ConfirmBookingRequest,
+  type ConfirmBookingResult,
+  fetchFeeSchedule,
+  FILL_REQUEST_STATUS,
+  resolveFeeRates,
+} from '../_shared/core.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import {
+  attachPaymentMethod,
+  createStripeClient,
+  ensureStripeCustomer,
+  releaseAuthorization,
+  type Stripe,
+} from '../_shared/stripe.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://hecikcopbdhhiilhgmrd.supabase.co'
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+const RPC_ERROR_CODES: ConfirmBookingErrorCode[] = ['service_not_found', 'bid_not_found', 'already_booked', 'offer_changed']
+
+const failed = (code: ConfirmBookingErrorCode, message: string, status: number) =>
+  jsonResponse({ status: 'failed', code, message } satisfies ConfirmBookingResult, status)
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const stripe = createStripeClient()
+    if (!supabaseServiceKey || !stripe) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY or STRIPE_SECRET_KEY not configured')
+      return failed('server_error', 'Booking is not configured on the server', 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const jwt = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+    const { data: authData, error: authError } = await supabase.auth.getUser(jwt)
+    if (authError || !authData?.user) {
+      return failed('not_authenticated', 'Please sign in again.', 401)
+    }
+    const customerId = authData.user.id
+
+    const body: Partial<ConfirmBookingRequest> = await req.json()
+    const { serviceId, serviceProviderId, paymentMethodId } = body
+    if (!serviceId || !serviceProviderId || !paymentMethodId) {
+      return failed('invalid_request', 'Missing serviceId, serviceProviderId or paymentMethodId', 400)
+    }
+
+    const { data: service, error: serviceError } = await supabase
+      .from('service')
+      .select('service_id, customer_id, service_type, status, service_provider_id, scheduled_date_time, price, payment_intent_id, fee_schedule_version')
+      .eq('service_id', serviceId)
+      .maybeSingle()
+
+    if (serviceError) throw serviceError
+    if (!service || service.customer_id !== customerId) {
+      return failed('service_not_found', 'We could not find this booking.', 404)
+    }
+
+    // Replay of a booking that already went through
+    if (service.service_provider_id === serviceProviderId && service.payment_intent_id) {
+      const bookedSchedule = await fetchFeeSchedule(supabase, service.fee_schedule_version)
+      return jsonResponse({
+        status: 'confirmed',
+        serviceId,
+        serviceProviderId,
+        amount: buildPriceBreakdown({
+          subtotal: Number(service.price ?? 0),
+          fees: resolveFeeRates(bookedSchedule, { serviceType: service.service_type }),
+        }).total,
+        scheduledDateTime: service.scheduled_date_time ?? null,
+        paymentIntentId: service.payment_intent_id,
+      } satisfies ConfirmBookingResult)
+    }
+
+    if (service.service_provider_id) {
+      return failed('already_booked', 'This job already has a Helpr.', 409)
+    }
+
+    const { data: bid, error: bidError } = await supabase
+      .from('service_fill_request')
+      .select('bid')
+      .eq('service_id', serviceId)
+      .eq('service_provider_id', serviceProviderId)
+      .eq('status', FILL_REQUEST_STATUS.Pending)
+      .maybeSingle()
+
+    if (bidError) throw bidError
+    if (!bid) {
+      return failed('bid_not_found', 'This Helpr is no longer available. Please choose another.', 404)
+    }
+
+    const { data: bookablePrice, error: priceError } = await supabase.rpc('bookable_bid_price', {
+      p_service_id: serviceId,
+      p_service_provider_id: serviceProviderId,
+    })
+
+    if (priceError) throw priceError
+    if (bookablePrice === null) {
+      return failed('offer_changed', 'This price is waiting on a counter-offer or has expired.', 409)
+    }
+    const price = Number(bookablePrice)
+
+    const { data: savedCard, error: cardError } = await supabase
+      .from('payment_methods')
+      .select('id')
+      .eq('user_id', customerId)
+      .eq('stripe_pm_id', paymentMethodId)
+      .maybeSingle()
+
+    if (cardError) throw cardError
+    if (!savedCard) {
+      return failed('invalid_request', 'Selected payment method not found.', 400)
+    }
+
+    // Same schedule and total the payment summary shows the customer
+    const feeSchedule = await fetchFeeSchedule(supabase)
+    const amount = buildPriceBreakdown({
+      subtotal: price,
+      items: [{ kind: 'base', label: "Helpr's Bid", amount: price }],
+      fees: resolveFeeRates(feeSchedule, { serviceType: service.service_type }),
+    }).total
+    const idempotencyKey = `confirm-booking:${serviceId}:${serviceProviderId}:${Math.round(price * 100)}:${paymentMethodId}`
+
+    let paymentIntent: Stripe.PaymentIntent
+    try {
+      const stripeCustomerId = await ensureStripeCustomer(stripe, supabase, customerId, authData.user.email)
+      if (!(await attachPaymentMethod(stripe, paymentMethodId, stripeCustomerId))) {
+        return failed('invalid_request', 'Selected payment method not found.', 400)
+      }
+
+      paymentIntent = await stripe.paymentIntents.create(
+        {
+          amount: Math.round(amount * 100),
+          currency: 'usd',
+          customer: stripeCustomerId,
+          payment_method: paymentMethodId,
+          capture_method: 'manual',
+          confirm: true,
+          // Lets reauthorize-payments renew the hold without the customer present
+          setup_future_usage: 'off_session',
+          automatic_payment_methods: { enabled: true, allow_redirects: 'never' },
+          metadata: { service_id: serviceId, service_provider_id: serviceProviderId, customer_id: customerId },
+        },
+        { idempotencyKey },
+      )
+      // A replayed create returns the original response; read the live status instead
+      if (paymentIntent.status !== 'requires_capture') {
+        paymentIntent = await stripe.paymentIntents.retrieve(paymentIntent.id)
+      }
+    } catch (stripeError) {
+      console.error('Authorization failed:', stripeError)
+      const message = stripeError instanceof Error ? stripeError.message : 'Payment could not be authorized.'
+      return failed('payment_failed', message, 402)
+    }
+
+    if (paymentIntent.status === 'requires_action' && paymentIntent.client_secret) {
+      return jsonResponse({ status: 'requires_action', clientSecret: paymentIntent.client_secret } satisfies ConfirmBookingResult)
+    }
+
+    if (paymentIntent.status !== 'requires_capture') {
+      return failed('payment_failed', 'Payment could not be authorized.', 402)
+    }
+
+    const { data: booked, error: bookError } = await supabase.rpc('confirm_booking', {
+      p_service_id: serviceId,
+      p_service_provider_id: serviceProviderId,
+      p_payment_intent_id: paymentIntent.id,
+      p_fee_schedule_version: feeSchedule.version,
+      p_price: price,
+    })
+
+    if (bookError || !booked) {
+      console.error('Booking failed after authorization, releasing hold:', bookError)
+      await releaseAuthorization(stripe, paymentIntent.id)
+
+      const code = RPC_ERROR_CODES.find(candidate => bookError?.message?.includes(candidate)) ?? 'server_error'
+      const message = code === 'already_booked'
+        ? 'This job was just booked. Your card has not been charged.'
+        : code === 'offer_changed'
+          ? "This Helpr's price just changed. Your card has not been charged."
+          : 'We could not book this Helpr. Your card has not been charged.'
+      return failed(code, message, code === 'server_error' ? 500 : 409)
+    }
+
+    return jsonResponse({
+      status: 'confirmed',
+      serviceId,
+      serviceProviderId,
+      amount,
+      scheduledDateTime: booked.scheduled_date_time ?? null,
+      paymentIntentId: paymentIntent.id,
+    } satisfies ConfirmBookingResult)
+  } catch (error) {
+    console.error('Error confirming booking:', error)
+    return failed('server_error', 'Unable to complete booking. Please try again.', 500)
+  }
+})
@@ -0,0 +1,171 @@
+// Supabase Edge Function that issues signed, time-limited price quotes
+// The quote is computed server-side with the shared pricing engine from the rate card alone
+// (nothing the client sends can discount it), signed with QUOTE_SIGNING_SECRET and stored in `quotes`.
+// `service` rows must reference a valid, unexpired quote whose signature checks out against the
+// same secret in Vault (enforced by a database trigger).
+// The quote also carries the job's estimated duration, which the service copies when booked,
+// and the service zone of the start location; starts outside every zone are not quoted.
+// It records the addresses it was priced for, so it cannot be booked for a different trip.
+// Deploy with: supabase functions deploy create-quote
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4'
+
+import {
+  buildQuoteBreakdown,
+  calculateQuote,
+  type Coordinate,
+  estimateDistanceMiles,
+  estimateJobDuration,
+  fetchDrivingRoute,
+  fetchFeeSchedule,
+  isWithinServiceArea,
+  RATE_CARDS,
+  resolveFeeRates,
+  resolvePricingServiceKey,
+} from '../_shared/core.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { signQuote } from '../_shared/quotes.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://hecikcopbdhhiilhgmrd.supabase.co'
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+const quoteSigningSecret = Deno.env.get('QUOTE_SIGNING_SECRET')
+const googleMapsApiKey = Deno.env.get('GOOGLE_MAPS_API_KEY')
+
+const QUOTE_TTL_MINUTES = 30
+
+interface RequestBody {
+  serviceType: string
+  inputs?: {
+    tier?: string | null
+    apartmentSize?: string | null
+    needsTruck?: boolean
+    needsPacking?: boolean
+  }
+  start?: QuoteLocation | null
+  end?: QuoteLocation | null
+}
+
+// A quoted address and where the customer's device geocoded it
+type QuoteLocation = Coordinate & { address: string }
+
+const isQuoteLocation = (value: unknown): value is QuoteLocation =>
+  typeof value === 'object' &&
+  value !== null &&
+  Number.isFinite((value as QuoteLocation).latitude) &&
+  Number.isFinite((value as QuoteLocation).longitude) &&
+  typeof (value as QuoteLocation).address === 'string' &&
+  (value as QuoteLocation).address.trim().length > 0
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (!supabaseServiceKey || !quoteSigningSecret) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY or QUOTE_SIGNING_SECRET not configured')
+      return jsonResponse({ success: false, error: 'Quoting is not configured on the server' }, 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const jwt = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+    const { data: authData, error: authError } = await supabase.auth.getUser(jwt)
+    if (authError || !authData?.user) {
+      return jsonResponse({ success: false, error: 'Not authenticated' }, 401)
+    }
+
+    const body: RequestBody = await req.json()
+    if (!body.serviceType) {
+      return jsonResponse({ success: false, error: 'Missing required parameter: serviceType' }, 400)
+    }
+
+    const service = resolvePricingServiceKey(body.serviceType)
+    const rateCard = RATE_CARDS[service]
+    const needsEnd = rateCard.perMile > 0 || rateCard.perMinute > 0
+
+    if (!isQuoteLocation(body.start)) {
+      return jsonResponse({ success: false, error: 'Missing required parameter: start' }, 400)
+    }
+    if (needsEnd && !isQuoteLocation(body.end)) {
+      return jsonResponse({ success: false, error: 'Missing required parameter: end' }, 400)
+    }
+
+    const start = body.start
+    const end = needsEnd && isQuoteLocation(body.end) ? body.end : null
+    const zone = isWithinServiceArea(start)
+    if (!zone) {
+      return jsonResponse({ success: false, error: 'This address is outside our service area' }, 400)
+    }
+    const drivingInfo = end ? await fetchDrivingRoute(start, end, googleMapsApiKey) : null
+
+    const inputs = {
+      service,
+      tier: body.inputs?.tier ?? null,
+      apartmentSize: body.inputs?.apartmentSize ?? null,
+      needsTruck: Boolean(body.inputs?.needsTruck),
+      needsPacking: Boolean(body.inputs?.needsPacking),
+      distanceMiles: drivingInfo?.distanceMiles ?? (end ? estimateDistanceMiles(start, end) : null),
+      durationMinutes: drivingInfo?.durationMinutes ?? null,
+    }
+
+    const quote = calculateQuote(inputs)
+    const duration = estimateJobDuration(inputs)
+    const feeSchedule = await fetchFeeSchedule(supabase)
+
+    const quoteId = crypto.randomUUID()
+    const expiresAt = new Date(Date.now() + QUOTE_TTL_MINUTES * 60 * 1000).toISOString()
+    const signed = {
+      quote_id: quoteId,
+      user_id: authData.user.id,
+      service_type: body.serviceType,
+      amount: quote.amount,
+      expires_at: expiresAt,
+      start_location: start.address.trim(),
+      end_location: end?.address.trim() ?? null,
+    }
+    const signature = await signQuote(signed, quoteSigningSecret)
+
+    const { error: insertError } = await supabase.from('quotes').insert({
+      ...signed,
+      inputs,
+      components: quote.components,
+      note: quote.note,
+      rate_card_version: quote.rateCardVersion,
+      zone_id: zone.id,
+      signature,
+      start_latitude: start.latitude,
+      start_longitude: start.longitude,
+      end_latitude: end?.latitude ?? null,
+      end_longitude: end?.longitude ?? null,
+      estimated_minutes_min: duration.minMinutes,
+      estimated_minutes_max: duration.maxMinutes,
+    })
+
+    if (insertError) {
+      console.error('Failed to store quote:', insertError)
+      return jsonResponse({ success: false, error: 'Unable to store quote' }, 500)
+    }
+
+    return jsonResponse({
+      success: true,
+      quote: {
+        quoteId,
+        serviceType: body.serviceType,
+        amount: quote.amount,
+        components: quote.components,
+        breakdown: buildQuoteBreakdown(quote, resolveFeeRates(feeSchedule, { serviceType: body.serviceType })),
+        feeScheduleVersion: feeSchedule.version,
+        note: quote.note,
+        rateCardVersion: quote.rateCardVersion,
+        zone,
+        estimatedDuration: duration,
+        expiresAt,
+      },
+    })
+  } catch (error) {
+    console.error('Error creating quote:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Failed to create quote'
+    return jsonResponse({ success: false, error: errorMessage }, 500)
+  }
+})
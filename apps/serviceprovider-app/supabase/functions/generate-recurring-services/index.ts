@@ -0,0 +1,158 @@
+// Supabase Edge Function that books upcoming occurrences of active recurring series
+// Each occurrence inside the horizon becomes an open `service` at the series price. When the
+// series prefers the same helpr, the occurrence is first offered only to whoever completed the
+// latest visit; other helprs see it once the offer lapses.
+// Schedule it daily (Supabase dashboard → Integrations → Cron) with the service role key.
+// Deploy with: supabase functions deploy generate-recurring-services
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4'
+
+import { listOccurrences, parseRecurrenceRule, SERVICE_STATUS } from '../_shared/core.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://hecikcopbdhhiilhgmrd.supabase.co'
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+const HOUR_MS = 60 * 60 * 1000
+// How far ahead occurrences are booked
+const HORIZON_DAYS = 14
+// How long the previous helpr has the occurrence to themselves
+const OFFER_HOURS = 24
+// Offers close at least this long before the visit so other helprs still have time to bid
+const OFFER_CUTOFF_HOURS = 48
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (!supabaseServiceKey) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured')
+      return jsonResponse({ success: false, error: 'Recurring bookings are not configured on the server' }, 500)
+    }
+
+    const jwt = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+    if (jwt !== supabaseServiceKey) {
+      return jsonResponse({ success: false, error: 'Not authorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const now = new Date()
+    const horizon = new Date(now.getTime() + HORIZON_DAYS * 24 * HOUR_MS)
+
+    const { data: seriesList, error: seriesError } = await supabase
+      .from('service_series')
+      .select('*')
+      .eq('status', 'active')
+
+    if (seriesError) throw seriesError
+
+    const created: string[] = []
+    const ended: string[] = []
+    const failedSeries: string[] = []
+
+    for (const series of seriesList ?? []) {
+      try {
+        const rule = parseRecurrenceRule(series.rrule)
+        const generatedThrough = series.generated_through ? new Date(series.generated_through) : null
+        // Occurrences missed while paused are not booked retroactively
+        const after = generatedThrough && generatedThrough > now ? generatedThrough : now
+
+        const occurrences = listOccurrences(rule, {
+          startsAt: series.starts_at,
+          timeZone: series.time_zone,
+          after,
+          before: horizon,
+        })
+
+        let offeredTo: string | null = null
+        if (series.prefer_same_provider && occurrences.length > 0) {
+          const { data: lastVisit, error: lastVisitError } = await supabase
+            .from('service')
+            .select('service_provider_id')
+            .eq('series_id', series.series_id)
+            .eq('status', SERVICE_STATUS.Completed)
+            .not('service_provider_id', 'is', null)
+            .order('occurrence_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+
+          if (lastVisitError) throw lastVisitError
+          offeredTo = lastVisit?.service_provider_id ?? null
+        }
+
+        if (occurrences.length > 0) {
+          const rows = occurrences.map(occurrence => {
+            const offerCutoff = occurrence.getTime() - OFFER_CUTOFF_HOURS * HOUR_MS
+            const offerExpiresAt = Math.min(now.getTime() + OFFER_HOURS * HOUR_MS, offerCutoff)
+            const offered = offeredTo !== null && offerExpiresAt > now.getTime()
+
+            return {
+              customer_id: series.customer_id,
+              service_type: series.service_type,
+              status: SERVICE_STATUS.FindingPros,
+              scheduling_type: 'scheduled',
+              scheduled_date_time: occurrence.toISOString(),
+              description: series.description,
+              location: series.location,
+              start_location: series.start_location,
+              end_location: series.end_location,
+              start_latitude: series.start_latitude,
+              start_longitude: series.start_longitude,
+              end_latitude: series.end_latitude,
+              end_longitude: series.end_longitude,
+              price: series.price,
+              payment_method_type: series.payment_method_type,
+              autofill_type: series.autofill_type,
+              series_id: series.series_id,
+              occurrence_at: occurrence.toISOString(),
+              offered_to_provider_id: offered ? offeredTo : null,
+              offer_expires_at: offered ? new Date(offerExpiresAt).toISOString() : null,
+            }
+          })
+
+          // A re-run after a partial failure skips occurrences that were already booked
+          const { data: inserted, error: insertError } = await supabase
+            .from('service')
+            .upsert(rows, { onConflict: 'series_id,occurrence_at', ignoreDuplicates: true })
+            .select('service_id')
+
+          if (insertError) throw insertError
+          created.push(...(inserted ?? []).map(row => row.service_id))
+        }
+
+        const latest = occurrences.at(-1) ?? generatedThrough
+        // Anything left after the horizon? If not, the rule has run out.
+        const exhausted = (rule.count !== null || rule.until !== null) && listOccurrences(rule, {
+          startsAt: series.starts_at,
+          timeZone: series.time_zone,
+          after: latest ?? after,
+          before: new Date(8.64e15),
+          limit: 1,
+        }).length === 0
+
+        const { error: updateError } = await supabase
+          .from('service_series')
+          .update({
+            generated_through: latest?.toISOString() ?? series.generated_through,
+            ...(exhausted ? { status: 'ended' } : {}),
+          })
+          .eq('series_id', series.series_id)
+          .eq('status', 'active')
+
+        if (updateError) throw updateError
+        if (exhausted) ended.push(series.series_id)
+      } catch (error) {
+        console.error('Failed to generate occurrences for series', series.series_id, error)
+        failedSeries.push(series.series_id)
+      }
+    }
+
+    return jsonResponse({ success: true, created, ended, failed: failedSeries })
+  } catch (error) {
+    console.error('Error generating recurring services:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Failed to generate recurring services'
+    return jsonResponse({ success: false, error: errorMessage }, 500)
+  }
+})
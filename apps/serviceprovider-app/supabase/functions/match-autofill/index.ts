@@ -0,0 +1,314 @@
+// Supabase Edge Function that books AutoFill jobs once bidding is over
+// Bidding closes AUTOFILL_WINDOW_MINUTES after the first bid, or as soon as
+// AUTOFILL_BID_THRESHOLD helprs have bid. Pending bids are then scored on price against the
+// quote, rating, distance from the pickup, reliability and schedule fit (packages/core/src/autofill.ts),
+// and the best one is booked like confirm-booking does: a hold on the customer's saved card,
+// then `confirm_booking`, which assigns the helpr and declines the other bids in one transaction.
+// If no bid qualifies or the card cannot be held, the job becomes a Custom job and the
+// customer picks a helpr in select-helpr.
+// Helprs call it after bidding; schedule it every minute (Supabase cron, service role key)
+// to close windows nobody else touches.
+// Deploy with: supabase functions deploy match-autofill
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4'
+
+import {
+  ASSIGNED_SERVICE_STATUSES,
+  AUTOFILL_CONFLICT_HOURS,
+  type AutoFillCandidate,
+  type AutoFillMatchErrorCode,
+  type AutoFillMatchResult,
+  buildPriceBreakdown,
+  distanceInMiles,
+  fetchFeeSchedule,
+  FILL_REQUEST_STATUS,
+  geocodeAddress,
+  isAutoFillMatchDue,
+  isAutoFillService,
+  rankAutoFillCandidates,
+  resolveFeeRates,
+  SERVICE_STATUS,
+} from '../_shared/core.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { createStripeClient, ensureStripeCustomer, releaseAuthorization, type Stripe } from '../_shared/stripe.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://hecikcopbdhhiilhgmrd.supabase.co'
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+const googleMapsApiKey = Deno.env.get('GOOGLE_MAPS_API_KEY')
+
+const HOUR_MS = 60 * 60 * 1000
+
+const failed = (code: AutoFillMatchErrorCode, message: string, status: number) =>
+  jsonResponse({ status: 'failed', code, message } satisfies AutoFillMatchResult, status)
+
+// Nobody could be booked automatically; the customer chooses from the same bids instead
+const handOverToCustomer = async (
+  supabase: SupabaseClient,
+  serviceId: string,
+  reason: 'no_eligible_bids' | 'payment_failed',
+): Promise<AutoFillMatchResult> => {
+  const { error } = await supabase
+    .from('service')
+    .update({ autofill_type: 'Custom', autofill_closes_at: null })
+    .eq('service_id', serviceId)
+    .is('service_provider_id', null)
+
+  if (error) throw error
+  return { status: 'unmatched', serviceId, reason }
+}
+
+const matchService = async (
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  serviceId: string,
+  now: Date,
+): Promise<AutoFillMatchResult> => {
+  const { data: service, error: serviceError } = await supabase
+    .from('service')
+    .select('service_id, customer_id, service_type, status, service_provider_id, autofill_type, autofill_closes_at, scheduled_date_time, start_location, location, price, quote_id')
+    .eq('service_id', serviceId)
+    .single()
+
+  if (serviceError) throw serviceError
+  if (service.service_provider_id) {
+    return { status: 'assigned', serviceId, serviceProviderId: service.service_provider_id }
+  }
+
+  const { data: bids, error: bidsError } = await supabase
+    .from('service_fill_request')
+    .select('fill_request_id, service_provider_id, proposed_date_time, bid_latitude, bid_longitude')
+    .eq('service_id', serviceId)
+    .eq('status', FILL_REQUEST_STATUS.Pending)
+
+  if (bidsError) throw bidsError
+
+  const pendingBids = bids ?? []
+  if (
+    !isAutoFillService(service)
+    || service.status !== SERVICE_STATUS.SelectServiceProvider
+    || !isAutoFillMatchDue({ closesAt: service.autofill_closes_at, pendingBids: pendingBids.length }, now)
+  ) {
+    return { status: 'collecting', serviceId, closesAt: service.autofill_closes_at ?? null, pendingBids: pendingBids.length }
+  }
+
+  const providerIds = pendingBids.map(bid => bid.service_provider_id)
+
+  const [{ data: providers, error: providersError }, { data: assignedJobs, error: assignedError }, { data: quote, error: quoteError }] =
+    await Promise.all([
+      supabase.from('service_provider').select('service_provider_id, rating, reliability_score').in('service_provider_id', providerIds),
+      supabase
+        .from('service')
+        .select('service_provider_id, scheduled_date_time')
+        .in('service_provider_id', providerIds)
+        .in('status', ASSIGNED_SERVICE_STATUSES)
+        .not('scheduled_date_time', 'is', null),
+      service.quote_id
+        ? supabase.from('quotes').select('amount').eq('quote_id', service.quote_id).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+    ])
+
+  if (providersError) throw providersError
+  if (assignedError) throw assignedError
+  if (quoteError) throw quoteError
+
+  const jobLocation = await geocodeAddress(service.start_location || service.location, googleMapsApiKey)
+
+  const candidates: AutoFillCandidate[] = []
+  for (const bid of pendingBids) {
+    // Counter-offers count: score what the customer would actually pay
+    const { data: price, error: priceError } = await supabase.rpc('bookable_bid_price', {
+      p_service_id: serviceId,
+      p_service_provider_id: bid.service_provider_id,
+    })
+    if (priceError) throw priceError
+    if (price === null) continue
+
+    const provider = providers?.find(row => row.service_provider_id === bid.service_provider_id)
+    const jobTime = new Date(bid.proposed_date_time ?? service.scheduled_date_time ?? now).getTime()
+    const conflictingJobs = (assignedJobs ?? []).filter(job =>
+      job.service_provider_id === bid.service_provider_id
+      && Math.abs(new Date(job.scheduled_date_time).getTime() - jobTime) < AUTOFILL_CONFLICT_HOURS * HOUR_MS).length
+
+    candidates.push({
+      serviceProviderId: bid.service_provider_id,
+      price: Number(price),
+      rating: provider?.rating === null || provider?.rating === undefined ? null : Number(provider.rating),
+      reliabilityScore: provider?.reliability_score ?? null,
+      distanceMiles: jobLocation && bid.bid_latitude !== null && bid.bid_longitude !== null
+        ? distanceInMiles({ latitude: bid.bid_latitude, longitude: bid.bid_longitude }, jobLocation)
+        : null,
+      proposedDateTime: bid.proposed_date_time ?? null,
+      conflictingJobs,
+    })
+  }
+
+  const ranked = rankAutoFillCandidates(candidates, {
+    quotedPrice: Number(quote?.amount ?? service.price ?? 0) || null,
+    scheduledDateTime: service.scheduled_date_time ?? null,
+    now,
+  })
+
+  // Kept on every bid for analytics, winners and losers alike
+  const fillRequestIds = new Map(pendingBids.map(bid => [bid.service_provider_id, bid.fill_request_id]))
+  for (const scored of ranked) {
+    const { error: scoreError } = await supabase
+      .from('service_fill_request')
+      .update({ match_score: scored.score })
+      .eq('fill_request_id', fillRequestIds.get(scored.serviceProviderId))
+    if (scoreError) throw scoreError
+  }
+
+  const eligible = ranked.filter(scored => scored.eligible)
+  if (eligible.length === 0) {
+    return handOverToCustomer(supabase, serviceId, 'no_eligible_bids')
+  }
+
+  const { data: card, error: cardError } = await supabase
+    .from('payment_methods')
+    .select('stripe_pm_id')
+    .eq('user_id', service.customer_id)
+    .order('is_default', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (cardError) throw cardError
+  if (!card) {
+    return handOverToCustomer(supabase, serviceId, 'payment_failed')
+  }
+
+  const feeSchedule = await fetchFeeSchedule(supabase)
+  const stripeCustomerId = await ensureStripeCustomer(stripe, supabase, service.customer_id)
+
+  const prices = new Map(candidates.map(candidate => [candidate.serviceProviderId, candidate.price]))
+  for (const scored of eligible) {
+    const price = prices.get(scored.serviceProviderId) ?? 0
+    const amount = buildPriceBreakdown({
+      subtotal: price,
+      items: [{ kind: 'base', label: "Helpr's Bid", amount: price }],
+      fees: resolveFeeRates(feeSchedule, { serviceType: service.service_type }),
+    }).total
+
+    let paymentIntent: Stripe.PaymentIntent
+    try {
+      paymentIntent = await stripe.paymentIntents.create(
+        {
+          amount: Math.round(amount * 100),
+          currency: 'usd',
+          customer: stripeCustomerId,
+          payment_method: card.stripe_pm_id,
+          capture_method: 'manual',
+          off_session: true,
+          confirm: true,
+          metadata: { service_id: serviceId, service_provider_id: scored.serviceProviderId, customer_id: service.customer_id, autofill: 'true' },
+        },
+        { idempotencyKey: `match-autofill:${serviceId}:${scored.serviceProviderId}:${Math.round(price * 100)}:${card.stripe_pm_id}` },
+      )
+    } catch (stripeError) {
+      console.error('AutoFill authorization failed:', stripeError)
+      return handOverToCustomer(supabase, serviceId, 'payment_failed')
+    }
+
+    if (paymentIntent.status !== 'requires_capture') {
+      await releaseAuthorization(stripe, paymentIntent.id)
+      return handOverToCustomer(supabase, serviceId, 'payment_failed')
+    }
+
+    const { data: booked, error: bookError } = await supabase.rpc('confirm_booking', {
+      p_service_id: serviceId,
+      p_service_provider_id: scored.serviceProviderId,
+      p_payment_intent_id: paymentIntent.id,
+      p_fee_schedule_version: feeSchedule.version,
+      p_price: price,
+    })
+
+    if (!bookError && booked) {
+      return { status: 'assigned', serviceId, serviceProviderId: scored.serviceProviderId }
+    }
+
+    await releaseAuthorization(stripe, paymentIntent.id)
+
+    // The helpr withdrew or their price moved since scoring: try the next best
+    if (bookError?.message?.includes('bid_not_found') || bookError?.message?.includes('offer_changed')) {
+      continue
+    }
+    throw bookError ?? new Error('confirm_booking returned no service')
+  }
+
+  return handOverToCustomer(supabase, serviceId, 'no_eligible_bids')
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const stripe = createStripeClient()
+    if (!supabaseServiceKey || !stripe) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY or STRIPE_SECRET_KEY not configured')
+      return failed('server_error', 'AutoFill is not configured on the server', 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const now = new Date()
+    const jwt = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+
+    // Scheduled run: every job whose window has closed
+    if (jwt === supabaseServiceKey) {
+      const { data: due, error: dueError } = await supabase
+        .from('service')
+        .select('service_id')
+        .is('service_provider_id', null)
+        .eq('status', SERVICE_STATUS.SelectServiceProvider)
+        .lte('autofill_closes_at', now.toISOString())
+
+      if (dueError) throw dueError
+
+      const results: AutoFillMatchResult[] = []
+      const failedServices: string[] = []
+      for (const { service_id } of due ?? []) {
+        try {
+          results.push(await matchService(supabase, stripe, service_id, now))
+        } catch (error) {
+          console.error('Failed to match AutoFill service', service_id, error)
+          failedServices.push(service_id)
+        }
+      }
+
+      return jsonResponse({ success: true, results, failed: failedServices })
+    }
+
+    const { data: authData, error: authError } = await supabase.auth.getUser(jwt)
+    if (authError || !authData?.user) {
+      return failed('not_authenticated', 'Please sign in again.', 401)
+    }
+
+    const body: { serviceId?: string } = await req.json()
+    if (!body.serviceId) {
+      return failed('invalid_request', 'Missing serviceId', 400)
+    }
+
+    // Only the customer and the helprs bidding on the job may nudge the match
+    const { data: participant, error: participantError } = await supabase
+      .from('service')
+      .select('customer_id, service_fill_request(service_provider_id)')
+      .eq('service_id', body.serviceId)
+      .maybeSingle()
+
+    if (participantError) throw participantError
+    const userId = authData.user.id
+    const isParticipant = participant && (
+      participant.customer_id === userId
+      || (participant.service_fill_request ?? []).some((bid: { service_provider_id: string }) => bid.service_provider_id === userId)
+    )
+    if (!isParticipant) {
+      return failed('service_not_found', 'We could not find this job.', 404)
+    }
+
+    return jsonResponse(await matchService(supabase, stripe, body.serviceId, now))
+  } catch (error) {
+    console.error('Error matching AutoFill service:', error)
+    return failed('server_error', 'Unable to match this job right now. Please try again.', 500)
+  }
+})
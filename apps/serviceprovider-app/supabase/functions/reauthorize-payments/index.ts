@@ -0,0 +1,108 @@
+// Supabase Edge Function that renews card holds before Stripe's 7-day authorization expiry
+// Jobs booked further out than the hold window are re-authorized off-session with the
+// customer's saved card; the new hold replaces the old one, which is then released.
+// Schedule it daily (Supabase dashboard → Integrations → Cron) with the service role key.
+// Deploy with: supabase functions deploy reauthorize-payments
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4'
+
+import { ASSIGNED_SERVICE_STATUSES } from '../_shared/core.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { createStripeClient, REAUTHORIZE_AFTER_DAYS, releaseAuthorization } from '../_shared/stripe.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://hecikcopbdhhiilhgmrd.supabase.co'
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const stripe = createStripeClient()
+    if (!supabaseServiceKey || !stripe) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY or STRIPE_SECRET_KEY not configured')
+      return jsonResponse({ success: false, error: 'Payments are not configured on the server' }, 500)
+    }
+
+    const jwt = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+    if (jwt !== supabaseServiceKey) {
+      return jsonResponse({ success: false, error: 'Not authorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const renewBefore = new Date(Date.now() - REAUTHORIZE_AFTER_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+    const { data: services, error: servicesError } = await supabase
+      .from('service')
+      .select('service_id, payment_intent_id')
+      .eq('payment_status', 'authorized')
+      .in('status', ASSIGNED_SERVICE_STATUSES)
+      .lt('payment_authorized_at', renewBefore)
+      .not('payment_intent_id', 'is', null)
+
+    if (servicesError) throw servicesError
+
+    const renewed: string[] = []
+    const failedServices: string[] = []
+
+    for (const service of services ?? []) {
+      try {
+        const current = await stripe.paymentIntents.retrieve(service.payment_intent_id)
+        if (!current.customer || !current.payment_method) {
+          throw new Error(`Payment ${current.id} has no saved card`)
+        }
+
+        const replacement = await stripe.paymentIntents.create(
+          {
+            amount: current.amount,
+            currency: current.currency,
+            customer: typeof current.customer === 'string' ? current.customer : current.customer.id,
+            payment_method: typeof current.payment_method === 'string' ? current.payment_method : current.payment_method.id,
+            capture_method: 'manual',
+            off_session: true,
+            confirm: true,
+            metadata: { ...current.metadata, replaces_payment_intent: current.id },
+          },
+          { idempotencyKey: `reauthorize:${current.id}` },
+        )
+
+        if (replacement.status !== 'requires_capture') {
+          throw new Error(`Re-authorization ${replacement.id} is ${replacement.status}`)
+        }
+
+        // Guarded on the old intent so a concurrent completion is never overwritten
+        const { data: updated, error: updateError } = await supabase
+          .from('service')
+          .update({ payment_intent_id: replacement.id, payment_authorized_at: new Date().toISOString() })
+          .eq('service_id', service.service_id)
+          .eq('payment_intent_id', current.id)
+          .eq('payment_status', 'authorized')
+          .select('service_id')
+
+        if (updateError) throw updateError
+
+        if (updated && updated.length > 0) {
+          await releaseAuthorization(stripe, current.id)
+          renewed.push(service.service_id)
+        } else {
+          await releaseAuthorization(stripe, replacement.id)
+        }
+      } catch (error) {
+        console.error('Failed to re-authorize service', service.service_id, error)
+        failedServices.push(service.service_id)
+        await supabase
+          .from('service')
+          .update({ payment_status: 'authorization_failed' })
+          .eq('service_id', service.service_id)
+          .eq('payment_intent_id', service.payment_intent_id)
+      }
+    }
+
+    return jsonResponse({ success: true, renewed, failed: failedServices })
+  } catch (error) {
+    console.error('Error re-authorizing payments:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Failed to re-authorize payments'
+    return jsonResponse({ success: false, error: errorMessage }, 500)
+  }
+})
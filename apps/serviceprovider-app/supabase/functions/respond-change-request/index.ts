@@ -0,0 +1,155 @@
+// Supabase Edge Function the assigned helpr calls to approve or reject a customer's change request
+// When an approved change moves the price, a new hold for the new total is placed on the
+// customer's saved card before `resolve_service_change` applies the new terms; the old
+// hold is released only after that succeeds, so the job is never left without one.
+// Deploy with: supabase functions deploy respond-change-request
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4'
+
+import {
+  buildPriceBreakdown,
+  fetchFeeSchedule,
+  resolveFeeRates,
+  type RespondToChangeErrorCode,
+  type RespondToChangeRequest,
+  type RespondToChangeResult,
+} from '../_shared/core.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { createStripeClient, releaseAuthorization, type Stripe } from '../_shared/stripe.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://hecikcopbdhhiilhgmrd.supabase.co'
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+const RPC_ERROR_CODES: RespondToChangeErrorCode[] = ['change_request_not_found', 'change_request_closed', 'service_not_editable']
+
+const failed = (code: RespondToChangeErrorCode, message: string, status: number) =>
+  jsonResponse({ status: 'failed', code, message } satisfies RespondToChangeResult, status)
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (!supabaseServiceKey) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured')
+      return failed('server_error', 'Change requests are not configured on the server', 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const jwt = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+    const { data: authData, error: authError } = await supabase.auth.getUser(jwt)
+    if (authError || !authData?.user) {
+      return failed('not_authenticated', 'Please sign in again.', 401)
+    }
+
+    const body: Partial<RespondToChangeRequest> = await req.json()
+    if (!body.changeRequestId || typeof body.approve !== 'boolean') {
+      return failed('invalid_request', 'Missing changeRequestId or approve', 400)
+    }
+
+    const { data: changeRequest, error: changeError } = await supabase
+      .from('service_change_request')
+      .select('change_request_id, service_id, service_provider_id, status, price')
+      .eq('change_request_id', body.changeRequestId)
+      .maybeSingle()
+
+    if (changeError) throw changeError
+    if (!changeRequest || changeRequest.service_provider_id !== authData.user.id) {
+      return failed('change_request_not_found', 'This change request no longer exists.', 404)
+    }
+
+    const { data: service, error: serviceError } = await supabase
+      .from('service')
+      .select('service_id, service_type, price, payment_intent_id, fee_schedule_version')
+      .eq('service_id', changeRequest.service_id)
+      .single()
+
+    if (serviceError) throw serviceError
+
+    // Only a pending approval that changes the price needs a new hold
+    const newPrice = changeRequest.price === null ? null : Number(changeRequest.price)
+    const needsNewHold = body.approve
+      && changeRequest.status === 'pending'
+      && newPrice !== null
+      && newPrice !== Number(service.price)
+      && Boolean(service.payment_intent_id)
+
+    const stripe = needsNewHold ? createStripeClient() : null
+    if (needsNewHold && !stripe) {
+      console.error('❌ STRIPE_SECRET_KEY not configured')
+      return failed('server_error', 'Change requests are not configured on the server', 500)
+    }
+
+    let newHold: Stripe.PaymentIntent | null = null
+    if (stripe && newPrice !== null) {
+      try {
+        const current = await stripe.paymentIntents.retrieve(service.payment_intent_id)
+        if (current.status === 'succeeded') {
+          return failed('payment_failed', 'This booking was paid up front, so its price cannot be changed.', 409)
+        }
+        if (!current.customer || !current.payment_method) {
+          throw new Error(`Payment ${current.id} has no saved card`)
+        }
+
+        const feeSchedule = await fetchFeeSchedule(supabase, service.fee_schedule_version)
+        const amount = buildPriceBreakdown({
+          subtotal: newPrice,
+          fees: resolveFeeRates(feeSchedule, { serviceType: service.service_type }),
+        }).total
+
+        newHold = await stripe.paymentIntents.create(
+          {
+            amount: Math.round(amount * 100),
+            currency: current.currency,
+            customer: typeof current.customer === 'string' ? current.customer : current.customer.id,
+            payment_method: typeof current.payment_method === 'string' ? current.payment_method : current.payment_method.id,
+            capture_method: 'manual',
+            off_session: true,
+            confirm: true,
+            metadata: { ...current.metadata, change_request_id: changeRequest.change_request_id, replaces_payment_intent: current.id },
+          },
+          { idempotencyKey: `change-request:${changeRequest.change_request_id}` },
+        )
+
+        if (newHold.status !== 'requires_capture') {
+          throw new Error(`Authorization ${newHold.id} is ${newHold.status}`)
+        }
+      } catch (stripeError) {
+        console.error('Could not authorize the new price:', stripeError)
+        return failed('payment_failed', "The customer's card could not cover the new price. Ask them to update their card.", 402)
+      }
+    }
+
+    const { error: resolveError } = await supabase.rpc('resolve_service_change', {
+      p_change_request_id: changeRequest.change_request_id,
+      p_approve: body.approve,
+      p_response_note: body.note?.trim() || null,
+      p_payment_intent_id: newHold?.id ?? null,
+    })
+
+    if (resolveError) {
+      if (stripe && newHold) {
+        await releaseAuthorization(stripe, newHold.id)
+      }
+      const code = RPC_ERROR_CODES.find(candidate => resolveError.message?.includes(candidate)) ?? 'server_error'
+      const message = code === 'server_error'
+        ? 'We could not update this job. Please try again.'
+        : code === 'service_not_editable' ? 'This job can no longer be changed.' : 'This change request was already answered or replaced.'
+      return failed(code, message, code === 'server_error' ? 500 : 409)
+    }
+
+    if (stripe && newHold) {
+      await releaseAuthorization(stripe, service.payment_intent_id)
+    }
+
+    return jsonResponse({
+      status: body.approve ? 'approved' : 'rejected',
+      changeRequestId: changeRequest.change_request_id,
+    } satisfies RespondToChangeResult)
+  } catch (error) {
+    console.error('Error responding to change request:', error)
+    return failed('server_error', 'Unable to respond to this change request. Please try again.', 500)
+  }
+})
@@ -0,0 +1,344 @@
+// Supabase Edge Function that delivers queued push notifications
+// Database triggers queue a `push_events` row for job lifecycle changes and post its id here
+// (see the push_notifications migration). Each event is claimed, its recipients are
+// resolved from the job, and every message is stored in `notifications` for the in-app inbox
+// before it goes out through Expo's push service. Tokens Expo reports as unregistered are deleted.
+// An event is marked sent only once Expo has accepted every batch; otherwise its claim is
+// released and a later run retries it, up to MAX_ATTEMPTS times.
+// New jobs go to helprs whose devices were last seen within NEW_JOB_RADIUS_MILES of the job,
+// or only to the helpr a recurring visit is offered to.
+// Schedule it every few minutes (Supabase dashboard → Integrations → Cron) with the service
+// role key to drain events that were queued while the trigger could not reach it.
+// Deploy with: supabase functions deploy send-push-notifications
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4'
+
+import {
+  describeArrivalNotification,
+  describeChangeAnswerNotification,
+  describeChangeRequestNotification,
+  describeCounterNotification,
+  describeNewBidNotification,
+  describeNewJobNotification,
+  describeStatusNotification,
+  distanceInMiles,
+  geocodeAddress,
+  NEW_JOB_RADIUS_MILES,
+  normalizeServiceStatus,
+  type PushApp,
+  type PushEventRow,
+  type PushMessage,
+} from '../_shared/core.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://hecikcopbdhhiilhgmrd.supabase.co'
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+const googleMapsApiKey = Deno.env.get('GOOGLE_MAPS_API_KEY')
+// Only needed when enhanced push security is enabled for the Expo project
+const expoAccessToken = Deno.env.get('EXPO_ACCESS_TOKEN')
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send'
+// Expo accepts at most 100 messages per request
+const EXPO_BATCH_SIZE = 100
+const DRAIN_LIMIT = 50
+const MAX_ATTEMPTS = 5
+// A run that dies mid-send leaves its claim behind; after this long another run may take over
+const CLAIM_LEASE_SECONDS = 300
+
+type Delivery = { userIds: string[]; app: PushApp; message: PushMessage }
+
+type ServiceSummary = {
+  service_id: string
+  customer_id: string
+  service_provider_id: string | null
+  service_type: string | null
+  location: string | null
+  start_location: string | null
+  offered_to_provider_id: string | null
+  offer_expires_at: string | null
+}
+
+const single = (userId: string | null | undefined, app: PushApp, message: PushMessage | null): Delivery[] =>
+  userId && message ? [{ userIds: [userId], app, message }] : []
+
+// Helprs with a registered device near the job
+const findNearbyProviders = async (supabase: SupabaseClient, service: ServiceSummary): Promise<string[]> => {
+  const jobLocation = await geocodeAddress(service.start_location || service.location, googleMapsApiKey)
+  if (!jobLocation) return []
+
+  const { data: tokens, error } = await supabase
+    .from('push_tokens')
+    .select('user_id, latitude, longitude')
+    .eq('app', 'provider')
+    .not('latitude', 'is', null)
+    .not('longitude', 'is', null)
+
+  if (error) throw error
+
+  const nearby = (tokens ?? []).filter(token =>
+    distanceInMiles({ latitude: token.latitude, longitude: token.longitude }, jobLocation) <= NEW_JOB_RADIUS_MILES)
+  return [...new Set(nearby.map(token => token.user_id as string))]
+}
+
+const resolveDeliveries = async (
+  supabase: SupabaseClient,
+  event: PushEventRow,
+  service: ServiceSummary,
+): Promise<Delivery[]> => {
+  const payload = event.payload ?? {}
+
+  switch (event.kind) {
+    case 'status_changed': {
+      const status = normalizeServiceStatus(payload.to_status as string | null)
+      const sideEffects = (payload.side_effects as string[] | undefined) ?? []
+      if (!status) return []
+
+      const deliveries: Delivery[] = []
+      if (sideEffects.includes('notify_customer')) {
+        deliveries.push(...single(service.customer_id, 'customer', describeStatusNotification('customer', service.service_id, status)))
+      }
+      if (sideEffects.includes('notify_provider')) {
+        deliveries.push(...single(service.service_provider_id, 'provider', describeStatusNotification('provider', service.service_id, status)))
+      }
+      if (sideEffects.includes('notify_other_bidders')) {
+        const { data: bids, error } = await supabase
+          .from('service_fill_request')
+          .select('service_provider_id')
+          .eq('service_id', service.service_id)
+
+        if (error) throw error
+        const others = (bids ?? [])
+          .map(bid => bid.service_provider_id as string)
+          .filter(providerId => providerId !== service.service_provider_id)
+        const message = describeStatusNotification('other_bidder', service.service_id, status)
+        if (others.length > 0 && message) {
+          deliveries.push({ userIds: others, app: 'provider', message })
+        }
+      }
+      return deliveries
+    }
+
+    case 'new_job': {
+      if (service.service_provider_id) return []
+      const message = describeNewJobNotification(service.service_id, service.service_type)
+      const offerOpen = service.offered_to_provider_id
+        && service.offer_expires_at
+        && new Date(service.offer_expires_at).getTime() > Date.now()
+      if (offerOpen) {
+        return single(service.offered_to_provider_id, 'provider', message)
+      }
+      const providerIds = await findNearbyProviders(supabase, service)
+      return providerIds.length > 0 ? [{ userIds: providerIds, app: 'provider', message }] : []
+    }
+
+    case 'new_bid':
+      return single(service.customer_id, 'customer', describeNewBidNotification(service.service_id, payload.bid as number | null))
+
+    case 'bid_countered':
+      return payload.offered_by === 'customer'
+        ? single(
+            payload.service_provider_id as string,
+            'provider',
+            describeCounterNotification('provider', service.service_id, payload.amount as number | null),
+          )
+        : single(service.customer_id, 'customer', describeCounterNotification('customer', service.service_id, payload.amount as number | null))
+
+    case 'change_requested':
+      return single(payload.service_provider_id as string, 'provider', describeChangeRequestNotification(service.service_id))
+
+    case 'change_answered':
+      return single(service.customer_id, 'customer', describeChangeAnswerNotification(service.service_id, payload.status === 'approved'))
+
+    case 'helpr_arrived':
+      return single(service.customer_id, 'customer', describeArrivalNotification(service.service_id))
+
+    default:
+      return []
+  }
+}
+
+// One inbox row per recipient; a retried event does not write them twice
+const storeNotifications = async (supabase: SupabaseClient, eventId: string, deliveries: Delivery[]) => {
+  const rows = deliveries.flatMap(({ userIds, app, message }) => userIds.map(userId => ({
+    user_id: userId,
+    app,
+    event_id: eventId,
+    kind: message.data.kind,
+    service_id: message.data.serviceId,
+    title: message.title,
+    body: message.body,
+    target: message.data.target,
+  })))
+
+  const { error } = await supabase
+    .from('notifications')
+    .upsert(rows, { onConflict: 'event_id,user_id,app', ignoreDuplicates: true })
+
+  if (error) throw error
+}
+
+// Returns how many messages Expo accepted
+const sendDeliveries = async (supabase: SupabaseClient, deliveries: Delivery[]): Promise<number> => {
+  const messages: { to: string; title: string; body: string; data: PushMessage['data']; sound: 'default' }[] = []
+
+  for (const delivery of deliveries) {
+    const { data: tokens, error } = await supabase
+      .from('push_tokens')
+      .select('token')
+      .eq('app', delivery.app)
+      .in('user_id', delivery.userIds)
+
+    if (error) throw error
+    for (const { token } of tokens ?? []) {
+      const { title, body, data } = delivery.message
+      messages.push({ to: token, title, body, data, sound: 'default' })
+    }
+  }
+
+  let accepted = 0
+  let failedBatches = 0
+  const unregistered: string[] = []
+
+  for (let start = 0; start < messages.length; start += EXPO_BATCH_SIZE) {
+    const batch = messages.slice(start, start + EXPO_BATCH_SIZE)
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...(expoAccessToken ? { Authorization: `Bearer ${expoAccessToken}` } : {}),
+      },
+      body: JSON.stringify(batch),
+    })
+
+    if (!response.ok) {
+      console.error('Expo push request failed:', response.status, await response.text())
+      failedBatches += 1
+      continue
+    }
+
+    const { data: tickets } = await response.json()
+    ;(tickets ?? []).forEach((ticket: { status: string; message?: string; details?: { error?: string } }, index: number) => {
+      if (ticket.status === 'ok') {
+        accepted += 1
+      } else if (ticket.details?.error === 'DeviceNotRegistered') {
+        unregistered.push(batch[index].to)
+      } else {
+        console.warn('Expo push ticket error:', ticket.message ?? ticket.details?.error)
+      }
+    })
+  }
+
+  if (unregistered.length > 0) {
+    const { error } = await supabase.from('push_tokens').delete().in('token', unregistered)
+    if (error) console.error('Failed to delete unregistered push tokens:', error)
+  }
+
+  if (failedBatches > 0) {
+    throw new Error(`Expo rejected ${failedBatches} of ${Math.ceil(messages.length / EXPO_BATCH_SIZE)} push requests`)
+  }
+
+  return accepted
+}
+
+const processEvent = async (supabase: SupabaseClient, event: PushEventRow): Promise<number> => {
+  const { data: service, error } = await supabase
+    .from('service')
+    .select('service_id, customer_id, service_provider_id, service_type, location, start_location, offered_to_provider_id, offer_expires_at')
+    .eq('service_id', event.service_id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!service) return 0
+
+  const deliveries = await resolveDeliveries(supabase, event, service as ServiceSummary)
+  if (deliveries.length === 0) return 0
+
+  await storeNotifications(supabase, event.event_id, deliveries)
+  return sendDeliveries(supabase, deliveries)
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (!supabaseServiceKey) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY not configured')
+      return jsonResponse({ success: false, error: 'Push notifications are not configured on the server' }, 500)
+    }
+
+    const jwt = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+    if (jwt !== supabaseServiceKey) {
+      return jsonResponse({ success: false, error: 'Not authorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const body: { eventId?: string } = await req.json().catch(() => ({}))
+
+    let eventIds: string[]
+    if (body.eventId) {
+      eventIds = [body.eventId]
+    } else {
+      const { data: pending, error: pendingError } = await supabase
+        .from('push_events')
+        .select('event_id')
+        .is('sent_at', null)
+        .lt('attempts', MAX_ATTEMPTS)
+        .order('created_at', { ascending: true })
+        .limit(DRAIN_LIMIT)
+
+      if (pendingError) throw pendingError
+      eventIds = (pending ?? []).map(event => event.event_id)
+    }
+
+    const processed: string[] = []
+    const failedEvents: string[] = []
+    let sent = 0
+
+    for (const eventId of eventIds) {
+      // Claiming first means the trigger and a scheduled run never both send the same event
+      const { data: claimed, error: claimError } = await supabase.rpc('claim_push_event', {
+        p_event_id: eventId,
+        p_max_attempts: MAX_ATTEMPTS,
+        p_lease_seconds: CLAIM_LEASE_SECONDS,
+      })
+
+      if (claimError) {
+        console.error('Failed to claim push event', eventId, claimError)
+        failedEvents.push(eventId)
+        continue
+      }
+      const event = (claimed as PushEventRow[] | null)?.[0]
+      if (!event) continue
+
+      try {
+        sent += await processEvent(supabase, event)
+      } catch (error) {
+        console.error('Failed to send push event', eventId, error)
+        failedEvents.push(eventId)
+        // Release the claim so the next run retries it
+        const { error: releaseError } = await supabase
+          .from('push_events')
+          .update({ claimed_at: null })
+          .eq('event_id', eventId)
+        if (releaseError) console.error('Failed to release push event', eventId, releaseError)
+        continue
+      }
+
+      const { error: sentError } = await supabase
+        .from('push_events')
+        .update({ sent_at: new Date().toISOString() })
+        .eq('event_id', eventId)
+      if (sentError) console.error('Failed to mark push event sent', eventId, sentError)
+      processed.push(eventId)
+    }
+
+    return jsonResponse({ success: true, processed, sent, failed: failedEvents })
+  } catch (error) {
+    console.error('Error sending push notifications:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Failed to send push notifications'
+    return jsonResponse({ success: false, error: errorMessage }, 500)
+  }
+})
@@ -0,0 +1,206 @@
+// Supabase Edge Function that tips the helpr after a completed job
+// The tip is charged to one of the customer's saved cards as a destination charge on the
+// helpr's Connect account with no application fee, so the helpr receives all of it and the
+// fee schedule never applies. `record_service_tip` then stores it and credits the helpr's
+// balance; if that fails the charge is refunded, so a customer is never charged for a tip
+// that was not recorded.
+// Every Stripe call is keyed by service, amount and card, so retries are safe.
+// Deploy with: supabase functions deploy send-tip
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4'
+
+import {
+  type SendTipErrorCode,
+  type SendTipRequest,
+  type SendTipResult,
+  SERVICE_STATUS,
+  validateTipAmount,
+} from '../_shared/core.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { attachPaymentMethod, createStripeClient, ensureStripeCustomer, type Stripe } from '../_shared/stripe.ts'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'https://hecikcopbdhhiilhgmrd.supabase.co'
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+const RPC_ERROR_CODES: SendTipErrorCode[] = ['service_not_found', 'not_completed', 'already_tipped']
+
+const failed = (code: SendTipErrorCode, message: string, status: number) =>
+  jsonResponse({ status: 'failed', code, message } satisfies SendTipResult, status)
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const stripe = createStripeClient()
+    if (!supabaseServiceKey || !stripe) {
+      console.error('❌ SUPABASE_SERVICE_ROLE_KEY or STRIPE_SECRET_KEY not configured')
+      return failed('server_error', 'Tipping is not configured on the server', 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const jwt = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '')
+    const { data: authData, error: authError } = await supabase.auth.getUser(jwt)
+    if (authError || !authData?.user) {
+      return failed('not_authenticated', 'Please sign in again.', 401)
+    }
+    const customerId = authData.user.id
+
+    const body: Partial<SendTipRequest> = await req.json()
+    const { serviceId, paymentMethodId } = body
+    const amount = Number(body.amount)
+    const percent = typeof body.percent === 'number' && Number.isFinite(body.percent) ? body.percent : null
+
+    if (!serviceId || !paymentMethodId) {
+      return failed('invalid_request', 'Missing required parameters: serviceId, paymentMethodId', 400)
+    }
+
+    const amountError = validateTipAmount(amount)
+    if (amountError) {
+      return failed('invalid_amount', amountError, 400)
+    }
+
+    const { data: service, error: serviceError } = await supabase
+      .from('service')
+      .select('service_id, customer_id, service_provider_id, status')
+      .eq('service_id', serviceId)
+      .maybeSingle()
+
+    if (serviceError) throw serviceError
+    if (!service || service.customer_id !== customerId) {
+      return failed('service_not_found', 'Service not found.', 404)
+    }
+    if (service.status !== SERVICE_STATUS.Completed || !service.service_provider_id) {
+      return failed('not_completed', 'You can tip once the job is completed.', 409)
+    }
+
+    const { data: existingTip, error: tipError } = await supabase
+      .from('service_tip')
+      .select('amount, payment_intent_id')
+      .eq('service_id', serviceId)
+      .maybeSingle()
+
+    if (tipError) throw tipError
+
+    const { data: provider, error: providerError } = await supabase
+      .from('service_provider')
+      .select('stripe_account_id')
+      .eq('service_provider_id', service.service_provider_id)
+      .single()
+
+    if (providerError) throw providerError
+    if (!provider.stripe_account_id) {
+      return failed('helpr_not_payable', 'This Helpr has not finished setting up payouts yet. Please try again later.', 409)
+    }
+
+    const { data: savedCard, error: cardError } = await supabase
+      .from('payment_methods')
+      .select('id')
+      .eq('user_id', customerId)
+      .eq('stripe_pm_id', paymentMethodId)
+      .maybeSingle()
+
+    if (cardError) throw cardError
+    if (!savedCard) {
+      return failed('invalid_request', 'Selected payment method not found.', 400)
+    }
+
+    const idempotencyKey = `send-tip:${serviceId}:${Math.round(amount * 100)}:${paymentMethodId}`
+
+    // A replay of the tip that was recorded still succeeds; any other tip is a second one
+    if (existingTip) {
+      const replayed = await stripe.paymentIntents.retrieve(existingTip.payment_intent_id)
+      if (replayed.metadata?.idempotency_key === idempotencyKey) {
+        return jsonResponse({
+          status: 'tipped',
+          serviceId,
+          amount: Number(existingTip.amount),
+          paymentIntentId: existingTip.payment_intent_id,
+        } satisfies SendTipResult)
+      }
+      return failed('already_tipped', 'You already tipped for this job.', 409)
+    }
+
+    let paymentIntent: Stripe.PaymentIntent
+    try {
+      const stripeCustomerId = await ensureStripeCustomer(stripe, supabase, customerId, authData.user.email)
+      if (!(await attachPaymentMethod(stripe, paymentMethodId, stripeCustomerId))) {
+        return failed('invalid_request', 'Selected payment method not found.', 400)
+      }
+
+      paymentIntent = await stripe.paymentIntents.create(
+        {
+          amount: Math.round(amount * 100),
+          currency: 'usd',
+          customer: stripeCustomerId,
+          payment_method: paymentMethodId,
+          confirm: true,
+          automatic_payment_methods: { enabled: true, allow_redirects: 'never' },
+          // No application_fee_amount: the full tip is transferred to the helpr
+          transfer_data: { destination: provider.stripe_account_id },
+          metadata: {
+            kind: 'tip',
+            service_id: serviceId,
+            service_provider_id: service.service_provider_id,
+            customer_id: customerId,
+            idempotency_key: idempotencyKey,
+          },
+        },
+        { idempotencyKey },
+      )
+      // A replayed create returns the original response; read the live status instead
+      if (paymentIntent.status !== 'succeeded') {
+        paymentIntent = await stripe.paymentIntents.retrieve(paymentIntent.id)
+      }
+    } catch (stripeError) {
+      console.error('Tip charge failed:', stripeError)
+      const message = stripeError instanceof Error ? stripeError.message : 'Your card could not be charged.'
+      return failed('payment_failed', message, 402)
+    }
+
+    if (paymentIntent.status === 'requires_action' && paymentIntent.client_secret) {
+      return jsonResponse({ status: 'requires_action', clientSecret: paymentIntent.client_secret } satisfies SendTipResult)
+    }
+
+    if (paymentIntent.status !== 'succeeded') {
+      return failed('payment_failed', 'Your card could not be charged.', 402)
+    }
+
+    const { error: recordError } = await supabase.rpc('record_service_tip', {
+      p_service_id: serviceId,
+      p_amount: amount,
+      p_percent: percent,
+      p_payment_intent_id: paymentIntent.id,
+    })
+
+    if (recordError) {
+      console.error('Tip charged but not recorded, refunding:', recordError)
+      try {
+        await stripe.refunds.create(
+          { payment_intent: paymentIntent.id, reverse_transfer: true },
+          { idempotencyKey: `refund-tip:${paymentIntent.id}` },
+        )
+      } catch (refundError) {
+        console.error('Failed to refund tip', paymentIntent.id, refundError)
+      }
+
+      const code = RPC_ERROR_CODES.find(candidate => recordError.message?.includes(candidate)) ?? 'server_error'
+      const message = code === 'already_tipped'
+        ? 'You already tipped for this job. Your card has not been charged again.'
+        : 'We could not send your tip. Your card has not been charged.'
+      return failed(code, message, code === 'server_error' ? 500 : 409)
+    }
+
+    return jsonResponse({
+      status: 'tipped',
+      serviceId,
+      amount,
+      paymentIntentId: paymentIntent.id,
+    } satisfies SendTipResult)
+  } catch (error) {
+    console.error('Error sending tip:', error)
+    return failed('server_error', 'Unable to send your tip. Please try again.', 500)
+  }
+})
@@ -0,0 +1,80 @@
+-- Customer and helpr profiles.
+-- Both are keyed by the auth user id. Profiles are readable by any signed-in user
+-- (names and photos appear on job cards and bids); each user edits only their own.
+-- Money and reputation columns on service_provider are written by the service role only.
+
+create table if not exists public.customer (
+  customer_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  first_name text,
+  last_name text,
+  email text not null unique,
+  phone_number text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.customer enable row level security;
+
+drop policy if exists "Customers can read their own profile" on public.customer;
+create policy "Customers can read their own profile"
+  on public.customer for select
+  to authenticated
+  using (customer_id = auth.uid());
+
+drop policy if exists "Customers can create their own profile" on public.customer;
+create policy "Customers can create their own profile"
+  on public.customer for insert
+  to authenticated
+  with check (customer_id = auth.uid());
+
+drop policy if exists "Customers can update their own profile" on public.customer;
+create policy "Customers can update their own profile"
+  on public.customer for update
+  to authenticated
+  using (customer_id = auth.uid())
+  with check (customer_id = auth.uid());
+
+create table if not exists public.service_provider (
+  service_provider_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  first_name text,
+  last_name text,
+  email text,
+  phone text,
+  profile_picture_url text,
+  jobs_completed integer not null default 0,
+  rating numeric(3, 2),
+  balance numeric(10, 2) not null default 0,
+  stripe_account_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists service_provider_email_idx on public.service_provider (email);
+
+alter table public.service_provider enable row level security;
+
+drop policy if exists "Signed-in users can read helpr profiles" on public.service_provider;
+create policy "Signed-in users can read helpr profiles"
+  on public.service_provider for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Helprs can create their own profile" on public.service_provider;
+create policy "Helprs can create their own profile"
+  on public.service_provider for insert
+  to authenticated
+  with check (
+    service_provider_id = auth.uid()
+    and jobs_completed = 0
+    and rating is null
+    and balance = 0
+  );
+
+drop policy if exists "Helprs can update their own profile" on public.service_provider;
+create policy "Helprs can update their own profile"
+  on public.service_provider for update
+  to authenticated
+  using (service_provider_id = auth.uid())
+  with check (service_provider_id = auth.uid());
+
+-- Profile fields only; jobs_completed, rating, balance and stripe_account_id stay server-side
+revoke update on public.service_provider from anon, authenticated;
+grant update (first_name, last_name, email, phone, profile_picture_url) on public.service_provider to authenticated;
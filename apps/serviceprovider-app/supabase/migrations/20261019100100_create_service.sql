@@ -0,0 +1,177 @@
+-- Service requests and helpr bids (service_fill_request).
+-- Customers see and manage only their own requests and every bid on them.
+-- Helprs see open requests plus the jobs assigned to them, and only their own bids.
+-- Status changes are further restricted by the lifecycle trigger
+-- (see 20261019140000_service_status_transitions.sql).
+
+create or replace function public.is_service_provider()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.service_provider where service_provider_id = auth.uid());
+$$;
+
+-- Reads the row as it was before the update, so policies can tell an assigned job from a claim
+create or replace function public.is_assigned_provider(p_service_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.service where service_id = p_service_id and service_provider_id = auth.uid()
+  );
+$$;
+
+create table if not exists public.service (
+  service_id uuid primary key default gen_random_uuid(),
+  customer_id uuid not null references public.customer (customer_id) on delete cascade,
+  service_provider_id uuid references public.service_provider (service_provider_id) on delete set null,
+  service_type text not null,
+  status text not null default 'finding_pros',
+  scheduling_type text,
+  scheduled_date_time timestamptz,
+  date_of_creation timestamptz not null default now(),
+  location text,
+  start_location text,
+  end_location text,
+  start_datetime timestamptz,
+  end_datetime timestamptz,
+  description text,
+  price numeric(10, 2),
+  payment_method_type text,
+  payment_status text,
+  autofill_type text,
+  provider_rating numeric(2, 1),
+  provider_review text,
+  customer_rating numeric(2, 1),
+  customer_review text
+);
+
+create index if not exists service_customer_id_idx on public.service (customer_id);
+create index if not exists service_service_provider_id_idx on public.service (service_provider_id);
+create index if not exists service_status_idx on public.service (status);
+
+alter table public.service enable row level security;
+
+drop policy if exists "Customers can read their own services" on public.service;
+create policy "Customers can read their own services"
+  on public.service for select
+  to authenticated
+  using (customer_id = auth.uid());
+
+drop policy if exists "Helprs can read open and assigned services" on public.service;
+create policy "Helprs can read open and assigned services"
+  on public.service for select
+  to authenticated
+  using (
+    service_provider_id = auth.uid()
+    or (
+      service_provider_id is null
+      and status in ('finding_pros', 'select_service_provider')
+      and public.is_service_provider()
+    )
+  );
+
+drop policy if exists "Customers can create their own services" on public.service;
+create policy "Customers can create their own services"
+  on public.service for insert
+  to authenticated
+  with check (customer_id = auth.uid() and service_provider_id is null);
+
+drop policy if exists "Customers can update their own services" on public.service;
+create policy "Customers can update their own services"
+  on public.service for update
+  to authenticated
+  using (customer_id = auth.uid())
+  with check (customer_id = auth.uid());
+
+-- Open jobs stay unassigned (bidding only moves their status); assigned helprs can progress
+-- or release theirs. A helpr is assigned when the booking is confirmed, never by claiming the row.
+drop policy if exists "Helprs can update open and assigned services" on public.service;
+create policy "Helprs can update open and assigned services"
+  on public.service for update
+  to authenticated
+  using (
+    service_provider_id = auth.uid()
+    or (service_provider_id is null and public.is_service_provider())
+  )
+  with check (
+    service_provider_id is null
+    or (service_provider_id = auth.uid() and public.is_assigned_provider(service_id))
+  );
+
+drop policy if exists "Customers can delete their own services" on public.service;
+create policy "Customers can delete their own services"
+  on public.service for delete
+  to authenticated
+  using (customer_id = auth.uid());
+
+-- Helprs see the customer's name once they can see one of the customer's jobs
+drop policy if exists "Helprs can read customers of visible services" on public.customer;
+create policy "Helprs can read customers of visible services"
+  on public.customer for select
+  to authenticated
+  using (exists (select 1 from public.service s where s.customer_id = customer.customer_id));
+
+create table if not exists public.service_fill_request (
+  service_id uuid not null references public.service (service_id) on delete cascade,
+  service_provider_id uuid not null references public.service_provider (service_provider_id) on delete cascade,
+  bid numeric(10, 2) not null check (bid >= 0),
+  proposed_date_time timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (service_id, service_provider_id)
+);
+
+create index if not exists service_fill_request_provider_idx on public.service_fill_request (service_provider_id);
+
+alter table public.service_fill_request enable row level security;
+
+drop policy if exists "Helprs can read their own bids" on public.service_fill_request;
+create policy "Helprs can read their own bids"
+  on public.service_fill_request for select
+  to authenticated
+  using (service_provider_id = auth.uid());
+
+drop policy if exists "Customers can read bids on their services" on public.service_fill_request;
+create policy "Customers can read bids on their services"
+  on public.service_fill_request for select
+  to authenticated
+  using (exists (
+    select 1 from public.service s
+    where s.service_id = service_fill_request.service_id and s.customer_id = auth.uid()
+  ));
+
+-- Bids only on jobs the helpr can currently see as open
+drop policy if exists "Helprs can bid on open services" on public.service_fill_request;
+create policy "Helprs can bid on open services"
+  on public.service_fill_request for insert
+  to authenticated
+  with check (
+    service_provider_id = auth.uid()
+    and exists (
+      select 1 from public.service s
+      where s.service_id = service_fill_request.service_id
+        and s.service_provider_id is null
+        and s.status in ('finding_pros', 'select_service_provider')
+    )
+  );
+
+drop policy if exists "Helprs can withdraw their own bids" on public.service_fill_request;
+create policy "Helprs can withdraw their own bids"
+  on public.service_fill_request for delete
+  to authenticated
+  using (service_provider_id = auth.uid());
+
+drop policy if exists "Customers can clear bids on their services" on public.service_fill_request;
+create policy "Customers can clear bids on their services"
+  on public.service_fill_request for delete
+  to authenticated
+  using (exists (
+    select 1 from public.service s
+    where s.service_id = service_fill_request.service_id and s.customer_id = auth.uid()
+  ));
@@ -0,0 +1,26 @@
+-- Saved cards (Stripe payment method references, never card numbers).
+-- Private to the owning user.
+
+create table if not exists public.payment_methods (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  stripe_pm_id text not null,
+  brand text,
+  last4 text check (last4 ~ '^[0-9]{4}$'),
+  exp_month smallint check (exp_month between 1 and 12),
+  exp_year smallint,
+  is_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (user_id, stripe_pm_id)
+);
+
+create index if not exists payment_methods_user_id_idx on public.payment_methods (user_id);
+
+alter table public.payment_methods enable row level security;
+
+drop policy if exists "Users manage their own payment methods" on public.payment_methods;
+create policy "Users manage their own payment methods"
+  on public.payment_methods for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,94 @@
+-- Post-job ratings, one per job in each direction.
+-- service_provider_ratings: the customer rates the helpr.
+-- customer_ratings: the helpr rates the customer.
+-- Both participants of the job can read them; only the rating side can write.
+
+create table if not exists public.service_provider_ratings (
+  id uuid primary key default gen_random_uuid(),
+  service_id uuid not null unique references public.service (service_id) on delete cascade,
+  customer_id uuid not null references public.customer (customer_id) on delete cascade,
+  service_provider_id uuid not null references public.service_provider (service_provider_id) on delete cascade,
+  rating numeric(2, 1) check (rating between 0 and 5),
+  comment text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.customer_ratings (
+  id uuid primary key default gen_random_uuid(),
+  service_id uuid not null unique references public.service (service_id) on delete cascade,
+  customer_id uuid not null references public.customer (customer_id) on delete cascade,
+  service_provider_id uuid not null references public.service_provider (service_provider_id) on delete cascade,
+  rating numeric(2, 1) check (rating between 0 and 5),
+  comment text,
+  created_at timestamptz not null default now()
+);
+
+-- The rating row must name the job's actual customer and helpr
+create or replace function public.is_service_participant(p_service_id uuid, p_customer_id uuid, p_service_provider_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.service s
+    where s.service_id = p_service_id
+      and s.customer_id = p_customer_id
+      and s.service_provider_id = p_service_provider_id
+  );
+$$;
+
+alter table public.service_provider_ratings enable row level security;
+
+drop policy if exists "Participants can read helpr ratings" on public.service_provider_ratings;
+create policy "Participants can read helpr ratings"
+  on public.service_provider_ratings for select
+  to authenticated
+  using (auth.uid() in (customer_id, service_provider_id));
+
+drop policy if exists "Customers can rate their helpr" on public.service_provider_ratings;
+create policy "Customers can rate their helpr"
+  on public.service_provider_ratings for insert
+  to authenticated
+  with check (
+    customer_id = auth.uid()
+    and public.is_service_participant(service_id, customer_id, service_provider_id)
+  );
+
+drop policy if exists "Customers can edit their helpr rating" on public.service_provider_ratings;
+create policy "Customers can edit their helpr rating"
+  on public.service_provider_ratings for update
+  to authenticated
+  using (customer_id = auth.uid())
+  with check (
+    customer_id = auth.uid()
+    and public.is_service_participant(service_id, customer_id, service_provider_id)
+  );
+
+alter table public.customer_ratings enable row level security;
+
+drop policy if exists "Participants can read customer ratings" on public.customer_ratings;
+create policy "Participants can read customer ratings"
+  on public.customer_ratings for select
+  to authenticated
+  using (auth.uid() in (customer_id, service_provider_id));
+
+drop policy if exists "Helprs can rate their customer" on public.customer_ratings;
+create policy "Helprs can rate their customer"
+  on public.customer_ratings for insert
+  to authenticated
+  with check (
+    service_provider_id = auth.uid()
+    and public.is_service_participant(service_id, customer_id, service_provider_id)
+  );
+
+drop policy if exists "Helprs can edit their customer rating" on public.customer_ratings;
+create policy "Helprs can edit their customer rating"
+  on public.customer_ratings for update
+  to authenticated
+  using (service_provider_id = auth.uid())
+  with check (
+    service_provider_id = auth.uid()
+    and public.is_service_participant(service_id, customer_id, service_provider_id)
+  );
@@ -0,0 +1,186 @@
+-- Server-issued price quotes.
+-- Rows are written only by the create-quote edge function (service role), which signs
+-- them; customers can read their own quotes. A service row must reference a valid,
+-- unexpired, unused quote whose amount matches the service price, booked for the
+-- same addresses the quote was priced for. Checking signatures needs the Vault secret
+-- `quote_signing_secret`, set to the edge function's QUOTE_SIGNING_SECRET.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.quotes (
+  quote_id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  service_type text not null,
+  inputs jsonb not null default '{}'::jsonb,
+  amount numeric(10, 2) not null check (amount >= 0),
+  components jsonb not null default '[]'::jsonb,
+  note text,
+  rate_card_version text not null,
+  -- HMAC-SHA256 by create-quote (functions/_shared/quotes.ts), see quote_signature below
+  signature text not null,
+  -- Service zone the job starts in (isWithinServiceArea in packages/core)
+  zone_id text,
+  -- Addresses the quote was priced for, and where they were geocoded
+  start_location text not null,
+  end_location text,
+  start_latitude double precision not null,
+  start_longitude double precision not null,
+  end_latitude double precision,
+  end_longitude double precision,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  service_id uuid
+);
+
+create index if not exists quotes_user_id_idx on public.quotes (user_id);
+
+alter table public.quotes enable row level security;
+
+drop policy if exists "Customers can read their own quotes" on public.quotes;
+create policy "Customers can read their own quotes"
+  on public.quotes for select
+  to authenticated
+  using (user_id = auth.uid());
+
+alter table public.service add column if not exists quote_id uuid references public.quotes (quote_id);
+
+-- Recomputes a quote's signature; the canonical form matches signQuote in the edge function.
+-- Null when the secret is missing, so no quote verifies until it is configured.
+create or replace function public.quote_signature(q public.quotes)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select encode(
+    extensions.hmac(
+      convert_to(concat_ws('|',
+        q.quote_id, q.user_id, q.service_type, q.amount::text,
+        (extract(epoch from q.expires_at) * 1000)::bigint,
+        q.start_location, coalesce(q.end_location, '')
+      ), 'UTF8'),
+      convert_to(s.decrypted_secret, 'UTF8'),
+      'sha256'
+    ),
+    'hex'
+  )
+  from vault.decrypted_secrets s
+  where s.name = 'quote_signing_secret';
+$$;
+
+revoke execute on function public.quote_signature(public.quotes) from public, anon, authenticated;
+
+-- Geocoded addresses of the job, copied from its quote; clients cannot write them
+alter table public.service add column if not exists start_latitude double precision;
+alter table public.service add column if not exists start_longitude double precision;
+alter table public.service add column if not exists end_latitude double precision;
+alter table public.service add column if not exists end_longitude double precision;
+
+create or replace function public.verify_service_quote()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q public.quotes%rowtype;
+begin
+  -- Price unchanged on update: nothing to verify
+  if tg_op = 'UPDATE' and new.price is not distinct from old.price and new.quote_id is not distinct from old.quote_id then
+    return new;
+  end if;
+
+  if new.quote_id is null then
+    raise exception 'quote_required' using hint = 'Request a price quote before booking.';
+  end if;
+
+  select * into q from public.quotes where quote_id = new.quote_id for update;
+
+  if not found then
+    raise exception 'quote_not_found';
+  end if;
+
+  if q.signature is distinct from public.quote_signature(q) then
+    raise exception 'quote_invalid_signature';
+  end if;
+
+  if auth.uid() is not null and q.user_id <> auth.uid() then
+    raise exception 'quote_not_owned';
+  end if;
+
+  if q.expires_at <= now() then
+    raise exception 'quote_expired' using hint = 'Quotes are locked for 30 minutes. Request a new estimate.';
+  end if;
+
+  if q.service_id is not null and q.service_id <> new.service_id then
+    raise exception 'quote_already_used';
+  end if;
+
+  if lower(q.service_type) <> lower(coalesce(new.service_type, '')) then
+    raise exception 'quote_service_mismatch';
+  end if;
+
+  if new.price is distinct from q.amount then
+    raise exception 'quote_price_mismatch';
+  end if;
+
+  update public.quotes set service_id = new.service_id where quote_id = q.quote_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists verify_service_quote on public.service;
+create trigger verify_service_quote
+  before insert or update of price, quote_id on public.service
+  for each row execute function public.verify_service_quote();
+
+-- A quote only covers the trip it was priced for: the booked addresses must match the
+-- quoted ones, and the job takes the quote's coordinates. Server-side writes (approved
+-- change requests, recurring occurrences) copy the coordinates themselves.
+create or replace function public.verify_service_quote_location()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q public.quotes%rowtype;
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+    and new.quote_id is not distinct from old.quote_id
+    and new.location is not distinct from old.location
+    and new.start_location is not distinct from old.start_location
+    and new.end_location is not distinct from old.end_location then
+    return new;
+  end if;
+
+  select * into q from public.quotes where quote_id = new.quote_id;
+
+  if not found then
+    raise exception 'quote_required' using hint = 'Request a price quote before booking.';
+  end if;
+
+  if q.start_location is distinct from trim(coalesce(new.start_location, new.location))
+    or q.end_location is distinct from nullif(trim(new.end_location), '') then
+    raise exception 'quote_location_mismatch' using hint = 'Request a new estimate for these addresses.';
+  end if;
+
+  new.start_latitude := q.start_latitude;
+  new.start_longitude := q.start_longitude;
+  new.end_latitude := q.end_latitude;
+  new.end_longitude := q.end_longitude;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists verify_service_quote_location on public.service;
+create trigger verify_service_quote_location
+  before insert or update of quote_id, location, start_location, end_location on public.service
+  for each row execute function public.verify_service_quote_location();
@@ -0,0 +1,76 @@
+-- Out-of-area waitlist.
+-- Customers whose addresses fall outside every service zone can leave their email;
+-- anyone may add an entry, but only ops (service role) can read them back.
+
+create table if not exists public.waitlist (
+  waitlist_id uuid primary key default gen_random_uuid(),
+  email text not null check (position('@' in email) > 1),
+  user_id uuid references auth.users (id) on delete set null,
+  service_type text,
+  description text,
+  start_location text,
+  start_latitude double precision,
+  start_longitude double precision,
+  end_location text,
+  end_latitude double precision,
+  end_longitude double precision,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists waitlist_created_at_idx on public.waitlist (created_at);
+
+alter table public.waitlist enable row level security;
+
+drop policy if exists "Anyone can join the waitlist" on public.waitlist;
+create policy "Anyone can join the waitlist"
+  on public.waitlist for insert
+  to anon, authenticated
+  with check (user_id is null or user_id = auth.uid());
+
+-- Ops: demand clustered on a lat/lng grid (0.05° is roughly 3.5 miles).
+-- Each entry counts once, at its start location or, failing that, its end location.
+create or replace function public.waitlist_demand_clusters(
+  cell_size_degrees double precision default 0.05,
+  since timestamptz default null
+)
+returns table (
+  cell_latitude double precision,
+  cell_longitude double precision,
+  requests bigint,
+  unique_emails bigint,
+  service_types text[],
+  sample_locations text[],
+  first_requested_at timestamptz,
+  last_requested_at timestamptz
+)
+language sql
+stable
+as $$
+  with points as (
+    select
+      w.email,
+      w.service_type,
+      w.created_at,
+      coalesce(w.start_location, w.end_location) as location,
+      case when w.start_latitude is not null then w.start_latitude else w.end_latitude end as latitude,
+      case when w.start_latitude is not null then w.start_longitude else w.end_longitude end as longitude
+    from public.waitlist w
+    where since is null or w.created_at >= since
+  )
+  select
+    (floor(latitude / cell_size_degrees) + 0.5) * cell_size_degrees as cell_latitude,
+    (floor(longitude / cell_size_degrees) + 0.5) * cell_size_degrees as cell_longitude,
+    count(*) as requests,
+    count(distinct lower(email)) as unique_emails,
+    array_remove(array_agg(distinct service_type), null) as service_types,
+    (array_remove(array_agg(distinct location), null))[1:5] as sample_locations,
+    min(created_at) as first_requested_at,
+    max(created_at) as last_requested_at
+  from points
+  where latitude is not null and longitude is not null
+  group by 1, 2
+  order by requests desc, unique_emails desc;
+$$;
+
+revoke execute on function public.waitlist_demand_clusters(double precision, timestamptz) from public, anon, authenticated;
+grant execute on function public.waitlist_demand_clusters(double precision, timestamptz) to service_role;
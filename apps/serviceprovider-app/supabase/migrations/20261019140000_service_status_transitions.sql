@@ -0,0 +1,124 @@
+-- Service lifecycle state machine.
+-- Mirrors SERVICE_TRANSITIONS in packages/core/src/lifecycle.ts; keep the two in sync.
+-- A trigger rejects any status change that is not listed for the caller, and logs
+-- each accepted change with its side effects to service_status_events.
+
+create table if not exists public.service_status_transitions (
+  from_status text not null,
+  to_status text not null,
+  actor text not null check (actor in ('customer', 'provider', 'system')),
+  side_effects text[] not null default '{}',
+  primary key (from_status, to_status, actor)
+);
+
+truncate public.service_status_transitions;
+insert into public.service_status_transitions (from_status, to_status, actor, side_effects) values
+  ('finding_pros', 'select_service_provider', 'provider', '{notify_customer}'),
+  ('finding_pros', 'confirmed', 'provider', '{notify_customer}'),
+  ('select_service_provider', 'confirmed', 'provider', '{notify_customer,notify_other_bidders}'),
+  ('select_service_provider', 'confirmed', 'customer', '{notify_provider,notify_other_bidders}'),
+  ('confirmed', 'finding_pros', 'provider', '{notify_customer}'),
+  ('confirmed', 'helpr_otw', 'provider', '{notify_customer}'),
+  ('helpr_otw', 'in_progress', 'provider', '{notify_customer}'),
+  ('in_progress', 'completed', 'system', '{capture_payment,payout_provider,notify_customer}');
+
+alter table public.service_status_transitions enable row level security;
+
+drop policy if exists "Anyone can read the lifecycle" on public.service_status_transitions;
+create policy "Anyone can read the lifecycle"
+  on public.service_status_transitions for select
+  to anon, authenticated
+  using (true);
+
+create table if not exists public.service_status_events (
+  event_id uuid primary key default gen_random_uuid(),
+  service_id uuid not null references public.service (service_id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  actor text not null,
+  actor_id uuid,
+  side_effects text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists service_status_events_service_id_idx on public.service_status_events (service_id, created_at);
+
+alter table public.service_status_events enable row level security;
+
+drop policy if exists "Participants can read service events" on public.service_status_events;
+create policy "Participants can read service events"
+  on public.service_status_events for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.service s
+      where s.service_id = service_status_events.service_id
+        and auth.uid() in (s.customer_id, s.service_provider_id)
+    )
+  );
+
+-- Older builds wrote mixed-case statuses ('Finding_Pros')
+update public.service set status = lower(status) where status <> lower(status);
+
+create or replace function public.enforce_service_status_transition()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor text;
+  v_side_effects text[];
+begin
+  new.status := lower(new.status);
+
+  if tg_op = 'INSERT' then
+    if auth.uid() is not null and new.status is distinct from 'finding_pros' then
+      raise exception 'illegal_status_transition' using detail = format('new services start at finding_pros, not %s', new.status);
+    end if;
+    return new;
+  end if;
+
+  if new.status is not distinct from lower(old.status) then
+    return new;
+  end if;
+
+  -- Service role (edge functions) and direct SQL act as the system
+  if auth.uid() is null then
+    v_actor := 'system';
+  elsif auth.uid() = old.customer_id then
+    v_actor := 'customer';
+  elsif auth.uid() = old.service_provider_id
+    or (old.service_provider_id is null and exists (
+      select 1 from public.service_fill_request r
+      where r.service_id = old.service_id and r.service_provider_id = auth.uid()
+    )) then
+    v_actor := 'provider';
+  else
+    raise exception 'illegal_status_transition' using detail = 'caller is not a participant in this service';
+  end if;
+
+  select t.side_effects into v_side_effects
+  from public.service_status_transitions t
+  where t.from_status = lower(old.status)
+    and t.to_status = new.status
+    and (t.actor = v_actor or v_actor = 'system')
+  order by t.actor = v_actor desc
+  limit 1;
+
+  if not found then
+    raise exception 'illegal_status_transition'
+      using detail = format('%s -> %s is not allowed for %s', old.status, new.status, v_actor);
+  end if;
+
+  insert into public.service_status_events (service_id, from_status, to_status, actor, actor_id, side_effects)
+  values (new.service_id, lower(old.status), new.status, v_actor, auth.uid(), v_side_effects);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_service_status_transition on public.service;
+create trigger enforce_service_status_transition
+  before insert or update of status on public.service
+  for each row execute function public.enforce_service_status_transition();
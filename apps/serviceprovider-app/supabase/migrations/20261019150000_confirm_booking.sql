@@ -0,0 +1,125 @@
+-- Atomic booking confirmation, called by the confirm-booking edge function once the
+-- payment has succeeded. Assigns the helpr, records the payment and clears the bids
+-- in one transaction. Replaying the same (service, helpr, payment intent) returns the
+-- booked row unchanged, so the edge function can be retried safely.
+
+alter table public.service add column if not exists payment_intent_id text unique;
+
+-- On assignment the price becomes the winning bid rather than the quoted estimate
+create or replace function public.verify_service_quote()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q public.quotes%rowtype;
+begin
+  -- Price unchanged on update: nothing to verify
+  if tg_op = 'UPDATE' and new.price is not distinct from old.price and new.quote_id is not distinct from old.quote_id then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and new.service_provider_id is not null and exists (
+    select 1 from public.service_fill_request r
+    where r.service_id = new.service_id
+      and r.service_provider_id = new.service_provider_id
+      and r.bid = new.price
+  ) then
+    return new;
+  end if;
+
+  if new.quote_id is null then
+    raise exception 'quote_required' using hint = 'Request a price quote before booking.';
+  end if;
+
+  select * into q from public.quotes where quote_id = new.quote_id for update;
+
+  if not found then
+    raise exception 'quote_not_found';
+  end if;
+
+  if q.signature is distinct from public.quote_signature(q) then
+    raise exception 'quote_invalid_signature';
+  end if;
+
+  if auth.uid() is not null and q.user_id <> auth.uid() then
+    raise exception 'quote_not_owned';
+  end if;
+
+  if q.expires_at <= now() then
+    raise exception 'quote_expired' using hint = 'Quotes are locked for 30 minutes. Request a new estimate.';
+  end if;
+
+  if q.service_id is not null and q.service_id <> new.service_id then
+    raise exception 'quote_already_used';
+  end if;
+
+  if lower(q.service_type) <> lower(coalesce(new.service_type, '')) then
+    raise exception 'quote_service_mismatch';
+  end if;
+
+  if new.price is distinct from q.amount then
+    raise exception 'quote_price_mismatch';
+  end if;
+
+  update public.quotes set service_id = new.service_id where quote_id = q.quote_id;
+
+  return new;
+end;
+$$;
+
+create or replace function public.confirm_booking(
+  p_service_id uuid,
+  p_service_provider_id uuid,
+  p_payment_intent_id text
+)
+returns public.service
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  r public.service_fill_request%rowtype;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found then
+    raise exception 'service_not_found';
+  end if;
+
+  if s.payment_intent_id = p_payment_intent_id and s.service_provider_id = p_service_provider_id then
+    return s;
+  end if;
+
+  if s.status <> 'select_service_provider' or s.service_provider_id is not null then
+    raise exception 'already_booked';
+  end if;
+
+  select * into r
+  from public.service_fill_request
+  where service_id = p_service_id and service_provider_id = p_service_provider_id;
+
+  if not found then
+    raise exception 'bid_not_found';
+  end if;
+
+  update public.service
+  set service_provider_id = r.service_provider_id,
+      status = 'confirmed',
+      price = r.bid,
+      scheduled_date_time = coalesce(r.proposed_date_time, s.scheduled_date_time),
+      payment_status = 'paid',
+      payment_intent_id = p_payment_intent_id
+  where service_id = p_service_id
+  returning * into s;
+
+  delete from public.service_fill_request where service_id = p_service_id;
+
+  return s;
+end;
+$$;
+
+revoke execute on function public.confirm_booking(uuid, uuid, text) from public, anon, authenticated;
+grant execute on function public.confirm_booking(uuid, uuid, text) to service_role;
@@ -0,0 +1,92 @@
+-- Versioned fee schedules.
+-- Mirrors the FeeSchedule shape in packages/core/src/fees.ts (rates are fractions, 0.03 = 3%).
+-- The schedule in force is the latest row whose effective_from has passed; publish a new
+-- version instead of editing one that services were already booked under.
+
+create table if not exists public.fee_schedules (
+  version text primary key,
+  effective_from timestamptz not null,
+  defaults jsonb not null,
+  service_overrides jsonb not null default '{}'::jsonb,
+  promo_exemptions jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists fee_schedules_effective_from_idx on public.fee_schedules (effective_from);
+
+insert into public.fee_schedules (version, effective_from, defaults) values (
+  '2026-10-01',
+  '2026-10-01T00:00:00Z',
+  '{"processingFeeRate": 0.03, "platformFeeRate": 0.01, "taxRate": 0, "providerCommissionRate": 0.15}'
+)
+on conflict (version) do nothing;
+
+alter table public.fee_schedules enable row level security;
+
+drop policy if exists "Anyone can read fee schedules" on public.fee_schedules;
+create policy "Anyone can read fee schedules"
+  on public.fee_schedules for select
+  to anon, authenticated
+  using (true);
+
+alter table public.service add column if not exists fee_schedule_version text references public.fee_schedules (version);
+
+-- confirm_booking now records the fee schedule the customer was charged under
+drop function if exists public.confirm_booking(uuid, uuid, text);
+
+create or replace function public.confirm_booking(
+  p_service_id uuid,
+  p_service_provider_id uuid,
+  p_payment_intent_id text,
+  p_fee_schedule_version text
+)
+returns public.service
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  r public.service_fill_request%rowtype;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found then
+    raise exception 'service_not_found';
+  end if;
+
+  if s.payment_intent_id = p_payment_intent_id and s.service_provider_id = p_service_provider_id then
+    return s;
+  end if;
+
+  if s.status <> 'select_service_provider' or s.service_provider_id is not null then
+    raise exception 'already_booked';
+  end if;
+
+  select * into r
+  from public.service_fill_request
+  where service_id = p_service_id and service_provider_id = p_service_provider_id;
+
+  if not found then
+    raise exception 'bid_not_found';
+  end if;
+
+  update public.service
+  set service_provider_id = r.service_provider_id,
+      status = 'confirmed',
+      price = r.bid,
+      scheduled_date_time = coalesce(r.proposed_date_time, s.scheduled_date_time),
+      payment_status = 'paid',
+      payment_intent_id = p_payment_intent_id,
+      fee_schedule_version = p_fee_schedule_version
+  where service_id = p_service_id
+  returning * into s;
+
+  delete from public.service_fill_request where service_id = p_service_id;
+
+  return s;
+end;
+$$;
+
+revoke execute on function public.confirm_booking(uuid, uuid, text, text) from public, anon, authenticated;
+grant execute on function public.confirm_booking(uuid, uuid, text, text) to service_role;
@@ -0,0 +1,122 @@
+-- Authorize at booking, capture at completion.
+-- confirm-booking places a manual-capture hold (payment_status 'authorized'),
+-- reauthorize-payments renews holds before Stripe's 7-day expiry, and complete-service
+-- captures the hold and credits the helpr's balance in one call to complete_service.
+
+alter table public.customer add column if not exists stripe_customer_id text unique;
+
+-- Profile fields only; stripe_customer_id is written by the edge functions
+revoke update on public.customer from anon, authenticated;
+grant update (first_name, last_name, email, phone_number) on public.customer to authenticated;
+
+alter table public.service add column if not exists payment_authorized_at timestamptz;
+alter table public.service add column if not exists payment_captured_at timestamptz;
+
+create index if not exists service_payment_authorized_at_idx
+  on public.service (payment_authorized_at)
+  where payment_status = 'authorized';
+
+create or replace function public.confirm_booking(
+  p_service_id uuid,
+  p_service_provider_id uuid,
+  p_payment_intent_id text,
+  p_fee_schedule_version text
+)
+returns public.service
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  r public.service_fill_request%rowtype;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found then
+    raise exception 'service_not_found';
+  end if;
+
+  if s.payment_intent_id = p_payment_intent_id and s.service_provider_id = p_service_provider_id then
+    return s;
+  end if;
+
+  if s.status <> 'select_service_provider' or s.service_provider_id is not null then
+    raise exception 'already_booked';
+  end if;
+
+  select * into r
+  from public.service_fill_request
+  where service_id = p_service_id and service_provider_id = p_service_provider_id;
+
+  if not found then
+    raise exception 'bid_not_found';
+  end if;
+
+  update public.service
+  set service_provider_id = r.service_provider_id,
+      status = 'confirmed',
+      price = r.bid,
+      scheduled_date_time = coalesce(r.proposed_date_time, s.scheduled_date_time),
+      payment_status = 'authorized',
+      payment_intent_id = p_payment_intent_id,
+      payment_authorized_at = now(),
+      fee_schedule_version = p_fee_schedule_version
+  where service_id = p_service_id
+  returning * into s;
+
+  delete from public.service_fill_request where service_id = p_service_id;
+
+  return s;
+end;
+$$;
+
+-- Marks the job completed and credits the helpr. Replays return the balance unchanged.
+create or replace function public.complete_service(
+  p_service_id uuid,
+  p_payment_intent_id text,
+  p_provider_payout numeric
+)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  v_balance numeric;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found then
+    raise exception 'service_not_found';
+  end if;
+
+  if s.status = 'completed' and s.payment_status = 'captured' then
+    select balance into v_balance from public.service_provider where service_provider_id = s.service_provider_id;
+    return v_balance;
+  end if;
+
+  if s.status <> 'in_progress' then
+    raise exception 'illegal_status_transition' using detail = format('%s -> completed', s.status);
+  end if;
+
+  update public.service
+  set status = 'completed',
+      payment_status = 'captured',
+      payment_intent_id = p_payment_intent_id,
+      payment_captured_at = now()
+  where service_id = p_service_id;
+
+  update public.service_provider
+  set balance = balance + p_provider_payout,
+      jobs_completed = jobs_completed + 1
+  where service_provider_id = s.service_provider_id
+  returning balance into v_balance;
+
+  return v_balance;
+end;
+$$;
+
+revoke execute on function public.complete_service(uuid, text, numeric) from public, anon, authenticated;
+grant execute on function public.complete_service(uuid, text, numeric) to service_role;
@@ -0,0 +1,162 @@
+-- Cancellation policy.
+-- The cancel-service edge function prices a cancellation with quoteCancellation
+-- (packages/core/src/cancellation.ts), settles the card hold in Stripe, then records it
+-- here with cancel_service. Customers soft-cancel to 'cancelled'; helprs drop the job,
+-- which reopens it to 'finding_pros' and costs them reliability points.
+
+alter table public.service add column if not exists cancelled_at timestamptz;
+alter table public.service add column if not exists cancellation_reason text;
+
+alter table public.service_provider add column if not exists reliability_score integer not null default 100;
+
+drop policy if exists "Helprs can create their own profile" on public.service_provider;
+create policy "Helprs can create their own profile"
+  on public.service_provider for insert
+  to authenticated
+  with check (
+    service_provider_id = auth.uid()
+    and jobs_completed = 0
+    and rating is null
+    and balance = 0
+    and reliability_score = 100
+  );
+
+-- Services are cancelled, never deleted, so their payment history survives
+drop policy if exists "Customers can delete their own services" on public.service;
+
+create table if not exists public.service_cancellations (
+  cancellation_id uuid primary key default gen_random_uuid(),
+  service_id uuid not null references public.service (service_id) on delete cascade,
+  cancelled_by text not null check (cancelled_by in ('customer', 'provider')),
+  actor_id uuid not null,
+  service_provider_id uuid references public.service_provider (service_provider_id) on delete set null,
+  from_status text not null,
+  reason text,
+  hours_notice numeric,
+  fee_rate numeric not null default 0,
+  fee numeric(10, 2) not null default 0,
+  refund numeric(10, 2) not null default 0,
+  provider_payout numeric(10, 2) not null default 0,
+  reliability_penalty integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists service_cancellations_service_id_idx on public.service_cancellations (service_id, created_at);
+
+alter table public.service_cancellations enable row level security;
+
+drop policy if exists "Participants can read cancellations" on public.service_cancellations;
+create policy "Participants can read cancellations"
+  on public.service_cancellations for select
+  to authenticated
+  using (
+    service_provider_id = auth.uid()
+    or exists (
+      select 1 from public.service s
+      where s.service_id = service_cancellations.service_id and s.customer_id = auth.uid()
+    )
+  );
+
+-- Mirrors the cancellation edges added to SERVICE_TRANSITIONS. Dropping a job now
+-- releases the customer's hold, so helprs can no longer take that edge directly.
+delete from public.service_status_transitions
+where from_status = 'confirmed' and to_status = 'finding_pros' and actor = 'provider';
+
+insert into public.service_status_transitions (from_status, to_status, actor, side_effects) values
+  ('finding_pros', 'cancelled', 'system', '{}'),
+  ('select_service_provider', 'cancelled', 'system', '{notify_other_bidders}'),
+  ('confirmed', 'cancelled', 'system', '{refund_payment,notify_provider}'),
+  ('helpr_otw', 'cancelled', 'system', '{refund_payment,notify_provider}'),
+  ('confirmed', 'finding_pros', 'system', '{refund_payment,notify_customer}'),
+  ('helpr_otw', 'finding_pros', 'system', '{refund_payment,notify_customer}')
+on conflict (from_status, to_status, actor) do update set side_effects = excluded.side_effects;
+
+-- Records a cancellation whose payment has already been settled. p_from_status is the
+-- status the quote was priced for; if the job moved on since, nothing is written.
+-- A customer replay of a cancelled service returns it unchanged.
+create or replace function public.cancel_service(
+  p_service_id uuid,
+  p_cancelled_by text,
+  p_actor_id uuid,
+  p_from_status text,
+  p_reason text,
+  p_hours_notice numeric,
+  p_fee_rate numeric,
+  p_fee numeric,
+  p_refund numeric,
+  p_provider_payout numeric,
+  p_reliability_penalty integer,
+  p_payment_status text
+)
+returns public.service
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found then
+    raise exception 'service_not_found';
+  end if;
+
+  if p_cancelled_by = 'customer' and s.status = 'cancelled' then
+    return s;
+  end if;
+
+  if s.status <> p_from_status
+    or (p_cancelled_by = 'customer' and s.customer_id <> p_actor_id)
+    or (p_cancelled_by = 'provider' and s.service_provider_id is distinct from p_actor_id) then
+    raise exception 'not_cancellable' using detail = format('service is %s', s.status);
+  end if;
+
+  insert into public.service_cancellations (
+    service_id, cancelled_by, actor_id, service_provider_id, from_status, reason,
+    hours_notice, fee_rate, fee, refund, provider_payout, reliability_penalty
+  ) values (
+    p_service_id, p_cancelled_by, p_actor_id, s.service_provider_id, s.status, p_reason,
+    p_hours_notice, p_fee_rate, p_fee, p_refund, p_provider_payout, p_reliability_penalty
+  );
+
+  if p_cancelled_by = 'customer' then
+    update public.service
+    set status = 'cancelled',
+        cancelled_at = now(),
+        cancellation_reason = p_reason,
+        payment_status = coalesce(p_payment_status, payment_status)
+    where service_id = p_service_id
+    returning * into s;
+
+    delete from public.service_fill_request where service_id = p_service_id;
+
+    -- The helpr keeps their share of a late-cancellation fee
+    if p_provider_payout > 0 and s.service_provider_id is not null then
+      update public.service_provider
+      set balance = balance + p_provider_payout
+      where service_provider_id = s.service_provider_id;
+    end if;
+  else
+    update public.service
+    set status = 'finding_pros',
+        service_provider_id = null,
+        payment_intent_id = null,
+        payment_authorized_at = null,
+        payment_status = p_payment_status
+    where service_id = p_service_id
+    returning * into s;
+
+    update public.service_provider
+    set reliability_score = greatest(0, reliability_score - p_reliability_penalty)
+    where service_provider_id = p_actor_id;
+  end if;
+
+  return s;
+end;
+$$;
+
+revoke execute on function public.cancel_service(uuid, text, uuid, text, text, numeric, numeric, numeric, numeric, numeric, integer, text)
+  from public, anon, authenticated;
+grant execute on function public.cancel_service(uuid, text, uuid, text, text, numeric, numeric, numeric, numeric, numeric, integer, text)
+  to service_role;
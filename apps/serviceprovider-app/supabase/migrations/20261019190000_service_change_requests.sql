@@ -0,0 +1,311 @@
+-- Change requests for jobs that already have a helpr.
+-- Customers propose new terms with request_service_change; the assigned helpr approves
+-- or rejects them through the respond-change-request edge function, which re-authorizes
+-- the customer's card when the price moves and then calls resolve_service_change.
+-- The service row keeps its original terms until a change is approved.
+
+create table if not exists public.service_change_request (
+  change_request_id uuid primary key default gen_random_uuid(),
+  service_id uuid not null references public.service (service_id) on delete cascade,
+  customer_id uuid not null references public.customer (customer_id) on delete cascade,
+  service_provider_id uuid not null references public.service_provider (service_provider_id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected', 'superseded')),
+  -- Proposed terms; null means unchanged
+  description text,
+  location text,
+  start_location text,
+  end_location text,
+  scheduled_date_time timestamptz,
+  price numeric(10, 2),
+  quote_id uuid references public.quotes (quote_id),
+  original_terms jsonb not null,
+  response_note text,
+  created_at timestamptz not null default now(),
+  responded_at timestamptz
+);
+
+create unique index if not exists service_change_request_one_pending_idx
+  on public.service_change_request (service_id)
+  where status = 'pending';
+
+alter table public.service_change_request enable row level security;
+
+-- Written only through the functions below
+drop policy if exists "Participants can read change requests" on public.service_change_request;
+create policy "Participants can read change requests"
+  on public.service_change_request for select
+  to authenticated
+  using (auth.uid() in (customer_id, service_provider_id));
+
+-- Once a helpr is assigned, customers change the job through change requests only
+drop policy if exists "Customers can update their own services" on public.service;
+create policy "Customers can update their own services"
+  on public.service for update
+  to authenticated
+  using (customer_id = auth.uid() and service_provider_id is null)
+  with check (customer_id = auth.uid() and service_provider_id is null);
+
+-- Also accepts a price agreed through an approved change request
+create or replace function public.verify_service_quote()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q public.quotes%rowtype;
+begin
+  -- Price unchanged on update: nothing to verify
+  if tg_op = 'UPDATE' and new.price is not distinct from old.price and new.quote_id is not distinct from old.quote_id then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and new.service_provider_id is not null and exists (
+    select 1 from public.service_fill_request r
+    where r.service_id = new.service_id
+      and r.service_provider_id = new.service_provider_id
+      and r.bid = new.price
+  ) then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and new.quote_id is not distinct from old.quote_id and exists (
+    select 1 from public.service_change_request c
+    where c.service_id = new.service_id
+      and c.status = 'approved'
+      and c.price = new.price
+  ) then
+    return new;
+  end if;
+
+  if new.quote_id is null then
+    raise exception 'quote_required' using hint = 'Request a price quote before booking.';
+  end if;
+
+  select * into q from public.quotes where quote_id = new.quote_id for update;
+
+  if not found then
+    raise exception 'quote_not_found';
+  end if;
+
+  if q.signature is distinct from public.quote_signature(q) then
+    raise exception 'quote_invalid_signature';
+  end if;
+
+  if auth.uid() is not null and q.user_id <> auth.uid() then
+    raise exception 'quote_not_owned';
+  end if;
+
+  if q.expires_at <= now() then
+    raise exception 'quote_expired' using hint = 'Quotes are locked for 30 minutes. Request a new estimate.';
+  end if;
+
+  if q.service_id is not null and q.service_id <> new.service_id then
+    raise exception 'quote_already_used';
+  end if;
+
+  if lower(q.service_type) <> lower(coalesce(new.service_type, '')) then
+    raise exception 'quote_service_mismatch';
+  end if;
+
+  if new.price is distinct from q.amount then
+    raise exception 'quote_price_mismatch';
+  end if;
+
+  update public.quotes set service_id = new.service_id where quote_id = q.quote_id;
+
+  return new;
+end;
+$$;
+
+-- Called by the customer. Values equal to the current terms count as unchanged.
+-- A re-quote raises the price by as much as the new estimate exceeds the original one;
+-- smaller estimates leave the agreed price alone. New addresses need a quote priced for them.
+create or replace function public.request_service_change(
+  p_service_id uuid,
+  p_description text default null,
+  p_location text default null,
+  p_start_location text default null,
+  p_end_location text default null,
+  p_scheduled_date_time timestamptz default null,
+  p_quote_id uuid default null
+)
+returns public.service_change_request
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  q public.quotes%rowtype;
+  v_original_amount numeric;
+  v_price numeric;
+  v_request public.service_change_request%rowtype;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found or s.customer_id <> auth.uid() then
+    raise exception 'service_not_found';
+  end if;
+
+  if s.service_provider_id is null or s.status not in ('confirmed', 'helpr_otw') then
+    raise exception 'service_not_editable' using detail = format('service is %s', s.status);
+  end if;
+
+  if p_quote_id is not null then
+    select * into q from public.quotes where quote_id = p_quote_id for update;
+
+    if not found then
+      raise exception 'quote_not_found';
+    end if;
+    if q.signature is distinct from public.quote_signature(q) then
+      raise exception 'quote_invalid_signature';
+    end if;
+    if q.user_id <> auth.uid() then
+      raise exception 'quote_not_owned';
+    end if;
+    if q.expires_at <= now() then
+      raise exception 'quote_expired' using hint = 'Quotes are locked for 30 minutes. Request a new estimate.';
+    end if;
+    if q.service_id is not null and q.service_id <> s.service_id then
+      raise exception 'quote_already_used';
+    end if;
+    if lower(q.service_type) <> lower(coalesce(s.service_type, '')) then
+      raise exception 'quote_service_mismatch';
+    end if;
+
+    select amount into v_original_amount from public.quotes where quote_id = s.quote_id;
+
+    if q.amount > coalesce(v_original_amount, q.amount) then
+      v_price := s.price + (q.amount - v_original_amount);
+    end if;
+
+    update public.quotes set service_id = s.service_id where quote_id = q.quote_id;
+  end if;
+
+  p_description := nullif(nullif(trim(p_description), ''), s.description);
+  p_location := nullif(nullif(trim(p_location), ''), s.location);
+  p_start_location := nullif(nullif(trim(p_start_location), ''), s.start_location);
+  p_end_location := nullif(nullif(trim(p_end_location), ''), s.end_location);
+  p_scheduled_date_time := nullif(p_scheduled_date_time, s.scheduled_date_time);
+
+  if coalesce(p_description, p_location, p_start_location, p_end_location) is null
+    and p_scheduled_date_time is null
+    and v_price is null then
+    raise exception 'no_changes';
+  end if;
+
+  if p_quote_id is null and coalesce(p_location, p_start_location, p_end_location) is not null then
+    raise exception 'quote_required' using hint = 'Request a new estimate for the new address.';
+  end if;
+
+  if p_quote_id is not null and (
+    q.start_location is distinct from trim(coalesce(p_start_location, s.start_location, p_location, s.location))
+    or q.end_location is distinct from nullif(trim(coalesce(p_end_location, s.end_location)), '')
+  ) then
+    raise exception 'quote_location_mismatch' using hint = 'Request a new estimate for these addresses.';
+  end if;
+
+  update public.service_change_request
+  set status = 'superseded', responded_at = now()
+  where service_id = s.service_id and status = 'pending';
+
+  insert into public.service_change_request (
+    service_id, customer_id, service_provider_id,
+    description, location, start_location, end_location, scheduled_date_time, price, quote_id,
+    original_terms
+  ) values (
+    s.service_id, s.customer_id, s.service_provider_id,
+    p_description, p_location, p_start_location, p_end_location, p_scheduled_date_time, v_price, p_quote_id,
+    jsonb_build_object(
+      'description', s.description,
+      'location', s.location,
+      'start_location', s.start_location,
+      'end_location', s.end_location,
+      'scheduled_date_time', s.scheduled_date_time,
+      'price', s.price
+    )
+  )
+  returning * into v_request;
+
+  return v_request;
+end;
+$$;
+
+revoke execute on function public.request_service_change(uuid, text, text, text, text, timestamptz, uuid) from public, anon;
+grant execute on function public.request_service_change(uuid, text, text, text, text, timestamptz, uuid) to authenticated;
+
+-- Called by respond-change-request once any new card hold is in place. Approving applies
+-- the proposed terms (new addresses take the coordinates of their quote) and, when given,
+-- swaps in the hold for the new price. Replaying an approval returns the service unchanged.
+create or replace function public.resolve_service_change(
+  p_change_request_id uuid,
+  p_approve boolean,
+  p_response_note text,
+  p_payment_intent_id text
+)
+returns public.service
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c public.service_change_request%rowtype;
+  s public.service%rowtype;
+  q public.quotes%rowtype;
+begin
+  select * into c from public.service_change_request where change_request_id = p_change_request_id for update;
+
+  if not found then
+    raise exception 'change_request_not_found';
+  end if;
+
+  select * into s from public.service where service_id = c.service_id for update;
+
+  if p_approve and c.status = 'approved' then
+    return s;
+  end if;
+
+  if c.status <> 'pending' then
+    raise exception 'change_request_closed';
+  end if;
+
+  if s.service_provider_id is distinct from c.service_provider_id or s.status not in ('confirmed', 'helpr_otw') then
+    raise exception 'service_not_editable' using detail = format('service is %s', s.status);
+  end if;
+
+  update public.service_change_request
+  set status = case when p_approve then 'approved' else 'rejected' end,
+      response_note = p_response_note,
+      responded_at = now()
+  where change_request_id = c.change_request_id;
+
+  if not p_approve then
+    return s;
+  end if;
+
+  select * into q from public.quotes where quote_id = c.quote_id;
+
+  update public.service
+  set description = coalesce(c.description, description),
+      location = coalesce(c.location, location),
+      start_location = coalesce(c.start_location, start_location),
+      end_location = coalesce(c.end_location, end_location),
+      start_latitude = coalesce(q.start_latitude, start_latitude),
+      start_longitude = coalesce(q.start_longitude, start_longitude),
+      end_latitude = coalesce(q.end_latitude, end_latitude),
+      end_longitude = coalesce(q.end_longitude, end_longitude),
+      scheduled_date_time = coalesce(c.scheduled_date_time, scheduled_date_time),
+      price = coalesce(c.price, price),
+      payment_intent_id = coalesce(p_payment_intent_id, payment_intent_id),
+      payment_status = case when p_payment_intent_id is null then payment_status else 'authorized' end,
+      payment_authorized_at = case when p_payment_intent_id is null then payment_authorized_at else now() end
+  where service_id = s.service_id
+  returning * into s;
+
+  return s;
+end;
+$$;
+
+revoke execute on function public.resolve_service_change(uuid, boolean, text, text) from public, anon, authenticated;
+grant execute on function public.resolve_service_change(uuid, boolean, text, text) to service_role;
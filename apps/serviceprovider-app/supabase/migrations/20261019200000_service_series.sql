@@ -0,0 +1,236 @@
+-- Recurring bookings.
+-- A service_series is created from a customer's first booking and keeps its terms and
+-- recurrence rule (RRULE subset, see packages/core/src/recurrence.ts). The
+-- generate-recurring-services function books upcoming occurrences as ordinary service
+-- rows, and can first offer each one to the helpr who last completed the series: while
+-- an offer is open, other helprs cannot see or bid on that occurrence.
+
+create table if not exists public.service_series (
+  series_id uuid primary key default gen_random_uuid(),
+  customer_id uuid not null references public.customer (customer_id) on delete cascade,
+  service_type text not null,
+  description text,
+  location text,
+  start_location text,
+  end_location text,
+  start_latitude double precision,
+  start_longitude double precision,
+  end_latitude double precision,
+  end_longitude double precision,
+  price numeric(10, 2) not null,
+  payment_method_type text,
+  autofill_type text,
+  rrule text not null check (rrule ~* '^(RRULE:)?FREQ='),
+  time_zone text not null default 'UTC',
+  starts_at timestamptz not null,
+  status text not null default 'active' check (status in ('active', 'paused', 'ended')),
+  prefer_same_provider boolean not null default true,
+  -- Latest occurrence already booked as a service
+  generated_through timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists service_series_customer_id_idx on public.service_series (customer_id);
+
+alter table public.service add column if not exists series_id uuid references public.service_series (series_id) on delete set null;
+alter table public.service add column if not exists occurrence_at timestamptz;
+alter table public.service add column if not exists offered_to_provider_id uuid references public.service_provider (service_provider_id) on delete set null;
+alter table public.service add column if not exists offer_expires_at timestamptz;
+
+-- One service per occurrence, so the scheduler can safely re-run
+create unique index if not exists service_series_occurrence_idx
+  on public.service (series_id, occurrence_at)
+  where series_id is not null;
+
+alter table public.service_series enable row level security;
+
+drop policy if exists "Customers can read their own series" on public.service_series;
+create policy "Customers can read their own series"
+  on public.service_series for select
+  to authenticated
+  using (customer_id = auth.uid());
+
+-- Customers pause and resume; ended series stay ended
+drop policy if exists "Customers can pause their own series" on public.service_series;
+create policy "Customers can pause their own series"
+  on public.service_series for update
+  to authenticated
+  using (customer_id = auth.uid() and status <> 'ended')
+  with check (customer_id = auth.uid() and status in ('active', 'paused'));
+
+revoke update on public.service_series from authenticated;
+grant update (status, prefer_same_provider) on public.service_series to authenticated;
+
+-- Occurrences offered to one helpr stay hidden from the others until the offer expires.
+-- Bids go through the same visibility (see "Helprs can bid on open services").
+drop policy if exists "Helprs can read open and assigned services" on public.service;
+create policy "Helprs can read open and assigned services"
+  on public.service for select
+  to authenticated
+  using (
+    service_provider_id = auth.uid()
+    or (
+      service_provider_id is null
+      and status in ('finding_pros', 'select_service_provider')
+      and public.is_service_provider()
+      and (offered_to_provider_id is null or offered_to_provider_id = auth.uid() or offer_expires_at <= now())
+    )
+  );
+
+drop policy if exists "Helprs can update open and assigned services" on public.service;
+create policy "Helprs can update open and assigned services"
+  on public.service for update
+  to authenticated
+  using (
+    service_provider_id = auth.uid()
+    or (
+      service_provider_id is null
+      and public.is_service_provider()
+      and (offered_to_provider_id is null or offered_to_provider_id = auth.uid() or offer_expires_at <= now())
+    )
+  )
+  with check (
+    service_provider_id is null
+    or (service_provider_id = auth.uid() and public.is_assigned_provider(service_id))
+  );
+
+-- Also accepts occurrences the scheduler books at the series price
+create or replace function public.verify_service_quote()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q public.quotes%rowtype;
+begin
+  -- Price unchanged on update: nothing to verify
+  if tg_op = 'UPDATE' and new.price is not distinct from old.price and new.quote_id is not distinct from old.quote_id then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and new.service_provider_id is not null and exists (
+    select 1 from public.service_fill_request r
+    where r.service_id = new.service_id
+      and r.service_provider_id = new.service_provider_id
+      and r.bid = new.price
+  ) then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and new.quote_id is not distinct from old.quote_id and exists (
+    select 1 from public.service_change_request c
+    where c.service_id = new.service_id
+      and c.status = 'approved'
+      and c.price = new.price
+  ) then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' and auth.uid() is null and new.series_id is not null and exists (
+    select 1 from public.service_series ss
+    where ss.series_id = new.series_id
+      and ss.price = new.price
+  ) then
+    return new;
+  end if;
+
+  if new.quote_id is null then
+    raise exception 'quote_required' using hint = 'Request a price quote before booking.';
+  end if;
+
+  select * into q from public.quotes where quote_id = new.quote_id for update;
+
+  if not found then
+    raise exception 'quote_not_found';
+  end if;
+
+  if q.signature is distinct from public.quote_signature(q) then
+    raise exception 'quote_invalid_signature';
+  end if;
+
+  if auth.uid() is not null and q.user_id <> auth.uid() then
+    raise exception 'quote_not_owned';
+  end if;
+
+  if q.expires_at <= now() then
+    raise exception 'quote_expired' using hint = 'Quotes are locked for 30 minutes. Request a new estimate.';
+  end if;
+
+  if q.service_id is not null and q.service_id <> new.service_id then
+    raise exception 'quote_already_used';
+  end if;
+
+  if lower(q.service_type) <> lower(coalesce(new.service_type, '')) then
+    raise exception 'quote_service_mismatch';
+  end if;
+
+  if new.price is distinct from q.amount then
+    raise exception 'quote_price_mismatch';
+  end if;
+
+  update public.quotes set service_id = new.service_id where quote_id = q.quote_id;
+
+  return new;
+end;
+$$;
+
+-- Called by the customer right after booking the first visit, which becomes the
+-- series' first occurrence and the template for the rest.
+create or replace function public.create_service_series(
+  p_service_id uuid,
+  p_rrule text,
+  p_time_zone text,
+  p_prefer_same_provider boolean default true
+)
+returns public.service_series
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  v_series public.service_series%rowtype;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found or s.customer_id <> auth.uid() then
+    raise exception 'service_not_found';
+  end if;
+
+  if s.series_id is not null then
+    raise exception 'series_exists';
+  end if;
+
+  if s.scheduled_date_time is null or s.price is null then
+    raise exception 'service_not_scheduled' using hint = 'Only scheduled bookings can repeat.';
+  end if;
+
+  if not exists (select 1 from pg_timezone_names where name = p_time_zone) then
+    raise exception 'invalid_time_zone' using detail = p_time_zone;
+  end if;
+
+  insert into public.service_series (
+    customer_id, service_type, description, location, start_location, end_location,
+    start_latitude, start_longitude, end_latitude, end_longitude,
+    price, payment_method_type, autofill_type, rrule, time_zone, starts_at,
+    prefer_same_provider, generated_through
+  ) values (
+    s.customer_id, s.service_type, s.description, s.location, s.start_location, s.end_location,
+    s.start_latitude, s.start_longitude, s.end_latitude, s.end_longitude,
+    s.price, s.payment_method_type, s.autofill_type, p_rrule, p_time_zone, s.scheduled_date_time,
+    coalesce(p_prefer_same_provider, true), s.scheduled_date_time
+  )
+  returning * into v_series;
+
+  update public.service
+  set series_id = v_series.series_id,
+      occurrence_at = s.scheduled_date_time
+  where service_id = s.service_id;
+
+  return v_series;
+end;
+$$;
+
+revoke execute on function public.create_service_series(uuid, text, text, boolean) from public, anon;
+grant execute on function public.create_service_series(uuid, text, text, boolean) to authenticated;
@@ -0,0 +1,446 @@
+-- Counter-offers on bids.
+-- Every step of a negotiation between a customer and a bidding helpr is a row in
+-- service_bid_offer; the helpr's opening `bid` on service_fill_request is never overwritten.
+-- The customer counters a helpr's price, the helpr accepts or counters back, and each
+-- counter expires after a day (sooner for jobs that start earlier). The customer gets
+-- three counters per helpr. Both parties write through the functions below.
+
+create table if not exists public.service_bid_offer (
+  offer_id uuid primary key default gen_random_uuid(),
+  service_id uuid not null references public.service (service_id) on delete cascade,
+  service_provider_id uuid not null references public.service_provider (service_provider_id) on delete cascade,
+  offered_by text not null check (offered_by in ('customer', 'provider')),
+  amount numeric(10, 2) not null check (amount >= 0),
+  -- 0 for the opening bid; each customer counter starts the next round
+  round integer not null default 0,
+  status text not null default 'open' check (status in ('open', 'accepted', 'countered', 'withdrawn')),
+  -- Null for the opening bid, which stands until the helpr withdraws it
+  expires_at timestamptz,
+  created_at timestamptz not null default now(),
+  responded_at timestamptz
+);
+
+create index if not exists service_bid_offer_thread_idx
+  on public.service_bid_offer (service_id, service_provider_id, created_at desc);
+
+create unique index if not exists service_bid_offer_one_open_idx
+  on public.service_bid_offer (service_id, service_provider_id)
+  where status = 'open';
+
+alter table public.service_bid_offer enable row level security;
+
+drop policy if exists "Participants can read bid offers" on public.service_bid_offer;
+create policy "Participants can read bid offers"
+  on public.service_bid_offer for select
+  to authenticated
+  using (
+    service_provider_id = auth.uid()
+    or exists (
+      select 1 from public.service s
+      where s.service_id = service_bid_offer.service_id and s.customer_id = auth.uid()
+    )
+  );
+
+-- The opening bid is the first step of every negotiation
+create or replace function public.open_bid_negotiation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.service_bid_offer (service_id, service_provider_id, offered_by, amount, round)
+  values (new.service_id, new.service_provider_id, 'provider', new.bid, 0);
+  return new;
+end;
+$$;
+
+drop trigger if exists open_bid_negotiation on public.service_fill_request;
+create trigger open_bid_negotiation
+  after insert on public.service_fill_request
+  for each row execute function public.open_bid_negotiation();
+
+-- Withdrawn or cleared bids close whatever offer was still open
+create or replace function public.close_bid_negotiation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.service_bid_offer
+  set status = 'withdrawn', responded_at = now()
+  where service_id = old.service_id
+    and service_provider_id = old.service_provider_id
+    and status = 'open';
+  return old;
+end;
+$$;
+
+drop trigger if exists close_bid_negotiation on public.service_fill_request;
+create trigger close_bid_negotiation
+  after delete on public.service_fill_request
+  for each row execute function public.close_bid_negotiation();
+
+insert into public.service_bid_offer (service_id, service_provider_id, offered_by, amount, round, created_at)
+select r.service_id, r.service_provider_id, 'provider', r.bid, 0, r.created_at
+from public.service_fill_request r
+where not exists (
+  select 1 from public.service_bid_offer o
+  where o.service_id = r.service_id and o.service_provider_id = r.service_provider_id
+);
+
+-- The price the customer can book this helpr at right now, or null while a counter is
+-- waiting on the helpr or the helpr's counter has lapsed. A lapsed customer counter
+-- leaves the helpr's previous price standing. Mirrored by summarizeBidNegotiation.
+create or replace function public.bookable_bid_price(p_service_id uuid, p_service_provider_id uuid)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  latest public.service_bid_offer%rowtype;
+begin
+  select * into latest
+  from public.service_bid_offer
+  where service_id = p_service_id and service_provider_id = p_service_provider_id
+  order by created_at desc
+  limit 1;
+
+  if not found then
+    return (
+      select bid from public.service_fill_request
+      where service_id = p_service_id and service_provider_id = p_service_provider_id
+    );
+  end if;
+
+  if latest.status = 'accepted' then
+    return latest.amount;
+  end if;
+
+  if latest.status <> 'open' then
+    return null;
+  end if;
+
+  if latest.offered_by = 'provider' then
+    return case when latest.expires_at is null or latest.expires_at > now() then latest.amount end;
+  end if;
+
+  if latest.expires_at <= now() then
+    return (
+      select o.amount from public.service_bid_offer o
+      where o.service_id = p_service_id
+        and o.service_provider_id = p_service_provider_id
+        and o.offered_by = 'provider'
+        and o.created_at < latest.created_at
+      order by o.created_at desc
+      limit 1
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+revoke execute on function public.bookable_bid_price(uuid, uuid) from public, anon, authenticated;
+grant execute on function public.bookable_bid_price(uuid, uuid) to service_role;
+
+-- Called by either party. Customers counter the helpr's current price (starting a new
+-- round); helprs counter the customer's open counter or revise their own price.
+create or replace function public.counter_bid_offer(
+  p_service_id uuid,
+  p_service_provider_id uuid,
+  p_amount numeric
+)
+returns public.service_bid_offer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  latest public.service_bid_offer%rowtype;
+  v_party text;
+  v_round integer;
+  v_offer public.service_bid_offer%rowtype;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found then
+    raise exception 'bid_not_found';
+  end if;
+
+  if auth.uid() = s.customer_id then
+    v_party := 'customer';
+  elsif auth.uid() = p_service_provider_id then
+    v_party := 'provider';
+  else
+    raise exception 'bid_not_found';
+  end if;
+
+  if not exists (
+    select 1 from public.service_fill_request
+    where service_id = p_service_id and service_provider_id = p_service_provider_id
+  ) then
+    raise exception 'bid_not_found';
+  end if;
+
+  if s.service_provider_id is not null or s.status not in ('finding_pros', 'select_service_provider') then
+    raise exception 'negotiation_closed' using detail = format('service is %s', s.status);
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'invalid_offer_amount';
+  end if;
+
+  select * into latest
+  from public.service_bid_offer
+  where service_id = p_service_id and service_provider_id = p_service_provider_id
+  order by created_at desc
+  limit 1
+  for update;
+
+  if latest.status = 'accepted' then
+    raise exception 'offer_already_accepted';
+  end if;
+
+  if v_party = 'customer' then
+    -- Wait for the helpr to answer an open counter before sending another
+    if latest.offered_by = 'customer' and latest.status = 'open' and latest.expires_at > now() then
+      raise exception 'awaiting_response';
+    end if;
+
+    v_round := coalesce(latest.round, 0) + 1;
+    if v_round > 3 then
+      raise exception 'too_many_rounds' using hint = 'Accept this price or choose another Helpr.';
+    end if;
+  else
+    v_round := coalesce(latest.round, 0);
+  end if;
+
+  update public.service_bid_offer
+  set status = case when offered_by = v_party then 'withdrawn' else 'countered' end,
+      responded_at = now()
+  where service_id = p_service_id
+    and service_provider_id = p_service_provider_id
+    and status = 'open';
+
+  insert into public.service_bid_offer (
+    service_id, service_provider_id, offered_by, amount, round, expires_at
+  ) values (
+    p_service_id, p_service_provider_id, v_party, round(p_amount, 2), v_round,
+    least(now() + interval '24 hours', greatest(s.scheduled_date_time, now() + interval '1 hour'))
+  )
+  returning * into v_offer;
+
+  return v_offer;
+end;
+$$;
+
+revoke execute on function public.counter_bid_offer(uuid, uuid, numeric) from public, anon;
+grant execute on function public.counter_bid_offer(uuid, uuid, numeric) to authenticated;
+
+-- Called by the helpr to accept the customer's open counter. The customer accepts the
+-- helpr's price by booking it (confirm-booking).
+create or replace function public.accept_bid_offer(p_offer_id uuid)
+returns public.service_bid_offer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  o public.service_bid_offer%rowtype;
+  s public.service%rowtype;
+begin
+  select * into o from public.service_bid_offer where offer_id = p_offer_id for update;
+
+  if not found or o.service_provider_id <> auth.uid() or o.offered_by <> 'customer' then
+    raise exception 'offer_not_found';
+  end if;
+
+  if o.status = 'accepted' then
+    return o;
+  end if;
+
+  select * into s from public.service where service_id = o.service_id;
+
+  if s.service_provider_id is not null or s.status not in ('finding_pros', 'select_service_provider') then
+    raise exception 'negotiation_closed' using detail = format('service is %s', s.status);
+  end if;
+
+  if o.status <> 'open' then
+    raise exception 'offer_closed';
+  end if;
+
+  if o.expires_at <= now() then
+    raise exception 'offer_expired';
+  end if;
+
+  update public.service_bid_offer
+  set status = 'accepted', responded_at = now()
+  where offer_id = o.offer_id
+  returning * into o;
+
+  return o;
+end;
+$$;
+
+revoke execute on function public.accept_bid_offer(uuid) from public, anon;
+grant execute on function public.accept_bid_offer(uuid) to authenticated;
+
+-- Books the negotiated price. confirm-booking passes the price it authorized so a
+-- counter landing in between fails the booking instead of mismatching the hold.
+drop function if exists public.confirm_booking(uuid, uuid, text, text);
+
+create or replace function public.confirm_booking(
+  p_service_id uuid,
+  p_service_provider_id uuid,
+  p_payment_intent_id text,
+  p_fee_schedule_version text,
+  p_price numeric
+)
+returns public.service
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  r public.service_fill_request%rowtype;
+  v_price numeric;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found then
+    raise exception 'service_not_found';
+  end if;
+
+  if s.payment_intent_id = p_payment_intent_id and s.service_provider_id = p_service_provider_id then
+    return s;
+  end if;
+
+  if s.status <> 'select_service_provider' or s.service_provider_id is not null then
+    raise exception 'already_booked';
+  end if;
+
+  select * into r
+  from public.service_fill_request
+  where service_id = p_service_id and service_provider_id = p_service_provider_id;
+
+  if not found then
+    raise exception 'bid_not_found';
+  end if;
+
+  v_price := public.bookable_bid_price(p_service_id, p_service_provider_id);
+
+  if v_price is null or v_price <> p_price then
+    raise exception 'offer_changed' using detail = format('bookable price is %s', coalesce(v_price::text, 'none'));
+  end if;
+
+  update public.service
+  set service_provider_id = r.service_provider_id,
+      status = 'confirmed',
+      price = v_price,
+      scheduled_date_time = coalesce(r.proposed_date_time, s.scheduled_date_time),
+      payment_status = 'authorized',
+      payment_intent_id = p_payment_intent_id,
+      payment_authorized_at = now(),
+      fee_schedule_version = p_fee_schedule_version
+  where service_id = p_service_id
+  returning * into s;
+
+  -- Booking accepts the helpr's open price; a lapsed customer counter just closes
+  update public.service_bid_offer
+  set status = case when offered_by = 'provider' then 'accepted' else 'withdrawn' end,
+      responded_at = now()
+  where service_id = p_service_id
+    and service_provider_id = p_service_provider_id
+    and status = 'open';
+
+  delete from public.service_fill_request where service_id = p_service_id;
+
+  return s;
+end;
+$$;
+
+revoke execute on function public.confirm_booking(uuid, uuid, text, text, numeric) from public, anon, authenticated;
+grant execute on function public.confirm_booking(uuid, uuid, text, text, numeric) to service_role;
+
+-- A helpr's price is now whatever the negotiation settled on, not the opening bid
+create or replace function public.verify_service_quote()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q public.quotes%rowtype;
+begin
+  -- Price unchanged on update: nothing to verify
+  if tg_op = 'UPDATE' and new.price is not distinct from old.price and new.quote_id is not distinct from old.quote_id then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and new.service_provider_id is not null
+    and public.bookable_bid_price(new.service_id, new.service_provider_id) = new.price then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and new.quote_id is not distinct from old.quote_id and exists (
+    select 1 from public.service_change_request c
+    where c.service_id = new.service_id
+      and c.status = 'approved'
+      and c.price = new.price
+  ) then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' and auth.uid() is null and new.series_id is not null and exists (
+    select 1 from public.service_series ss
+    where ss.series_id = new.series_id
+      and ss.price = new.price
+  ) then
+    return new;
+  end if;
+
+  if new.quote_id is null then
+    raise exception 'quote_required' using hint = 'Request a price quote before booking.';
+  end if;
+
+  select * into q from public.quotes where quote_id = new.quote_id for update;
+
+  if not found then
+    raise exception 'quote_not_found';
+  end if;
+
+  if q.signature is distinct from public.quote_signature(q) then
+    raise exception 'quote_invalid_signature';
+  end if;
+
+  if auth.uid() is not null and q.user_id <> auth.uid() then
+    raise exception 'quote_not_owned';
+  end if;
+
+  if q.expires_at <= now() then
+    raise exception 'quote_expired' using hint = 'Quotes are locked for 30 minutes. Request a new estimate.';
+  end if;
+
+  if q.service_id is not null and q.service_id <> new.service_id then
+    raise exception 'quote_already_used';
+  end if;
+
+  if lower(q.service_type) <> lower(coalesce(new.service_type, '')) then
+    raise exception 'quote_service_mismatch';
+  end if;
+
+  if new.price is distinct from q.amount then
+    raise exception 'quote_price_mismatch';
+  end if;
+
+  update public.quotes set service_id = new.service_id where quote_id = q.quote_id;
+
+  return new;
+end;
+$$;
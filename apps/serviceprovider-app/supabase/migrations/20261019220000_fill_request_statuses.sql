@@ -0,0 +1,419 @@
+-- Bid history.
+-- service_fill_request rows are no longer deleted when a job is booked, cancelled or a
+-- bid is withdrawn; each bid keeps a status instead:
+--   pending   - waiting on the customer
+--   accepted  - the helpr got the job
+--   declined  - another helpr got the job
+--   withdrawn - the helpr withdrew the bid or later dropped the job
+--   expired   - the job was cancelled before anyone was booked
+-- Bids are resolved by a trigger on service, so every way of assigning or cancelling a
+-- job (confirm_booking, AutoFill claims, cancel_service) records the outcome the same way.
+
+alter table public.service_fill_request add column if not exists fill_request_id uuid not null default gen_random_uuid();
+alter table public.service_fill_request add column if not exists status text not null default 'pending'
+  check (status in ('pending', 'accepted', 'declined', 'withdrawn', 'expired'));
+-- Why the bid left 'pending', for the helpr's bid history and analytics
+alter table public.service_fill_request add column if not exists status_reason text
+  check (status_reason in ('another_helpr_booked', 'another_helpr_autofilled', 'withdrawn_by_helpr', 'dropped_by_helpr', 'job_cancelled'));
+alter table public.service_fill_request add column if not exists resolved_at timestamptz;
+
+-- A helpr can bid again after withdrawing, so only live bids are unique per job
+alter table public.service_fill_request drop constraint if exists service_fill_request_pkey;
+alter table public.service_fill_request add primary key (fill_request_id);
+
+create unique index if not exists service_fill_request_live_idx
+  on public.service_fill_request (service_id, service_provider_id)
+  where status in ('pending', 'accepted');
+
+create index if not exists service_fill_request_provider_status_idx
+  on public.service_fill_request (service_provider_id, status, created_at desc);
+
+-- Bids are never deleted; helprs withdraw a pending bid by updating its status
+drop policy if exists "Helprs can withdraw their own bids" on public.service_fill_request;
+drop policy if exists "Customers can clear bids on their services" on public.service_fill_request;
+
+drop policy if exists "Helprs can withdraw their pending bids" on public.service_fill_request;
+create policy "Helprs can withdraw their pending bids"
+  on public.service_fill_request for update
+  to authenticated
+  using (service_provider_id = auth.uid() and status = 'pending')
+  with check (service_provider_id = auth.uid() and status = 'withdrawn');
+
+revoke update on public.service_fill_request from authenticated;
+grant update (status) on public.service_fill_request to authenticated;
+
+-- Stamps every status change; a helpr's own withdrawal needs no reason from the client
+create or replace function public.stamp_fill_request_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status then
+    new.resolved_at := now();
+    if new.status = 'withdrawn' and new.status_reason is null then
+      new.status_reason := 'withdrawn_by_helpr';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists stamp_fill_request_status on public.service_fill_request;
+create trigger stamp_fill_request_status
+  before update of status on public.service_fill_request
+  for each row execute function public.stamp_fill_request_status();
+
+-- Resolving a bid closes whatever offer was still open on it, as deleting it used to
+drop trigger if exists close_bid_negotiation on public.service_fill_request;
+create trigger close_bid_negotiation
+  after update of status on public.service_fill_request
+  for each row
+  when (old.status = 'pending' and new.status in ('declined', 'withdrawn', 'expired'))
+  execute function public.close_bid_negotiation();
+
+-- Records the outcome of every bid when its job is assigned, cancelled or dropped
+create or replace function public.resolve_service_bids()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.service_provider_id is null and new.service_provider_id is not null then
+    update public.service_fill_request
+    set status = 'accepted'
+    where service_id = new.service_id
+      and service_provider_id = new.service_provider_id
+      and status = 'pending';
+
+    -- An AutoFill job goes to the first helpr who claims it
+    update public.service_fill_request
+    set status = 'declined',
+        status_reason = case when auth.uid() = new.service_provider_id
+          then 'another_helpr_autofilled' else 'another_helpr_booked' end
+    where service_id = new.service_id
+      and service_provider_id <> new.service_provider_id
+      and status = 'pending';
+  elsif old.service_provider_id is not null and new.service_provider_id is null then
+    update public.service_fill_request
+    set status = 'withdrawn', status_reason = 'dropped_by_helpr'
+    where service_id = new.service_id
+      and service_provider_id = old.service_provider_id
+      and status = 'accepted';
+  end if;
+
+  if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+    update public.service_fill_request
+    set status = 'expired', status_reason = 'job_cancelled'
+    where service_id = new.service_id
+      and status = 'pending';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists resolve_service_bids on public.service;
+create trigger resolve_service_bids
+  after update of service_provider_id, status on public.service
+  for each row execute function public.resolve_service_bids();
+
+-- Only a live bid can be booked when no offer has been recorded for it
+create or replace function public.bookable_bid_price(p_service_id uuid, p_service_provider_id uuid)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  latest public.service_bid_offer%rowtype;
+begin
+  select * into latest
+  from public.service_bid_offer
+  where service_id = p_service_id and service_provider_id = p_service_provider_id
+  order by created_at desc
+  limit 1;
+
+  if not found then
+    return (
+      select bid from public.service_fill_request
+      where service_id = p_service_id
+        and service_provider_id = p_service_provider_id
+        and status = 'pending'
+    );
+  end if;
+
+  if latest.status = 'accepted' then
+    return latest.amount;
+  end if;
+
+  if latest.status <> 'open' then
+    return null;
+  end if;
+
+  if latest.offered_by = 'provider' then
+    return case when latest.expires_at is null or latest.expires_at > now() then latest.amount end;
+  end if;
+
+  if latest.expires_at <= now() then
+    return (
+      select o.amount from public.service_bid_offer o
+      where o.service_id = p_service_id
+        and o.service_provider_id = p_service_provider_id
+        and o.offered_by = 'provider'
+        and o.created_at < latest.created_at
+      order by o.created_at desc
+      limit 1
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+-- Negotiates only on a pending bid
+create or replace function public.counter_bid_offer(
+  p_service_id uuid,
+  p_service_provider_id uuid,
+  p_amount numeric
+)
+returns public.service_bid_offer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  latest public.service_bid_offer%rowtype;
+  v_party text;
+  v_round integer;
+  v_offer public.service_bid_offer%rowtype;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found then
+    raise exception 'bid_not_found';
+  end if;
+
+  if auth.uid() = s.customer_id then
+    v_party := 'customer';
+  elsif auth.uid() = p_service_provider_id then
+    v_party := 'provider';
+  else
+    raise exception 'bid_not_found';
+  end if;
+
+  if not exists (
+    select 1 from public.service_fill_request
+    where service_id = p_service_id
+      and service_provider_id = p_service_provider_id
+      and status = 'pending'
+  ) then
+    raise exception 'bid_not_found';
+  end if;
+
+  if s.service_provider_id is not null or s.status not in ('finding_pros', 'select_service_provider') then
+    raise exception 'negotiation_closed' using detail = format('service is %s', s.status);
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'invalid_offer_amount';
+  end if;
+
+  select * into latest
+  from public.service_bid_offer
+  where service_id = p_service_id and service_provider_id = p_service_provider_id
+  order by created_at desc
+  limit 1
+  for update;
+
+  if latest.status = 'accepted' then
+    raise exception 'offer_already_accepted';
+  end if;
+
+  if v_party = 'customer' then
+    -- Wait for the helpr to answer an open counter before sending another
+    if latest.offered_by = 'customer' and latest.status = 'open' and latest.expires_at > now() then
+      raise exception 'awaiting_response';
+    end if;
+
+    v_round := coalesce(latest.round, 0) + 1;
+    if v_round > 3 then
+      raise exception 'too_many_rounds' using hint = 'Accept this price or choose another Helpr.';
+    end if;
+  else
+    v_round := coalesce(latest.round, 0);
+  end if;
+
+  update public.service_bid_offer
+  set status = case when offered_by = v_party then 'withdrawn' else 'countered' end,
+      responded_at = now()
+  where service_id = p_service_id
+    and service_provider_id = p_service_provider_id
+    and status = 'open';
+
+  insert into public.service_bid_offer (
+    service_id, service_provider_id, offered_by, amount, round, expires_at
+  ) values (
+    p_service_id, p_service_provider_id, v_party, round(p_amount, 2), v_round,
+    least(now() + interval '24 hours', greatest(s.scheduled_date_time, now() + interval '1 hour'))
+  )
+  returning * into v_offer;
+
+  return v_offer;
+end;
+$$;
+
+-- Books a pending bid; resolve_service_bids records the outcome of every bid on the job
+create or replace function public.confirm_booking(
+  p_service_id uuid,
+  p_service_provider_id uuid,
+  p_payment_intent_id text,
+  p_fee_schedule_version text,
+  p_price numeric
+)
+returns public.service
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  r public.service_fill_request%rowtype;
+  v_price numeric;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found then
+    raise exception 'service_not_found';
+  end if;
+
+  if s.payment_intent_id = p_payment_intent_id and s.service_provider_id = p_service_provider_id then
+    return s;
+  end if;
+
+  if s.status <> 'select_service_provider' or s.service_provider_id is not null then
+    raise exception 'already_booked';
+  end if;
+
+  select * into r
+  from public.service_fill_request
+  where service_id = p_service_id
+    and service_provider_id = p_service_provider_id
+    and status = 'pending';
+
+  if not found then
+    raise exception 'bid_not_found';
+  end if;
+
+  v_price := public.bookable_bid_price(p_service_id, p_service_provider_id);
+
+  if v_price is null or v_price <> p_price then
+    raise exception 'offer_changed' using detail = format('bookable price is %s', coalesce(v_price::text, 'none'));
+  end if;
+
+  update public.service
+  set service_provider_id = r.service_provider_id,
+      status = 'confirmed',
+      price = v_price,
+      scheduled_date_time = coalesce(r.proposed_date_time, s.scheduled_date_time),
+      payment_status = 'authorized',
+      payment_intent_id = p_payment_intent_id,
+      payment_authorized_at = now(),
+      fee_schedule_version = p_fee_schedule_version
+  where service_id = p_service_id
+  returning * into s;
+
+  -- Booking accepts the helpr's open price; a lapsed customer counter just closes
+  update public.service_bid_offer
+  set status = case when offered_by = 'provider' then 'accepted' else 'withdrawn' end,
+      responded_at = now()
+  where service_id = p_service_id
+    and service_provider_id = p_service_provider_id
+    and status = 'open';
+
+  return s;
+end;
+$$;
+
+-- Cancelling no longer clears the job's bids; resolve_service_bids expires them instead
+create or replace function public.cancel_service(
+  p_service_id uuid,
+  p_cancelled_by text,
+  p_actor_id uuid,
+  p_from_status text,
+  p_reason text,
+  p_hours_notice numeric,
+  p_fee_rate numeric,
+  p_fee numeric,
+  p_refund numeric,
+  p_provider_payout numeric,
+  p_reliability_penalty integer,
+  p_payment_status text
+)
+returns public.service
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found then
+    raise exception 'service_not_found';
+  end if;
+
+  if p_cancelled_by = 'customer' and s.status = 'cancelled' then
+    return s;
+  end if;
+
+  if s.status <> p_from_status
+    or (p_cancelled_by = 'customer' and s.customer_id <> p_actor_id)
+    or (p_cancelled_by = 'provider' and s.service_provider_id is distinct from p_actor_id) then
+    raise exception 'not_cancellable' using detail = format('service is %s', s.status);
+  end if;
+
+  insert into public.service_cancellations (
+    service_id, cancelled_by, actor_id, service_provider_id, from_status, reason,
+    hours_notice, fee_rate, fee, refund, provider_payout, reliability_penalty
+  ) values (
+    p_service_id, p_cancelled_by, p_actor_id, s.service_provider_id, s.status, p_reason,
+    p_hours_notice, p_fee_rate, p_fee, p_refund, p_provider_payout, p_reliability_penalty
+  );
+
+  if p_cancelled_by = 'customer' then
+    update public.service
+    set status = 'cancelled',
+        cancelled_at = now(),
+        cancellation_reason = p_reason,
+        payment_status = coalesce(p_payment_status, payment_status)
+    where service_id = p_service_id
+    returning * into s;
+
+    -- The helpr keeps their share of a late-cancellation fee
+    if p_provider_payout > 0 and s.service_provider_id is not null then
+      update public.service_provider
+      set balance = balance + p_provider_payout
+      where service_provider_id = s.service_provider_id;
+    end if;
+  else
+    update public.service
+    set status = 'finding_pros',
+        service_provider_id = null,
+        payment_intent_id = null,
+        payment_authorized_at = null,
+        payment_status = p_payment_status
+    where service_id = p_service_id
+    returning * into s;
+
+    update public.service_provider
+    set reliability_score = greatest(0, reliability_score - p_reliability_penalty)
+    where service_provider_id = p_actor_id;
+  end if;
+
+  return s;
+end;
+$$;
@@ -0,0 +1,139 @@
+-- Server-side AutoFill matching.
+-- Helprs no longer claim AutoFill jobs from the app. The first pending bid opens a short
+-- bidding window; when it closes, or once enough helprs have bid, the match-autofill edge
+-- function scores the pending bids (packages/core/src/autofill.ts), places the hold on the
+-- customer's saved card and books the best one through confirm_booking.
+
+alter table public.service add column if not exists autofill_closes_at timestamptz;
+
+-- Where the helpr was when bidding, for the distance score
+alter table public.service_fill_request add column if not exists bid_latitude double precision;
+alter table public.service_fill_request add column if not exists bid_longitude double precision;
+-- Written by match-autofill, 0 to 1
+alter table public.service_fill_request add column if not exists match_score numeric(4, 3);
+
+create index if not exists service_autofill_window_idx
+  on public.service (autofill_closes_at)
+  where service_provider_id is null and autofill_closes_at is not null;
+
+-- Mirrors the AutoFill edges removed from SERVICE_TRANSITIONS
+delete from public.service_status_transitions
+where to_status = 'confirmed' and actor = 'provider';
+
+-- Clients only write the request itself and its status. Assignment, payment and schedule
+-- changes on booked jobs go through confirm_booking and the other security definer functions.
+revoke update on public.service from anon, authenticated;
+grant update (
+  status, scheduling_type, scheduled_date_time, location, start_location, end_location,
+  description, price, quote_id, payment_method_type, autofill_type
+) on public.service to authenticated;
+
+-- Helprs only move the status of the jobs they can update; the other granted columns
+-- belong to the customer's request
+create or replace function public.guard_helpr_service_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  -- Security definer functions run as their owner and are trusted
+  if current_user = 'authenticated'
+    and auth.uid() is distinct from old.customer_id
+    and (to_jsonb(new) - 'status') is distinct from (to_jsonb(old) - 'status') then
+    raise exception 'helpr_update_not_allowed' using detail = 'helprs can only change the status of a job';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_helpr_service_update on public.service;
+create trigger guard_helpr_service_update
+  before update on public.service
+  for each row execute function public.guard_helpr_service_update();
+
+-- New bids start out pending and unscored
+drop policy if exists "Helprs can bid on open services" on public.service_fill_request;
+create policy "Helprs can bid on open services"
+  on public.service_fill_request for insert
+  to authenticated
+  with check (
+    service_provider_id = auth.uid()
+    and status = 'pending'
+    and status_reason is null
+    and match_score is null
+    and exists (
+      select 1 from public.service s
+      where s.service_id = service_fill_request.service_id
+        and s.service_provider_id is null
+        and s.status in ('finding_pros', 'select_service_provider')
+    )
+  );
+
+-- The first pending bid on an AutoFill job opens its bidding window. A job a helpr
+-- dropped gets a fresh window with its next bid.
+create or replace function public.open_autofill_window()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.service s
+  set autofill_closes_at = now() + interval '10 minutes'
+  where s.service_id = new.service_id
+    and lower(coalesce(s.autofill_type, '')) = 'autofill'
+    and not exists (
+      select 1 from public.service_fill_request r
+      where r.service_id = new.service_id
+        and r.status = 'pending'
+        and r.fill_request_id <> new.fill_request_id
+    );
+  return new;
+end;
+$$;
+
+drop trigger if exists open_autofill_window on public.service_fill_request;
+create trigger open_autofill_window
+  after insert on public.service_fill_request
+  for each row execute function public.open_autofill_window();
+
+-- AutoFill losers are told they were outscored rather than passed over by the customer
+create or replace function public.resolve_service_bids()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.service_provider_id is null and new.service_provider_id is not null then
+    update public.service_fill_request
+    set status = 'accepted'
+    where service_id = new.service_id
+      and service_provider_id = new.service_provider_id
+      and status = 'pending';
+
+    update public.service_fill_request
+    set status = 'declined',
+        status_reason = case when lower(coalesce(new.autofill_type, '')) = 'autofill'
+          then 'another_helpr_autofilled' else 'another_helpr_booked' end
+    where service_id = new.service_id
+      and service_provider_id <> new.service_provider_id
+      and status = 'pending';
+  elsif old.service_provider_id is not null and new.service_provider_id is null then
+    update public.service_fill_request
+    set status = 'withdrawn', status_reason = 'dropped_by_helpr'
+    where service_id = new.service_id
+      and service_provider_id = old.service_provider_id
+      and status = 'accepted';
+  end if;
+
+  if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+    update public.service_fill_request
+    set status = 'expired', status_reason = 'job_cancelled'
+    where service_id = new.service_id
+      and status = 'pending';
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,35 @@
+-- Job time estimates.
+-- create-quote stores a hands-on duration range with every quote (packages/core/src/estimates.ts).
+-- Helprs cannot read quotes, so the range is copied onto the service whenever it is booked
+-- against a quote; both apps build the arrival window and estimated finish from it.
+
+alter table public.quotes add column if not exists estimated_minutes_min integer;
+alter table public.quotes add column if not exists estimated_minutes_max integer;
+
+alter table public.service add column if not exists estimated_minutes_min integer;
+alter table public.service add column if not exists estimated_minutes_max integer;
+
+create or replace function public.copy_quote_estimate()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.quote_id is not distinct from old.quote_id then
+    return new;
+  end if;
+
+  select q.estimated_minutes_min, q.estimated_minutes_max
+    into new.estimated_minutes_min, new.estimated_minutes_max
+  from public.quotes q
+  where q.quote_id = new.quote_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists copy_quote_estimate on public.service;
+create trigger copy_quote_estimate
+  before insert or update of quote_id on public.service
+  for each row execute function public.copy_quote_estimate();
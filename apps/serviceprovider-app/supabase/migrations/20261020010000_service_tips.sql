@@ -0,0 +1,84 @@
+-- Tips after completion.
+-- send-tip charges the customer's saved card with the helpr's Connect account as the
+-- destination and no application fee, so the whole tip goes to the helpr outside the fee
+-- schedule. record_service_tip stores it here and adds it to the helpr's balance, with
+-- tips_total keeping the share of the balance that came from tips.
+-- Rows are written only by the edge function (service role).
+
+create table if not exists public.service_tip (
+  tip_id uuid primary key default gen_random_uuid(),
+  service_id uuid not null unique references public.service (service_id) on delete cascade,
+  customer_id uuid not null references public.customer (customer_id) on delete cascade,
+  service_provider_id uuid not null references public.service_provider (service_provider_id) on delete cascade,
+  amount numeric(10, 2) not null check (amount > 0),
+  percent numeric(5, 2),
+  payment_intent_id text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists service_tip_provider_idx on public.service_tip (service_provider_id, created_at);
+
+alter table public.service_tip enable row level security;
+
+drop policy if exists "Participants can read tips" on public.service_tip;
+create policy "Participants can read tips"
+  on public.service_tip for select
+  to authenticated
+  using (auth.uid() in (customer_id, service_provider_id));
+
+-- Lifetime tips; already counted in balance
+alter table public.service_provider add column if not exists tips_total numeric(10, 2) not null default 0;
+
+-- Records a settled tip and credits the helpr. Replays of the same payment return the
+-- balance unchanged.
+create or replace function public.record_service_tip(
+  p_service_id uuid,
+  p_amount numeric,
+  p_percent numeric,
+  p_payment_intent_id text
+)
+returns numeric
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  t public.service_tip%rowtype;
+  v_balance numeric;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found then
+    raise exception 'service_not_found';
+  end if;
+
+  select * into t from public.service_tip where service_id = p_service_id;
+
+  if found then
+    if t.payment_intent_id <> p_payment_intent_id then
+      raise exception 'already_tipped';
+    end if;
+    select balance into v_balance from public.service_provider where service_provider_id = t.service_provider_id;
+    return v_balance;
+  end if;
+
+  if s.status <> 'completed' or s.service_provider_id is null then
+    raise exception 'not_completed';
+  end if;
+
+  insert into public.service_tip (service_id, customer_id, service_provider_id, amount, percent, payment_intent_id)
+  values (s.service_id, s.customer_id, s.service_provider_id, p_amount, p_percent, p_payment_intent_id);
+
+  update public.service_provider
+  set balance = balance + p_amount,
+      tips_total = tips_total + p_amount
+  where service_provider_id = s.service_provider_id
+  returning balance into v_balance;
+
+  return v_balance;
+end;
+$$;
+
+revoke execute on function public.record_service_tip(uuid, numeric, numeric, text) from public, anon, authenticated;
+grant execute on function public.record_service_tip(uuid, numeric, numeric, text) to service_role;
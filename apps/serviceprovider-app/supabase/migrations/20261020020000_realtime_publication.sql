@@ -0,0 +1,26 @@
+-- Realtime.
+-- The customer app keeps one channel open for changes to its services and the bids on them
+-- (RealtimeContext) instead of polling. Supabase only broadcasts tables in the
+-- supabase_realtime publication, and RLS decides which subscribers receive each row.
+
+do $$
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    create publication supabase_realtime;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'service'
+  ) then
+    alter publication supabase_realtime add table public.service;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'service_fill_request'
+  ) then
+    alter publication supabase_realtime add table public.service_fill_request;
+  end if;
+end;
+$$;
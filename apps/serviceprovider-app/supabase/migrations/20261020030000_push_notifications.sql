@@ -0,0 +1,286 @@
+-- Push notifications.
+-- Both apps register their Expo push token per device with register_push_token. Triggers
+-- queue a push_events row for every status transition with a notify_* side effect, new jobs,
+-- new bids, counter-offers and change requests; each row is posted to the
+-- send-push-notifications edge function, which picks the recipients and sends through Expo.
+-- Posting needs the pg_net extension and two Vault secrets, `project_url` and
+-- `service_role_key`; without them rows wait until the scheduled run drains them.
+-- An event is only marked sent once Expo has taken it; a failed send releases its claim so
+-- the next run retries it, up to the attempt limit the edge function passes to claim_push_event.
+
+create extension if not exists pg_net with schema extensions;
+
+create table if not exists public.push_tokens (
+  token text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  app text not null check (app in ('customer', 'provider')),
+  platform text not null,
+  -- Helprs only: where the app was last opened, for new job alerts
+  latitude double precision,
+  longitude double precision,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists push_tokens_user_idx on public.push_tokens (user_id, app);
+
+alter table public.push_tokens enable row level security;
+
+-- Registered through register_push_token only
+drop policy if exists "Users can read their own push tokens" on public.push_tokens;
+create policy "Users can read their own push tokens"
+  on public.push_tokens for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users can delete their own push tokens" on public.push_tokens;
+create policy "Users can delete their own push tokens"
+  on public.push_tokens for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- A device that changes hands moves to the user who signed in last. Only helprs may register
+-- for provider alerts, which carry new job locations.
+create or replace function public.register_push_token(
+  p_token text,
+  p_app text,
+  p_platform text,
+  p_latitude double precision default null,
+  p_longitude double precision default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if p_token is null or p_token not like 'ExponentPushToken[%]' then
+    raise exception 'invalid_token';
+  end if;
+
+  if p_app = 'provider' and not public.is_service_provider() then
+    raise exception 'not_a_service_provider';
+  end if;
+
+  insert into public.push_tokens (token, user_id, app, platform, latitude, longitude, updated_at)
+  values (p_token, auth.uid(), p_app, p_platform, p_latitude, p_longitude, now())
+  on conflict (token) do update
+  set user_id = excluded.user_id,
+      app = excluded.app,
+      platform = excluded.platform,
+      latitude = coalesce(excluded.latitude, push_tokens.latitude),
+      longitude = coalesce(excluded.longitude, push_tokens.longitude),
+      updated_at = now();
+end;
+$$;
+
+revoke execute on function public.register_push_token(text, text, text, double precision, double precision) from public, anon;
+grant execute on function public.register_push_token(text, text, text, double precision, double precision) to authenticated;
+
+-- Outbox read and written by send-push-notifications (service role) only
+create table if not exists public.push_events (
+  event_id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in (
+    'status_changed', 'new_job', 'new_bid', 'bid_countered', 'change_requested', 'change_answered'
+  )),
+  service_id uuid not null references public.service (service_id) on delete cascade,
+  payload jsonb not null default '{}',
+  created_at timestamptz not null default now(),
+  -- Set while a run is sending it; a claim older than the lease is treated as abandoned
+  claimed_at timestamptz,
+  attempts integer not null default 0,
+  sent_at timestamptz
+);
+
+create index if not exists push_events_unsent_idx on public.push_events (created_at) where sent_at is null;
+
+alter table public.push_events enable row level security;
+
+-- Returns the event if this caller now holds it, or nothing if it is sent, held or given up on
+create or replace function public.claim_push_event(
+  p_event_id uuid,
+  p_max_attempts integer,
+  p_lease_seconds integer
+)
+returns setof public.push_events
+language sql
+security definer
+set search_path = public
+as $$
+  update public.push_events
+  set claimed_at = now(),
+      attempts = attempts + 1
+  where event_id = p_event_id
+    and sent_at is null
+    and attempts < p_max_attempts
+    and (claimed_at is null or claimed_at < now() - make_interval(secs => p_lease_seconds))
+  returning *;
+$$;
+
+revoke execute on function public.claim_push_event(uuid, integer, integer) from public, anon, authenticated;
+
+create or replace function public.queue_status_push()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.side_effects && array['notify_customer', 'notify_provider', 'notify_other_bidders'] then
+    insert into public.push_events (kind, service_id, payload)
+    values ('status_changed', new.service_id, jsonb_build_object(
+      'from_status', new.from_status,
+      'to_status', new.to_status,
+      'side_effects', to_jsonb(new.side_effects)
+    ));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists queue_status_push on public.service_status_events;
+create trigger queue_status_push
+  after insert on public.service_status_events
+  for each row execute function public.queue_status_push();
+
+create or replace function public.queue_new_job_push()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if lower(new.status) = 'finding_pros' and new.service_provider_id is null then
+    insert into public.push_events (kind, service_id) values ('new_job', new.service_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists queue_new_job_push on public.service;
+create trigger queue_new_job_push
+  after insert on public.service
+  for each row execute function public.queue_new_job_push();
+
+create or replace function public.queue_bid_push()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.push_events (kind, service_id, payload)
+  values ('new_bid', new.service_id, jsonb_build_object(
+    'service_provider_id', new.service_provider_id,
+    'bid', new.bid
+  ));
+  return new;
+end;
+$$;
+
+drop trigger if exists queue_bid_push on public.service_fill_request;
+create trigger queue_bid_push
+  after insert on public.service_fill_request
+  for each row execute function public.queue_bid_push();
+
+-- The opening offer mirrors the bid itself and is covered by new_bid
+create or replace function public.queue_bid_offer_push()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.service_bid_offer o
+    where o.service_id = new.service_id
+      and o.service_provider_id = new.service_provider_id
+      and o.offer_id <> new.offer_id
+  ) then
+    return new;
+  end if;
+
+  insert into public.push_events (kind, service_id, payload)
+  values ('bid_countered', new.service_id, jsonb_build_object(
+    'service_provider_id', new.service_provider_id,
+    'offered_by', new.offered_by,
+    'amount', new.amount
+  ));
+  return new;
+end;
+$$;
+
+drop trigger if exists queue_bid_offer_push on public.service_bid_offer;
+create trigger queue_bid_offer_push
+  after insert on public.service_bid_offer
+  for each row execute function public.queue_bid_offer_push();
+
+create or replace function public.queue_change_request_push()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.push_events (kind, service_id, payload)
+    values ('change_requested', new.service_id, jsonb_build_object(
+      'change_request_id', new.change_request_id,
+      'service_provider_id', new.service_provider_id
+    ));
+  elsif new.status in ('approved', 'rejected') and old.status = 'pending' then
+    insert into public.push_events (kind, service_id, payload)
+    values ('change_answered', new.service_id, jsonb_build_object(
+      'change_request_id', new.change_request_id,
+      'customer_id', new.customer_id,
+      'status', new.status
+    ));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists queue_change_request_push on public.service_change_request;
+create trigger queue_change_request_push
+  after insert or update of status on public.service_change_request
+  for each row execute function public.queue_change_request_push();
+
+-- Hands each event to the edge function. Failures never block the write that queued it;
+-- the scheduled run picks up whatever is still unsent.
+create or replace function public.dispatch_push_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_url text;
+  v_key text;
+begin
+  begin
+    select decrypted_secret into v_url from vault.decrypted_secrets where name = 'project_url';
+    select decrypted_secret into v_key from vault.decrypted_secrets where name = 'service_role_key';
+
+    if v_url is not null and v_key is not null then
+      perform net.http_post(
+        url := v_url || '/functions/v1/send-push-notifications',
+        headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || v_key),
+        body := jsonb_build_object('eventId', new.event_id)
+      );
+    end if;
+  exception when others then
+    raise warning 'dispatch_push_event failed for %: %', new.event_id, sqlerrm;
+  end;
+  return new;
+end;
+$$;
+
+drop trigger if exists dispatch_push_event on public.push_events;
+create trigger dispatch_push_event
+  after insert on public.push_events
+  for each row execute function public.dispatch_push_event();
+
+revoke execute on function public.dispatch_push_event() from public, anon, authenticated;
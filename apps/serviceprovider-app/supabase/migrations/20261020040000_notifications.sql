@@ -0,0 +1,56 @@
+-- In-app notification center.
+-- send-push-notifications stores every message it resolves here, one row per recipient and
+-- app, before pushing it, so users without a push token still see it in their inbox.
+-- Users read their own rows and can only set read_at; the realtime publication keeps
+-- unread badges current.
+
+create table if not exists public.notifications (
+  notification_id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  app text not null check (app in ('customer', 'provider')),
+  -- The push_events row it came from; keeps retries from writing it twice
+  event_id uuid references public.push_events (event_id) on delete set null,
+  kind text not null,
+  service_id uuid references public.service (service_id) on delete cascade,
+  title text not null,
+  body text not null,
+  -- Screen the notification opens (PushTarget in packages/core/src/notifications.ts)
+  target text not null,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists notifications_event_recipient_idx
+  on public.notifications (event_id, user_id, app);
+
+create index if not exists notifications_inbox_idx
+  on public.notifications (user_id, app, created_at desc);
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "Users can read their own notifications" on public.notifications;
+create policy "Users can read their own notifications"
+  on public.notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users can mark their own notifications read" on public.notifications;
+create policy "Users can mark their own notifications read"
+  on public.notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+revoke insert, update, delete on public.notifications from anon, authenticated;
+grant update (read_at) on public.notifications to authenticated;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'notifications'
+  ) then
+    alter publication supabase_realtime add table public.notifications;
+  end if;
+end;
+$$;
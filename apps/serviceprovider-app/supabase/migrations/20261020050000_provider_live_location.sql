@@ -0,0 +1,101 @@
+-- Live helpr location while on the way.
+-- During helpr_otw the provider app publishes its position with publish_provider_location;
+-- each job keeps a single row that every update overwrites, so no trail is stored. The row
+-- is deleted as soon as the job leaves helpr_otw (arrived, cancelled or dropped), and the
+-- function refuses updates for jobs in any other status, so sharing stops on its own.
+
+create table if not exists public.service_provider_location (
+  service_id uuid primary key references public.service (service_id) on delete cascade,
+  service_provider_id uuid not null references public.service_provider (service_provider_id) on delete cascade,
+  -- Copied from the service so the customer's realtime channel can filter on it
+  customer_id uuid not null references public.customer (customer_id) on delete cascade,
+  latitude double precision not null,
+  longitude double precision not null,
+  heading double precision,
+  accuracy_meters double precision,
+  recorded_at timestamptz not null default now()
+);
+
+alter table public.service_provider_location enable row level security;
+
+-- Written through publish_provider_location only
+drop policy if exists "Participants can read live location" on public.service_provider_location;
+create policy "Participants can read live location"
+  on public.service_provider_location for select
+  to authenticated
+  using (auth.uid() in (customer_id, service_provider_id));
+
+revoke insert, update, delete on public.service_provider_location from anon, authenticated;
+
+create or replace function public.publish_provider_location(
+  p_service_id uuid,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_heading double precision default null,
+  p_accuracy_meters double precision default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+begin
+  select * into s from public.service where service_id = p_service_id;
+
+  if not found or s.service_provider_id is distinct from auth.uid() then
+    raise exception 'service_not_found';
+  end if;
+
+  if lower(s.status) <> 'helpr_otw' then
+    raise exception 'not_on_the_way';
+  end if;
+
+  insert into public.service_provider_location (
+    service_id, service_provider_id, customer_id, latitude, longitude, heading, accuracy_meters, recorded_at
+  )
+  values (
+    s.service_id, s.service_provider_id, s.customer_id, p_latitude, p_longitude, p_heading, p_accuracy_meters, now()
+  )
+  on conflict (service_id) do update
+  set latitude = excluded.latitude,
+      longitude = excluded.longitude,
+      heading = excluded.heading,
+      accuracy_meters = excluded.accuracy_meters,
+      recorded_at = excluded.recorded_at;
+end;
+$$;
+
+revoke execute on function public.publish_provider_location(uuid, double precision, double precision, double precision, double precision) from public, anon;
+grant execute on function public.publish_provider_location(uuid, double precision, double precision, double precision, double precision) to authenticated;
+
+create or replace function public.clear_provider_location()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if lower(old.status) = 'helpr_otw' and lower(new.status) <> 'helpr_otw' then
+    delete from public.service_provider_location where service_id = new.service_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists clear_provider_location on public.service;
+create trigger clear_provider_location
+  after update of status on public.service
+  for each row execute function public.clear_provider_location();
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'service_provider_location'
+  ) then
+    alter publication supabase_realtime add table public.service_provider_location;
+  end if;
+end;
+$$;
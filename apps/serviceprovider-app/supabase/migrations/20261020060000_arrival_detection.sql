@@ -0,0 +1,134 @@
+-- Geofenced arrival detection.
+-- While a job is helpr_otw the provider app compares the helpr's position with the job's
+-- start coordinates (copied from its quote) and calls record_provider_arrival once they are
+-- inside the radius. The function repeats the check against the stored coordinates with the
+-- same limits (ARRIVAL_RADIUS_METERS and ARRIVAL_MAX_ACCURACY_METERS in
+-- packages/core/src/liveLocation.ts). Arrival and start times are kept on the service as
+-- dispute evidence, so clients cannot write them directly. The arrival belongs to the helpr
+-- who made it: it is cleared when the job changes hands (e.g. a helpr drops it from
+-- helpr_otw and it goes back to finding_pros).
+
+alter table public.service add column if not exists arrived_at timestamptz;
+alter table public.service add column if not exists arrival_latitude double precision;
+alter table public.service add column if not exists arrival_longitude double precision;
+alter table public.service add column if not exists started_at timestamptz;
+
+alter table public.push_events drop constraint if exists push_events_kind_check;
+alter table public.push_events add constraint push_events_kind_check check (kind in (
+  'status_changed', 'new_job', 'new_bid', 'bid_countered', 'change_requested', 'change_answered', 'helpr_arrived'
+));
+
+create or replace function public.protect_arrival_evidence()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Service role (edge functions) and direct SQL may correct the record
+  if auth.uid() is not null
+    and coalesce(current_setting('helpr.recording_arrival', true), '') <> 'on'
+    and (
+      new.arrived_at is distinct from old.arrived_at
+      or new.arrival_latitude is distinct from old.arrival_latitude
+      or new.arrival_longitude is distinct from old.arrival_longitude
+      or new.started_at is distinct from old.started_at
+    ) then
+    raise exception 'arrival_evidence_read_only';
+  end if;
+
+  if new.service_provider_id is distinct from old.service_provider_id then
+    new.arrived_at := null;
+    new.arrival_latitude := null;
+    new.arrival_longitude := null;
+  end if;
+
+  if lower(new.status) = 'in_progress' and lower(old.status) is distinct from 'in_progress' then
+    new.started_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_arrival_evidence on public.service;
+create trigger protect_arrival_evidence
+  before update on public.service
+  for each row execute function public.protect_arrival_evidence();
+
+-- Great-circle distance, matching distanceInMiles in packages/core/src/geo.ts
+create or replace function public.distance_meters(
+  p_from_latitude double precision,
+  p_from_longitude double precision,
+  p_to_latitude double precision,
+  p_to_longitude double precision
+)
+returns double precision
+language sql
+immutable
+as $$
+  select 2 * 6371008.8 * asin(sqrt(
+    sin(radians(p_to_latitude - p_from_latitude) / 2) ^ 2
+    + cos(radians(p_from_latitude)) * cos(radians(p_to_latitude)) * sin(radians(p_to_longitude - p_from_longitude) / 2) ^ 2
+  ));
+$$;
+
+-- Returns when the helpr arrived; repeat calls keep the first arrival
+create or replace function public.record_provider_arrival(
+  p_service_id uuid,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_accuracy_meters double precision
+)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.service%rowtype;
+  v_arrived_at timestamptz;
+begin
+  select * into s from public.service where service_id = p_service_id for update;
+
+  if not found or s.service_provider_id is distinct from auth.uid() then
+    raise exception 'service_not_found';
+  end if;
+
+  if s.arrived_at is not null then
+    return s.arrived_at;
+  end if;
+
+  if lower(s.status) <> 'helpr_otw' then
+    raise exception 'not_on_the_way';
+  end if;
+
+  if s.start_latitude is null or s.start_longitude is null then
+    raise exception 'job_location_unknown';
+  end if;
+
+  if p_accuracy_meters is null or p_accuracy_meters < 0 or p_accuracy_meters > 50 then
+    raise exception 'location_too_inaccurate' using detail = format('accuracy %s m', p_accuracy_meters);
+  end if;
+
+  if public.distance_meters(p_latitude, p_longitude, s.start_latitude, s.start_longitude) > 150 then
+    raise exception 'not_at_job_location';
+  end if;
+
+  perform set_config('helpr.recording_arrival', 'on', true);
+  update public.service
+  set arrived_at = now(),
+      arrival_latitude = p_latitude,
+      arrival_longitude = p_longitude
+  where service_id = p_service_id
+  returning arrived_at into v_arrived_at;
+  perform set_config('helpr.recording_arrival', 'off', true);
+
+  insert into public.push_events (kind, service_id) values ('helpr_arrived', p_service_id);
+
+  return v_arrived_at;
+end;
+$$;
+
+revoke execute on function public.record_provider_arrival(uuid, double precision, double precision, double precision) from public, anon;
+grant execute on function public.record_provider_arrival(uuid, double precision, double precision, double precision) to authenticated;
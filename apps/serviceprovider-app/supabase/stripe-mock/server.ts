@@ -0,0 +1,191 @@
+// Stateful in-memory stand-in for the slice of the Stripe API the payment functions use,
+// so authorize → re-authorize → capture can be exercised locally without Stripe test keys.
+//
+//   deno run --allow-net supabase/stripe-mock/server.ts            # listens on :12111
+//   STRIPE_API_BASE_URL=http://host.docker.internal:12111 in supabase/functions/.env.local
+//
+// Magic payment method ids (any other pm_* id is a working card):
+//   pm_card_chargeDeclined          every charge is declined
+//   pm_card_authenticationRequired  needs 3-D Secure on session; fails off-session
+// Test helper (not part of Stripe): POST /v1/test_helpers/payment_intents/:id/expire
+// cancels a hold as if the 7-day authorization window had passed.
+
+type Params = Record<string, string | Record<string, string>>
+
+type PaymentIntent = {
+  id: string
+  object: 'payment_intent'
+  amount: number
+  amount_received: number
+  currency: string
+  customer: string | null
+  payment_method: string | null
+  capture_method: 'automatic' | 'manual'
+  status: 'requires_payment_method' | 'requires_action' | 'requires_capture' | 'succeeded' | 'canceled'
+  client_secret: string
+  metadata: Record<string, string>
+}
+
+const port = Number(Deno.env.get('PORT') ?? 12111)
+
+const customers = new Map<string, Record<string, unknown>>()
+const paymentMethodOwners = new Map<string, string>()
+const paymentIntents = new Map<string, PaymentIntent>()
+const idempotentResponses = new Map<string, { status: number; body: unknown }>()
+
+let sequence = 0
+const nextId = (prefix: string) => `${prefix}_mock${(++sequence).toString().padStart(6, '0')}`
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const stripeError = (status: number, code: string, message: string, type = 'card_error') =>
+  ({ status, body: { error: { type, code, message } } })
+
+// Form bodies use `metadata[key]=value` for nested objects; one level is enough here
+const parseForm = (text: string): Params => {
+  const params: Params = {}
+  for (const [key, value] of new URLSearchParams(text)) {
+    const nested = key.match(/^([^[]+)\[([^\]]+)\]$/)
+    if (nested) {
+      const parent = (params[nested[1]] ?? {}) as Record<string, string>
+      parent[nested[2]] = value
+      params[nested[1]] = parent
+    } else {
+      params[key] = value
+    }
+  }
+  return params
+}
+
+const confirmIntent = (intent: PaymentIntent, offSession: boolean) => {
+  if (intent.payment_method === 'pm_card_chargeDeclined') {
+    return stripeError(402, 'card_declined', 'Your card was declined.')
+  }
+  if (intent.payment_method === 'pm_card_authenticationRequired') {
+    if (offSession) {
+      return stripeError(402, 'authentication_required', 'This payment requires the customer to authenticate.')
+    }
+    intent.status = 'requires_action'
+    return { status: 200, body: intent }
+  }
+  intent.status = intent.capture_method === 'manual' ? 'requires_capture' : 'succeeded'
+  intent.amount_received = intent.status === 'succeeded' ? intent.amount : 0
+  return { status: 200, body: intent }
+}
+
+const handle = (method: string, path: string, params: Params): { status: number; body: unknown } => {
+  const segments = path.split('/').filter(Boolean).slice(1)
+
+  if (method === 'POST' && path === '/v1/customers') {
+    const customer = { id: nextId('cus'), object: 'customer', email: params.email ?? null, metadata: params.metadata ?? {} }
+    customers.set(customer.id, customer)
+    return { status: 200, body: customer }
+  }
+
+  if (segments[0] === 'payment_methods' && segments[1]) {
+    const id = segments[1]
+    if (method === 'POST' && segments[2] === 'attach') {
+      paymentMethodOwners.set(id, String(params.customer))
+    }
+    return {
+      status: 200,
+      body: { id, object: 'payment_method', type: 'card', customer: paymentMethodOwners.get(id) ?? null },
+    }
+  }
+
+  if (method === 'POST' && path === '/v1/payment_intents') {
+    const id = nextId('pi')
+    const intent: PaymentIntent = {
+      id,
+      object: 'payment_intent',
+      amount: Number(params.amount),
+      amount_received: 0,
+      currency: String(params.currency ?? 'usd'),
+      customer: (params.customer as string) ?? null,
+      payment_method: (params.payment_method as string) ?? null,
+      capture_method: params.capture_method === 'manual' ? 'manual' : 'automatic',
+      status: 'requires_payment_method',
+      client_secret: `${id}_secret_mock`,
+      metadata: (params.metadata as Record<string, string>) ?? {},
+    }
+    paymentIntents.set(id, intent)
+    return params.confirm === 'true' ? confirmIntent(intent, params.off_session === 'true') : { status: 200, body: intent }
+  }
+
+  if (segments[0] === 'payment_intents' && segments[1]) {
+    const intent = paymentIntents.get(segments[1])
+    if (!intent) {
+      return stripeError(404, 'resource_missing', `No such payment_intent: '${segments[1]}'`, 'invalid_request_error')
+    }
+
+    if (method === 'GET') {
+      // Reading an intent after requires_action stands in for the customer finishing 3-D Secure
+      if (intent.status === 'requires_action') {
+        intent.status = intent.capture_method === 'manual' ? 'requires_capture' : 'succeeded'
+      }
+      return { status: 200, body: intent }
+    }
+
+    if (segments[2] === 'capture') {
+      if (intent.status !== 'requires_capture') {
+        return stripeError(400, 'payment_intent_unexpected_state', `This PaymentIntent is ${intent.status}.`, 'invalid_request_error')
+      }
+      intent.status = 'succeeded'
+      intent.amount_received = Number(params.amount_to_capture ?? intent.amount)
+      return { status: 200, body: intent }
+    }
+
+    if (segments[2] === 'cancel') {
+      if (intent.status === 'succeeded' || intent.status === 'canceled') {
+        return stripeError(400, 'payment_intent_unexpected_state', `This PaymentIntent is ${intent.status}.`, 'invalid_request_error')
+      }
+      intent.status = 'canceled'
+      return { status: 200, body: intent }
+    }
+  }
+
+  if (method === 'POST' && path === '/v1/refunds') {
+    const intent = paymentIntents.get(String(params.payment_intent))
+    if (!intent || intent.status !== 'succeeded') {
+      return stripeError(400, 'charge_not_refundable', 'This PaymentIntent has no successful charge to refund.', 'invalid_request_error')
+    }
+    const amount = Number(params.amount ?? intent.amount_received)
+    if (amount > intent.amount_received) {
+      return stripeError(400, 'amount_too_large', 'Refund amount is greater than the unrefunded amount.', 'invalid_request_error')
+    }
+    intent.amount_received -= amount
+    return {
+      status: 200,
+      body: { id: nextId('re'), object: 'refund', amount, currency: intent.currency, payment_intent: intent.id, status: 'succeeded' },
+    }
+  }
+
+  if (method === 'POST' && segments[0] === 'test_helpers' && segments[1] === 'payment_intents' && segments[3] === 'expire') {
+    const intent = paymentIntents.get(segments[2])
+    if (!intent) {
+      return stripeError(404, 'resource_missing', `No such payment_intent: '${segments[2]}'`, 'invalid_request_error')
+    }
+    intent.status = 'canceled'
+    return { status: 200, body: intent }
+  }
+
+  return stripeError(404, 'unrecognized_url', `Unrecognized request URL (${method}: ${path})`, 'invalid_request_error')
+}
+
+Deno.serve({ port }, async (req) => {
+  const url = new URL(req.url)
+  const params = req.method === 'POST' ? parseForm(await req.text()) : parseForm(url.search.slice(1))
+
+  const idempotencyKey = req.method === 'POST' ? req.headers.get('Idempotency-Key') : null
+  const cached = idempotencyKey ? idempotentResponses.get(idempotencyKey) : undefined
+  const result = cached ?? handle(req.method, url.pathname, params)
+
+  if (idempotencyKey && !cached) {
+    // Snapshot, as Stripe replays the original response rather than the live object
+    idempotentResponses.set(idempotencyKey, structuredClone(result))
+  }
+
+  console.log(`${req.method} ${url.pathname} -> ${result.status}${cached ? ' (replayed)' : ''}`)
+  return json(result.body, result.status)
+})
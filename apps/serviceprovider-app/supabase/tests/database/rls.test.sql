@@ -0,0 +1,431 @@
+-- Row-level security checks. Run against the local stack with `supabase test db`.
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(58);
+
+-- Fixtures, written as the table owner so RLS and the lifecycle trigger stay out of the way
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000c1', 'c1@test.local'),
+  ('00000000-0000-0000-0000-0000000000c2', 'c2@test.local'),
+  ('00000000-0000-0000-0000-0000000000a1', 'p1@test.local'),
+  ('00000000-0000-0000-0000-0000000000a2', 'p2@test.local');
+
+insert into public.customer (customer_id, email) values
+  ('00000000-0000-0000-0000-0000000000c1', 'c1@test.local'),
+  ('00000000-0000-0000-0000-0000000000c2', 'c2@test.local');
+
+insert into public.service_provider (service_provider_id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'p1@test.local'),
+  ('00000000-0000-0000-0000-0000000000a2', 'p2@test.local');
+
+-- Quotes are signed the way create-quote signs them; e4 is then tampered with
+do $$
+begin
+  if not exists (select 1 from vault.secrets where name = 'quote_signing_secret') then
+    perform vault.create_secret('test-quote-signing-secret', 'quote_signing_secret');
+  end if;
+end;
+$$;
+
+insert into public.quotes (
+  quote_id, user_id, service_type, amount, rate_card_version, expires_at, start_location, start_latitude, start_longitude, signature
+) values
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000c1', 'moving', 100, 'test', now() + interval '1 hour', '1 Main St', 40.7, -74, ''),
+  ('00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-0000000000c2', 'cleaning', 80, 'test', now() + interval '1 hour', '2 Main St', 40.7, -74, ''),
+  ('00000000-0000-0000-0000-0000000000e3', '00000000-0000-0000-0000-0000000000c1', 'cleaning', 30, 'test', now() + interval '1 hour', '3 Main St', 40.7, -74, ''),
+  ('00000000-0000-0000-0000-0000000000e4', '00000000-0000-0000-0000-0000000000c1', 'cleaning', 30, 'test', now() + interval '1 hour', '4 Main St', 40.7, -74, '');
+update public.quotes q set signature = public.quote_signature(q);
+update public.quotes set amount = 10 where quote_id = '00000000-0000-0000-0000-0000000000e4';
+
+-- s1: c1's open request with two bids; s2: c2's job assigned to p2
+insert into public.service (service_id, customer_id, service_type, status, price, quote_id) values
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000c1', 'moving', 'select_service_provider', 100, '00000000-0000-0000-0000-0000000000e1');
+insert into public.service (service_id, customer_id, service_provider_id, service_type, status, price, quote_id) values
+  ('00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-0000000000a2', 'cleaning', 'confirmed', 80, '00000000-0000-0000-0000-0000000000e2');
+
+insert into public.service_fill_request (service_id, service_provider_id, bid) values
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 95),
+  ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a2', 90);
+
+set local role authenticated;
+
+-- Customer c1
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000c1", "role": "authenticated"}';
+
+select results_eq(
+  'select service_id from public.service',
+  $$values ('00000000-0000-0000-0000-0000000000d1'::uuid)$$,
+  'customers see only their own services'
+);
+select is((select count(*) from public.service_fill_request)::int, 2, 'customers see every bid on their services');
+select is((select count(*) from public.customer)::int, 1, 'customers see only their own profile');
+select throws_ok(
+  $$update public.service set status = 'completed' where service_id = '00000000-0000-0000-0000-0000000000d1'$$,
+  'illegal_status_transition',
+  'customers cannot complete a job'
+);
+select throws_ok(
+  $$insert into public.service_provider_ratings (service_id, customer_id, service_provider_id, rating)
+    values ('00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a2', 5)$$,
+  '42501',
+  null,
+  'customers cannot rate jobs that are not theirs'
+);
+select lives_ok(
+  $$insert into public.payment_methods (stripe_pm_id, brand, last4, exp_month, exp_year) values ('pm_test', 'visa', '4242', 12, 2030)$$,
+  'customers can save a card'
+);
+select is_empty(
+  $$delete from public.service where service_id = '00000000-0000-0000-0000-0000000000d1' returning service_id$$,
+  'customers cannot delete services'
+);
+select throws_ok(
+  $$insert into public.service (customer_id, service_type, location, price, quote_id)
+    values ('00000000-0000-0000-0000-0000000000c1', 'cleaning', '99 Far Ave', 30, '00000000-0000-0000-0000-0000000000e3')$$,
+  'quote_location_mismatch',
+  'customers cannot book a quote for a different address'
+);
+select throws_ok(
+  $$insert into public.service (customer_id, service_type, location, price, quote_id)
+    values ('00000000-0000-0000-0000-0000000000c1', 'cleaning', '4 Main St', 10, '00000000-0000-0000-0000-0000000000e4')$$,
+  'quote_invalid_signature',
+  'customers cannot book a quote that was changed after signing'
+);
+
+-- Helpr p1: bid on s1, not assigned anywhere
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}';
+
+select results_eq(
+  'select service_id from public.service',
+  $$values ('00000000-0000-0000-0000-0000000000d1'::uuid)$$,
+  'helprs see open jobs but not jobs assigned to others'
+);
+select results_eq(
+  'select bid from public.service_fill_request',
+  $$values (95::numeric(10, 2))$$,
+  'helprs see only their own bids'
+);
+select is((select count(*) from public.customer)::int, 1, 'helprs see customers of visible jobs only');
+select is((select count(*) from public.payment_methods)::int, 0, 'saved cards are private');
+select is_empty(
+  $$update public.service set status = 'helpr_otw' where service_id = '00000000-0000-0000-0000-0000000000d2' returning service_id$$,
+  'helprs cannot move jobs assigned to others'
+);
+select throws_ok(
+  $$update public.service set service_provider_id = '00000000-0000-0000-0000-0000000000a1' where service_id = '00000000-0000-0000-0000-0000000000d1'$$,
+  '42501',
+  null,
+  'helprs cannot assign themselves to open jobs'
+);
+select throws_ok(
+  $$update public.service_provider set balance = 1000 where service_provider_id = '00000000-0000-0000-0000-0000000000a1'$$,
+  '42501',
+  null,
+  'helprs cannot change their own balance'
+);
+
+-- Helpr p2: assigned to s2
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}';
+
+select is((select count(*) from public.service)::int, 2, 'helprs see open jobs and their assigned jobs');
+select lives_ok(
+  $$insert into public.customer_ratings (service_id, customer_id, service_provider_id, rating)
+    values ('00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-0000000000a2', 5)$$,
+  'the assigned helpr can rate the customer'
+);
+select throws_ok(
+  $$update public.service set status = 'finding_pros' where service_id = '00000000-0000-0000-0000-0000000000d2'$$,
+  'illegal_status_transition',
+  'helprs drop jobs through cancel-service, not directly'
+);
+select throws_ok(
+  $$update public.service set scheduled_date_time = now() where service_id = '00000000-0000-0000-0000-0000000000d2'$$,
+  'helpr_update_not_allowed',
+  'assigned helprs can only change the status of a job'
+);
+
+-- Customer c2
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000c2", "role": "authenticated"}';
+
+select lives_ok(
+  $$insert into public.service_provider_ratings (service_id, customer_id, service_provider_id, rating)
+    values ('00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-0000000000a2', 4.5)$$,
+  'the customer can rate the assigned helpr'
+);
+select throws_ok(
+  $$update public.service set status = 'cancelled' where service_id = '00000000-0000-0000-0000-0000000000d2'$$,
+  'illegal_status_transition',
+  'customers cancel paid jobs through cancel-service, not directly'
+);
+select is_empty(
+  $$update public.service set description = 'bigger job' where service_id = '00000000-0000-0000-0000-0000000000d2' returning service_id$$,
+  'customers cannot edit a job once a helpr has accepted it'
+);
+select lives_ok(
+  $$select public.request_service_change('00000000-0000-0000-0000-0000000000d2', p_description => 'bigger job')$$,
+  'customers can ask the assigned helpr to approve changes'
+);
+select is((select count(*) from public.customer_ratings)::int, 1, 'participants can read ratings about their job');
+
+-- s3: an occurrence of c2's recurring cleaning, offered to p2 first
+reset role;
+set local request.jwt.claims to '{}';
+
+insert into public.service_series (series_id, customer_id, service_type, price, rrule, starts_at) values
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000c2', 'cleaning', 80, 'FREQ=WEEKLY;INTERVAL=1', now());
+insert into public.service (service_id, customer_id, service_type, status, price, series_id, occurrence_at, offered_to_provider_id, offer_expires_at) values
+  ('00000000-0000-0000-0000-0000000000d3', '00000000-0000-0000-0000-0000000000c2', 'cleaning', 'finding_pros', 80,
+   '00000000-0000-0000-0000-0000000000f1', now() + interval '7 days', '00000000-0000-0000-0000-0000000000a2', now() + interval '1 day');
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}';
+
+select is_empty(
+  $$select service_id from public.service where service_id = '00000000-0000-0000-0000-0000000000d3'$$,
+  'helprs cannot see an occurrence offered to another helpr'
+);
+select throws_ok(
+  $$insert into public.service_fill_request (service_id, service_provider_id, bid)
+    values ('00000000-0000-0000-0000-0000000000d3', '00000000-0000-0000-0000-0000000000a1', 70)$$,
+  '42501',
+  null,
+  'helprs cannot bid on an occurrence offered to another helpr'
+);
+
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}';
+
+select isnt_empty(
+  $$select service_id from public.service where service_id = '00000000-0000-0000-0000-0000000000d3'$$,
+  'the helpr an occurrence is offered to can see it'
+);
+
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000c2", "role": "authenticated"}';
+
+select lives_ok(
+  $$update public.service_series set status = 'paused' where series_id = '00000000-0000-0000-0000-0000000000f1'$$,
+  'customers can pause their series'
+);
+select throws_ok(
+  $$update public.service_series set price = 1 where series_id = '00000000-0000-0000-0000-0000000000f1'$$,
+  '42501',
+  null,
+  'customers cannot change the terms of a series'
+);
+
+-- Negotiating s1: c1 counters p1's opening bid of 95
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000c1", "role": "authenticated"}';
+
+select lives_ok(
+  $$select public.counter_bid_offer('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 85)$$,
+  'customers can counter a bid'
+);
+select throws_ok(
+  $$select public.counter_bid_offer('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a1', 80)$$,
+  'awaiting_response',
+  'customers wait for an answer before countering again'
+);
+select results_eq(
+  $$select bid from public.service_fill_request where service_provider_id = '00000000-0000-0000-0000-0000000000a1'$$,
+  $$values (95::numeric(10, 2))$$,
+  'counters do not overwrite the opening bid'
+);
+
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}';
+
+select is_empty(
+  $$select offer_id from public.service_bid_offer where service_provider_id = '00000000-0000-0000-0000-0000000000a1'$$,
+  'helprs cannot read other helprs'' negotiations'
+);
+
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}';
+
+select lives_ok(
+  $$select public.accept_bid_offer(offer_id) from public.service_bid_offer
+    where service_provider_id = '00000000-0000-0000-0000-0000000000a1' and status = 'open'$$,
+  'helprs can accept a counter-offer'
+);
+
+-- Bid history: p2 withdraws and re-bids on s1, then c1 books p1
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}';
+
+select throws_ok(
+  $$update public.service_fill_request set status = 'accepted' where service_provider_id = '00000000-0000-0000-0000-0000000000a2'$$,
+  '42501',
+  null,
+  'helprs can only withdraw their bids'
+);
+select lives_ok(
+  $$update public.service_fill_request set status = 'withdrawn' where service_provider_id = '00000000-0000-0000-0000-0000000000a2'$$,
+  'helprs can withdraw a pending bid'
+);
+select lives_ok(
+  $$insert into public.service_fill_request (service_id, service_provider_id, bid)
+    values ('00000000-0000-0000-0000-0000000000d1', '00000000-0000-0000-0000-0000000000a2', 88)$$,
+  'helprs can bid again after withdrawing'
+);
+
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000c1", "role": "authenticated"}';
+
+select is_empty(
+  $$delete from public.service_fill_request where service_id = '00000000-0000-0000-0000-0000000000d1' returning service_id$$,
+  'bids are never deleted'
+);
+
+reset role;
+set local request.jwt.claims to '{}';
+
+update public.service
+set service_provider_id = '00000000-0000-0000-0000-0000000000a1', status = 'confirmed', price = 85
+where service_id = '00000000-0000-0000-0000-0000000000d1';
+
+select results_eq(
+  $$select status from public.service_fill_request where service_id = '00000000-0000-0000-0000-0000000000d1' order by status$$,
+  $$values ('accepted'), ('declined'), ('withdrawn')$$,
+  'booking a helpr records the outcome of every bid'
+);
+
+-- AutoFill: helprs bid, the match-autofill function books
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}';
+
+select throws_ok(
+  $$insert into public.service_fill_request (service_id, service_provider_id, bid, status)
+    values ('00000000-0000-0000-0000-0000000000d3', '00000000-0000-0000-0000-0000000000a2', 80, 'accepted')$$,
+  '42501',
+  null,
+  'helprs cannot file a bid as already accepted'
+);
+select throws_ok(
+  $$update public.service set service_provider_id = '00000000-0000-0000-0000-0000000000a2', status = 'confirmed'
+    where service_id = '00000000-0000-0000-0000-0000000000d3'$$,
+  'illegal_status_transition',
+  'helprs cannot claim a job themselves'
+);
+
+-- Tips are charged and recorded by send-tip only
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000c2", "role": "authenticated"}';
+
+select throws_ok(
+  $$insert into public.service_tip (service_id, customer_id, service_provider_id, amount, payment_intent_id)
+    values ('00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-0000000000a2', 10, 'pi_fake')$$,
+  '42501',
+  null,
+  'customers cannot record a tip without paying'
+);
+select throws_ok(
+  $$select public.record_service_tip('00000000-0000-0000-0000-0000000000d2', 10, null, 'pi_fake')$$,
+  '42501',
+  null,
+  'customers cannot credit helpr tips directly'
+);
+
+-- Push tokens belong to whoever registered them; the outbox is written by triggers only
+select lives_ok(
+  $$select public.register_push_token('ExponentPushToken[customer-device]', 'customer', 'ios')$$,
+  'customers can register their device for push notifications'
+);
+select throws_ok(
+  $$select public.register_push_token('ExponentPushToken[customer-device]', 'provider', 'ios', 40.7, -74)$$,
+  'not_a_service_provider',
+  'customers cannot sign up for new job alerts'
+);
+select throws_ok(
+  $$insert into public.push_events (kind, service_id) values ('new_job', '00000000-0000-0000-0000-0000000000d2')$$,
+  '42501',
+  null,
+  'customers cannot queue push notifications'
+);
+
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}';
+
+select is_empty(
+  $$select token from public.push_tokens where token = 'ExponentPushToken[customer-device]'$$,
+  'helprs cannot read other users push tokens'
+);
+select throws_ok(
+  $$insert into public.notifications (user_id, app, kind, title, body, target)
+    values ('00000000-0000-0000-0000-0000000000a2', 'provider', 'new_job', 'Fake', 'Fake', 'provider-landing')$$,
+  '42501',
+  null,
+  'helprs cannot write their own notifications'
+);
+
+-- Live location is only accepted from the assigned helpr while on the way
+select throws_ok(
+  $$insert into public.service_provider_location (service_id, service_provider_id, customer_id, latitude, longitude)
+    values ('00000000-0000-0000-0000-0000000000d2', '00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000c2', 40.7, -74)$$,
+  '42501',
+  null,
+  'helprs cannot write their location directly'
+);
+
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000c2", "role": "authenticated"}';
+
+select throws_ok(
+  $$select public.publish_provider_location('00000000-0000-0000-0000-0000000000d2', 40.7, -74)$$,
+  'service_not_found',
+  'customers cannot publish a helpr location'
+);
+
+-- Arrival evidence is only recorded by record_provider_arrival, and only while on the way
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}';
+
+select throws_ok(
+  $$update public.service set arrived_at = now() where service_id = '00000000-0000-0000-0000-0000000000d2'$$,
+  '42501',
+  null,
+  'helprs cannot write their arrival time directly'
+);
+select throws_ok(
+  $$select public.record_provider_arrival('00000000-0000-0000-0000-0000000000d2', 40.7, -74, 10)$$,
+  'not_on_the_way',
+  'helprs can only arrive at jobs they are on the way to'
+);
+
+-- The arrival is checked against the job's own coordinates, not the helpr's word
+reset role;
+set local request.jwt.claims to '{}';
+
+update public.service
+set status = 'helpr_otw', start_latitude = 40.7, start_longitude = -74
+where service_id = '00000000-0000-0000-0000-0000000000d2';
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}';
+
+select throws_ok(
+  $$select public.record_provider_arrival('00000000-0000-0000-0000-0000000000d2', 40.75, -74, 10)$$,
+  'not_at_job_location',
+  'helprs cannot record an arrival away from the job'
+);
+select throws_ok(
+  $$select public.record_provider_arrival('00000000-0000-0000-0000-0000000000d2', 40.7, -74, 1000)$$,
+  'location_too_inaccurate',
+  'helprs cannot record an arrival from a poor fix'
+);
+select lives_ok(
+  $$select public.record_provider_arrival('00000000-0000-0000-0000-0000000000d2', 40.7005, -74, 10)$$,
+  'helprs can record an arrival at the job'
+);
+
+-- A helpr who drops a job on the way takes their arrival with them
+reset role;
+set local request.jwt.claims to '{}';
+
+select lives_ok(
+  $$select public.cancel_service(
+    '00000000-0000-0000-0000-0000000000d2', 'provider', '00000000-0000-0000-0000-0000000000a2', 'helpr_otw',
+    null, 0, 0, 0, 0, 0, 0, null
+  )$$,
+  'helprs can drop a job they are on the way to'
+);
+
+select results_eq(
+  $$select arrived_at, arrival_latitude, arrival_longitude from public.service where service_id = '00000000-0000-0000-0000-0000000000d2'$$,
+  $$values (null::timestamptz, null::double precision, null::double precision)$$,
+  'dropping a job clears the arrival for the next helpr'
+);
+
+select * from finish();
+rollback;
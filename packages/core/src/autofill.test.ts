@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { isAutoFillMatchDue, rankAutoFillCandidates, scoreAutoFillCandidate } from './autofill.ts';
+import type { AutoFillCandidate, AutoFillContext } from './autofill.ts';
+
+const context: AutoFillContext = {
+  quotedPrice: 100,
+  scheduledDateTime: '2026-10-22T15:00:00Z',
+};
+
+const candidate = (overrides: Partial<AutoFillCandidate> = {}): AutoFillCandidate => ({
+  serviceProviderId: 'helpr',
+  price: 80,
+  rating: 5,
+  reliabilityScore: 100,
+  distanceMiles: 0,
+  proposedDateTime: null,
+  conflictingJobs: 0,
+  ...overrides,
+});
+
+describe('scoreAutoFillCandidate', () => {
+  it('gives a perfect score to a cheap, top-rated, nearby and reliable helpr', () => {
+    const result = scoreAutoFillCandidate(candidate(), context);
+    assert.equal(result.score, 1);
+    assert.equal(result.eligible, true);
+    assert.equal(result.ineligibleReason, null);
+  });
+
+  it('scores price linearly between the best and maximum ratios', () => {
+    assert.equal(scoreAutoFillCandidate(candidate({ price: 60 }), context).breakdown.price, 1);
+    assert.ok(Math.abs(scoreAutoFillCandidate(candidate({ price: 102.5 }), context).breakdown.price - 0.5) < 1e-9);
+    assert.equal(scoreAutoFillCandidate(candidate({ price: 125 }), context).breakdown.price, 0);
+    assert.equal(scoreAutoFillCandidate(candidate({ price: 125 }), context).eligible, true);
+  });
+
+  it('scores unknown ratings, distances and quotes as average and unknown reliability as full', () => {
+    const result = scoreAutoFillCandidate(
+      candidate({ rating: null, distanceMiles: null, reliabilityScore: null }),
+      { ...context, quotedPrice: null },
+    );
+    assert.deepEqual(result.breakdown, { price: 0.5, rating: 0.5, distance: 0.5, reliability: 1, schedule: 1 });
+    assert.equal(result.score, 0.625);
+  });
+
+  it('scores proposed times by how far they are from the requested time', () => {
+    const score = (proposedDateTime: string) =>
+      scoreAutoFillCandidate(candidate({ proposedDateTime }), context).breakdown.schedule;
+    assert.equal(score('2026-10-22T15:00:00Z'), 1);
+    assert.equal(score('2026-10-22T03:00:00Z'), 0.5);
+    assert.equal(score('2026-10-24T15:00:00Z'), 0);
+  });
+
+  it('marks bids too expensive, too far or conflicting as ineligible', () => {
+    assert.equal(scoreAutoFillCandidate(candidate({ price: 126 }), context).ineligibleReason, 'price_too_high');
+    assert.equal(scoreAutoFillCandidate(candidate({ distanceMiles: 31 }), context).ineligibleReason, 'too_far');
+    assert.equal(scoreAutoFillCandidate(candidate({ conflictingJobs: 1 }), context).ineligibleReason, 'schedule_conflict');
+  });
+});
+
+describe('rankAutoFillCandidates', () => {
+  it('puts eligible bids first, then higher scores, then cheaper bids', () => {
+    const ranked = rankAutoFillCandidates(
+      [
+        candidate({ serviceProviderId: 'conflicted', conflictingJobs: 2 }),
+        candidate({ serviceProviderId: 'far', distanceMiles: 15 }),
+        candidate({ serviceProviderId: 'best-expensive', price: 75 }),
+        candidate({ serviceProviderId: 'best-cheap', price: 70 }),
+      ],
+      context,
+    );
+    assert.deepEqual(ranked.map(score => score.serviceProviderId), ['best-cheap', 'best-expensive', 'far', 'conflicted']);
+  });
+});
+
+describe('isAutoFillMatchDue', () => {
+  const now = new Date('2026-10-22T15:00:00Z');
+
+  it('matches once enough helprs have bid or the window has closed', () => {
+    assert.equal(isAutoFillMatchDue({ closesAt: '2026-10-22T15:05:00Z', pendingBids: 3 }, now), true);
+    assert.equal(isAutoFillMatchDue({ closesAt: '2026-10-22T15:05:00Z', pendingBids: 2 }, now), false);
+    assert.equal(isAutoFillMatchDue({ closesAt: '2026-10-22T15:00:00Z', pendingBids: 1 }, now), true);
+    assert.equal(isAutoFillMatchDue({ closesAt: '2026-10-22T14:00:00Z', pendingBids: 0 }, now), false);
+    assert.equal(isAutoFillMatchDue({ closesAt: null, pendingBids: 1 }, now), false);
+  });
+});
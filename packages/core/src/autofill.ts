@@ -0,0 +1,167 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { ServiceRow } from './types.ts';
+
+// AutoFill matching. Bids on an AutoFill job are collected until the window closes or
+// enough helprs have bid; the match-autofill function then scores every pending bid,
+// books the best one and places the hold on the customer's saved card.
+
+// Bidding window, started by the first bid (see the autofill_matching migration)
+export const AUTOFILL_WINDOW_MINUTES = 10;
+// Match as soon as this many helprs have bid, even if the window is still open
+export const AUTOFILL_BID_THRESHOLD = 3;
+// Bids above this multiple of the customer's quote are not considered
+export const AUTOFILL_MAX_PRICE_RATIO = 1.25;
+// At or below this multiple a bid gets the full price score
+export const AUTOFILL_BEST_PRICE_RATIO = 0.8;
+// Helprs further than this from the pickup are not considered
+export const AUTOFILL_MAX_DISTANCE_MILES = 30;
+// Assigned jobs starting within this many hours of the job count as a conflict
+export const AUTOFILL_CONFLICT_HOURS = 3;
+
+export type AutoFillFactor = 'price' | 'rating' | 'distance' | 'reliability' | 'schedule';
+
+// Sums to 1, so scores run from 0 to 1
+export const AUTOFILL_WEIGHTS: Record<AutoFillFactor, number> = {
+  price: 0.35,
+  rating: 0.2,
+  distance: 0.2,
+  reliability: 0.15,
+  schedule: 0.1,
+};
+
+export interface AutoFillCandidate {
+  serviceProviderId: string;
+  // What the customer would pay this helpr (bookable_bid_price)
+  price: number;
+  // 1-5, null for helprs without ratings yet
+  rating: number | null;
+  // 0-100, see the cancellations migration
+  reliabilityScore: number | null;
+  // From where the helpr bid to the pickup; null when either point is unknown
+  distanceMiles: number | null;
+  proposedDateTime: string | null;
+  // The helpr's assigned jobs within AUTOFILL_CONFLICT_HOURS of this one
+  conflictingJobs: number;
+}
+
+export interface AutoFillContext {
+  // The customer's quote; bids are judged against it
+  quotedPrice: number | null;
+  scheduledDateTime: string | null;
+  now?: Date;
+}
+
+export type AutoFillIneligibleReason = 'price_too_high' | 'too_far' | 'schedule_conflict';
+
+export interface AutoFillScore {
+  serviceProviderId: string;
+  score: number;
+  eligible: boolean;
+  ineligibleReason: AutoFillIneligibleReason | null;
+  // Each factor from 0 to 1, before weighting
+  breakdown: Record<AutoFillFactor, number>;
+}
+
+// Unknown ratings and distances score as an average helpr would
+const NEUTRAL_SCORE = 0.5;
+const HOUR_MS = 60 * 60 * 1000;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const scorePrice = (price: number, quotedPrice: number | null): number => {
+  if (!quotedPrice || quotedPrice <= 0) return NEUTRAL_SCORE;
+  const ratio = price / quotedPrice;
+  return clamp((AUTOFILL_MAX_PRICE_RATIO - ratio) / (AUTOFILL_MAX_PRICE_RATIO - AUTOFILL_BEST_PRICE_RATIO));
+};
+
+// Proposed times a day or more away from when the customer wants the job score 0
+const scoreSchedule = (candidate: AutoFillCandidate, context: AutoFillContext): number => {
+  if (!candidate.proposedDateTime) return 1;
+  const target = context.scheduledDateTime ? new Date(context.scheduledDateTime) : context.now ?? new Date();
+  const gapHours = Math.abs(new Date(candidate.proposedDateTime).getTime() - target.getTime()) / HOUR_MS;
+  return Number.isFinite(gapHours) ? clamp(1 - gapHours / 24) : NEUTRAL_SCORE;
+};
+
+export const scoreAutoFillCandidate = (candidate: AutoFillCandidate, context: AutoFillContext): AutoFillScore => {
+  const breakdown: Record<AutoFillFactor, number> = {
+    price: scorePrice(candidate.price, context.quotedPrice),
+    rating: candidate.rating === null ? NEUTRAL_SCORE : clamp((candidate.rating - 1) / 4),
+    distance: candidate.distanceMiles === null
+      ? NEUTRAL_SCORE
+      : clamp(1 - candidate.distanceMiles / AUTOFILL_MAX_DISTANCE_MILES),
+    reliability: candidate.reliabilityScore === null ? 1 : clamp(candidate.reliabilityScore / 100),
+    schedule: scoreSchedule(candidate, context),
+  };
+
+  let ineligibleReason: AutoFillIneligibleReason | null = null;
+  if (context.quotedPrice && candidate.price > context.quotedPrice * AUTOFILL_MAX_PRICE_RATIO) {
+    ineligibleReason = 'price_too_high';
+  } else if (candidate.distanceMiles !== null && candidate.distanceMiles > AUTOFILL_MAX_DISTANCE_MILES) {
+    ineligibleReason = 'too_far';
+  } else if (candidate.conflictingJobs > 0) {
+    ineligibleReason = 'schedule_conflict';
+  }
+
+  const score = (Object.keys(AUTOFILL_WEIGHTS) as AutoFillFactor[])
+    .reduce((total, factor) => total + AUTOFILL_WEIGHTS[factor] * breakdown[factor], 0);
+
+  return {
+    serviceProviderId: candidate.serviceProviderId,
+    score: Math.round(score * 1000) / 1000,
+    eligible: ineligibleReason === null,
+    ineligibleReason,
+    breakdown,
+  };
+};
+
+// Best match first; ties go to the cheaper bid
+export const rankAutoFillCandidates = (candidates: AutoFillCandidate[], context: AutoFillContext): AutoFillScore[] => {
+  const prices = new Map(candidates.map(candidate => [candidate.serviceProviderId, candidate.price]));
+  return candidates
+    .map(candidate => scoreAutoFillCandidate(candidate, context))
+    .sort((a, b) =>
+      Number(b.eligible) - Number(a.eligible)
+      || b.score - a.score
+      || (prices.get(a.serviceProviderId) ?? 0) - (prices.get(b.serviceProviderId) ?? 0));
+};
+
+export const isAutoFillService = (service: Pick<ServiceRow, 'autofill_type'>): boolean =>
+  (service.autofill_type ?? '').toString().toLowerCase() === 'autofill';
+
+// Whether bidding on an AutoFill job is over and the match should run
+export const isAutoFillMatchDue = (
+  window: { closesAt: string | null | undefined; pendingBids: number },
+  now: Date = new Date(),
+): boolean =>
+  window.pendingBids > 0
+  && (window.pendingBids >= AUTOFILL_BID_THRESHOLD
+    || (Boolean(window.closesAt) && new Date(window.closesAt as string).getTime() <= now.getTime()));
+
+export type AutoFillMatchErrorCode = 'not_authenticated' | 'invalid_request' | 'service_not_found' | 'server_error';
+
+export type AutoFillMatchResult =
+  // Still taking bids
+  | { status: 'collecting'; serviceId: string; closesAt: string | null; pendingBids: number }
+  | { status: 'assigned'; serviceId: string; serviceProviderId: string }
+  // No bid could be booked automatically; the customer picks one in select-helpr instead
+  | { status: 'unmatched'; serviceId: string; reason: 'no_eligible_bids' | 'payment_failed' }
+  | { status: 'failed'; code: AutoFillMatchErrorCode; message: string };
+
+const isAutoFillMatchResult = (value: unknown): value is AutoFillMatchResult =>
+  typeof value === 'object' && value !== null && typeof (value as { status?: unknown }).status === 'string';
+
+// Called after bidding on an AutoFill job; matches right away when the bid was the last one needed
+export const requestAutoFillMatch = async (client: SupabaseClient, serviceId: string): Promise<AutoFillMatchResult> => {
+  const { data, error } = await client.functions.invoke('match-autofill', { body: { serviceId } });
+
+  if (error) {
+    const body = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    if (isAutoFillMatchResult(body)) return body;
+    return { status: 'failed', code: 'server_error', message: 'We could not reach the AutoFill service.' };
+  }
+
+  return isAutoFillMatchResult(data)
+    ? data
+    : { status: 'failed', code: 'server_error', message: 'Unexpected response from the AutoFill service.' };
+};
@@ -0,0 +1,172 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Bid negotiation. Each step between a customer and a bidding helpr is a row of
+// `service_bid_offer`; the opening bid on `service_fill_request` is never overwritten.
+
+export type BidOfferParty = 'customer' | 'provider';
+
+export type BidOfferStatus = 'open' | 'accepted' | 'countered' | 'withdrawn';
+
+// A row of the `service_bid_offer` table
+export type BidOfferRow = {
+  offer_id: string;
+  service_id: string;
+  service_provider_id: string;
+  offered_by: BidOfferParty;
+  amount: number;
+  // 0 for the opening bid; each customer counter starts the next round
+  round: number;
+  status: BidOfferStatus;
+  // Null for the opening bid
+  expires_at?: string | null;
+  created_at: string;
+  responded_at?: string | null;
+};
+
+// Mirrors the limit enforced by counter_bid_offer
+export const MAX_COUNTER_ROUNDS = 3;
+
+export interface BidNegotiation {
+  // Oldest first
+  history: BidOfferRow[];
+  latest: BidOfferRow | null;
+  // What the customer can book this helpr at right now
+  bookablePrice: number | null;
+  // The customer's counter the helpr still has to answer
+  pendingCounter: BidOfferRow | null;
+  // When the open offer lapses, if it does
+  expiresAt: string | null;
+  customerCanCounter: boolean;
+  roundsLeft: number;
+}
+
+const isLapsed = (offer: BidOfferRow, now: Date) =>
+  Boolean(offer.expires_at) && new Date(offer.expires_at as string).getTime() <= now.getTime();
+
+// Reads one customer/helpr thread the same way bookable_bid_price and counter_bid_offer do
+export const summarizeBidNegotiation = (
+  offers: BidOfferRow[],
+  openingBid: number | null = null,
+  now: Date = new Date(),
+): BidNegotiation => {
+  const history = [...offers].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const latest = history[history.length - 1] ?? null;
+  const roundsLeft = Math.max(0, MAX_COUNTER_ROUNDS - (latest?.round ?? 0));
+
+  if (!latest) {
+    return {
+      history,
+      latest,
+      bookablePrice: openingBid,
+      pendingCounter: null,
+      expiresAt: null,
+      customerCanCounter: roundsLeft > 0,
+      roundsLeft,
+    };
+  }
+
+  const isOpen = latest.status === 'open';
+  const lapsed = isLapsed(latest, now);
+  let bookablePrice: number | null = null;
+
+  if (latest.status === 'accepted') {
+    bookablePrice = Number(latest.amount);
+  } else if (isOpen && latest.offered_by === 'provider' && !lapsed) {
+    bookablePrice = Number(latest.amount);
+  } else if (isOpen && latest.offered_by === 'customer' && lapsed) {
+    // A lapsed counter leaves the helpr's previous price standing
+    const previous = history.filter(offer => offer.offered_by === 'provider').pop();
+    bookablePrice = previous ? Number(previous.amount) : null;
+  }
+
+  const pendingCounter = isOpen && latest.offered_by === 'customer' && !lapsed ? latest : null;
+
+  return {
+    history,
+    latest,
+    bookablePrice,
+    pendingCounter,
+    expiresAt: isOpen && !lapsed ? latest.expires_at ?? null : null,
+    customerCanCounter: latest.status !== 'accepted' && !pendingCounter && roundsLeft > 0,
+    roundsLeft,
+  };
+};
+
+// "Helpr $120 → You $100 → Helpr $110", from the customer's side
+export const describeBidHistory = (offers: BidOfferRow[], viewer: BidOfferParty): string =>
+  offers
+    .map(offer => {
+      const who = offer.offered_by === viewer ? 'You' : offer.offered_by === 'provider' ? 'Helpr' : 'Customer';
+      return `${who} $${Number(offer.amount).toFixed(0)}`;
+    })
+    .join(' → ');
+
+const BID_OFFER_ERROR_MESSAGES: Record<string, string> = {
+  bid_not_found: 'This bid is no longer available.',
+  negotiation_closed: 'This job has already been booked.',
+  invalid_offer_amount: 'Enter a valid dollar amount.',
+  offer_already_accepted: 'This price was already accepted.',
+  awaiting_response: 'Wait for the Helpr to answer your last offer.',
+  too_many_rounds: 'You have used all your counter-offers for this Helpr.',
+  offer_not_found: 'This offer no longer exists.',
+  offer_closed: 'This offer was already answered or replaced.',
+  offer_expired: 'This offer has expired.',
+};
+
+// Maps errors raised by counter_bid_offer / accept_bid_offer to display copy
+export const describeBidOfferError = (error: { message?: string } | null | undefined): string | null => {
+  const message = error?.message ?? '';
+  const code = Object.keys(BID_OFFER_ERROR_MESSAGES).find(key => message.includes(key));
+  return code ? BID_OFFER_ERROR_MESSAGES[code] : null;
+};
+
+export const fetchBidOffers = async (
+  client: SupabaseClient,
+  serviceIds: string[],
+  serviceProviderId?: string,
+): Promise<BidOfferRow[]> => {
+  if (serviceIds.length === 0) return [];
+
+  let query = client
+    .from('service_bid_offer')
+    .select('*')
+    .in('service_id', serviceIds)
+    .order('created_at', { ascending: true });
+
+  if (serviceProviderId) {
+    query = query.eq('service_provider_id', serviceProviderId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as BidOfferRow[];
+};
+
+export interface CounterBidOfferRequest {
+  serviceId: string;
+  serviceProviderId: string;
+  amount: number;
+}
+
+// Customers counter the helpr's price; helprs counter back or revise their own price
+export const counterBidOffer = async (
+  client: SupabaseClient,
+  request: CounterBidOfferRequest,
+): Promise<BidOfferRow> => {
+  const { data, error } = await client.rpc('counter_bid_offer', {
+    p_service_id: request.serviceId,
+    p_service_provider_id: request.serviceProviderId,
+    p_amount: request.amount,
+  });
+
+  if (error) throw error;
+  return data as BidOfferRow;
+};
+
+// Helprs accept a customer's counter; customers accept a helpr's price by booking it
+export const acceptBidOffer = async (client: SupabaseClient, offerId: string): Promise<BidOfferRow> => {
+  const { data, error } = await client.rpc('accept_bid_offer', { p_offer_id: offerId });
+
+  if (error) throw error;
+  return data as BidOfferRow;
+};
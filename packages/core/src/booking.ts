@@ -0,0 +1,54 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface ConfirmBookingRequest {
+  serviceId: string;
+  // Identifies the chosen bid (a service has at most one pending bid per helpr)
+  serviceProviderId: string;
+  // Stripe payment method id of one of the customer's saved cards
+  paymentMethodId: string;
+}
+
+export type ConfirmBookingErrorCode =
+  | 'not_authenticated'
+  | 'invalid_request'
+  | 'service_not_found'
+  | 'bid_not_found'
+  | 'already_booked'
+  | 'offer_changed'
+  | 'payment_failed'
+  | 'server_error';
+
+export type ConfirmBookingResult =
+  | {
+      status: 'confirmed';
+      serviceId: string;
+      serviceProviderId: string;
+      amount: number;
+      scheduledDateTime: string | null;
+      paymentIntentId: string;
+    }
+  // The card needs 3-D Secure: confirm the client secret, then call again with the same request
+  | { status: 'requires_action'; clientSecret: string }
+  | { status: 'failed'; code: ConfirmBookingErrorCode; message: string };
+
+const isConfirmBookingResult = (value: unknown): value is ConfirmBookingResult =>
+  typeof value === 'object' && value !== null && typeof (value as { status?: unknown }).status === 'string';
+
+// Safe to retry: the confirm-booking function is idempotent per service, bid and card
+export const confirmBooking = async (
+  client: SupabaseClient,
+  request: ConfirmBookingRequest,
+): Promise<ConfirmBookingResult> => {
+  const { data, error } = await client.functions.invoke('confirm-booking', { body: request });
+
+  if (error) {
+    // Non-2xx responses still carry a typed result in the body
+    const body = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    if (isConfirmBookingResult(body)) return body;
+    return { status: 'failed', code: 'server_error', message: 'We could not reach the booking service. Please try again.' };
+  }
+
+  return isConfirmBookingResult(data)
+    ? data
+    : { status: 'failed', code: 'server_error', message: 'Unexpected response from the booking service.' };
+};
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { describeCancellationQuote, quoteCancellation } from './cancellation.ts';
+import type { CancellationInput } from './cancellation.ts';
+import { SERVICE_STATUS } from './status.ts';
+
+const now = new Date('2026-10-20T12:00:00Z');
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString();
+
+const quote = (input: Partial<CancellationInput>) =>
+  quoteCancellation({
+    status: SERVICE_STATUS.Confirmed,
+    scheduledDateTime: hoursFromNow(48),
+    chargedAmount: 200,
+    cancelledBy: 'customer',
+    now,
+    ...input,
+  });
+
+describe('quoteCancellation', () => {
+  it('lets customers cancel unassigned requests for free', () => {
+    for (const status of [SERVICE_STATUS.FindingPros, SERVICE_STATUS.SelectServiceProvider, SERVICE_STATUS.Pending, SERVICE_STATUS.Scheduled]) {
+      const result = quote({ status, scheduledDateTime: hoursFromNow(1) });
+      assert.equal(result.cancellable, true, status);
+      assert.equal(result.fee, 0, status);
+      assert.equal(result.refund, 200, status);
+      assert.equal(result.nextStatus, SERVICE_STATUS.Cancelled, status);
+    }
+  });
+
+  it('charges customers by hours of notice on assigned jobs', () => {
+    assert.equal(quote({ scheduledDateTime: hoursFromNow(24) }).fee, 0);
+
+    const lateNotice = quote({ scheduledDateTime: hoursFromNow(23.5) });
+    assert.equal(lateNotice.feeRate, 0.25);
+    assert.equal(lateNotice.fee, 50);
+    assert.equal(lateNotice.refund, 150);
+
+    assert.equal(quote({ scheduledDateTime: hoursFromNow(2) }).fee, 50);
+    assert.equal(quote({ scheduledDateTime: hoursFromNow(1.5) }).fee, 100);
+    assert.equal(quote({ scheduledDateTime: hoursFromNow(-1) }).fee, 100);
+  });
+
+  it('applies the shortest window once the helpr is on the way or the time is unknown', () => {
+    assert.equal(quote({ status: SERVICE_STATUS.HelprOtw, scheduledDateTime: hoursFromNow(48) }).fee, 100);
+
+    const unscheduled = quote({ scheduledDateTime: null });
+    assert.equal(unscheduled.hoursNotice, null);
+    assert.equal(unscheduled.fee, 100);
+  });
+
+  it('rounds the fee and refund to cents', () => {
+    const result = quote({ chargedAmount: 99.99, scheduledDateTime: hoursFromNow(5) });
+    assert.equal(result.fee, 25);
+    assert.equal(result.refund, 74.99);
+  });
+
+  it('refunds customers in full when helprs drop a job and penalizes the helpr', () => {
+    const early = quote({ cancelledBy: 'provider' });
+    assert.equal(early.cancellable, true);
+    assert.equal(early.nextStatus, SERVICE_STATUS.FindingPros);
+    assert.equal(early.fee, 0);
+    assert.equal(early.refund, 200);
+    assert.equal(early.reliabilityPenalty, 1);
+
+    assert.equal(quote({ cancelledBy: 'provider', scheduledDateTime: hoursFromNow(3) }).reliabilityPenalty, 3);
+    assert.equal(quote({ cancelledBy: 'provider', status: SERVICE_STATUS.HelprOtw }).reliabilityPenalty, 5);
+  });
+
+  it('does not cancel jobs that are underway, finished or unassigned for helprs', () => {
+    for (const status of [SERVICE_STATUS.InProgress, SERVICE_STATUS.Completed, SERVICE_STATUS.Cancelled, 'unknown']) {
+      assert.equal(quote({ status }).cancellable, false, status);
+    }
+    assert.equal(quote({ cancelledBy: 'provider', status: SERVICE_STATUS.FindingPros }).cancellable, false);
+  });
+});
+
+describe('describeCancellationQuote', () => {
+  it('explains the fee, the free cancellation and the helpr penalty', () => {
+    assert.equal(
+      describeCancellationQuote(quote({ scheduledDateTime: hoursFromNow(5) })),
+      'Cancelling now costs a $50.00 fee (25% of your booking) because your Helpr has already set time aside. The remaining $150.00 will be returned to your card.',
+    );
+    assert.equal(
+      describeCancellationQuote(quote({})),
+      'You can cancel for free. The $200.00 hold on your card will be released.',
+    );
+    assert.equal(
+      describeCancellationQuote(quote({ status: SERVICE_STATUS.FindingPros, chargedAmount: 0 })),
+      'You can cancel this request for free.',
+    );
+    assert.match(describeCancellationQuote(quote({ cancelledBy: 'provider' })), /lowers your reliability score by 1 point\.$/);
+    assert.equal(describeCancellationQuote(quote({ status: SERVICE_STATUS.Completed })), 'This job can no longer be cancelled.');
+  });
+});
@@ -0,0 +1,197 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { normalizeServiceStatus, SERVICE_STATUS } from './status.ts';
+import type { ServiceStatus } from './status.ts';
+
+export type CancellationParty = 'customer' | 'provider';
+
+// One notice window of the cancellation policy, matched by hours until scheduled_date_time
+export interface CancellationWindow {
+  minHoursNotice: number;
+  // Share of the amount charged to the customer that is kept when they cancel
+  customerFeeRate: number;
+  // Deducted from the helpr's reliability score when they drop the job
+  providerPenalty: number;
+}
+
+// Ordered from most to least notice; the first window the notice reaches applies
+export const CANCELLATION_WINDOWS: readonly CancellationWindow[] = [
+  { minHoursNotice: 24, customerFeeRate: 0, providerPenalty: 1 },
+  { minHoursNotice: 2, customerFeeRate: 0.25, providerPenalty: 3 },
+  { minHoursNotice: -Infinity, customerFeeRate: 0.5, providerPenalty: 5 },
+];
+
+// Once the helpr is on the way the shortest window applies whatever the schedule says
+const EN_ROUTE_WINDOW = CANCELLATION_WINDOWS[CANCELLATION_WINDOWS.length - 1];
+
+// Unassigned requests have no helpr or card hold yet, so customers cancel them for free
+const FREE_CUSTOMER_STATUSES: ServiceStatus[] = [
+  SERVICE_STATUS.FindingPros,
+  SERVICE_STATUS.SelectServiceProvider,
+  SERVICE_STATUS.Pending,
+  SERVICE_STATUS.Scheduled,
+];
+
+export const CANCELLATION_REASONS: Record<CancellationParty, string[]> = {
+  customer: ['My plans changed', 'I found another option', 'The price is too high', 'Other'],
+  provider: ['I have a scheduling conflict', 'I can no longer do this job', 'Emergency', 'Other'],
+};
+
+export interface CancellationQuote {
+  cancellable: boolean;
+  cancelledBy: CancellationParty;
+  // Status the service moves to: customers close the request, helprs reopen it
+  nextStatus: ServiceStatus | null;
+  // Null when the job has no scheduled time
+  hoursNotice: number | null;
+  feeRate: number;
+  // Kept from the customer's payment; everything else is released or refunded
+  fee: number;
+  refund: number;
+  reliabilityPenalty: number;
+}
+
+export interface CancellationInput {
+  status: string | null | undefined;
+  scheduledDateTime: string | null | undefined;
+  // What the customer's card was authorized or charged for, in dollars; 0 when unpaid
+  chargedAmount: number;
+  cancelledBy: CancellationParty;
+  now?: Date;
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const getHoursNotice = (scheduledDateTime: string | null | undefined, now: Date): number | null => {
+  const scheduled = scheduledDateTime ? new Date(scheduledDateTime).getTime() : Number.NaN;
+  return Number.isNaN(scheduled) ? null : (scheduled - now.getTime()) / (60 * 60 * 1000);
+};
+
+// Jobs without a scheduled time are treated as imminent
+const findCancellationWindow = (hoursNotice: number | null): CancellationWindow =>
+  CANCELLATION_WINDOWS.find(window => (hoursNotice ?? -Infinity) >= window.minHoursNotice) ?? EN_ROUTE_WINDOW;
+
+// The cancellation policy. The cancel-service function settles payment with this quote,
+// and the apps show it before the user confirms.
+export const quoteCancellation = ({
+  status,
+  scheduledDateTime,
+  chargedAmount,
+  cancelledBy,
+  now = new Date(),
+}: CancellationInput): CancellationQuote => {
+  const normalized = normalizeServiceStatus(status);
+  const hoursNotice = getHoursNotice(scheduledDateTime, now);
+  const isAssigned = normalized === SERVICE_STATUS.Confirmed || normalized === SERVICE_STATUS.HelprOtw;
+  const window = normalized === SERVICE_STATUS.HelprOtw ? EN_ROUTE_WINDOW : findCancellationWindow(hoursNotice);
+
+  const notCancellable: CancellationQuote = {
+    cancellable: false,
+    cancelledBy,
+    nextStatus: null,
+    hoursNotice,
+    feeRate: 0,
+    fee: 0,
+    refund: 0,
+    reliabilityPenalty: 0,
+  };
+
+  if (cancelledBy === 'provider') {
+    if (!isAssigned) return notCancellable;
+    return {
+      ...notCancellable,
+      cancellable: true,
+      nextStatus: SERVICE_STATUS.FindingPros,
+      refund: roundCents(chargedAmount),
+      reliabilityPenalty: window.providerPenalty,
+    };
+  }
+
+  if (normalized && FREE_CUSTOMER_STATUSES.includes(normalized)) {
+    return {
+      ...notCancellable,
+      cancellable: true,
+      nextStatus: SERVICE_STATUS.Cancelled,
+      refund: roundCents(chargedAmount),
+    };
+  }
+
+  if (!isAssigned) return notCancellable;
+
+  const fee = roundCents(chargedAmount * window.customerFeeRate);
+  return {
+    ...notCancellable,
+    cancellable: true,
+    nextStatus: SERVICE_STATUS.Cancelled,
+    feeRate: window.customerFeeRate,
+    fee,
+    refund: roundCents(chargedAmount - fee),
+  };
+};
+
+// Warning shown in the confirmation dialog
+export const describeCancellationQuote = (quote: CancellationQuote): string => {
+  if (!quote.cancellable) {
+    return 'This job can no longer be cancelled.';
+  }
+
+  if (quote.cancelledBy === 'provider') {
+    const penalty = `${quote.reliabilityPenalty} point${quote.reliabilityPenalty === 1 ? '' : 's'}`;
+    return `The customer will be refunded in full and the job will reopen for other Helprs. Cancelling now lowers your reliability score by ${penalty}.`;
+  }
+
+  if (quote.fee > 0) {
+    const percent = Math.round(quote.feeRate * 100);
+    return `Cancelling now costs a $${quote.fee.toFixed(2)} fee (${percent}% of your booking) because your Helpr has already set time aside. The remaining $${quote.refund.toFixed(2)} will be returned to your card.`;
+  }
+
+  return quote.refund > 0
+    ? `You can cancel for free. The $${quote.refund.toFixed(2)} hold on your card will be released.`
+    : 'You can cancel this request for free.';
+};
+
+export interface CancelServiceRequest {
+  serviceId: string;
+  reason?: string;
+  // Fee the user agreed to. If the policy now gives a different fee the service is not
+  // cancelled and the new quote is returned instead.
+  expectedFee?: number;
+  // Return the quote without cancelling
+  preview?: boolean;
+}
+
+export type CancelServiceErrorCode =
+  | 'not_authenticated'
+  | 'invalid_request'
+  | 'service_not_found'
+  | 'not_cancellable'
+  | 'payment_failed'
+  | 'server_error';
+
+export type CancelServiceResult =
+  | { status: 'quote'; quote: CancellationQuote }
+  | { status: 'cancelled'; quote: CancellationQuote; serviceStatus: ServiceStatus }
+  | { status: 'fee_changed'; quote: CancellationQuote }
+  | { status: 'failed'; code: CancelServiceErrorCode; message: string };
+
+const isCancelServiceResult = (value: unknown): value is CancelServiceResult =>
+  typeof value === 'object' && value !== null && typeof (value as { status?: unknown }).status === 'string';
+
+// Safe to retry: the cancel-service function keys its Stripe calls by service
+export const cancelService = async (
+  client: SupabaseClient,
+  request: CancelServiceRequest,
+): Promise<CancelServiceResult> => {
+  const { data, error } = await client.functions.invoke('cancel-service', { body: request });
+
+  if (error) {
+    // Non-2xx responses still carry a typed result in the body
+    const body = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    if (isCancelServiceResult(body)) return body;
+    return { status: 'failed', code: 'server_error', message: 'We could not reach the cancellation service. Please try again.' };
+  }
+
+  return isCancelServiceResult(data)
+    ? data
+    : { status: 'failed', code: 'server_error', message: 'Unexpected response from the cancellation service.' };
+};
@@ -0,0 +1,159 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type ServiceChangeRequestStatus = 'pending' | 'approved' | 'rejected' | 'superseded';
+
+// The service terms a change request can touch
+export type ServiceTerms = {
+  description: string | null;
+  location: string | null;
+  start_location: string | null;
+  end_location: string | null;
+  scheduled_date_time: string | null;
+  price: number | null;
+};
+
+// A row of `service_change_request`. Proposed fields are null when unchanged.
+export type ServiceChangeRequestRow = Partial<ServiceTerms> & {
+  change_request_id: string;
+  service_id: string;
+  customer_id: string;
+  service_provider_id: string;
+  status: ServiceChangeRequestStatus;
+  // Re-quote that priced a larger scope
+  quote_id?: string | null;
+  // Terms in force when the change was requested
+  original_terms: ServiceTerms;
+  response_note?: string | null;
+  created_at: string;
+  responded_at?: string | null;
+};
+
+export interface ProposedServiceChanges {
+  description?: string | null;
+  location?: string | null;
+  startLocation?: string | null;
+  endLocation?: string | null;
+  scheduledDateTime?: string | null;
+  // New estimate for the changed job; the price only goes up when this estimate does
+  quoteId?: string | null;
+}
+
+export interface ServiceChangeDiff {
+  field: keyof ServiceTerms;
+  label: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+const TERM_LABELS: Record<keyof ServiceTerms, string> = {
+  description: 'Description',
+  location: 'Location',
+  start_location: 'Pickup',
+  end_location: 'Drop-off',
+  scheduled_date_time: 'Time',
+  price: 'Price',
+};
+
+// Proposed changes next to the terms they would replace, in display order
+export const diffServiceChangeRequest = (request: ServiceChangeRequestRow): ServiceChangeDiff[] =>
+  (Object.keys(TERM_LABELS) as (keyof ServiceTerms)[])
+    .filter(field => request[field] !== null && request[field] !== undefined)
+    .map(field => ({
+      field,
+      label: TERM_LABELS[field],
+      from: request.original_terms?.[field] ?? null,
+      to: request[field] ?? null,
+    }));
+
+const CHANGE_REQUEST_ERROR_MESSAGES: Record<string, string> = {
+  service_not_found: 'We could not find this booking.',
+  service_not_editable: 'This job can no longer be changed.',
+  no_changes: 'Nothing changed from your current booking.',
+  change_request_not_found: 'This change request no longer exists.',
+  change_request_closed: 'This change request was already answered or replaced.',
+};
+
+// Maps errors raised by request_service_change / resolve_service_change to display copy
+export const describeChangeRequestError = (error: { message?: string } | null | undefined): string | null => {
+  const message = error?.message ?? '';
+  const code = Object.keys(CHANGE_REQUEST_ERROR_MESSAGES).find(key => message.includes(key));
+  return code ? CHANGE_REQUEST_ERROR_MESSAGES[code] : null;
+};
+
+// Asks the assigned helpr to approve new terms. The booking keeps its current terms
+// until they do; a newer request replaces any that is still pending.
+export const requestServiceChange = async (
+  client: SupabaseClient,
+  serviceId: string,
+  changes: ProposedServiceChanges,
+): Promise<ServiceChangeRequestRow> => {
+  const { data, error } = await client.rpc('request_service_change', {
+    p_service_id: serviceId,
+    p_description: changes.description ?? null,
+    p_location: changes.location ?? null,
+    p_start_location: changes.startLocation ?? null,
+    p_end_location: changes.endLocation ?? null,
+    p_scheduled_date_time: changes.scheduledDateTime ?? null,
+    p_quote_id: changes.quoteId ?? null,
+  });
+
+  if (error) throw error;
+  return data as ServiceChangeRequestRow;
+};
+
+export const fetchPendingChangeRequests = async (
+  client: SupabaseClient,
+  serviceIds: string[],
+): Promise<ServiceChangeRequestRow[]> => {
+  if (serviceIds.length === 0) return [];
+
+  const { data, error } = await client
+    .from('service_change_request')
+    .select('*')
+    .in('service_id', serviceIds)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+  return (data ?? []) as ServiceChangeRequestRow[];
+};
+
+export interface RespondToChangeRequest {
+  changeRequestId: string;
+  approve: boolean;
+  note?: string;
+}
+
+export type RespondToChangeErrorCode =
+  | 'not_authenticated'
+  | 'invalid_request'
+  | 'change_request_not_found'
+  | 'change_request_closed'
+  | 'service_not_editable'
+  | 'payment_failed'
+  | 'server_error';
+
+export type RespondToChangeResult =
+  | { status: 'approved' | 'rejected'; changeRequestId: string }
+  | { status: 'failed'; code: RespondToChangeErrorCode; message: string };
+
+const isRespondToChangeResult = (value: unknown): value is RespondToChangeResult =>
+  typeof value === 'object' && value !== null && typeof (value as { status?: unknown }).status === 'string';
+
+// Approving a price change re-authorizes the customer's card, so it goes through an edge function
+export const respondToChangeRequest = async (
+  client: SupabaseClient,
+  request: RespondToChangeRequest,
+): Promise<RespondToChangeResult> => {
+  const { data, error } = await client.functions.invoke('respond-change-request', { body: request });
+
+  if (error) {
+    // Non-2xx responses still carry a typed result in the body
+    const body = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    if (isRespondToChangeResult(body)) return body;
+    return { status: 'failed', code: 'server_error', message: 'We could not reach the server. Please try again.' };
+  }
+
+  return isRespondToChangeResult(data)
+    ? data
+    : { status: 'failed', code: 'server_error', message: 'Unexpected response from the server.' };
+};
@@ -0,0 +1,302 @@
+import { SERVICE_STATUS, normalizeServiceStatus } from './status.ts';
+import type { ServiceStatus } from './status.ts';
+import type { ServiceRow } from './types.ts';
+
+// Job time estimates. create-quote stores a duration range with every quote (copied onto
+// the service by the job_time_estimates migration); the service details screens in both
+// apps turn it into an arrival window and an estimated finish that move with the status.
+
+export type DurationModel = {
+  // Hands-on minutes per tier (e.g. basic / deep cleaning). `default` is used when no tier is given.
+  tierMinutes: Record<string, number>;
+  // Added per bedroom step above a studio
+  minutesPerSizeStep: number;
+  maxSizeSteps: number;
+  truckMinutes: number;
+  packingMinutes: number;
+  // Moving jobs include the drive from pickup to drop-off
+  includesDriveTime: boolean;
+  // The estimate is widened by this fraction either way
+  spread: number;
+  // Length of the arrival window for a job booked for a set time
+  arrivalWindowMinutes: number;
+};
+
+export type JobDurationInputs = {
+  // A pricing service key ('moving', 'furniture-assembly') or a stored service_type
+  service: string;
+  tier?: string | null;
+  apartmentSize?: string | null;
+  needsTruck?: boolean;
+  needsPacking?: boolean;
+  // Driving time between the two addresses (fetchDrivingRoute)
+  durationMinutes?: number | null;
+};
+
+export type JobDurationEstimate = {
+  minMinutes: number;
+  maxMinutes: number;
+};
+
+export type TimeWindow = {
+  start: Date;
+  end: Date;
+};
+
+export type JobTimeline = {
+  // Null once the helpr has arrived
+  arrival: TimeWindow | null;
+  finish: TimeWindow;
+};
+
+// When the status last changed to each value, from service_status_events
+export type ServiceStatusTimes = Partial<Record<ServiceStatus, string>>;
+
+export const DURATION_MODELS: Record<string, DurationModel> = {
+  moving: {
+    tierMinutes: { default: 120 },
+    minutesPerSizeStep: 45,
+    maxSizeSteps: 5,
+    truckMinutes: 30,
+    packingMinutes: 90,
+    includesDriveTime: true,
+    spread: 0.25,
+    arrivalWindowMinutes: 60,
+  },
+  cleaning: {
+    tierMinutes: { default: 90, basic: 90, deep: 150 },
+    minutesPerSizeStep: 30,
+    maxSizeSteps: 4,
+    truckMinutes: 0,
+    packingMinutes: 0,
+    includesDriveTime: false,
+    spread: 0.2,
+    arrivalWindowMinutes: 30,
+  },
+  'wall-mounting': {
+    tierMinutes: { default: 60, basic: 60, deep: 90 },
+    minutesPerSizeStep: 15,
+    maxSizeSteps: 4,
+    truckMinutes: 0,
+    packingMinutes: 0,
+    includesDriveTime: false,
+    spread: 0.25,
+    arrivalWindowMinutes: 30,
+  },
+  'furniture-assembly': {
+    tierMinutes: { default: 60, simple: 60, complex: 120 },
+    minutesPerSizeStep: 20,
+    maxSizeSteps: 4,
+    truckMinutes: 0,
+    packingMinutes: 0,
+    includesDriveTime: false,
+    spread: 0.3,
+    arrivalWindowMinutes: 30,
+  },
+  'home-improvement': {
+    tierMinutes: { default: 90, repair: 90, renovation: 240 },
+    minutesPerSizeStep: 30,
+    maxSizeSteps: 4,
+    truckMinutes: 0,
+    packingMinutes: 0,
+    includesDriveTime: false,
+    spread: 0.35,
+    arrivalWindowMinutes: 60,
+  },
+  custom: {
+    tierMinutes: { default: 120, simple: 60, medium: 120, complex: 240 },
+    minutesPerSizeStep: 0,
+    maxSizeSteps: 0,
+    truckMinutes: 0,
+    packingMinutes: 0,
+    includesDriveTime: false,
+    spread: 0.4,
+    arrivalWindowMinutes: 60,
+  },
+};
+
+// From when the helpr sets off until they are expected at the door
+export const EN_ROUTE_MINUTES: JobDurationEstimate = { minMinutes: 10, maxMinutes: 40 };
+// A window that has already passed is pushed out by this much rather than shown as late
+export const OVERDUE_WINDOW_MINUTES = 15;
+
+// Width of the arrival window once a live drive time is known
+export const LIVE_ARRIVAL_SPREAD_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+const ROUNDING_MINUTES = 15;
+
+const SPELLED_SIZE_NUMBERS: Record<string, number> = {
+  one: 1,
+  single: 1,
+  two: 2,
+  double: 2,
+  three: 3,
+  triple: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+};
+
+/**
+ * Maps free-form size text ("Studio", "2BR", "two bedroom", "1500 sq ft house")
+ * to a bedroom step where 0 is a studio. Unknown sizes count as a studio.
+ */
+export const parseSizeSteps = (apartmentSize?: string | null): number => {
+  if (!apartmentSize) return 0;
+  const text = apartmentSize.toLowerCase();
+
+  if (/\bstudio\b/.test(text)) return 0;
+
+  const numericMatch = text.match(/\b(\d+)\s*\+?\s*-?\s*(?:bedroom|bed|br|bd)s?\b/);
+  if (numericMatch) return Number(numericMatch[1]);
+
+  const spelledMatch = text.match(/\b(one|single|two|double|three|triple|four|five|six)\s*-?\s*(?:bedroom|bed|br)s?\b/);
+  if (spelledMatch) return SPELLED_SIZE_NUMBERS[spelledMatch[1]];
+
+  const squareFeetMatch = text.match(/\b(\d[\d,]*)\s*(?:sq\.?\s*ft|square\s*feet|sqft|sf)\b/);
+  if (squareFeetMatch) {
+    const squareFeet = Number(squareFeetMatch[1].replace(/,/g, ''));
+    return Math.max(0, Math.round(squareFeet / 500) - 1);
+  }
+
+  if (/\b(house|townhouse)\b/.test(text)) return 4;
+
+  return 0;
+};
+
+// Same normalization as resolvePricingServiceKey; unknown types use the custom model
+export const resolveDurationModel = (service?: string | null): DurationModel => {
+  const normalized = (service ?? '').toLowerCase().replace(/[\s_]+/g, '-');
+  return DURATION_MODELS[normalized] ?? DURATION_MODELS.custom;
+};
+
+const roundMinutes = (minutes: number, direction: 'down' | 'up'): number => {
+  const rounded = direction === 'down'
+    ? Math.floor(minutes / ROUNDING_MINUTES) * ROUNDING_MINUTES
+    : Math.ceil(minutes / ROUNDING_MINUTES) * ROUNDING_MINUTES;
+  return Math.max(ROUNDING_MINUTES, rounded);
+};
+
+export const estimateJobDuration = (inputs: JobDurationInputs): JobDurationEstimate => {
+  const model = resolveDurationModel(inputs.service);
+  const tierKey = inputs.tier && model.tierMinutes[inputs.tier] !== undefined ? inputs.tier : 'default';
+  const sizeSteps = Math.min(parseSizeSteps(inputs.apartmentSize), model.maxSizeSteps);
+
+  let minutes = model.tierMinutes[tierKey] + sizeSteps * model.minutesPerSizeStep;
+  if (inputs.needsTruck) minutes += model.truckMinutes;
+  if (inputs.needsPacking) minutes += model.packingMinutes;
+  if (model.includesDriveTime && typeof inputs.durationMinutes === 'number' && Number.isFinite(inputs.durationMinutes)) {
+    minutes += Math.max(0, inputs.durationMinutes);
+  }
+
+  return {
+    minMinutes: roundMinutes(minutes * (1 - model.spread), 'down'),
+    maxMinutes: roundMinutes(minutes * (1 + model.spread), 'up'),
+  };
+};
+
+// The stored estimate, or the service type's defaults for jobs booked before estimates were kept
+export const resolveServiceDuration = (
+  service: Pick<ServiceRow, 'service_type' | 'estimated_minutes_min' | 'estimated_minutes_max'>,
+): JobDurationEstimate => {
+  const { estimated_minutes_min: minMinutes, estimated_minutes_max: maxMinutes } = service;
+  if (typeof minMinutes === 'number' && typeof maxMinutes === 'number' && maxMinutes >= minMinutes) {
+    return { minMinutes, maxMinutes };
+  }
+  return estimateJobDuration({ service: service.service_type ?? 'custom' });
+};
+
+const addMinutes = (date: Date, minutes: number): Date => new Date(date.getTime() + minutes * MINUTE_MS);
+
+const parseTime = (value?: string | null): Date | null => {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+// Windows that have already closed slide forward from now
+const keepAhead = (window: TimeWindow, now: Date): TimeWindow =>
+  window.end.getTime() > now.getTime()
+    ? window
+    : { start: now, end: addMinutes(now, OVERDUE_WINDOW_MINUTES) };
+
+export interface JobTimelineInput {
+  status?: ServiceStatus | string | null;
+  scheduledDateTime?: string | null;
+  serviceType?: string | null;
+  duration: JobDurationEstimate;
+  statusTimes?: ServiceStatusTimes;
+  // Drive time from the helpr's live location, while they are on the way
+  liveEtaMinutes?: number | null;
+  now?: Date;
+}
+
+// Null for finished and cancelled jobs
+export const buildJobTimeline = (input: JobTimelineInput): JobTimeline | null => {
+  const status = normalizeServiceStatus(input.status);
+  if (!status || status === SERVICE_STATUS.Completed || status === SERVICE_STATUS.Cancelled) {
+    return null;
+  }
+
+  const now = input.now ?? new Date();
+  const statusTimes = input.statusTimes ?? {};
+  const { duration } = input;
+
+  if (status === SERVICE_STATUS.InProgress) {
+    const startedAt = parseTime(statusTimes.in_progress) ?? now;
+    return {
+      arrival: null,
+      finish: keepAhead(
+        { start: addMinutes(startedAt, duration.minMinutes), end: addMinutes(startedAt, duration.maxMinutes) },
+        now,
+      ),
+    };
+  }
+
+  let arrival: TimeWindow;
+  if (status === SERVICE_STATUS.HelprOtw && typeof input.liveEtaMinutes === 'number') {
+    const eta = addMinutes(now, input.liveEtaMinutes);
+    arrival = { start: eta, end: addMinutes(eta, LIVE_ARRIVAL_SPREAD_MINUTES) };
+  } else if (status === SERVICE_STATUS.HelprOtw) {
+    const departedAt = parseTime(statusTimes.helpr_otw) ?? now;
+    arrival = keepAhead(
+      { start: addMinutes(departedAt, EN_ROUTE_MINUTES.minMinutes), end: addMinutes(departedAt, EN_ROUTE_MINUTES.maxMinutes) },
+      now,
+    );
+  } else {
+    const scheduledAt = parseTime(input.scheduledDateTime);
+    const windowMinutes = resolveDurationModel(input.serviceType).arrivalWindowMinutes;
+    // ASAP jobs and booked times that have passed still need a helpr to set off
+    const start = scheduledAt && scheduledAt.getTime() > now.getTime()
+      ? scheduledAt
+      : addMinutes(now, EN_ROUTE_MINUTES.minMinutes);
+    arrival = { start, end: addMinutes(start, windowMinutes) };
+  }
+
+  return {
+    arrival,
+    finish: {
+      start: addMinutes(arrival.start, duration.minMinutes),
+      end: addMinutes(arrival.end, duration.maxMinutes),
+    },
+  };
+};
+
+// "2:00 PM – 3:30 PM", with the day in front when the window is not today
+export const formatTimeWindow = (window: TimeWindow, now: Date = new Date()): string => {
+  const time = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  const day = window.start.toDateString() === now.toDateString()
+    ? ''
+    : `${window.start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}, `;
+  return `${day}${time(window.start)} – ${time(window.end)}`;
+};
+
+// "1.5–2 hrs", "45–60 min"
+export const formatDurationRange = (duration: JobDurationEstimate): string => {
+  if (duration.maxMinutes < 60) {
+    return `${duration.minMinutes}–${duration.maxMinutes} min`;
+  }
+  const hours = (minutes: number) => `${Math.round((minutes / 60) * 10) / 10}`;
+  return `${hours(duration.minMinutes)}–${hours(duration.maxMinutes)} hrs`;
+};
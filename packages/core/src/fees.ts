@@ -0,0 +1,68 @@
+// Fee schedule shared by the customer charge and the helpr payout.
+// Schedules are versioned rows in `fee_schedules`; each booked service records the
+// version it was charged under so later payouts use the same numbers.
+
+export type FeeKind = 'processing_fee' | 'platform_fee' | 'tax' | 'provider_commission';
+
+// Added on top of the service subtotal and paid by the customer
+export type CustomerFeeRates = {
+  processingFeeRate: number;
+  platformFeeRate: number;
+  taxRate: number;
+};
+
+export type FeeRates = CustomerFeeRates & {
+  // Share of the service subtotal the platform keeps from the helpr's payout
+  providerCommissionRate: number;
+};
+
+export type FeeSchedule = {
+  version: string;
+  effectiveFrom: string;
+  defaults: FeeRates;
+  // Keyed by lower-cased service_type, e.g. 'moving' or 'customservice'
+  serviceOverrides: Record<string, Partial<FeeRates>>;
+  // Promo code -> fees it waives entirely
+  promoExemptions: Record<string, FeeKind[]>;
+};
+
+// Seeded as the first row of fee_schedules; also the fallback when the table is unreachable
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  version: '2026-10-01',
+  effectiveFrom: '2026-10-01T00:00:00Z',
+  defaults: {
+    processingFeeRate: 0.03,
+    platformFeeRate: 0.01,
+    taxRate: 0,
+    providerCommissionRate: 0.15,
+  },
+  serviceOverrides: {},
+  promoExemptions: {},
+};
+
+const FEE_RATE_KEYS: Record<FeeKind, keyof FeeRates> = {
+  processing_fee: 'processingFeeRate',
+  platform_fee: 'platformFeeRate',
+  tax: 'taxRate',
+  provider_commission: 'providerCommissionRate',
+};
+
+export const resolveFeeRates = (
+  schedule: FeeSchedule,
+  options: { serviceType?: string | null; promoCode?: string | null } = {},
+): FeeRates => {
+  const override = schedule.serviceOverrides[(options.serviceType ?? '').trim().toLowerCase()] ?? {};
+  const rates: FeeRates = { ...schedule.defaults, ...override };
+
+  const waived = options.promoCode ? schedule.promoExemptions[options.promoCode.trim().toUpperCase()] ?? [] : [];
+  for (const kind of waived) {
+    rates[FEE_RATE_KEYS[kind]] = 0;
+  }
+
+  return rates;
+};
+
+export const calculateProviderPayout = (subtotal: number, rates: Pick<FeeRates, 'providerCommissionRate'>) => {
+  const commission = Math.round(subtotal * rates.providerCommissionRate * 100) / 100;
+  return { commission, payout: Math.round((subtotal - commission) * 100) / 100 };
+};
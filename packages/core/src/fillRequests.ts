@@ -0,0 +1,99 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Helpr bids (`service_fill_request`). Bids are kept after the job is decided; the
+// database records each outcome as a status (see 20261019220000_fill_request_statuses.sql).
+
+export const FILL_REQUEST_STATUS = {
+  Pending: 'pending',
+  Accepted: 'accepted',
+  Declined: 'declined',
+  Withdrawn: 'withdrawn',
+  Expired: 'expired',
+} as const;
+
+export type FillRequestStatus = (typeof FILL_REQUEST_STATUS)[keyof typeof FILL_REQUEST_STATUS];
+
+export type FillRequestStatusReason =
+  | 'another_helpr_booked'
+  | 'another_helpr_autofilled'
+  | 'withdrawn_by_helpr'
+  | 'dropped_by_helpr'
+  | 'job_cancelled';
+
+// A row of the `service_fill_request` table
+export type ServiceFillRequestRow = {
+  fill_request_id: string;
+  service_id: string;
+  service_provider_id: string;
+  // The opening bid; counter-offers live in `service_bid_offer`
+  bid: number | string | null;
+  proposed_date_time?: string | null;
+  status: FillRequestStatus;
+  status_reason?: FillRequestStatusReason | null;
+  created_at?: string | null;
+  resolved_at?: string | null;
+};
+
+export const FILL_REQUEST_STATUS_LABELS: Record<FillRequestStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Won',
+  declined: 'Not selected',
+  withdrawn: 'Withdrawn',
+  expired: 'Expired',
+};
+
+const STATUS_REASON_COPY: Record<FillRequestStatusReason, string> = {
+  another_helpr_booked: 'The customer booked another Helpr.',
+  another_helpr_autofilled: 'Another Helpr was a better match for this AutoFill job.',
+  withdrawn_by_helpr: 'You withdrew this bid.',
+  dropped_by_helpr: 'You dropped this job after winning it.',
+  job_cancelled: 'The customer cancelled the job.',
+};
+
+// Why a bid ended the way it did, from the helpr's side
+export const describeFillRequestOutcome = (request: Pick<ServiceFillRequestRow, 'status' | 'status_reason'>): string => {
+  if (request.status_reason) {
+    return STATUS_REASON_COPY[request.status_reason];
+  }
+  if (request.status === FILL_REQUEST_STATUS.Accepted) {
+    return 'You got this job.';
+  }
+  return request.status === FILL_REQUEST_STATUS.Pending ? 'Waiting on the customer.' : '';
+};
+
+// Newest first; omit statuses for every bid the helpr has made
+export const fetchProviderBids = async (
+  client: SupabaseClient,
+  serviceProviderId: string,
+  statuses?: FillRequestStatus[],
+): Promise<ServiceFillRequestRow[]> => {
+  let query = client
+    .from('service_fill_request')
+    .select('*')
+    .eq('service_provider_id', serviceProviderId)
+    .order('created_at', { ascending: false });
+
+  if (statuses && statuses.length > 0) {
+    query = query.in('status', statuses);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as ServiceFillRequestRow[];
+};
+
+// The bid stays on record; its open offer is closed by the database
+export const withdrawFillRequest = async (
+  client: SupabaseClient,
+  serviceId: string,
+  serviceProviderId: string,
+): Promise<void> => {
+  const { error } = await client
+    .from('service_fill_request')
+    .update({ status: FILL_REQUEST_STATUS.Withdrawn })
+    .eq('service_id', serviceId)
+    .eq('service_provider_id', serviceProviderId)
+    .eq('status', FILL_REQUEST_STATUS.Pending);
+
+  if (error) throw error;
+};
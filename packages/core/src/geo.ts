@@ -0,0 +1,258 @@
+import type { Coordinate } from './types.ts';
+
+const DIRECTIONS_URL = 'https://maps.googleapis.com/maps/api/directions/json';
+const METERS_PER_MILE = 1609.344;
+
+// ============================================================
+// Address Validation
+// ============================================================
+
+export const SPELLED_OUT_NUMBERS = new Set([
+  'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen',
+  'eighteen', 'nineteen', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy',
+  'eighty', 'ninety', 'hundred', 'thousand', 'first', 'second', 'third', 'fourth',
+  'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth', 'eleventh', 'twelfth',
+  'thirteenth', 'fourteenth', 'fifteenth', 'sixteenth', 'seventeenth', 'eighteenth',
+  'nineteenth', 'twentieth', 'thirtieth', 'fortieth', 'fiftieth', 'sixtieth',
+  'seventieth', 'eightieth', 'ninetieth',
+]);
+
+export const STREET_SUFFIX_KEYWORDS = new Set([
+  'street', 'st', 'avenue', 'ave', 'road', 'rd', 'drive', 'dr', 'lane', 'ln',
+  'way', 'wy', 'place', 'pl', 'court', 'ct', 'boulevard', 'blvd', 'circle', 'cir',
+  'parkway', 'pkwy', 'terrace', 'ter', 'trail', 'trl', 'highway', 'hwy',
+  'expressway', 'expy', 'freeway', 'fwy', 'loop', 'row', 'plaza', 'square', 'sq',
+  'causeway', 'cswy', 'crescent', 'cres', 'bridge', 'brg', 'pass', 'path',
+  'passage', 'view', 'vista', 'walk', 'run', 'landing', 'ldg', 'ridge', 'rdg',
+  'heights', 'hts', 'park', 'pk', 'manor', 'mnr', 'station', 'sta',
+]);
+
+export const NON_ADDRESS_FOLLOWING_WORDS = new Set([
+  'bedroom', 'bedrooms', 'bathroom', 'bathrooms', 'box', 'boxes', 'item', 'items',
+  'piece', 'pieces', 'room', 'rooms', 'floor', 'floors', 'apt', 'apartment',
+  'apartments', 'unit', 'units', 'suite', 'ste', 'level', 'levels', 'story',
+  'stories', 'garage', 'garages',
+]);
+
+export const containsStreetNumber = (value?: string | null): boolean => {
+  if (!value) return false;
+
+  const normalized = value.replace(/\s+/g, ' ').trim();
+  if (normalized.length === 0) return false;
+
+  const candidatePattern = /\b\d{1,6}[A-Za-z]?(?:[-\s]\d{1,6}[A-Za-z]?)?\s+(?:[A-Za-z0-9.'-]+\s*){1,4}/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = candidatePattern.exec(normalized)) !== null) {
+    const snippet = match[0].toLowerCase();
+    const words = snippet.split(/\s+/).filter(Boolean);
+    if (words.length < 2) continue;
+
+    const secondWord = words[1].replace(/[^a-z0-9]/g, '');
+    if (NON_ADDRESS_FOLLOWING_WORDS.has(secondWord)) continue;
+
+    const hasSuffix = words.some((word) => STREET_SUFFIX_KEYWORDS.has(word.replace(/[^a-z]/g, '')));
+    if (hasSuffix) return true;
+    if (words.length >= 3) return true;
+  }
+
+  const words = normalized.toLowerCase().split(/\s+/).filter(Boolean);
+  for (let i = 0; i < words.length - 1; i++) {
+    const currentWord = words[i].replace(/[^a-z]/g, '');
+    if (SPELLED_OUT_NUMBERS.has(currentWord)) {
+      for (let j = i + 1; j < Math.min(words.length, i + 4); j++) {
+        const followingWord = words[j].replace(/[^a-z]/g, '');
+        if (NON_ADDRESS_FOLLOWING_WORDS.has(followingWord)) break;
+        if (STREET_SUFFIX_KEYWORDS.has(followingWord)) return true;
+      }
+      if (i + 2 < words.length) {
+        const secondWord = words[i + 1].replace(/[^a-z0-9]/g, '');
+        const thirdWord = words[i + 2].replace(/[^a-z]/g, '');
+        if (!NON_ADDRESS_FOLLOWING_WORDS.has(secondWord) && STREET_SUFFIX_KEYWORDS.has(thirdWord)) {
+          return true;
+        }
+      }
+    }
+  }
+
+  return false;
+};
+
+// ============================================================
+// Polyline / Route Helpers
+// ============================================================
+
+export const decodePolyline = (encoded: string): Coordinate[] => {
+  const points: Coordinate[] = [];
+  let index = 0;
+  let latitude = 0;
+  let longitude = 0;
+
+  while (index < encoded.length) {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+
+    const deltaLat = result & 1 ? ~(result >> 1) : result >> 1;
+    latitude += deltaLat;
+
+    result = 0;
+    shift = 0;
+
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+
+    const deltaLng = result & 1 ? ~(result >> 1) : result >> 1;
+    longitude += deltaLng;
+
+    points.push({ latitude: latitude / 1e5, longitude: longitude / 1e5 });
+  }
+
+  return points;
+};
+
+export const ensureRouteEndpoints = (path: Coordinate[], start: Coordinate, end: Coordinate): Coordinate[] => {
+  const threshold = 0.00005;
+  const adjusted = path.length > 0 ? [...path] : [];
+
+  const alignPoint = (points: Coordinate[], target: Coordinate, position: 'start' | 'end') => {
+    if (points.length === 0) {
+      points.push(target);
+      return;
+    }
+    const index = position === 'start' ? 0 : points.length - 1;
+    const candidate = points[index];
+    const distance = Math.hypot(candidate.latitude - target.latitude, candidate.longitude - target.longitude);
+
+    if (distance > threshold) {
+      if (position === 'start') points.unshift(target);
+      else points.push(target);
+    } else {
+      points[index] = target;
+    }
+  };
+
+  if (adjusted.length === 0) return [start, end];
+
+  alignPoint(adjusted, start, 'start');
+  alignPoint(adjusted, end, 'end');
+
+  if (adjusted.length === 1) adjusted.push(end);
+
+  return adjusted;
+};
+
+export const straightRoute = (start: Coordinate, end: Coordinate): Coordinate[] =>
+  ensureRouteEndpoints([start, end], start, end);
+
+export type DrivingRoute = {
+  // Decoded overview polyline, pinned to the requested start and end
+  path: Coordinate[];
+  distanceMeters: number;
+  durationSeconds: number;
+  distanceMiles: number;
+  durationMinutes: number;
+};
+
+/**
+ * Fetches the driving route between two points from the Google Directions API.
+ * Returns null when no key is configured or the request fails, so callers can
+ * fall back to `straightRoute`.
+ */
+export const fetchDrivingRoute = async (
+  start: Coordinate,
+  end: Coordinate,
+  apiKey: string | null | undefined,
+): Promise<DrivingRoute | null> => {
+  if (!apiKey) return null;
+
+  try {
+    const params = new URLSearchParams({
+      origin: `${start.latitude},${start.longitude}`,
+      destination: `${end.latitude},${end.longitude}`,
+      key: apiKey,
+      mode: 'driving',
+    });
+    const response = await fetch(`${DIRECTIONS_URL}?${params.toString()}`);
+    const data = await response.json();
+    const route = data?.routes?.[0];
+    const leg = route?.legs?.[0];
+
+    if (data?.status !== 'OK' || !leg) {
+      console.warn('Google Directions error:', data?.status, data?.error_message);
+      return null;
+    }
+
+    const polyline = route.overview_polyline?.points;
+    const decoded = typeof polyline === 'string' && polyline.length > 0 ? decodePolyline(polyline) : [];
+    const distanceMeters = leg.distance?.value ?? 0;
+    const durationSeconds = leg.duration?.value ?? 0;
+
+    return {
+      path: ensureRouteEndpoints(decoded.length >= 2 ? decoded : [start, end], start, end),
+      distanceMeters,
+      durationSeconds,
+      distanceMiles: distanceMeters / METERS_PER_MILE,
+      durationMinutes: durationSeconds / 60,
+    };
+  } catch (error) {
+    console.warn('Failed to fetch directions:', error);
+    return null;
+  }
+};
+
+// ============================================================
+// Distance / Geocoding
+// ============================================================
+
+const GEOCODE_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Great-circle distance; good enough to compare how far helprs are from a job
+export const distanceInMiles = (from: Coordinate, to: Coordinate): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLat = toRadians(to.latitude - from.latitude);
+  const deltaLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(deltaLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(deltaLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Geocodes an address with the Google Geocoding API, for callers without the device
+ * geocoder (the edge functions). Returns null when no key is configured or nothing matches.
+ */
+export const geocodeAddress = async (
+  address: string | null | undefined,
+  apiKey: string | null | undefined,
+): Promise<Coordinate | null> => {
+  const trimmed = address?.trim();
+  if (!apiKey || !trimmed) return null;
+
+  try {
+    const params = new URLSearchParams({ address: trimmed, key: apiKey });
+    const response = await fetch(`${GEOCODE_URL}?${params.toString()}`);
+    const data = await response.json();
+    const location = data?.results?.[0]?.geometry?.location;
+
+    if (data?.status !== 'OK' || typeof location?.lat !== 'number' || typeof location?.lng !== 'number') {
+      console.warn('Google Geocoding error:', data?.status, data?.error_message);
+      return null;
+    }
+
+    return { latitude: location.lat, longitude: location.lng };
+  } catch (error) {
+    console.warn('Failed to geocode address:', error);
+    return null;
+  }
+};
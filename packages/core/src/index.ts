@@ -0,0 +1,22 @@
+// Shared by both apps and the Supabase edge functions. Imports inside this package
+// keep their `.ts` extensions so Deno can load the sources directly.
+
+export * from './autofill.ts';
+export * from './bidOffers.ts';
+export * from './booking.ts';
+export * from './cancellation.ts';
+export * from './changeRequests.ts';
+export * from './estimates.ts';
+export * from './fees.ts';
+export * from './fillRequests.ts';
+export * from './geo.ts';
+export * from './lifecycle.ts';
+export * from './liveLocation.ts';
+export * from './notifications.ts';
+export * from './pricing.ts';
+export * from './queries.ts';
+export * from './recurrence.ts';
+export * from './serviceAreas.ts';
+export * from './status.ts';
+export * from './tips.ts';
+export * from './types.ts';
@@ -0,0 +1,152 @@
+import { normalizeServiceStatus, SERVICE_STATUS } from './status.ts';
+import type { ServiceStatus } from './status.ts';
+
+export type ServiceActor = 'customer' | 'provider' | 'system';
+
+export type ServiceSideEffect =
+  | 'notify_customer'
+  | 'notify_provider'
+  | 'notify_other_bidders'
+  | 'capture_payment'
+  | 'payout_provider'
+  | 'refund_payment';
+
+export interface ServiceTransition {
+  from: ServiceStatus;
+  to: ServiceStatus;
+  actor: ServiceActor;
+  sideEffects: ServiceSideEffect[];
+}
+
+// The service lifecycle. Mirrored row for row in public.service_status_transitions
+// (see the service_status_transitions migration); change both together.
+// `system` (edge functions, service role) may take any of these edges.
+export const SERVICE_TRANSITIONS: readonly ServiceTransition[] = [
+  // First bid on an open request
+  {
+    from: SERVICE_STATUS.FindingPros,
+    to: SERVICE_STATUS.SelectServiceProvider,
+    actor: 'provider',
+    sideEffects: ['notify_customer'],
+  },
+  // Customer picks a bid, or match-autofill picks one for an AutoFill job
+  {
+    from: SERVICE_STATUS.SelectServiceProvider,
+    to: SERVICE_STATUS.Confirmed,
+    actor: 'customer',
+    sideEffects: ['notify_provider', 'notify_other_bidders'],
+  },
+  {
+    from: SERVICE_STATUS.Confirmed,
+    to: SERVICE_STATUS.HelprOtw,
+    actor: 'provider',
+    sideEffects: ['notify_customer'],
+  },
+  {
+    from: SERVICE_STATUS.HelprOtw,
+    to: SERVICE_STATUS.InProgress,
+    actor: 'provider',
+    sideEffects: ['notify_customer'],
+  },
+  // Completion moves money, so only the complete-service function may do it
+  {
+    from: SERVICE_STATUS.InProgress,
+    to: SERVICE_STATUS.Completed,
+    actor: 'system',
+    sideEffects: ['capture_payment', 'payout_provider', 'notify_customer'],
+  },
+  // Cancellations settle the card hold under the cancellation policy, so they also go
+  // through an edge function (cancel-service)
+  {
+    from: SERVICE_STATUS.FindingPros,
+    to: SERVICE_STATUS.Cancelled,
+    actor: 'system',
+    sideEffects: [],
+  },
+  {
+    from: SERVICE_STATUS.SelectServiceProvider,
+    to: SERVICE_STATUS.Cancelled,
+    actor: 'system',
+    sideEffects: ['notify_other_bidders'],
+  },
+  {
+    from: SERVICE_STATUS.Confirmed,
+    to: SERVICE_STATUS.Cancelled,
+    actor: 'system',
+    sideEffects: ['refund_payment', 'notify_provider'],
+  },
+  {
+    from: SERVICE_STATUS.HelprOtw,
+    to: SERVICE_STATUS.Cancelled,
+    actor: 'system',
+    sideEffects: ['refund_payment', 'notify_provider'],
+  },
+  // Helpr drops an assigned job; the request reopens for other helprs
+  {
+    from: SERVICE_STATUS.Confirmed,
+    to: SERVICE_STATUS.FindingPros,
+    actor: 'system',
+    sideEffects: ['refund_payment', 'notify_customer'],
+  },
+  {
+    from: SERVICE_STATUS.HelprOtw,
+    to: SERVICE_STATUS.FindingPros,
+    actor: 'system',
+    sideEffects: ['refund_payment', 'notify_customer'],
+  },
+];
+
+// Forward path of an assigned job, one provider tap per step
+const SERVICE_PROGRESSION: ServiceStatus[] = [
+  SERVICE_STATUS.Confirmed,
+  SERVICE_STATUS.HelprOtw,
+  SERVICE_STATUS.InProgress,
+  SERVICE_STATUS.Completed,
+];
+
+export const ILLEGAL_STATUS_TRANSITION = 'illegal_status_transition';
+
+export const findServiceTransition = (
+  from: string | null | undefined,
+  to: string | null | undefined,
+  actor: ServiceActor,
+): ServiceTransition | null => {
+  const fromStatus = normalizeServiceStatus(from);
+  const toStatus = normalizeServiceStatus(to);
+  if (!fromStatus || !toStatus) return null;
+
+  return SERVICE_TRANSITIONS.find(transition =>
+    transition.from === fromStatus
+    && transition.to === toStatus
+    && (transition.actor === actor || actor === 'system'),
+  ) ?? null;
+};
+
+export const canTransitionService = (
+  from: string | null | undefined,
+  to: string | null | undefined,
+  actor: ServiceActor,
+): boolean => findServiceTransition(from, to, actor) !== null;
+
+// Throws the same code the database trigger raises, so callers handle both alike
+export const assertServiceTransition = (
+  from: string | null | undefined,
+  to: string | null | undefined,
+  actor: ServiceActor,
+): ServiceTransition => {
+  const transition = findServiceTransition(from, to, actor);
+  if (!transition) {
+    throw new Error(`${ILLEGAL_STATUS_TRANSITION}: ${from ?? 'null'} -> ${to ?? 'null'} by ${actor}`);
+  }
+  return transition;
+};
+
+export const getNextProgressStatus = (status: string | null | undefined): ServiceStatus | null => {
+  const normalized = normalizeServiceStatus(status);
+  if (!normalized) return null;
+  const index = SERVICE_PROGRESSION.indexOf(normalized);
+  return index >= 0 && index < SERVICE_PROGRESSION.length - 1 ? SERVICE_PROGRESSION[index + 1] : null;
+};
+
+export const isIllegalTransitionError = (error: { message?: string } | null | undefined): boolean =>
+  (error?.message ?? '').includes(ILLEGAL_STATUS_TRANSITION);
@@ -0,0 +1,154 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { distanceInMiles } from './geo.ts';
+import { normalizeServiceStatus, SERVICE_STATUS } from './status.ts';
+import type { Coordinate } from './types.ts';
+
+// Live helpr location while a job is `helpr_otw`. The provider app publishes its position
+// with publish_provider_location, the job keeps only the latest point, and the row is
+// deleted once the job moves on (see the provider_live_location migration). The same
+// positions drive arrival detection (see the arrival_detection migration).
+
+// The provider app publishes at most this often, and only after moving this far
+export const LOCATION_PUBLISH_INTERVAL_MS = 15_000;
+export const LOCATION_PUBLISH_DISTANCE_METERS = 50;
+
+// Older positions are shown as "last seen" rather than live
+export const STALE_LOCATION_MS = 2 * 60_000;
+
+// Driving directions are refetched once the helpr has moved this far or this long has passed
+export const ETA_REFRESH_DISTANCE_MILES = 0.25;
+export const ETA_REFRESH_MS = 60_000;
+
+// Used when directions are unavailable; straight-line distance undercounts roads
+const FALLBACK_DRIVING_MPH = 25;
+const FALLBACK_ROAD_FACTOR = 1.3;
+
+// The helpr counts as arrived within this distance of the job's geocoded start location
+export const ARRIVAL_RADIUS_METERS = 150;
+// Fixes less accurate than this are not used for arrival at all
+export const ARRIVAL_MAX_ACCURACY_METERS = 50;
+
+const METERS_PER_MILE = 1609.344;
+
+export const NOT_ON_THE_WAY = 'not_on_the_way';
+
+// A row of the `service_provider_location` table
+export type ProviderLocationRow = {
+  service_id: string;
+  service_provider_id: string;
+  customer_id: string;
+  latitude: number;
+  longitude: number;
+  heading?: number | null;
+  accuracy_meters?: number | null;
+  recorded_at: string;
+};
+
+export interface PublishProviderLocationRequest {
+  serviceId: string;
+  coordinate: Coordinate;
+  heading?: number | null;
+  accuracyMeters?: number | null;
+}
+
+export const isLocationSharingStatus = (status: string | null | undefined): boolean =>
+  normalizeServiceStatus(status) === SERVICE_STATUS.HelprOtw;
+
+// The job is no longer on the way, so the app should stop publishing
+export const isNotOnTheWayError = (error: { message?: string } | null | undefined): boolean =>
+  (error?.message ?? '').includes(NOT_ON_THE_WAY);
+
+export const publishProviderLocation = async (
+  client: SupabaseClient,
+  request: PublishProviderLocationRequest,
+): Promise<void> => {
+  const { error } = await client.rpc('publish_provider_location', {
+    p_service_id: request.serviceId,
+    p_latitude: request.coordinate.latitude,
+    p_longitude: request.coordinate.longitude,
+    p_heading: request.heading ?? null,
+    p_accuracy_meters: request.accuracyMeters ?? null,
+  });
+  if (error) throw error;
+};
+
+// Null when the helpr is not sharing (not on the way yet, or already arrived)
+export const fetchProviderLocation = async (
+  client: SupabaseClient,
+  serviceId: string,
+): Promise<ProviderLocationRow | null> => {
+  const { data, error } = await client
+    .from('service_provider_location')
+    .select('*')
+    .eq('service_id', serviceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as ProviderLocationRow | null) ?? null;
+};
+
+// Jobs the helpr is currently on the way to, so sharing resumes after the app restarts
+export const fetchOnTheWayServiceIds = async (
+  client: SupabaseClient,
+  serviceProviderId: string,
+): Promise<string[]> => {
+  const { data, error } = await client
+    .from('service')
+    .select('service_id')
+    .eq('service_provider_id', serviceProviderId)
+    .eq('status', SERVICE_STATUS.HelprOtw);
+
+  if (error) throw error;
+  return (data ?? []).map((row: { service_id: string }) => row.service_id);
+};
+
+export const providerCoordinate = (location: ProviderLocationRow): Coordinate => ({
+  latitude: location.latitude,
+  longitude: location.longitude,
+});
+
+export const isStaleLocation = (location: ProviderLocationRow, now: Date = new Date()): boolean =>
+  now.getTime() - new Date(location.recorded_at).getTime() > STALE_LOCATION_MS;
+
+// Rough drive time for when the directions API is unavailable
+export const estimateDrivingMinutes = (from: Coordinate, to: Coordinate): number =>
+  Math.max(1, Math.round(((distanceInMiles(from, to) * FALLBACK_ROAD_FACTOR) / FALLBACK_DRIVING_MPH) * 60));
+
+export const shouldRefreshEta = (
+  previous: { coordinate: Coordinate; at: number } | null,
+  next: Coordinate,
+  now: number = Date.now(),
+): boolean =>
+  !previous
+  || now - previous.at >= ETA_REFRESH_MS
+  || distanceInMiles(previous.coordinate, next) >= ETA_REFRESH_DISTANCE_MILES;
+
+// A poor or unknown fix never counts, however close it claims to be
+export const isWithinArrivalRadius = (
+  position: Coordinate,
+  destination: Coordinate,
+  accuracyMeters?: number | null,
+): boolean =>
+  typeof accuracyMeters === 'number'
+  && accuracyMeters >= 0
+  && accuracyMeters <= ARRIVAL_MAX_ACCURACY_METERS
+  && distanceInMiles(position, destination) * METERS_PER_MILE <= ARRIVAL_RADIUS_METERS;
+
+// Returns when the helpr arrived; the first arrival is kept if called again.
+// The server repeats the radius and accuracy checks against the job's stored coordinates.
+export const recordProviderArrival = async (
+  client: SupabaseClient,
+  serviceId: string,
+  coordinate: Coordinate,
+  accuracyMeters: number,
+): Promise<string> => {
+  const { data, error } = await client.rpc('record_provider_arrival', {
+    p_service_id: serviceId,
+    p_latitude: coordinate.latitude,
+    p_longitude: coordinate.longitude,
+    p_accuracy_meters: accuracyMeters,
+  });
+  if (error) throw error;
+  return data as string;
+};
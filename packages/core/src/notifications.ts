@@ -0,0 +1,241 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { SERVICE_STATUS } from './status.ts';
+import type { ServiceStatus } from './status.ts';
+
+// Push notifications. Each app registers its Expo push token per device; database triggers
+// queue a `push_event` for every lifecycle change and send-push-notifications fans it out
+// (see the push_notifications migration). Every message is also kept in `notifications`
+// for the in-app inbox.
+
+export type PushApp = 'customer' | 'provider';
+
+export type PushEventKind =
+  | 'status_changed'
+  | 'new_job'
+  | 'new_bid'
+  | 'bid_countered'
+  | 'change_requested'
+  | 'change_answered'
+  | 'helpr_arrived';
+
+// Where tapping the notification should land, resolved to a route by each app
+export type PushTarget = 'service-details' | 'select-helpr' | 'provider-service-details' | 'provider-landing';
+
+// Sent as the notification's `data`
+export type PushNotificationData = {
+  kind: PushEventKind;
+  serviceId: string;
+  target: PushTarget;
+};
+
+export type PushMessage = {
+  title: string;
+  body: string;
+  data: PushNotificationData;
+};
+
+// Helprs hear about new jobs within this distance of where they last opened the app
+export const NEW_JOB_RADIUS_MILES = 25;
+
+const CUSTOMER_STATUS_COPY: Partial<Record<ServiceStatus, { title: string; body: string }>> = {
+  select_service_provider: { title: 'Pros are available', body: 'Helprs bid on your request. Pick one when you are ready.' },
+  confirmed: { title: 'Your job is confirmed', body: 'Your Helpr accepted the job.' },
+  helpr_otw: { title: 'Your Helpr is on the way', body: 'Your Helpr is heading to you now.' },
+  in_progress: { title: 'Your job has started', body: 'Your Helpr started work. Your job is under way.' },
+  completed: { title: 'Job completed', body: 'Your job is done. Leave a review or a tip for your Helpr.' },
+  finding_pros: { title: 'Finding you a new Helpr', body: 'Your Helpr had to drop the job, so it is open to other pros again.' },
+};
+
+const PROVIDER_STATUS_COPY: Partial<Record<ServiceStatus, { title: string; body: string }>> = {
+  confirmed: { title: 'You got the job', body: 'The customer booked you. Check the job details.' },
+  cancelled: { title: 'Job cancelled', body: 'The customer cancelled this job.' },
+};
+
+// Null when the change is not worth a notification for this recipient
+export const describeStatusNotification = (
+  recipient: 'customer' | 'provider' | 'other_bidder',
+  serviceId: string,
+  status: ServiceStatus,
+): PushMessage | null => {
+  if (recipient === 'other_bidder') {
+    return {
+      title: status === SERVICE_STATUS.Cancelled ? 'Job cancelled' : 'Job filled',
+      body: status === SERVICE_STATUS.Cancelled
+        ? 'A job you bid on was cancelled.'
+        : 'A job you bid on went to another Helpr.',
+      data: { kind: 'status_changed', serviceId, target: 'provider-landing' },
+    };
+  }
+
+  const copy = (recipient === 'customer' ? CUSTOMER_STATUS_COPY : PROVIDER_STATUS_COPY)[status];
+  if (!copy) return null;
+
+  const target: PushTarget = recipient === 'provider'
+    ? 'provider-service-details'
+    : status === SERVICE_STATUS.SelectServiceProvider ? 'select-helpr' : 'service-details';
+  return { ...copy, data: { kind: 'status_changed', serviceId, target } };
+};
+
+const formatAmount = (amount: number | string | null | undefined): string => `$${Number(amount ?? 0).toFixed(2)}`;
+
+export const describeNewJobNotification = (serviceId: string, serviceType: string | null): PushMessage => ({
+  title: 'New job near you',
+  body: serviceType ? `A new ${serviceType} job was posted in your area.` : 'A new job was posted in your area.',
+  data: { kind: 'new_job', serviceId, target: 'provider-service-details' },
+});
+
+export const describeNewBidNotification = (serviceId: string, bid: number | string | null): PushMessage => ({
+  title: 'New bid on your job',
+  body: `A Helpr bid ${formatAmount(bid)}. Review your bids.`,
+  data: { kind: 'new_bid', serviceId, target: 'select-helpr' },
+});
+
+// `recipient` is the party that did not make the offer
+export const describeCounterNotification = (
+  recipient: 'customer' | 'provider',
+  serviceId: string,
+  amount: number | string | null,
+): PushMessage => recipient === 'customer'
+  ? {
+      title: 'Your Helpr replied',
+      body: `Your Helpr offered ${formatAmount(amount)}.`,
+      data: { kind: 'bid_countered', serviceId, target: 'select-helpr' },
+    }
+  : {
+      title: 'New counter-offer',
+      body: `The customer offered ${formatAmount(amount)} for your bid.`,
+      data: { kind: 'bid_countered', serviceId, target: 'provider-service-details' },
+    };
+
+export const describeChangeRequestNotification = (serviceId: string): PushMessage => ({
+  title: 'Change requested',
+  body: 'The customer asked to change a booked job. Review it before it starts.',
+  data: { kind: 'change_requested', serviceId, target: 'provider-service-details' },
+});
+
+export const describeChangeAnswerNotification = (serviceId: string, approved: boolean): PushMessage => ({
+  title: approved ? 'Change approved' : 'Change declined',
+  body: approved ? 'Your Helpr approved the changes to your job.' : 'Your Helpr kept the original terms for your job.',
+  data: { kind: 'change_answered', serviceId, target: 'service-details' },
+});
+
+export const describeArrivalNotification = (serviceId: string): PushMessage => ({
+  title: 'Your Helpr has arrived',
+  body: 'Your Helpr is at the service location.',
+  data: { kind: 'helpr_arrived', serviceId, target: 'service-details' },
+});
+
+// A row of the `push_events` outbox
+export type PushEventRow = {
+  event_id: string;
+  kind: PushEventKind;
+  service_id: string;
+  payload: Record<string, unknown>;
+  created_at: string;
+  claimed_at?: string | null;
+  attempts?: number;
+  sent_at?: string | null;
+};
+
+const isPushNotificationData = (value: unknown): value is PushNotificationData =>
+  typeof value === 'object'
+  && value !== null
+  && typeof (value as PushNotificationData).serviceId === 'string'
+  && typeof (value as PushNotificationData).target === 'string';
+
+// Reads the payload back from a received notification; null for anything else
+export const parsePushNotificationData = (data: unknown): PushNotificationData | null =>
+  isPushNotificationData(data) ? data : null;
+
+export interface PushTokenRegistration {
+  token: string;
+  app: PushApp;
+  platform: string;
+  // Helprs only: where the app was last opened, for new job alerts
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+// Moves the token to the signed-in user if the device was used by someone else before
+export const registerPushToken = async (client: SupabaseClient, registration: PushTokenRegistration): Promise<void> => {
+  const { error } = await client.rpc('register_push_token', {
+    p_token: registration.token,
+    p_app: registration.app,
+    p_platform: registration.platform,
+    p_latitude: registration.latitude ?? null,
+    p_longitude: registration.longitude ?? null,
+  });
+  if (error) throw error;
+};
+
+// Call before signing out so the device stops receiving the user's notifications
+export const unregisterPushToken = async (client: SupabaseClient, token: string): Promise<void> => {
+  const { error } = await client.from('push_tokens').delete().eq('token', token);
+  if (error) throw error;
+};
+
+// ============================================================
+// Inbox
+// ============================================================
+
+export const NOTIFICATION_INBOX_LIMIT = 50;
+
+// A row of the `notifications` table
+export type NotificationRow = {
+  notification_id: string;
+  user_id: string;
+  app: PushApp;
+  event_id?: string | null;
+  kind: PushEventKind;
+  service_id: string | null;
+  title: string;
+  body: string;
+  target: PushTarget;
+  read_at: string | null;
+  created_at: string;
+};
+
+// Null for notifications that are not about a job
+export const notificationData = (notification: NotificationRow): PushNotificationData | null =>
+  notification.service_id
+    ? { kind: notification.kind, serviceId: notification.service_id, target: notification.target }
+    : null;
+
+// Newest first
+export const fetchNotifications = async (
+  client: SupabaseClient,
+  userId: string,
+  app: PushApp,
+  limit = NOTIFICATION_INBOX_LIMIT,
+): Promise<NotificationRow[]> => {
+  const { data, error } = await client
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('app', app)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data as NotificationRow[] | null) ?? [];
+};
+
+export const markNotificationRead = async (client: SupabaseClient, notificationId: string): Promise<void> => {
+  const { error } = await client
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('notification_id', notificationId)
+    .is('read_at', null);
+  if (error) throw error;
+};
+
+export const markAllNotificationsRead = async (client: SupabaseClient, userId: string, app: PushApp): Promise<void> => {
+  const { error } = await client
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('app', app)
+    .is('read_at', null);
+  if (error) throw error;
+};
@@ -0,0 +1,185 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  buildPriceBreakdown,
+  buildQuoteBreakdown,
+  calculateQuote,
+  RATE_CARDS,
+  resolvePricingServiceKey,
+} from './pricing.ts';
+import type { PricingServiceKey } from './pricing.ts';
+
+const componentAmount = (quote: ReturnType<typeof calculateQuote>, key: string) =>
+  quote.components.find(component => component.key === key)?.amount;
+
+describe('calculateQuote', () => {
+  it('prices each service from its own rate card', () => {
+    assert.equal(calculateQuote({ service: 'moving' }).amount, 200);
+    assert.equal(calculateQuote({ service: 'cleaning', tier: 'basic' }).amount, 30);
+    assert.equal(calculateQuote({ service: 'cleaning', tier: 'deep' }).amount, 55);
+    assert.equal(calculateQuote({ service: 'wall-mounting', tier: 'deep' }).amount, 90);
+    assert.equal(calculateQuote({ service: 'furniture-assembly', tier: 'complex' }).amount, 80);
+    assert.equal(calculateQuote({ service: 'home-improvement', tier: 'renovation' }).amount, 65);
+    assert.equal(calculateQuote({ service: 'custom', tier: 'simple' }).amount, 75);
+  });
+
+  it('falls back to the default tier for unknown tiers', () => {
+    assert.equal(calculateQuote({ service: 'cleaning', tier: 'sparkling' }).amount, 30);
+    assert.equal(calculateQuote({ service: 'custom', tier: null }).amount, 150);
+  });
+
+  it('compounds the size multiplier per bedroom and caps the steps', () => {
+    const threeBedroom = calculateQuote({ service: 'cleaning', tier: 'deep', apartmentSize: '3 bedroom' });
+    assert.equal(componentAmount(threeBedroom, 'size'), 66);
+    assert.equal(threeBedroom.amount, 121);
+
+    const sixBedroom = calculateQuote({ service: 'cleaning', tier: 'deep', apartmentSize: '6 bedroom' });
+    const fourBedroom = calculateQuote({ service: 'cleaning', tier: 'deep', apartmentSize: '4 bedroom' });
+    assert.equal(sixBedroom.amount, fourBedroom.amount);
+
+    assert.equal(componentAmount(calculateQuote({ service: 'custom', apartmentSize: '3 bedroom' }), 'size'), undefined);
+  });
+
+  it('adds moving surcharges, billable miles and drive time', () => {
+    const quote = calculateQuote({
+      service: 'moving',
+      needsTruck: true,
+      needsPacking: true,
+      distanceMiles: 10,
+      durationMinutes: 20,
+    });
+    assert.equal(componentAmount(quote, 'truck'), 150);
+    assert.equal(componentAmount(quote, 'packing'), 60);
+    assert.equal(componentAmount(quote, 'distance'), 38);
+    assert.equal(componentAmount(quote, 'time'), 20);
+    assert.equal(quote.amount, 468);
+    assert.equal(quote.note, null);
+  });
+
+  it('ignores truck, packing and drive time on services that do not charge them', () => {
+    const quote = calculateQuote({ service: 'cleaning', needsTruck: true, needsPacking: true, distanceMiles: 10, durationMinutes: 20 });
+    assert.deepEqual(quote.components.map(component => component.key), ['base']);
+  });
+
+  it('only bills custom jobs for miles beyond the included mile', () => {
+    assert.equal(componentAmount(calculateQuote({ service: 'custom', distanceMiles: 0.8 }), 'distance'), undefined);
+    assert.equal(componentAmount(calculateQuote({ service: 'custom', distanceMiles: 6 }), 'distance'), 10);
+  });
+
+  it('explains the short distance rate for moves under half a mile', () => {
+    const quote = calculateQuote({ service: 'moving', distanceMiles: 0.3, durationMinutes: 7 });
+    assert.equal(componentAmount(quote, 'distance'), undefined);
+    assert.equal(quote.amount, 207);
+    assert.equal(quote.note, 'Short distance rate: base + $7 (7 min drive)');
+
+    assert.equal(calculateQuote({ service: 'moving', distanceMiles: 0.3 }).note, null);
+  });
+
+  it('clamps to the maximum job price and records the adjustment', () => {
+    const quote = calculateQuote({
+      service: 'moving',
+      apartmentSize: '5 bedroom',
+      needsTruck: true,
+      needsPacking: true,
+      distanceMiles: 500,
+      durationMinutes: 480,
+    });
+    const clamp = quote.components.find(component => component.key === 'clamp');
+    assert.equal(quote.amount, RATE_CARDS.moving.maxPrice);
+    assert.equal(clamp?.label, 'Maximum job price');
+    assert.equal(quote.components.reduce((sum, component) => sum + component.amount, 0), quote.amount);
+  });
+
+  it('keeps every service within its price bounds', () => {
+    for (const service of Object.keys(RATE_CARDS) as PricingServiceKey[]) {
+      const card = RATE_CARDS[service];
+      for (const tier of Object.keys(card.tierBaseRates)) {
+        const smallest = calculateQuote({ service, tier });
+        const largest = calculateQuote({
+          service,
+          tier,
+          apartmentSize: '6 bedroom',
+          needsTruck: true,
+          needsPacking: true,
+          distanceMiles: 1000,
+          durationMinutes: 1000,
+        });
+        assert.ok(smallest.amount >= card.minPrice, `${service}/${tier} is below its minimum`);
+        assert.ok(largest.amount <= card.maxPrice, `${service}/${tier} is above its maximum`);
+      }
+    }
+  });
+});
+
+describe('resolvePricingServiceKey', () => {
+  it('maps service types to rate cards and everything else to custom', () => {
+    assert.equal(resolvePricingServiceKey('Moving'), 'moving');
+    assert.equal(resolvePricingServiceKey('wall mounting'), 'wall-mounting');
+    assert.equal(resolvePricingServiceKey('furniture_assembly'), 'furniture-assembly');
+    assert.equal(resolvePricingServiceKey('customService'), 'custom');
+    assert.equal(resolvePricingServiceKey(null), 'custom');
+  });
+});
+
+describe('buildQuoteBreakdown', () => {
+  it('groups components into line items and adds fees on the quoted amount', () => {
+    const quote = calculateQuote({
+      service: 'moving',
+      apartmentSize: '3 bedroom',
+      needsTruck: true,
+      distanceMiles: 10,
+      durationMinutes: 20,
+    });
+    const breakdown = buildQuoteBreakdown(quote);
+
+    assert.deepEqual(breakdown.items, [
+      { kind: 'base', label: 'Base rate', amount: 304 },
+      { kind: 'truck', label: 'Moving truck', amount: 150 },
+      { kind: 'distance', label: 'Distance (10.0 mi)', amount: 38 },
+      { kind: 'time', label: 'Drive time (20 min)', amount: 20 },
+      { kind: 'processing_fee', label: 'Payment Processing (3%)', amount: 15.36 },
+      { kind: 'platform_fee', label: 'Platform Fee (1%)', amount: 5.12 },
+    ]);
+    assert.equal(breakdown.subtotal, 512);
+    assert.equal(breakdown.total, 532.48);
+  });
+
+  it('folds the price clamp into the base rate so the items add up to the quote', () => {
+    const quote = calculateQuote({ service: 'moving', distanceMiles: 500 });
+    const breakdown = buildQuoteBreakdown(quote, { processingFeeRate: 0, platformFeeRate: 0, taxRate: 0 });
+
+    assert.equal(breakdown.items.reduce((sum, item) => sum + item.amount, 0), quote.amount);
+    assert.equal(breakdown.total, RATE_CARDS.moving.maxPrice);
+  });
+});
+
+describe('buildPriceBreakdown', () => {
+  it('adds tax when the fee schedule charges it', () => {
+    const breakdown = buildPriceBreakdown({
+      subtotal: 100,
+      fees: { processingFeeRate: 0.03, platformFeeRate: 0, taxRate: 0.0825 },
+    });
+    assert.deepEqual(breakdown.items.map(item => item.kind), ['base', 'processing_fee', 'tax']);
+    assert.equal(breakdown.total, 111.25);
+  });
+
+  it('caps discounts at the service subtotal', () => {
+    const breakdown = buildPriceBreakdown({
+      subtotal: 100,
+      discounts: [
+        { label: 'Promo', amount: 30 },
+        { label: 'Credit', amount: -100 },
+        { label: 'Referral', amount: 15 },
+      ],
+    });
+    const discounts = breakdown.items.filter(item => item.kind === 'discount');
+
+    assert.deepEqual(discounts, [
+      { kind: 'discount', label: 'Promo', amount: -30 },
+      { kind: 'discount', label: 'Credit', amount: -70 },
+    ]);
+    // Fees are still owed on the full subtotal
+    assert.equal(breakdown.total, 4);
+  });
+});
@@ -0,0 +1,348 @@
+// Rule-based pricing engine shared by every service screen and the quoting edge functions,
+// so quotes are computed with exactly the same rate cards everywhere.
+
+import { parseSizeSteps } from './estimates.ts';
+import { DEFAULT_FEE_SCHEDULE } from './fees.ts';
+import type { CustomerFeeRates } from './fees.ts';
+
+export type PricingServiceKey =
+  | 'moving'
+  | 'cleaning'
+  | 'wall-mounting'
+  | 'furniture-assembly'
+  | 'home-improvement'
+  | 'custom';
+
+export type RateCard = {
+  service: PricingServiceKey;
+  label: string;
+  // Base rate per tier (e.g. basic / deep cleaning). `default` is used when no tier is given.
+  tierBaseRates: Record<string, number>;
+  // Compounding increase applied per bedroom step above a studio.
+  sizeStepMultiplier: number;
+  maxSizeSteps: number;
+  truckSurcharge: number;
+  packingSurcharge: number;
+  perMile: number;
+  includedMiles: number;
+  perMinute: number;
+  minPrice: number;
+  maxPrice: number;
+};
+
+export type PricingInputs = {
+  service: PricingServiceKey;
+  tier?: string | null;
+  apartmentSize?: string | null;
+  needsTruck?: boolean;
+  needsPacking?: boolean;
+  distanceMiles?: number | null;
+  durationMinutes?: number | null;
+};
+
+export type PriceComponent = {
+  key: 'base' | 'size' | 'truck' | 'packing' | 'distance' | 'time' | 'clamp';
+  label: string;
+  amount: number;
+};
+
+export type PriceQuote = {
+  service: PricingServiceKey;
+  amount: number;
+  components: PriceComponent[];
+  note: string | null;
+  rateCardVersion: string;
+};
+
+export const RATE_CARD_VERSION = '2025-01';
+
+const SHORT_DISTANCE_MILES = 0.5;
+
+export const RATE_CARDS: Record<PricingServiceKey, RateCard> = {
+  moving: {
+    service: 'moving',
+    label: 'Moving',
+    tierBaseRates: { default: 200 },
+    sizeStepMultiplier: 0.15,
+    maxSizeSteps: 5,
+    truckSurcharge: 150,
+    packingSurcharge: 60,
+    perMile: 4,
+    includedMiles: SHORT_DISTANCE_MILES,
+    perMinute: 1,
+    minPrice: 200,
+    maxPrice: 1800,
+  },
+  cleaning: {
+    service: 'cleaning',
+    label: 'Cleaning',
+    tierBaseRates: { default: 30, basic: 30, deep: 55 },
+    sizeStepMultiplier: 0.3,
+    maxSizeSteps: 4,
+    truckSurcharge: 0,
+    packingSurcharge: 0,
+    perMile: 0,
+    includedMiles: 0,
+    perMinute: 0,
+    minPrice: 20,
+    maxPrice: 250,
+  },
+  'wall-mounting': {
+    service: 'wall-mounting',
+    label: 'Wall Mounting',
+    tierBaseRates: { default: 60, basic: 60, deep: 90 },
+    sizeStepMultiplier: 0.2,
+    maxSizeSteps: 4,
+    truckSurcharge: 0,
+    packingSurcharge: 0,
+    perMile: 0,
+    includedMiles: 0,
+    perMinute: 0,
+    minPrice: 40,
+    maxPrice: 300,
+  },
+  'furniture-assembly': {
+    service: 'furniture-assembly',
+    label: 'Furniture Assembly',
+    tierBaseRates: { default: 45, simple: 45, complex: 80 },
+    sizeStepMultiplier: 0.25,
+    maxSizeSteps: 4,
+    truckSurcharge: 0,
+    packingSurcharge: 0,
+    perMile: 0,
+    includedMiles: 0,
+    perMinute: 0,
+    minPrice: 30,
+    maxPrice: 300,
+  },
+  'home-improvement': {
+    service: 'home-improvement',
+    label: 'Home Improvement',
+    tierBaseRates: { default: 35, repair: 35, renovation: 65 },
+    sizeStepMultiplier: 0.3,
+    maxSizeSteps: 4,
+    truckSurcharge: 0,
+    packingSurcharge: 0,
+    perMile: 0,
+    includedMiles: 0,
+    perMinute: 0,
+    minPrice: 20,
+    maxPrice: 250,
+  },
+  custom: {
+    service: 'custom',
+    label: 'Custom Service',
+    tierBaseRates: { default: 150, simple: 75, medium: 150, complex: 350 },
+    sizeStepMultiplier: 0,
+    maxSizeSteps: 0,
+    truckSurcharge: 0,
+    packingSurcharge: 0,
+    perMile: 2,
+    includedMiles: 1,
+    perMinute: 0,
+    minPrice: 50,
+    maxPrice: 800,
+  },
+};
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const roundCurrency = (value: number): number => Math.round(value);
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+export const estimateDistanceMiles = (
+  start: { latitude: number; longitude: number },
+  end: { latitude: number; longitude: number },
+): number => {
+  const toRadians = Math.PI / 180;
+  const earthRadiusMiles = 3958.8;
+  const deltaLat = (end.latitude - start.latitude) * toRadians;
+  const deltaLng = (end.longitude - start.longitude) * toRadians;
+  const a =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(start.latitude * toRadians) * Math.cos(end.latitude * toRadians) * Math.sin(deltaLng / 2) ** 2;
+  return 2 * earthRadiusMiles * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// ============================================================
+// Quote Calculation
+// ============================================================
+
+export const calculateQuote = (inputs: PricingInputs): PriceQuote => {
+  const card = RATE_CARDS[inputs.service];
+  const components: PriceComponent[] = [];
+  let note: string | null = null;
+
+  const tierKey = inputs.tier && card.tierBaseRates[inputs.tier] !== undefined ? inputs.tier : 'default';
+  const base = card.tierBaseRates[tierKey];
+  components.push({ key: 'base', label: `${card.label} base rate`, amount: base });
+
+  const sizeSteps = Math.min(parseSizeSteps(inputs.apartmentSize), card.maxSizeSteps);
+  if (sizeSteps > 0 && card.sizeStepMultiplier > 0) {
+    const sized = base * Math.pow(1 + card.sizeStepMultiplier, sizeSteps);
+    components.push({ key: 'size', label: `Size (${sizeSteps} bedroom${sizeSteps === 1 ? '' : 's'})`, amount: roundCurrency(sized - base) });
+  }
+
+  if (inputs.needsTruck && card.truckSurcharge > 0) {
+    components.push({ key: 'truck', label: 'Moving truck', amount: card.truckSurcharge });
+  }
+
+  if (inputs.needsPacking && card.packingSurcharge > 0) {
+    components.push({ key: 'packing', label: 'Packing help', amount: card.packingSurcharge });
+  }
+
+  const distanceMiles = inputs.distanceMiles ?? null;
+  const durationMinutes = inputs.durationMinutes ?? null;
+
+  if (distanceMiles !== null && card.perMile > 0) {
+    const billableMiles = Math.max(0, distanceMiles - card.includedMiles);
+    if (billableMiles > 0) {
+      components.push({ key: 'distance', label: `Distance (${distanceMiles.toFixed(1)} mi)`, amount: roundCurrency(billableMiles * card.perMile) });
+    }
+  }
+
+  if (durationMinutes !== null && card.perMinute > 0) {
+    const minutes = Math.round(durationMinutes);
+    components.push({ key: 'time', label: `Drive time (${minutes} min)`, amount: minutes * card.perMinute });
+    if (distanceMiles !== null && distanceMiles < SHORT_DISTANCE_MILES) {
+      note = `Short distance rate: base + $${minutes * card.perMinute} (${minutes} min drive)`;
+    }
+  }
+
+  const subtotal = components.reduce((sum, component) => sum + component.amount, 0);
+  const clamped = clamp(roundCurrency(subtotal), card.minPrice, card.maxPrice);
+  if (clamped !== roundCurrency(subtotal)) {
+    components.push({ key: 'clamp', label: clamped > subtotal ? 'Minimum job price' : 'Maximum job price', amount: clamped - roundCurrency(subtotal) });
+  }
+
+  return {
+    service: inputs.service,
+    amount: clamped,
+    components,
+    note,
+    rateCardVersion: RATE_CARD_VERSION,
+  };
+};
+
+export const resolvePricingServiceKey = (serviceType?: string | null): PricingServiceKey => {
+  const normalized = (serviceType ?? '').toLowerCase().replace(/[\s_]+/g, '-');
+  if (normalized === 'moving') return 'moving';
+  if (normalized === 'cleaning') return 'cleaning';
+  if (normalized === 'wall-mounting') return 'wall-mounting';
+  if (normalized === 'furniture-assembly') return 'furniture-assembly';
+  if (normalized === 'home-improvement') return 'home-improvement';
+  return 'custom';
+};
+
+// ============================================================
+// Price Breakdown
+// ============================================================
+
+export type PriceLineItemKind =
+  | 'base'
+  | 'distance'
+  | 'time'
+  | 'truck'
+  | 'add_on'
+  | 'processing_fee'
+  | 'platform_fee'
+  | 'tax'
+  | 'discount';
+
+export type PriceLineItem = {
+  kind: PriceLineItemKind;
+  label: string;
+  amount: number;
+};
+
+export type PriceBreakdown = {
+  items: PriceLineItem[];
+  // Price of the work itself, before fees, tax and discounts
+  subtotal: number;
+  // The amount the customer is charged
+  total: number;
+};
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const COMPONENT_LINE_ITEM_KINDS: Record<PriceComponent['key'], PriceLineItemKind> = {
+  base: 'base',
+  size: 'base',
+  clamp: 'base',
+  distance: 'distance',
+  time: 'time',
+  truck: 'truck',
+  packing: 'add_on',
+};
+
+const formatRate = (rate: number): string => `${Math.round(rate * 1000) / 10}%`;
+
+/**
+ * Builds the itemized breakdown shown to the customer. Fees and tax are computed on the
+ * service subtotal, so the breakdown total is exactly what the booking flow charges.
+ * Pass the rates resolved from the fee schedule the service is booked under.
+ */
+export const buildPriceBreakdown = (input: {
+  subtotal: number;
+  // Line items that make up the subtotal; a single base item is used when omitted
+  items?: PriceLineItem[];
+  discounts?: { label: string; amount: number }[];
+  fees?: CustomerFeeRates;
+}): PriceBreakdown => {
+  const fees = input.fees ?? DEFAULT_FEE_SCHEDULE.defaults;
+  const subtotal = roundCents(input.subtotal);
+  const items: PriceLineItem[] = input.items?.length
+    ? input.items.map(item => ({ ...item, amount: roundCents(item.amount) }))
+    : [{ kind: 'base', label: 'Service', amount: subtotal }];
+
+  const processingFee = roundCents(subtotal * fees.processingFeeRate);
+  const platformFee = roundCents(subtotal * fees.platformFeeRate);
+  const tax = roundCents(subtotal * fees.taxRate);
+  if (processingFee > 0) {
+    items.push({ kind: 'processing_fee', label: `Payment Processing (${formatRate(fees.processingFeeRate)})`, amount: processingFee });
+  }
+  if (platformFee > 0) {
+    items.push({ kind: 'platform_fee', label: `Platform Fee (${formatRate(fees.platformFeeRate)})`, amount: platformFee });
+  }
+  if (tax > 0) {
+    items.push({ kind: 'tax', label: 'Tax', amount: tax });
+  }
+
+  let discountTotal = 0;
+  for (const discount of input.discounts ?? []) {
+    const amount = -Math.min(Math.abs(roundCents(discount.amount)), subtotal - discountTotal);
+    if (amount === 0) continue;
+    discountTotal -= amount;
+    items.push({ kind: 'discount', label: discount.label, amount });
+  }
+
+  return {
+    items,
+    subtotal,
+    total: roundCents(subtotal + processingFee + platformFee + tax - discountTotal),
+  };
+};
+
+/**
+ * Breakdown for an engine quote. Rate card components are grouped into customer-facing
+ * line items (size and complexity adjustments roll into the base rate).
+ */
+export const buildQuoteBreakdown = (
+  quote: Pick<PriceQuote, 'amount' | 'components'>,
+  fees?: CustomerFeeRates,
+): PriceBreakdown => {
+  const items: PriceLineItem[] = [];
+  for (const component of quote.components) {
+    const kind = COMPONENT_LINE_ITEM_KINDS[component.key];
+    const existing = items.find(item => item.kind === kind && kind !== 'add_on');
+    if (existing) {
+      existing.amount += component.amount;
+    } else {
+      items.push({ kind, label: kind === 'base' ? 'Base rate' : component.label, amount: component.amount });
+    }
+  }
+  return buildPriceBreakdown({ subtotal: quote.amount, items, fees });
+};
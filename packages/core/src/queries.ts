@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { ServiceStatusTimes } from './estimates.ts';
+import { DEFAULT_FEE_SCHEDULE } from './fees.ts';
+import type { FeeSchedule } from './fees.ts';
+import { assertServiceTransition } from './lifecycle.ts';
+import type { ServiceActor } from './lifecycle.ts';
+import { SERVICE_STATUS, normalizeServiceStatus } from './status.ts';
+import type { ServiceStatus } from './status.ts';
+import type { ServiceRow } from './types.ts';
+
+// Each app passes its own client; the edge functions pass a service-role client
+export const fetchService = async (client: SupabaseClient, serviceId: string): Promise<ServiceRow> => {
+  const { data, error } = await client.from('service').select('*').eq('service_id', serviceId).single();
+  if (error) throw error;
+  return data as ServiceRow;
+};
+
+export const fetchCustomerIdByEmail = async (client: SupabaseClient, email: string): Promise<string | null> => {
+  const { data, error } = await client.from('customer').select('customer_id').eq('email', email).maybeSingle();
+  if (error) throw error;
+  return data?.customer_id ?? null;
+};
+
+// Newest first; pass exactly one of the ids
+export const fetchCompletedServices = async (
+  client: SupabaseClient,
+  owner: { customerId: string } | { serviceProviderId: string },
+): Promise<ServiceRow[]> => {
+  const [column, id] = 'customerId' in owner
+    ? ['customer_id', owner.customerId]
+    : ['service_provider_id', owner.serviceProviderId];
+
+  const { data, error } = await client
+    .from('service')
+    .select('*')
+    .eq(column, id)
+    .eq('status', SERVICE_STATUS.Completed)
+    .order('date_of_creation', { ascending: false });
+
+  if (error) throw error;
+  return ((data ?? []) as ServiceRow[]).filter(service => Boolean(service?.service_id));
+};
+
+// The schedule in force now, or a specific version (e.g. the one a service was booked under)
+export const fetchFeeSchedule = async (client: SupabaseClient, version?: string | null): Promise<FeeSchedule> => {
+  let query = client
+    .from('fee_schedules')
+    .select('version, effective_from, defaults, service_overrides, promo_exemptions');
+
+  query = version
+    ? query.eq('version', version)
+    : query.lte('effective_from', new Date().toISOString()).order('effective_from', { ascending: false }).limit(1);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  if (!data) return DEFAULT_FEE_SCHEDULE;
+
+  return {
+    version: data.version,
+    effectiveFrom: data.effective_from,
+    defaults: { ...DEFAULT_FEE_SCHEDULE.defaults, ...data.defaults },
+    serviceOverrides: data.service_overrides ?? {},
+    promoExemptions: data.promo_exemptions ?? {},
+  };
+};
+
+export interface ServiceTransitionRequest {
+  serviceId: string;
+  from: ServiceStatus | ServiceStatus[];
+  to: ServiceStatus;
+  actor: ServiceActor;
+  // Other columns written in the same update (provider, price, schedule...)
+  changes?: Record<string, unknown>;
+}
+
+// Guarded on the current status so two racing writers cannot both win.
+// Resolves to false when the row had already moved on.
+export const transitionServiceStatus = async (
+  client: SupabaseClient,
+  { serviceId, from, to, actor, changes }: ServiceTransitionRequest,
+): Promise<boolean> => {
+  const fromStatuses = Array.isArray(from) ? from : [from];
+  fromStatuses.forEach(status => assertServiceTransition(status, to, actor));
+
+  const { data, error } = await client
+    .from('service')
+    .update({ ...changes, status: to })
+    .eq('service_id', serviceId)
+    .in('status', fromStatuses)
+    .select('status');
+
+  if (error) throw error;
+  return Boolean(data && data.length > 0);
+};
+
+// When the job last entered each status, for the arrival and finish estimates
+export const fetchServiceStatusTimes = async (client: SupabaseClient, serviceId: string): Promise<ServiceStatusTimes> => {
+  const { data, error } = await client
+    .from('service_status_events')
+    .select('to_status, created_at')
+    .eq('service_id', serviceId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).reduce<ServiceStatusTimes>((times, event) => {
+    const status = normalizeServiceStatus(event.to_status);
+    return status ? { ...times, [status]: event.created_at } : times;
+  }, {});
+};
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  describeRecurrence,
+  formatRecurrenceRule,
+  isValidRecurrenceRule,
+  listOccurrences,
+  parseRecurrenceRule,
+  RECURRENCE_PRESETS,
+} from './recurrence.ts';
+
+const toIso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('parseRecurrenceRule', () => {
+  it('parses the supported parts case-insensitively', () => {
+    assert.deepEqual(parseRecurrenceRule('RRULE:freq=weekly;interval=2;byday=TH,MO,MO;count=6'), {
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: [0, 3],
+      count: 6,
+      until: null,
+    });
+  });
+
+  it('reads a date-only UNTIL as the end of that day', () => {
+    assert.equal(parseRecurrenceRule('FREQ=DAILY;UNTIL=20261231').until?.toISOString(), '2026-12-31T23:59:59.000Z');
+  });
+
+  it('rejects rules outside the supported subset', () => {
+    for (const rule of [
+      'FREQ=YEARLY',
+      'FREQ=WEEKLY;INTERVAL=0',
+      'FREQ=MONTHLY;BYDAY=MO',
+      'FREQ=WEEKLY;BYDAY=XX',
+      'FREQ=WEEKLY;BYMONTH=3',
+      'FREQ=DAILY;COUNT=3;UNTIL=20261231',
+      'FREQ=DAILY;UNTIL=tomorrow',
+    ]) {
+      assert.throws(() => parseRecurrenceRule(rule), /^Error: invalid_rrule/, rule);
+      assert.equal(isValidRecurrenceRule(rule), false);
+    }
+  });
+
+  it('accepts every preset and round-trips through formatRecurrenceRule', () => {
+    for (const rule of Object.values(RECURRENCE_PRESETS)) {
+      assert.equal(formatRecurrenceRule(parseRecurrenceRule(rule)), rule);
+    }
+    const rule = 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH;UNTIL=20261231T235959Z';
+    assert.equal(formatRecurrenceRule(parseRecurrenceRule(rule)), rule);
+  });
+});
+
+describe('listOccurrences', () => {
+  const before = new Date('2027-06-01T00:00:00Z');
+
+  it('keeps the local time of the first booking across DST changes', () => {
+    const occurrences = listOccurrences('FREQ=WEEKLY;INTERVAL=1;COUNT=3', {
+      startsAt: '2026-10-22T13:00:00Z',
+      timeZone: 'America/New_York',
+      before,
+    });
+    // 9 AM EDT, then 9 AM EST once clocks go back on November 1
+    assert.deepEqual(toIso(occurrences), [
+      '2026-10-22T13:00:00.000Z',
+      '2026-10-29T13:00:00.000Z',
+      '2026-11-05T14:00:00.000Z',
+    ]);
+  });
+
+  it('books weekly BYDAY visits from the first booking onwards', () => {
+    // The first booking is a Thursday, so the Monday of that week is skipped
+    const occurrences = listOccurrences('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', {
+      startsAt: '2026-10-22T15:00:00Z',
+      timeZone: 'UTC',
+      before: new Date('2026-11-20T00:00:00Z'),
+    });
+    assert.deepEqual(toIso(occurrences), [
+      '2026-10-22T15:00:00.000Z',
+      '2026-11-02T15:00:00.000Z',
+      '2026-11-05T15:00:00.000Z',
+      '2026-11-16T15:00:00.000Z',
+      '2026-11-19T15:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the day of the first booking', () => {
+    const occurrences = listOccurrences('FREQ=MONTHLY;INTERVAL=1', {
+      startsAt: '2027-01-31T10:00:00Z',
+      timeZone: 'UTC',
+      before,
+    });
+    assert.deepEqual(toIso(occurrences), [
+      '2027-01-31T10:00:00.000Z',
+      '2027-03-31T10:00:00.000Z',
+      '2027-05-31T10:00:00.000Z',
+    ]);
+  });
+
+  it('counts occurrences before the window towards COUNT', () => {
+    const occurrences = listOccurrences('FREQ=DAILY;COUNT=4', {
+      startsAt: '2026-10-20T09:00:00Z',
+      timeZone: 'UTC',
+      after: new Date('2026-10-21T09:00:00Z'),
+      before,
+    });
+    assert.deepEqual(toIso(occurrences), ['2026-10-22T09:00:00.000Z', '2026-10-23T09:00:00.000Z']);
+  });
+
+  it('stops at UNTIL, the window and the limit', () => {
+    const window = { startsAt: '2026-10-20T09:00:00Z', timeZone: 'UTC', before };
+    assert.equal(listOccurrences('FREQ=DAILY;UNTIL=20261024', window).length, 5);
+    assert.equal(listOccurrences('FREQ=DAILY', { ...window, before: new Date('2026-10-22T09:00:00Z') }).length, 3);
+    assert.equal(listOccurrences('FREQ=DAILY', { ...window, limit: 10 }).length, 10);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes rules for the booking screens', () => {
+    assert.equal(describeRecurrence(RECURRENCE_PRESETS.weekly), 'Every week');
+    assert.equal(describeRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO'), 'Every 2 weeks on Mon, Thu');
+    assert.equal(describeRecurrence('FREQ=YEARLY'), 'Repeats');
+  });
+});
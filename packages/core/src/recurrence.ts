@@ -0,0 +1,298 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Recurring bookings. A `service_series` row is the template; the
+// generate-recurring-services function books each occurrence of its rule as an
+// ordinary `service` row a couple of weeks ahead.
+//
+// Rules use the iCalendar RRULE subset below. Occurrences keep the wall-clock time of the
+// first booking in the series' time zone, so a 9 AM cleaning stays at 9 AM across DST.
+//   FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (weekly only), COUNT, UNTIL
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // 0 = Monday ... 6 = Sunday; null repeats on the weekday of the first booking
+  byDay: number[] | null;
+  count: number | null;
+  until: Date | null;
+}
+
+export type RecurrencePreset = 'weekly' | 'biweekly' | 'monthly';
+
+export const RECURRENCE_PRESETS: Record<RecurrencePreset, string> = {
+  weekly: 'FREQ=WEEKLY;INTERVAL=1',
+  biweekly: 'FREQ=WEEKLY;INTERVAL=2',
+  monthly: 'FREQ=MONTHLY;INTERVAL=1',
+};
+
+export const RECURRENCE_PRESET_LABELS: Record<RecurrencePreset, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+};
+
+export type ServiceSeriesStatus = 'active' | 'paused' | 'ended';
+
+// A row of the `service_series` table
+export type ServiceSeriesRow = {
+  series_id: string;
+  customer_id: string;
+  service_type: string;
+  rrule: string;
+  time_zone: string;
+  starts_at: string;
+  status: ServiceSeriesStatus;
+  prefer_same_provider: boolean;
+  generated_through?: string | null;
+};
+
+export const INVALID_RRULE = 'invalid_rrule';
+
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+// Indexed like RecurrenceRule.byDay
+export const RECURRENCE_WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const SUPPORTED_PARTS = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL']);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const invalidRule = (rule: string, reason: string) => new Error(`${INVALID_RRULE}: ${reason} in "${rule}"`);
+
+const parseUntil = (value: string, rule: string): Date => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) throw invalidRule(rule, 'UNTIL must be YYYYMMDD or YYYYMMDDTHHMMSSZ');
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+  return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+};
+
+export const parseRecurrenceRule = (rule: string): RecurrenceRule => {
+  const parts = new Map<string, string>();
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, value] = part.split('=');
+    if (!key || !value) throw invalidRule(rule, `malformed part "${part}"`);
+    const name = key.trim().toUpperCase();
+    if (!SUPPORTED_PARTS.has(name)) throw invalidRule(rule, `${name} is not supported`);
+    parts.set(name, value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw invalidRule(rule, 'FREQ must be DAILY, WEEKLY or MONTHLY');
+  }
+
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  if (!Number.isInteger(interval) || interval < 1) throw invalidRule(rule, 'INTERVAL must be a positive integer');
+
+  const byDayValue = parts.get('BYDAY');
+  const byDay = byDayValue ? byDayValue.split(',').map(day => WEEKDAYS.indexOf(day.trim())) : null;
+  if (byDay && (freq !== 'WEEKLY' || byDay.some(day => day < 0))) {
+    throw invalidRule(rule, 'BYDAY takes MO-SU and only with FREQ=WEEKLY');
+  }
+
+  const countValue = parts.get('COUNT');
+  const count = countValue === undefined ? null : Number(countValue);
+  if (count !== null && (!Number.isInteger(count) || count < 1)) throw invalidRule(rule, 'COUNT must be a positive integer');
+
+  const untilValue = parts.get('UNTIL');
+  if (count !== null && untilValue) throw invalidRule(rule, 'COUNT and UNTIL cannot be combined');
+
+  return {
+    freq,
+    interval,
+    byDay: byDay ? Array.from(new Set(byDay)).sort((a, b) => a - b) : null,
+    count,
+    until: untilValue ? parseUntil(untilValue, rule) : null,
+  };
+};
+
+// The inverse of parseRecurrenceRule, for rules the customer builds in the app
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`, `INTERVAL=${rule.interval}`];
+  if (rule.byDay && rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.map(day => WEEKDAYS[day]).join(',')}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]|\.\d{3}/g, '')}`);
+  return parts.join(';');
+};
+
+export const isValidRecurrenceRule = (rule: string): boolean => {
+  try {
+    parseRecurrenceRule(rule);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+type WallClock = { year: number; month: number; day: number; hour: number; minute: number };
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+const getTimeZoneOffset = (instant: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  const wallAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallAsUtc - Math.floor(instant / 1000) * 1000;
+};
+
+const toWallClock = (instant: Date, timeZone: string): WallClock => {
+  const shifted = new Date(instant.getTime() + getTimeZoneOffset(instant.getTime(), timeZone));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth(),
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+  };
+};
+
+const fromWallClock = ({ year, month, day, hour, minute }: WallClock, timeZone: string): Date => {
+  const wallAsUtc = Date.UTC(year, month, day, hour, minute);
+  const firstGuess = wallAsUtc - getTimeZoneOffset(wallAsUtc, timeZone);
+  // Second pass picks up a DST change between the guess and the real instant
+  return new Date(wallAsUtc - getTimeZoneOffset(firstGuess, timeZone));
+};
+
+export interface OccurrenceWindow {
+  // First booking of the series; also the first occurrence
+  startsAt: string | Date;
+  timeZone: string;
+  // Exclusive lower bound; occurrences at or before it are skipped
+  after?: Date | null;
+  // Inclusive upper bound
+  before: Date;
+  limit?: number;
+}
+
+// Hard stop for rules whose window holds no occurrence (e.g. the 31st in short months)
+const MAX_ITERATIONS = 5000;
+
+export const listOccurrences = (rule: string | RecurrenceRule, window: OccurrenceWindow): Date[] => {
+  const parsed = typeof rule === 'string' ? parseRecurrenceRule(rule) : rule;
+  const start = new Date(window.startsAt);
+  const limit = window.limit ?? 100;
+  const wall = toWallClock(start, window.timeZone);
+  // Calendar days are handled as UTC midnights so day arithmetic ignores DST
+  const startDay = Date.UTC(wall.year, wall.month, wall.day);
+
+  const occurrences: Date[] = [];
+  let counted = 0;
+
+  // Returns false once the series or the window is exhausted
+  const visit = (day: number): boolean => {
+    const date = new Date(day);
+    const instant = fromWallClock(
+      { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate(), hour: wall.hour, minute: wall.minute },
+      window.timeZone,
+    );
+    if (parsed.count !== null && counted >= parsed.count) return false;
+    if (parsed.until && instant > parsed.until) return false;
+    if (instant > window.before) return false;
+
+    counted += 1;
+    if (!window.after || instant > window.after) {
+      occurrences.push(instant);
+    }
+    return occurrences.length < limit;
+  };
+
+  if (parsed.freq === 'DAILY') {
+    for (let step = 0; step < MAX_ITERATIONS; step += 1) {
+      if (!visit(startDay + step * parsed.interval * DAY_MS)) break;
+    }
+    return occurrences;
+  }
+
+  if (parsed.freq === 'WEEKLY') {
+    const startWeekday = (new Date(startDay).getUTCDay() + 6) % 7;
+    const weekStart = startDay - startWeekday * DAY_MS;
+    const days = parsed.byDay ?? [startWeekday];
+    for (let step = 0; step < MAX_ITERATIONS; step += 1) {
+      for (const weekday of days) {
+        const day = weekStart + (step * parsed.interval * 7 + weekday) * DAY_MS;
+        if (day < startDay) continue;
+        if (!visit(day)) return occurrences;
+      }
+    }
+    return occurrences;
+  }
+
+  // MONTHLY: same day of the month; months without that day are skipped
+  for (let step = 0; step < MAX_ITERATIONS; step += 1) {
+    const day = Date.UTC(wall.year, wall.month + step * parsed.interval, wall.day);
+    if (new Date(day).getUTCDate() !== wall.day) continue;
+    if (!visit(day)) break;
+  }
+  return occurrences;
+};
+
+// "Every 2 weeks on Mon, Thu"
+export const describeRecurrence = (rule: string): string => {
+  let parsed: RecurrenceRule;
+  try {
+    parsed = parseRecurrenceRule(rule);
+  } catch {
+    return 'Repeats';
+  }
+
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[parsed.freq];
+  const every = parsed.interval === 1 ? `Every ${unit}` : `Every ${parsed.interval} ${unit}s`;
+  const days = parsed.byDay ? ` on ${parsed.byDay.map(day => RECURRENCE_WEEKDAY_LABELS[day]).join(', ')}` : '';
+  return `${every}${days}`;
+};
+
+export interface CreateServiceSeriesRequest {
+  // The first booking; the series copies its terms and schedule
+  serviceId: string;
+  rrule: string;
+  timeZone: string;
+  // Offer each new occurrence to the helpr who last completed one before other helprs
+  preferSameProvider: boolean;
+}
+
+export const createServiceSeries = async (
+  client: SupabaseClient,
+  request: CreateServiceSeriesRequest,
+): Promise<ServiceSeriesRow> => {
+  parseRecurrenceRule(request.rrule);
+
+  const { data, error } = await client.rpc('create_service_series', {
+    p_service_id: request.serviceId,
+    p_rrule: request.rrule,
+    p_time_zone: request.timeZone,
+    p_prefer_same_provider: request.preferSameProvider,
+  });
+
+  if (error) throw error;
+  return data as ServiceSeriesRow;
+};
+
+export const fetchServiceSeries = async (client: SupabaseClient, seriesIds: string[]): Promise<ServiceSeriesRow[]> => {
+  if (seriesIds.length === 0) return [];
+
+  const { data, error } = await client
+    .from('service_series')
+    .select('series_id, customer_id, service_type, rrule, time_zone, starts_at, status, prefer_same_provider, generated_through')
+    .in('series_id', seriesIds);
+
+  if (error) throw error;
+  return (data ?? []) as ServiceSeriesRow[];
+};
+
+// Pausing stops new occurrences from being booked; ones already booked are kept
+export const setServiceSeriesStatus = async (
+  client: SupabaseClient,
+  seriesId: string,
+  status: Exclude<ServiceSeriesStatus, 'ended'>,
+): Promise<void> => {
+  const { error } = await client.from('service_series').update({ status }).eq('series_id', seriesId);
+  if (error) throw error;
+};
@@ -0,0 +1,240 @@
+// Service areas as a GeoJSON FeatureCollection, the single source for both apps and the
+// edge functions. Coordinates follow GeoJSON order: [longitude, latitude].
+import type { ServiceAreaCollection } from './serviceAreas.ts';
+
+export const SERVICE_AREA_COLLECTION: ServiceAreaCollection = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { id: 'manhattan', name: 'Manhattan', region: 'New York City' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-74.0195, 40.6995],
+            [-73.999, 40.708],
+            [-73.976, 40.711],
+            [-73.971, 40.727],
+            [-73.971, 40.744],
+            [-73.956, 40.76],
+            [-73.942, 40.776],
+            [-73.929, 40.795],
+            [-73.933, 40.81],
+            [-73.933, 40.835],
+            [-73.909, 40.872],
+            [-73.922, 40.88],
+            [-73.933, 40.872],
+            [-73.948, 40.85],
+            [-73.962, 40.82],
+            [-73.988, 40.78],
+            [-74.003, 40.76],
+            [-74.013, 40.73],
+            [-74.019, 40.71],
+            [-74.0195, 40.6995],
+          ],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { id: 'brooklyn', name: 'Brooklyn', region: 'New York City' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-73.962, 40.738],
+            [-73.925, 40.737],
+            [-73.903, 40.703],
+            [-73.868, 40.695],
+            [-73.855, 40.65],
+            [-73.889, 40.617],
+            [-73.905, 40.6],
+            [-73.935, 40.575],
+            [-73.99, 40.57],
+            [-74.012, 40.577],
+            [-74.005, 40.595],
+            [-74.038, 40.607],
+            [-74.043, 40.625],
+            [-74.025, 40.652],
+            [-74.018, 40.673],
+            [-73.999, 40.695],
+            [-73.99, 40.705],
+            [-73.968, 40.712],
+            [-73.962, 40.738],
+          ],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { id: 'queens', name: 'Queens', region: 'New York City' },
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [
+          [
+            [
+              [-73.962, 40.738],
+              [-73.958, 40.755],
+              [-73.94, 40.775],
+              [-73.912, 40.79],
+              [-73.89, 40.785],
+              [-73.835, 40.8],
+              [-73.795, 40.8],
+              [-73.77, 40.795],
+              [-73.752, 40.78],
+              [-73.7, 40.752],
+              [-73.727, 40.72],
+              [-73.725, 40.668],
+              [-73.745, 40.635],
+              [-73.79, 40.622],
+              [-73.83, 40.64],
+              [-73.855, 40.65],
+              [-73.868, 40.695],
+              [-73.903, 40.703],
+              [-73.925, 40.737],
+              [-73.962, 40.738],
+            ],
+          ],
+          [
+            [
+              [-73.945, 40.54],
+              [-73.74, 40.585],
+              [-73.745, 40.61],
+              [-73.83, 40.59],
+              [-73.945, 40.56],
+              [-73.945, 40.54],
+            ],
+          ],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { id: 'bronx', name: 'Bronx', region: 'New York City' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-73.93, 40.8],
+            [-73.934, 40.835],
+            [-73.912, 40.872],
+            [-73.92, 40.882],
+            [-73.917, 40.912],
+            [-73.855, 40.905],
+            [-73.827, 40.888],
+            [-73.78, 40.88],
+            [-73.785, 40.845],
+            [-73.792, 40.805],
+            [-73.855, 40.805],
+            [-73.88, 40.805],
+            [-73.9, 40.798],
+            [-73.93, 40.8],
+          ],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { id: 'staten-island', name: 'Staten Island', region: 'New York City' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-74.072, 40.648],
+            [-74.058, 40.605],
+            [-74.085, 40.57],
+            [-74.13, 40.542],
+            [-74.255, 40.497],
+            [-74.24, 40.53],
+            [-74.21, 40.56],
+            [-74.195, 40.59],
+            [-74.205, 40.63],
+            [-74.18, 40.645],
+            [-74.12, 40.645],
+            [-74.072, 40.648],
+          ],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { id: 'westchester', name: 'Westchester County', region: 'New York' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-73.917, 40.912],
+            [-73.903, 40.935],
+            [-73.878, 41.01],
+            [-73.87, 41.075],
+            [-73.87, 41.16],
+            [-73.915, 41.2],
+            [-73.945, 41.29],
+            [-73.985, 41.322],
+            [-73.96, 41.366],
+            [-73.545, 41.366],
+            [-73.482, 41.212],
+            [-73.728, 41.1],
+            [-73.657, 40.99],
+            [-73.68, 40.955],
+            [-73.73, 40.935],
+            [-73.78, 40.885],
+            [-73.827, 40.888],
+            [-73.855, 40.905],
+            [-73.917, 40.912],
+          ],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { id: 'hudson-county', name: 'Hudson County', region: 'New Jersey' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-74.09, 40.645],
+            [-74.14, 40.645],
+            [-74.135, 40.7],
+            [-74.165, 40.76],
+            [-74.13, 40.79],
+            [-74.01, 40.825],
+            [-73.995, 40.81],
+            [-74.022, 40.77],
+            [-74.026, 40.74],
+            [-74.035, 40.71],
+            [-74.045, 40.69],
+            [-74.07, 40.66],
+            [-74.09, 40.645],
+          ],
+        ],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { id: 'bergen-county', name: 'Bergen County', region: 'New Jersey' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-74.13, 40.79],
+            [-74.01, 40.825],
+            [-73.975, 40.83],
+            [-73.958, 40.85],
+            [-73.92, 40.95],
+            [-73.905, 41.0],
+            [-74.05, 41.06],
+            [-74.21, 41.133],
+            [-74.27, 41.095],
+            [-74.25, 41.0],
+            [-74.17, 40.92],
+            [-74.15, 40.85],
+            [-74.125, 40.76],
+            [-74.13, 40.79],
+          ],
+        ],
+      },
+    },
+  ],
+};
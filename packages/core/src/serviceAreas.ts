@@ -0,0 +1,65 @@
+// Point-in-polygon checks against the service areas in serviceAreaData.ts. The zone a job
+// falls in is worked out again by create-quote, so quotes record it without trusting the app.
+import { SERVICE_AREA_COLLECTION } from './serviceAreaData.ts';
+import type { Coordinate } from './types.ts';
+
+type Position = number[];
+
+type ServiceAreaGeometry =
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+export type ServiceZone = {
+  id: string;
+  name: string;
+  region: string;
+};
+
+type ServiceAreaFeature = {
+  type: 'Feature';
+  properties: ServiceZone;
+  geometry: ServiceAreaGeometry;
+};
+
+export type ServiceAreaCollection = {
+  type: 'FeatureCollection';
+  features: ServiceAreaFeature[];
+};
+
+export const SERVICE_ZONES: ServiceZone[] = SERVICE_AREA_COLLECTION.features.map(feature => feature.properties);
+
+// Ray casting; points exactly on an edge may fall on either side
+const isPointInRing = (longitude: number, latitude: number, ring: Position[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses = yi > latitude !== yj > latitude && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+// The first ring is the outer boundary; any further rings are holes
+const isPointInPolygon = (longitude: number, latitude: number, polygon: Position[][]): boolean => {
+  if (polygon.length === 0 || !isPointInRing(longitude, latitude, polygon[0])) return false;
+  return !polygon.slice(1).some(hole => isPointInRing(longitude, latitude, hole));
+};
+
+const isPointInGeometry = (coordinate: Coordinate, geometry: ServiceAreaGeometry): boolean => {
+  const { longitude, latitude } = coordinate;
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.some(polygon => isPointInPolygon(longitude, latitude, polygon));
+};
+
+/**
+ * Returns the service zone containing the coordinate, or null when it is outside
+ * every zone. The result is truthy exactly when the coordinate is serviceable.
+ */
+export const isWithinServiceArea = (coordinate: Coordinate | undefined | null): ServiceZone | null => {
+  if (!coordinate || !Number.isFinite(coordinate.latitude) || !Number.isFinite(coordinate.longitude)) {
+    return null;
+  }
+  const feature = SERVICE_AREA_COLLECTION.features.find(candidate => isPointInGeometry(coordinate, candidate.geometry));
+  return feature ? feature.properties : null;
+};
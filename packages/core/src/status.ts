@@ -0,0 +1,51 @@
+export const SERVICE_STATUS = {
+  FindingPros: 'finding_pros',
+  SelectServiceProvider: 'select_service_provider',
+  Pending: 'pending',
+  Scheduled: 'scheduled',
+  Confirmed: 'confirmed',
+  HelprOtw: 'helpr_otw',
+  InProgress: 'in_progress',
+  Completed: 'completed',
+  Cancelled: 'cancelled',
+} as const;
+
+export type ServiceStatus = (typeof SERVICE_STATUS)[keyof typeof SERVICE_STATUS];
+
+// Statuses of requests that have not finished yet
+export const OPEN_SERVICE_STATUSES: ServiceStatus[] = [
+  SERVICE_STATUS.FindingPros,
+  SERVICE_STATUS.Pending,
+  SERVICE_STATUS.Scheduled,
+  SERVICE_STATUS.Confirmed,
+  SERVICE_STATUS.HelprOtw,
+  SERVICE_STATUS.InProgress,
+  SERVICE_STATUS.SelectServiceProvider,
+];
+
+// Statuses where a helpr has been assigned and the job is under way or about to be
+export const ASSIGNED_SERVICE_STATUSES: ServiceStatus[] = [
+  SERVICE_STATUS.Confirmed,
+  SERVICE_STATUS.HelprOtw,
+  SERVICE_STATUS.InProgress,
+];
+
+export const SERVICE_STATUS_LABELS: Record<ServiceStatus, string> = {
+  finding_pros: 'Finding Pros',
+  select_service_provider: 'Select a Pro',
+  pending: 'Pending',
+  scheduled: 'Scheduled',
+  confirmed: 'Confirmed',
+  helpr_otw: 'On the Way',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const KNOWN_STATUSES = new Set<string>(Object.values(SERVICE_STATUS));
+
+// Rows written by older builds use mixed case; unknown values map to null
+export const normalizeServiceStatus = (status?: string | null): ServiceStatus | null => {
+  const normalized = status?.trim().toLowerCase() ?? '';
+  return KNOWN_STATUSES.has(normalized) ? (normalized as ServiceStatus) : null;
+};
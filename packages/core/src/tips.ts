@@ -0,0 +1,108 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Tips after a completed job. send-tip charges the customer's saved card as a destination
+// charge, so the whole tip lands in the helpr's Connect account with no platform fee taken;
+// `service_tip` keeps one tip per job (see the service_tips migration).
+
+// Offered as a share of the job price
+export const TIP_PRESET_PERCENTS = [15, 20, 25] as const;
+export const MIN_TIP_AMOUNT = 1;
+export const MAX_TIP_AMOUNT = 500;
+
+// A row of the `service_tip` table
+export type ServiceTipRow = {
+  tip_id: string;
+  service_id: string;
+  customer_id: string;
+  service_provider_id: string;
+  amount: number | string;
+  // Null for custom amounts
+  percent?: number | null;
+  payment_intent_id: string;
+  created_at: string;
+};
+
+export interface SendTipRequest {
+  serviceId: string;
+  amount: number;
+  // The preset the amount came from, if any
+  percent?: number | null;
+  // Stripe payment method id of one of the customer's saved cards
+  paymentMethodId: string;
+}
+
+export type SendTipErrorCode =
+  | 'not_authenticated'
+  | 'invalid_request'
+  | 'invalid_amount'
+  | 'service_not_found'
+  | 'not_completed'
+  | 'already_tipped'
+  | 'helpr_not_payable'
+  | 'payment_failed'
+  | 'server_error';
+
+export type SendTipResult =
+  | { status: 'tipped'; serviceId: string; amount: number; paymentIntentId: string }
+  // The card needs 3-D Secure: confirm the client secret, then call again with the same request
+  | { status: 'requires_action'; clientSecret: string }
+  | { status: 'failed'; code: SendTipErrorCode; message: string };
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+export const calculateTipAmount = (jobPrice: number | string | null | undefined, percent: number): number => {
+  const price = Number(jobPrice ?? 0);
+  return Number.isFinite(price) && price > 0 ? roundCents((price * percent) / 100) : 0;
+};
+
+// Null when the amount can be sent
+export const validateTipAmount = (amount: number): string | null => {
+  if (!Number.isFinite(amount) || amount < MIN_TIP_AMOUNT) {
+    return `Tips start at $${MIN_TIP_AMOUNT}.`;
+  }
+  if (amount > MAX_TIP_AMOUNT) {
+    return `Tips are limited to $${MAX_TIP_AMOUNT}.`;
+  }
+  if (roundCents(amount) !== amount) {
+    return 'Enter an amount in dollars and cents.';
+  }
+  return null;
+};
+
+const isSendTipResult = (value: unknown): value is SendTipResult =>
+  typeof value === 'object' && value !== null && typeof (value as { status?: unknown }).status === 'string';
+
+// Safe to retry: send-tip is idempotent per service, amount and card
+export const sendTip = async (client: SupabaseClient, request: SendTipRequest): Promise<SendTipResult> => {
+  const { data, error } = await client.functions.invoke('send-tip', { body: request });
+
+  if (error) {
+    const body = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    if (isSendTipResult(body)) return body;
+    return { status: 'failed', code: 'server_error', message: 'We could not reach the payment service. Please try again.' };
+  }
+
+  return isSendTipResult(data)
+    ? data
+    : { status: 'failed', code: 'server_error', message: 'Unexpected response from the payment service.' };
+};
+
+export const fetchServiceTip = async (client: SupabaseClient, serviceId: string): Promise<ServiceTipRow | null> => {
+  const { data, error } = await client.from('service_tip').select('*').eq('service_id', serviceId).maybeSingle();
+  if (error) throw error;
+  return (data as ServiceTipRow | null) ?? null;
+};
+
+// Tips on a helpr's jobs, keyed by service id
+export const fetchProviderTips = async (
+  client: SupabaseClient,
+  serviceProviderId: string,
+): Promise<Record<string, number>> => {
+  const { data, error } = await client
+    .from('service_tip')
+    .select('service_id, amount')
+    .eq('service_provider_id', serviceProviderId);
+
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).map(tip => [tip.service_id as string, Number(tip.amount)]));
+};
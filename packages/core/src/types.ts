@@ -0,0 +1,60 @@
+import type { ServiceStatus } from './status.ts';
+
+export type Coordinate = {
+  latitude: number;
+  longitude: number;
+};
+
+// A geocoded address as shown on the maps in both apps
+export type LocationData = {
+  coordinate: Coordinate;
+  description: string;
+};
+
+// A row of the `service` table
+export type ServiceRow = {
+  service_id: string;
+  customer_id?: string | null;
+  service_type?: string | null;
+  status?: ServiceStatus | string | null;
+  scheduling_type?: string | null;
+  scheduled_date_time?: string | null;
+  date_of_creation?: string | null;
+  start_location?: string | null;
+  end_location?: string | null;
+  location?: string | null;
+  // Geocoded addresses, copied from the quote the job was booked with
+  start_latitude?: number | null;
+  start_longitude?: number | null;
+  end_latitude?: number | null;
+  end_longitude?: number | null;
+  price?: number | null;
+  quote_id?: string | null;
+  fee_schedule_version?: string | null;
+  start_datetime?: string | null;
+  end_datetime?: string | null;
+  payment_method_type?: string | null;
+  autofill_type?: string | null;
+  description?: string | null;
+  service_provider_id?: string | null;
+  provider_rating?: number | null;
+  provider_review?: string | null;
+  customer_rating?: number | null;
+  customer_review?: string | null;
+  cancelled_at?: string | null;
+  cancellation_reason?: string | null;
+  // Set on occurrences of a recurring booking (see recurrence.ts)
+  series_id?: string | null;
+  occurrence_at?: string | null;
+  // Helpr who gets the first chance at a recurring occurrence, until the offer expires
+  offered_to_provider_id?: string | null;
+  offer_expires_at?: string | null;
+  // Hands-on minutes, copied from the quote (see estimates.ts)
+  estimated_minutes_min?: number | null;
+  estimated_minutes_max?: number | null;
+  // Dispute evidence: when and where the helpr reached the job, and when work started
+  arrived_at?: string | null;
+  arrival_latitude?: number | null;
+  arrival_longitude?: number | null;
+  started_at?: string | null;
+};